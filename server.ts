@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import dotenv from 'dotenv';
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { createServer as createViteServer } from 'vite';
+import {
+  createCahierTemplateStore, createCampaignStore, createDocumentTemplateStore, createEnvironmentStore, createPrintRuleStore,
+  createSnippetStore, createStore, createTemplateStore, openDatabase
+} from './server/db.ts';
+import {
+  createAssistantRouter, createCahierRouter, createCahierTemplateRouter, createCampaignRouter,
+  createDocumentTemplateRouter, createEnvironmentRouter, createJiraRouter, createPrintRuleRouter, createSnippetRouter,
+  createTemplateRouter
+} from './server/routes.ts';
+import { createJiraClient, jiraConfigFromEnv } from './server/jira.ts';
+import { assistantProviderFromEnv } from './server/assistant.ts';
+
+// .env.local (non versionné) prime sur .env
+dotenv.config({ path: ['.env.local', '.env'] });
+
+const PORT = Number(process.env.PORT) || 3000;
+const DB_PATH = process.env.DB_PATH || path.resolve('data', 'cahiers.db');
+
+async function startServer() {
+  fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+  const db = openDatabase(DB_PATH);
+
+  const app = express();
+  const cahierStore = createStore(db);
+  app.use('/api/cahiers', createCahierRouter(cahierStore));
+  app.use('/api/query-templates', createTemplateRouter(createTemplateStore(db)));
+  app.use('/api/document-templates', createDocumentTemplateRouter(createDocumentTemplateStore(db)));
+  app.use('/api/step-snippets', createSnippetRouter(createSnippetStore(db)));
+  app.use('/api/cahier-templates', createCahierTemplateRouter(createCahierTemplateStore(db)));
+  app.use('/api/environments', createEnvironmentRouter(createEnvironmentStore(db)));
+  app.use('/api/print-rules', createPrintRuleRouter(createPrintRuleStore(db)));
+  app.use('/api/campaigns', createCampaignRouter(createCampaignStore(db), cahierStore));
+  const jiraConfig = jiraConfigFromEnv();
+  app.use('/api/jira', createJiraRouter(jiraConfig && createJiraClient(jiraConfig)));
+  app.use('/api/assistant', createAssistantRouter(assistantProviderFromEnv()));
+
+  if (process.env.NODE_ENV !== 'production') {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa'
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.resolve('dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Serveur démarré sur http://localhost:${PORT}`);
+  });
+}
+
+startServer();
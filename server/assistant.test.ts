@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AssistantError, assistantProviderFromEnv, createStubProvider, type AssistantProvider } from './assistant.ts';
+import { createAssistantRouter } from './routes.ts';
+import { message } from '../src/i18n.ts';
+
+let server: Server | undefined;
+
+// Monte le routeur de l'assistant sur un port libre et renvoie son adresse
+const start = (provider: AssistantProvider | null) => new Promise<string>(resolve => {
+  const app = express();
+  app.use('/api/assistant', createAssistantRouter(provider));
+  server = app.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server!.address() as AddressInfo).port}/api/assistant`));
+});
+
+afterEach(async () => {
+  await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+  server = undefined;
+});
+
+const post = (url: string, body: unknown) => fetch(url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+});
+
+const STEP = { title: 'Calcul', status: 'OK', expectedResult: 'Montant juste', actualResult: 'Montant juste', anomalyRef: '' };
+
+describe('routes de l\'assistant', () => {
+  it('indique si l\'assistant est configuré', async () => {
+    expect(await (await fetch(`${await start(createStubProvider())}/config`)).json()).toEqual({ enabled: true });
+    await new Promise(resolve => server!.close(resolve));
+    expect(await (await fetch(`${await start(null)}/config`)).json()).toEqual({ enabled: false });
+  });
+
+  it('répond 503 quand l\'assistant n\'est pas configuré', async () => {
+    const response = await post(`${await start(null)}/steps`, { jiraName: 'Export', description: '', type: 'TMD' });
+    expect(response.status).toBe(503);
+    expect((await response.json()).error).toEqual({ key: 'error.assistantDisabled' });
+  });
+
+  it('propose des étapes selon le type de cahier', async () => {
+    const api = await start(createStubProvider());
+    const response = await post(`${api}/steps`, { jiraName: 'Export des congés', description: 'Lancer l\'export\nContrôler le fichier', type: 'TMD' });
+    expect(response.status).toBe(200);
+    const { steps } = await response.json();
+    expect(steps.map((step: { title: string }) => step.title))
+      .toEqual(['Connexion à l\'ERP', 'Mise en œuvre : Export des congés', 'Non-régression']);
+    expect(steps[1].blocks).toContainEqual({ type: 'bullet', text: 'Contrôler le fichier' });
+
+    const tma = await (await post(`${api}/steps`, { jiraName: 'Anomalie', description: '', type: 'TMA' })).json();
+    expect(tma.steps[1].title).toBe('Reproduction du cas de l\'anomalie');
+  });
+
+  it('reformule le mode opératoire', async () => {
+    const response = await post(`${await start(createStubProvider())}/rewrite`, {
+      title: 'Étape 1',
+      blocks: [{ type: 'paragraph', text: '  ouvrir   la page' }, { type: 'bullet', text: 'saisir le code' }]
+    });
+    expect(await response.json()).toEqual({
+      blocks: [{ type: 'paragraph', text: 'Ouvrir la page.' }, { type: 'bullet', text: 'Saisir le code' }]
+    });
+  });
+
+  it('rédige la synthèse de la recette', async () => {
+    const response = await post(`${await start(createStubProvider())}/conclusion`, {
+      jiraNumber: 'ERP-1234',
+      jiraName: 'Export',
+      conclusion: 'KO',
+      steps: [STEP, { ...STEP, title: 'Clôture', status: 'KO', anomalyRef: 'ERP-1300' }, { ...STEP, status: 'NON_EXECUTE' }]
+    });
+    const { text } = await response.json();
+    expect(text).toContain('ERP-1234 (Export) couvre 3 étape(s)');
+    expect(text).toContain('Clôture (ERP-1300)');
+    expect(text).toContain('1 étape(s) non exécutée(s)');
+    expect(text).toContain('BON POUR PROD KO');
+  });
+
+  it.each([
+    ['/steps', { jiraName: '', description: ' ', type: 'TMD' }, 'check.assistant.stepsEmpty'],
+    ['/steps', { jiraName: 'Export', description: '', type: 'AUTRE' }, 'check.type'],
+    ['/rewrite', { title: 'Étape', blocks: [] }, 'check.assistant.rewriteEmpty'],
+    ['/rewrite', { title: 'Étape', blocks: [{ type: 'table', text: 'x' }] }, 'check.assistant.blocks'],
+    ['/conclusion', { jiraNumber: 'ERP-1', jiraName: 'Export', conclusion: 'OK', steps: [] }, 'check.assistant.noStep'],
+    ['/conclusion', { jiraNumber: 'ERP-1', jiraName: 'Export', conclusion: 'OK', steps: [{ ...STEP, status: 'PEUT-ETRE' }] }, 'check.assistant.steps']
+  ])('refuse une demande invalide sur %s', async (route, body, key) => {
+    const response = await post(`${await start(createStubProvider())}${route}`, body);
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toEqual({ key });
+  });
+
+  it('transmet le statut des erreurs de l\'assistant', async () => {
+    const failing: AssistantProvider = {
+      ...createStubProvider(),
+      async summarize() {
+        throw new AssistantError(message('error.geminiUnavailable', { detail: 'délai dépassé' }), 502);
+      }
+    };
+    const response = await post(`${await start(failing)}/conclusion`, {
+      jiraNumber: 'ERP-1', jiraName: 'Export', conclusion: 'OK', steps: [STEP]
+    });
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: { key: 'error.geminiUnavailable', params: { detail: 'délai dépassé' } } });
+  });
+});
+
+describe('assistantProviderFromEnv', () => {
+  it('choisit le bouchon, Gemini ou aucun assistant', () => {
+    expect(assistantProviderFromEnv({ ASSISTANT_PROVIDER: 'stub' })?.name).toBe('stub');
+    expect(assistantProviderFromEnv({ GEMINI_API_KEY: 'clé' })?.name).toBe('gemini');
+    expect(assistantProviderFromEnv({})).toBeNull();
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import type {
+  AssistantBlock, ConclusionRequest, ProposedStep, RewriteRequest, StepsRequest
+} from '../src/types.ts';
+import { STEP_STATUS_LABELS } from '../src/steps.ts';
+import { message, MessageError, type Message } from '../src/i18n.ts';
+
+// Modèle de langage utilisé par les routes ; le bouchon déterministe le remplace hors ligne et en test.
+export interface AssistantProvider {
+  name: string;
+  proposeSteps(request: StepsRequest): Promise<ProposedStep[]>;
+  rewriteStep(request: RewriteRequest): Promise<AssistantBlock[]>;
+  summarize(request: ConclusionRequest): Promise<string>;
+}
+
+export class AssistantError extends MessageError {
+  constructor(detail: Message, public status: number) {
+    super(detail);
+    this.name = 'AssistantError';
+  }
+}
+
+const BLOCK_TYPES = ['paragraph', 'bullet', 'ordered'];
+const MAX_TEXT = 20000;
+
+const isText = (value: unknown): value is string => typeof value === 'string';
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isBlocks = (value: unknown): value is AssistantBlock[] =>
+  Array.isArray(value) && value.every(block => isObject(block) && BLOCK_TYPES.includes(block.type as string) && isText(block.text));
+
+const isProposedStep = (value: unknown): value is ProposedStep =>
+  isObject(value) && isText(value.title) && isBlocks(value.blocks) && isText(value.expectedResult);
+
+// Contrôles des demandes reçues du navigateur ; renvoient le message d'erreur ou null.
+export function checkStepsRequest(value: Partial<StepsRequest>): Message | null {
+  if (!isText(value.jiraName) || !isText(value.description)) return message('check.assistant.stepsTexts');
+  if (!value.jiraName.trim() && !value.description.trim()) return message('check.assistant.stepsEmpty');
+  if (value.jiraName.length + value.description.length > MAX_TEXT) return message('check.assistant.stepsTooLong');
+  if (value.type !== 'TMD' && value.type !== 'TMA') return message('check.type');
+  return null;
+}
+
+export function checkRewriteRequest(value: Partial<RewriteRequest>): Message | null {
+  if (!isText(value.title)) return message('check.assistant.title');
+  if (!isBlocks(value.blocks)) return message('check.assistant.blocks');
+  if (value.blocks.length === 0) return message('check.assistant.rewriteEmpty');
+  if (value.blocks.reduce((length, block) => length + block.text.length, 0) > MAX_TEXT) return message('check.assistant.rewriteTooLong');
+  return null;
+}
+
+export function checkConclusionRequest(value: Partial<ConclusionRequest>): Message | null {
+  if (!isText(value.jiraNumber) || !isText(value.jiraName)) return message('check.assistant.jiraTexts');
+  if (value.conclusion !== 'OK' && value.conclusion !== 'KO') return message('check.assistant.conclusion');
+  if (!Array.isArray(value.steps) || value.steps.length === 0) return message('check.assistant.noStep');
+  const valid = value.steps.every(step =>
+    isText(step?.title) && isText(step.expectedResult) && isText(step.actualResult) && isText(step.anomalyRef)
+    && Object.hasOwn(STEP_STATUS_LABELS, step.status));
+  return valid ? null : message('check.assistant.steps');
+}
+
+// --- Gemini ---
+
+const STYLE = 'Tu rédiges des cahiers de recette pour un ERP PeopleSoft, en français, '
+  + 'dans un style factuel et impersonnel : verbes à l\'infinitif pour les actions, phrases courtes, '
+  + 'aucune formule de politesse ni commentaire sur ta réponse.';
+
+const BLOCKS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: BLOCK_TYPES },
+      text: { type: 'string' }
+    },
+    required: ['type', 'text']
+  }
+};
+
+const STEPS_SCHEMA = {
+  type: 'object',
+  properties: {
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          blocks: BLOCKS_SCHEMA,
+          expectedResult: { type: 'string' }
+        },
+        required: ['title', 'blocks', 'expectedResult']
+      }
+    }
+  },
+  required: ['steps']
+};
+
+const stepsDigest = (request: ConclusionRequest) => request.steps.map((step, index) => [
+  `${index + 1}. ${step.title} — ${STEP_STATUS_LABELS[step.status]}${step.anomalyRef ? ` (anomalie ${step.anomalyRef})` : ''}`,
+  step.expectedResult && `   Attendu : ${step.expectedResult}`,
+  step.actualResult && `   Obtenu : ${step.actualResult}`
+].filter(Boolean).join('\n')).join('\n');
+
+export function createGeminiProvider(apiKey: string, model: string): AssistantProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generate = async (systemInstruction: string, contents: string, schema?: object) => {
+    let text: string | undefined;
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents,
+        config: schema
+          ? { systemInstruction, responseMimeType: 'application/json', responseJsonSchema: schema }
+          : { systemInstruction }
+      });
+      text = response.text;
+    } catch (error) {
+      throw new AssistantError(message('error.geminiUnavailable', { detail: (error as Error).message }), 502);
+    }
+    if (!text?.trim()) throw new AssistantError(message('error.geminiEmpty'), 502);
+    return text.trim();
+  };
+
+  // La réponse est contrainte par le schéma, mais reste contrôlée avant d'être transmise
+  const parse = <T>(text: string, read: (value: unknown) => T | null): T => {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      value = null;
+    }
+    const result = read(value);
+    if (result === null) throw new AssistantError(message('error.geminiUnusable'), 502);
+    return result;
+  };
+
+  return {
+    name: 'gemini',
+
+    async proposeSteps({ jiraName, description, type }) {
+      const text = await generate(
+        `${STYLE} Propose entre 3 et 10 étapes de test couvrant la demande : pour chacune un titre court, `
+          + 'le mode opératoire (paragraphes et listes) et le résultat attendu en une phrase.',
+        [
+          `Type de cahier : ${type === 'TMA' ? 'correctif d\'anomalie (TMA)' : 'évolution (TMD)'}`,
+          `Nom JIRA : ${jiraName}`,
+          `Description : ${description}`
+        ].join('\n'),
+        STEPS_SCHEMA
+      );
+      return parse(text, value => {
+        const steps = isObject(value) ? value.steps : null;
+        return Array.isArray(steps) && steps.length > 0 && steps.every(isProposedStep)
+          ? steps.map(({ title, blocks, expectedResult }) => ({ title, blocks, expectedResult }))
+          : null;
+      });
+    },
+
+    async rewriteStep({ title, blocks }) {
+      const text = await generate(
+        `${STYLE} Reformule le mode opératoire d'une étape de test sans en changer le sens ni en retirer d'information. `
+          + 'Conserve les listes quand elles existent.',
+        `Titre de l'étape : ${title}\nMode opératoire (JSON) : ${JSON.stringify(blocks)}`,
+        BLOCKS_SCHEMA
+      );
+      return parse(text, value => (isBlocks(value) && value.length > 0
+        ? value.map(({ type, text }) => ({ type, text }))
+        : null));
+    },
+
+    async summarize(request) {
+      return generate(
+        `${STYLE} Rédige un paragraphe de synthèse de la recette (5 phrases au plus) : périmètre testé, résultats, `
+          + 'anomalies éventuelles et avis de mise en production. Réponds en texte brut, sans mise en forme.',
+        [
+          `Ticket : ${request.jiraNumber} — ${request.jiraName}`,
+          `Conclusion du testeur : BON POUR PROD ${request.conclusion}`,
+          'Étapes :',
+          stepsDigest(request)
+        ].join('\n')
+      );
+    }
+  };
+}
+
+// --- Bouchon déterministe : mêmes entrées, mêmes sorties, sans appel réseau ---
+
+export function createStubProvider(): AssistantProvider {
+  return {
+    name: 'stub',
+
+    async proposeSteps({ jiraName, description, type }) {
+      const subject = jiraName.trim() || description.trim().split('\n')[0];
+      return [
+        {
+          title: 'Connexion à l\'ERP',
+          blocks: [
+            { type: 'paragraph', text: 'Se connecter à l\'environnement de test avec un compte de recette.' }
+          ],
+          expectedResult: 'La page d\'accueil s\'affiche.'
+        },
+        {
+          title: type === 'TMA' ? 'Reproduction du cas de l\'anomalie' : `Mise en œuvre : ${subject}`,
+          blocks: [
+            { type: 'paragraph', text: `Dérouler le cas décrit dans la demande : ${subject}.` },
+            ...description.split('\n').map(line => line.trim()).filter(Boolean)
+              .map(line => ({ type: 'bullet' as const, text: line }))
+          ],
+          expectedResult: type === 'TMA' ? 'L\'anomalie n\'est plus reproduite.' : 'Le fonctionnement est conforme à la demande.'
+        },
+        {
+          title: 'Non-régression',
+          blocks: [{ type: 'paragraph', text: 'Vérifier le fonctionnement standard des écrans voisins.' }],
+          expectedResult: 'Aucune régression constatée.'
+        }
+      ];
+    },
+
+    async rewriteStep({ blocks }) {
+      return blocks.map(block => {
+        const text = block.text.replace(/\s+/g, ' ').trim();
+        const sentence = text.charAt(0).toUpperCase() + text.slice(1);
+        return { type: block.type, text: block.type === 'paragraph' && !/[.:!?]$/.test(sentence) ? `${sentence}.` : sentence };
+      });
+    },
+
+    async summarize({ jiraNumber, jiraName, conclusion, steps }) {
+      const failed = steps.filter(step => step.status === 'KO' || step.status === 'BLOQUE');
+      const pending = steps.filter(step => step.status === 'NON_EXECUTE').length;
+      return [
+        `La recette de ${jiraNumber} (${jiraName}) couvre ${steps.length} étape(s).`,
+        failed.length > 0
+          ? `Étape(s) en échec : ${failed.map(step => step.title + (step.anomalyRef ? ` (${step.anomalyRef})` : '')).join(', ')}.`
+          : 'Toutes les étapes exécutées sont conformes.',
+        pending > 0 ? `${pending} étape(s) non exécutée(s).` : '',
+        `Avis : BON POUR PROD ${conclusion}.`
+      ].filter(Boolean).join(' ');
+    }
+  };
+}
+
+// Gemini si GEMINI_API_KEY est défini (modèle GEMINI_MODEL), bouchon si ASSISTANT_PROVIDER=stub,
+// null si l'assistant n'est pas configuré.
+export function assistantProviderFromEnv(env: NodeJS.ProcessEnv = process.env): AssistantProvider | null {
+  if (env.ASSISTANT_PROVIDER === 'stub') return createStubProvider();
+  if (!env.GEMINI_API_KEY) return null;
+  return createGeminiProvider(env.GEMINI_API_KEY, env.GEMINI_MODEL || 'gemini-2.5-flash');
+}
@@ -0,0 +1,271 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { AppData, Signature } from '../src/types.ts';
+import { DRAFT_SIGN_OFF } from '../src/signOff.ts';
+import { createStep } from '../src/steps.ts';
+import { makeCahier } from '../src/testFixtures.ts';
+import { CahierLockedError, createStore, htmlText, MIGRATIONS, openDatabase } from './db.ts';
+
+const SIGNATURE: Signature = { name: 'Alice Martin', signedAt: '2026-03-05T10:00:00.000Z', comment: '', image: '' };
+
+let dir: string;
+let dbPath: string;
+const opened: Database.Database[] = [];
+
+// Base sur disque, dans un répertoire temporaire supprimé après chaque test
+const open = () => {
+  const db = openDatabase(dbPath);
+  opened.push(db);
+  return db;
+};
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cahiers-'));
+  dbPath = path.join(dir, 'cahiers.db');
+});
+
+afterEach(() => {
+  opened.splice(0).forEach(db => db.close());
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Base arrêtée à la version `version`, comme laissée par une ancienne version de l'application
+const databaseAt = (version: number) => {
+  const db = new Database(dbPath);
+  db.function('html_text', (html: unknown) => htmlText(String(html)));
+  MIGRATIONS.slice(0, version).forEach(sql => db.exec(sql));
+  db.pragma(`user_version = ${version}`);
+  return db;
+};
+
+const columns = (db: Database.Database, table: string) =>
+  (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(column => column.name);
+
+describe('openDatabase', () => {
+  it('applique toutes les migrations sur une base vide', () => {
+    const db = open();
+    expect(db.pragma('user_version', { simple: true })).toBe(MIGRATIONS.length);
+    expect(columns(db, 'cahiers')).toEqual(expect.arrayContaining([
+      'jira_number', 'sql_queries', 'document_template_id', 'sign_off', 'runs', 'annotations', 'document_language'
+    ]));
+    expect(columns(db, 'cahiers')).not.toContain('local_image');
+    expect(columns(db, 'cahiers')).toContain('archived');
+    expect(columns(db, 'steps')).toEqual(expect.arrayContaining(['id', 'position', 'kind', 'content_text', 'expected_result', 'status', 'anomaly_ref']));
+  });
+
+  it('ne rejoue pas les migrations déjà appliquées', () => {
+    open().close();
+    opened.pop();
+    const db = open();
+    expect(db.pragma('user_version', { simple: true })).toBe(MIGRATIONS.length);
+  });
+
+  it('migre un cahier de la première version jusqu\'à la dernière', () => {
+    const legacy = databaseAt(1);
+    legacy.prepare(`
+      INSERT INTO cahiers (jira_number, jira_name, type, date, environment, conclusion, local_image, show_sql_query,
+        sql_query_type, created_at, updated_at)
+      VALUES ('ERP-1', 'Ancien', 'TMA', '2024-01-02', 'FRECMCOR', 'KO', 'data:image/png;base64,AAAA', 1, 'data', 'x', 'x')
+    `).run();
+    legacy.prepare(`INSERT INTO steps (id, jira_number, position, title, content) VALUES ('s1', 'ERP-1', 0, 'Étape 1', '<p>a</p>')`).run();
+    legacy.close();
+
+    const cahier = createStore(open()).get('ERP-1')!;
+    expect(cahier).toMatchObject({
+      jiraName: 'Ancien',
+      type: 'TMA',
+      conclusion: 'KO',
+      sqlQueries: ['data'],
+      documentTemplateId: 'default',
+      documentLanguage: 'fr',
+      signOff: { status: 'BROUILLON' },
+      runs: [],
+      annotations: {}
+    });
+    expect(cahier.captures).toEqual([{ id: expect.any(String), image: 'data:image/png;base64,AAAA', caption: '' }]);
+    expect(cahier.steps).toEqual([expect.objectContaining({ id: 's1', kind: 'step', status: 'NON_EXECUTE', expectedResult: '' })]);
+  });
+
+  it('applique la dernière migration à une base de la version précédente', () => {
+    const previous = databaseAt(MIGRATIONS.length - 1);
+    expect(previous.pragma('user_version', { simple: true })).toBe(MIGRATIONS.length - 1);
+    previous.close();
+
+    const db = open();
+    expect(db.pragma('user_version', { simple: true })).toBe(MIGRATIONS.length);
+    const store = createStore(db);
+    store.save(makeCahier());
+    expect(store.get('ERP-1234')).not.toBeNull();
+  });
+
+  it('extrait le texte des étapes existantes lors de la migration', () => {
+    const previous = databaseAt(1);
+    previous.prepare(`
+      INSERT INTO cahiers (jira_number, jira_name, type, date, environment, conclusion, local_image, show_sql_query,
+        sql_query_type, created_at, updated_at)
+      VALUES ('ERP-1', 'Ancien', 'TMA', '2024-01-02', 'FRECMCOR', 'KO', NULL, 0, 'data', 'x', 'x')
+    `).run();
+    previous.prepare(`
+      INSERT INTO steps (id, jira_number, position, title, content)
+      VALUES ('s1', 'ERP-1', 0, 'Étape 1', '<p>Contrôle du <em>stock</em></p><img src="data:image/png;base64,AAAA">')
+    `).run();
+    previous.close();
+
+    const db = open();
+    expect(db.prepare('SELECT content_text FROM steps').pluck().get()).toBe('Contrôle du stock');
+    expect(createStore(db).list({ q: 'stock' })).toHaveLength(1);
+  });
+
+  it('chaque migration s\'applique à la base laissée par la précédente', () => {
+    for (let version = 0; version < MIGRATIONS.length; version++) {
+      fs.rmSync(dbPath, { force: true });
+      databaseAt(version).close();
+      const db = openDatabase(dbPath);
+      expect(db.pragma('user_version', { simple: true })).toBe(MIGRATIONS.length);
+      db.close();
+    }
+  });
+});
+
+describe('createStore', () => {
+  it('relit à l\'identique un cahier sauvegardé', () => {
+    const store = createStore(open());
+    const cahier = makeCahier({
+      conclusionText: 'RAS',
+      captures: [{ id: 'c1', image: 'data:image/png;base64,AAAA', caption: 'Requête' }],
+      steps: [createStep('section', 'Préparation'), { ...createStep('step', 'Connexion'), status: 'KO', anomalyRef: 'ERP-9' }],
+      showSqlQuery: true,
+      sqlQueries: ['data', 'log'],
+      documentLanguage: 'en',
+      coverInfo: { project: 'ERP', lot: '2', version: '4.1', tester: 'Alice', validator: 'Bob' },
+      runs: [{ environment: 'FPOST', date: '2026-03-06', conclusion: 'KO', captures: [], results: {} }],
+      annotations: { c1: { original: 'data:image/png;base64,BBBB', annotations: [] } }
+    });
+    expect(store.save(cahier)).toEqual(cahier);
+    expect(store.get(cahier.jiraNumber)).toEqual(cahier);
+  });
+
+  it('remplace les étapes et captures lors d\'une nouvelle sauvegarde', () => {
+    const store = createStore(open());
+    const cahier = makeCahier({ captures: [{ id: 'c1', image: 'x', caption: '' }] });
+    store.save(cahier);
+    const next: AppData = { ...cahier, steps: [createStep('step', 'Autre')], captures: [] };
+    store.save(next);
+    expect(store.get(cahier.jiraNumber)).toEqual(next);
+  });
+
+  it('liste les cahiers sauvegardés, archivés à part', () => {
+    const store = createStore(open());
+    store.save(makeCahier({ jiraNumber: 'ERP-1' }));
+    store.save(makeCahier({ jiraNumber: 'ERP-2', signOff: { status: 'EN_REVUE', tester: SIGNATURE, validator: null } }));
+    store.setArchived('ERP-1', true);
+
+    expect(store.list()).toEqual([expect.objectContaining({ jiraNumber: 'ERP-2', workflowStatus: 'EN_REVUE', archived: false })]);
+    expect(store.list({ archived: true })).toEqual([expect.objectContaining({ jiraNumber: 'ERP-1', archived: true })]);
+  });
+
+  describe('cahier validé', () => {
+    const validated = (cahier: AppData): AppData =>
+      ({ ...cahier, signOff: { status: 'VALIDE', tester: SIGNATURE, validator: SIGNATURE } });
+
+    it('refuse la modification des étapes, de la conclusion et des captures', () => {
+      const store = createStore(open());
+      const cahier = validated(makeCahier());
+      store.save(cahier);
+
+      const changes: Partial<AppData>[] = [
+        { steps: [{ ...cahier.steps[0], title: 'Modifiée' }] },
+        { steps: [{ ...cahier.steps[0], status: 'KO' }] },
+        { conclusion: 'KO' },
+        { conclusionText: 'Ajout' },
+        { captures: [{ id: 'c1', image: 'x', caption: '' }] }
+      ];
+      for (const change of changes) {
+        expect(() => store.save({ ...cahier, ...change })).toThrow(CahierLockedError);
+      }
+      expect(store.get(cahier.jiraNumber)).toEqual(cahier);
+    });
+
+    it('refuse de changer le statut dans la même sauvegarde que le contenu', () => {
+      const store = createStore(open());
+      const cahier = validated(makeCahier());
+      store.save(cahier);
+
+      const draft: AppData = { ...cahier, signOff: DRAFT_SIGN_OFF, steps: [{ ...cahier.steps[0], title: 'Modifiée' }] };
+      expect(() => store.save(draft)).toThrow(CahierLockedError);
+      expect(() => store.save({ ...cahier, signOff: DRAFT_SIGN_OFF })).toThrow(CahierLockedError);
+      expect(store.get(cahier.jiraNumber)).toEqual(cahier);
+    });
+
+    it('accepte les champs hors contenu, puis le contenu une fois déverrouillé', () => {
+      const store = createStore(open());
+      const cahier = validated(makeCahier());
+      store.save(cahier);
+
+      expect(store.save({ ...cahier, jiraName: 'Renommé' }).jiraName).toBe('Renommé');
+      expect(store.unlock(cahier.jiraNumber)?.signOff).toEqual(DRAFT_SIGN_OFF);
+      const draft: AppData = { ...cahier, signOff: DRAFT_SIGN_OFF, steps: [{ ...cahier.steps[0], title: 'Modifiée' }] };
+      expect(store.save(draft).steps[0].title).toBe('Modifiée');
+      expect(store.unlock('INCONNU-1')).toBeNull();
+    });
+  });
+
+  describe('recherche et filtres', () => {
+    const seed = () => {
+      const store = createStore(open());
+      store.save(makeCahier({
+        jiraNumber: 'ERP-1', jiraName: 'Facturation', type: 'TMD', conclusion: 'OK', date: '2026-01-10',
+        steps: [{ ...createStep('step', 'Saisie commande'), content: '<p>Vérifier la <strong>remise</strong> &amp; le total</p><p><img src="data:image/png;base64,QUJD" data-annotation="a1"></p>' }]
+      }));
+      store.save(makeCahier({ jiraNumber: 'ERP-2', jiraName: 'Stocks', type: 'TMA', conclusion: 'KO', date: '2026-02-15' }));
+      store.save(makeCahier({ jiraNumber: 'ABC-3', jiraName: 'Paie', type: 'TMD', conclusion: 'KO', date: '2026-03-20' }));
+      return store;
+    };
+    const keys = (store: ReturnType<typeof createStore>, filters: Parameters<ReturnType<typeof createStore>['list']>[0]) =>
+      store.list(filters).map(summary => summary.jiraNumber).sort();
+
+    it('cherche dans le numéro, le nom, le titre et le texte des étapes', () => {
+      const store = seed();
+      expect(keys(store, { q: 'ERP' })).toEqual(['ERP-1', 'ERP-2']);
+      expect(keys(store, { q: 'stock' })).toEqual(['ERP-2']);
+      expect(keys(store, { q: 'commande' })).toEqual(['ERP-1']);
+      expect(keys(store, { q: 'remise' })).toEqual(['ERP-1']);
+      expect(keys(store, { q: 'introuvable' })).toEqual([]);
+    });
+
+    it('ignore les balises, les attributs et les images des étapes', () => {
+      const store = seed();
+      for (const q of ['strong', 'base64', 'data-annotation', 'image/png', 'QUJD']) {
+        expect(keys(store, { q })).toEqual([]);
+      }
+      expect(keys(store, { q: 'remise & le' })).toEqual(['ERP-1']);
+    });
+
+    it('traite %, _ et \\ comme des caractères ordinaires', () => {
+      const store = seed();
+      store.save(makeCahier({ jiraNumber: 'FIX_1', jiraName: 'Remise 100% \\ total' }));
+      expect(keys(store, { q: '%' })).toEqual(['FIX_1']);
+      expect(keys(store, { q: 'FIX_' })).toEqual(['FIX_1']);
+      expect(keys(store, { q: 'ERP_' })).toEqual([]);
+      expect(keys(store, { q: '\\' })).toEqual(['FIX_1']);
+      expect(keys(store, { q: '0% \\ t' })).toEqual(['FIX_1']);
+    });
+
+    it('filtre par type, conclusion et période', () => {
+      const store = seed();
+      expect(keys(store, { type: 'TMD' })).toEqual(['ABC-3', 'ERP-1']);
+      expect(keys(store, { conclusion: 'KO' })).toEqual(['ABC-3', 'ERP-2']);
+      expect(keys(store, { from: '2026-02-01' })).toEqual(['ABC-3', 'ERP-2']);
+      expect(keys(store, { to: '2026-02-15' })).toEqual(['ERP-1', 'ERP-2']);
+      expect(keys(store, { type: 'TMD', conclusion: 'KO', from: '2026-01-01', to: '2026-12-31' })).toEqual(['ABC-3']);
+    });
+  });
+});
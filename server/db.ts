@@ -0,0 +1,628 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import type {
+  AppData, CahierFilters, CahierSummary, CahierTemplate, Campaign, Capture, DocumentTemplate, PrintRuleSettings, QueryTemplate,
+  StepSnippet, TestEnvironment, TestStep
+} from '../src/types.ts';
+import { allRuns, resultOf } from '../src/runs.ts';
+import { DRAFT_SIGN_OFF } from '../src/signOff.ts';
+import { message, MessageError } from '../src/i18n.ts';
+
+// Chaque entrée fait passer la base à la version suivante (PRAGMA user_version).
+export const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE cahiers (
+    jira_number TEXT PRIMARY KEY,
+    jira_name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    date TEXT NOT NULL,
+    environment TEXT NOT NULL,
+    conclusion TEXT NOT NULL,
+    local_image TEXT,
+    show_sql_query INTEGER NOT NULL,
+    sql_query_type TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE steps (
+    id TEXT NOT NULL,
+    jira_number TEXT NOT NULL REFERENCES cahiers(jira_number) ON DELETE CASCADE ON UPDATE CASCADE,
+    position INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    content TEXT NOT NULL,
+    PRIMARY KEY (jira_number, id)
+  );
+  CREATE INDEX steps_position ON steps(jira_number, position);
+  `,
+  `
+  ALTER TABLE cahiers ADD COLUMN archived INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE steps ADD COLUMN content_text TEXT NOT NULL DEFAULT '';
+  UPDATE steps SET content_text = html_text(content);
+  `,
+  `
+  ALTER TABLE steps ADD COLUMN kind TEXT NOT NULL DEFAULT 'step';
+  `,
+  `
+  ALTER TABLE steps ADD COLUMN expected_result TEXT NOT NULL DEFAULT '';
+  ALTER TABLE steps ADD COLUMN actual_result TEXT NOT NULL DEFAULT '';
+  ALTER TABLE steps ADD COLUMN status TEXT NOT NULL DEFAULT 'NON_EXECUTE';
+  ALTER TABLE steps ADD COLUMN anomaly_ref TEXT NOT NULL DEFAULT '';
+  `,
+  `
+  ALTER TABLE cahiers ADD COLUMN sql_queries TEXT NOT NULL DEFAULT '[]';
+  UPDATE cahiers SET sql_queries = json_array(sql_query_type);
+  ALTER TABLE cahiers DROP COLUMN sql_query_type;
+  CREATE TABLE query_templates (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    sql TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE captures (
+    id TEXT NOT NULL,
+    jira_number TEXT NOT NULL REFERENCES cahiers(jira_number) ON DELETE CASCADE ON UPDATE CASCADE,
+    position INTEGER NOT NULL,
+    image TEXT NOT NULL,
+    caption TEXT NOT NULL,
+    PRIMARY KEY (jira_number, id)
+  );
+  INSERT INTO captures (id, jira_number, position, image, caption)
+    SELECT lower(hex(randomblob(16))), jira_number, 0, local_image, '' FROM cahiers WHERE local_image IS NOT NULL;
+  ALTER TABLE cahiers DROP COLUMN local_image;
+  `,
+  `
+  ALTER TABLE cahiers ADD COLUMN document_template_id TEXT NOT NULL DEFAULT 'default';
+  ALTER TABLE cahiers ADD COLUMN cover_info TEXT NOT NULL DEFAULT '{"project":"","lot":"","version":"","tester":"","validator":""}';
+  CREATE TABLE document_templates (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    definition TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE cahiers ADD COLUMN sign_off TEXT NOT NULL DEFAULT '{"status":"BROUILLON","tester":null,"validator":null}';
+  `,
+  `
+  CREATE TABLE step_snippets (
+    id TEXT PRIMARY KEY,
+    category TEXT NOT NULL,
+    title TEXT NOT NULL,
+    definition TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE cahier_templates (
+    id TEXT PRIMARY KEY,
+    category TEXT NOT NULL,
+    name TEXT NOT NULL,
+    definition TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE cahiers ADD COLUMN conclusion_text TEXT NOT NULL DEFAULT '';
+  `,
+  `
+  CREATE TABLE campaigns (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    definition TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE cahiers ADD COLUMN runs TEXT NOT NULL DEFAULT '[]';
+  CREATE TABLE environments (
+    name TEXT PRIMARY KEY,
+    description TEXT NOT NULL,
+    position INTEGER NOT NULL
+  );
+  INSERT INTO environments (name, description, position) VALUES
+    ('FRECMCOR', 'Recette', 0),
+    ('FPOST', 'Post-production', 1);
+  `,
+  `
+  CREATE TABLE print_rules (
+    id TEXT PRIMARY KEY,
+    tmd INTEGER NOT NULL,
+    tma INTEGER NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE cahiers ADD COLUMN annotations TEXT NOT NULL DEFAULT '{}';
+  `,
+  `
+  ALTER TABLE cahiers ADD COLUMN document_language TEXT NOT NULL DEFAULT 'fr';
+  `
+];
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// Texte brut d'un contenu d'étape, pour la recherche : sans balises ni attributs (images en data URL comprises)
+export function htmlText(html: string): string {
+  return html
+    .replace(/<(?:[^>"']|"[^"]*"|'[^']*')*>/g, ' ')
+    .replace(/&(?:#(\d+)|#x([\da-f]+)|(\w+));/gi, (entity, decimal, hex, name) =>
+      decimal ? String.fromCodePoint(Number(decimal))
+        : hex ? String.fromCodePoint(parseInt(hex, 16))
+          : ENTITIES[name.toLowerCase()] ?? entity)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+interface CahierRow {
+  jira_number: string;
+  jira_name: string;
+  type: AppData['type'];
+  date: string;
+  environment: AppData['environment'];
+  conclusion: AppData['conclusion'];
+  conclusion_text: string;
+  show_sql_query: number;
+  sql_queries: string;
+  document_template_id: string;
+  document_language: AppData['documentLanguage'];
+  cover_info: string;
+  sign_off: string;
+  runs: string;
+  annotations: string;
+  archived: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface StepRow {
+  id: string;
+  kind: TestStep['kind'];
+  title: string;
+  content: string;
+  expectedResult: string;
+  actualResult: string;
+  status: TestStep['status'];
+  anomalyRef: string;
+}
+
+export class CahierExistsError extends MessageError {
+  constructor(jiraNumber: string) {
+    super(message('error.cahierExists', { jira: jiraNumber }));
+    this.name = 'CahierExistsError';
+  }
+}
+
+export class CahierLockedError extends MessageError {
+  constructor(jiraNumber: string) {
+    super(message('error.cahierLocked', { jira: jiraNumber }));
+    this.name = 'CahierLockedError';
+  }
+}
+
+export type CahierStore = ReturnType<typeof createStore>;
+
+export function openDatabase(filename: string) {
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.function('html_text', { deterministic: true }, (html: unknown) => htmlText(String(html)));
+
+  const version = db.pragma('user_version', { simple: true }) as number;
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[i]);
+      db.pragma(`user_version = ${i + 1}`);
+    })();
+  }
+  return db;
+}
+
+export function createStore(db: Database.Database) {
+  const toSummary = (row: CahierRow): CahierSummary => ({
+    jiraNumber: row.jira_number,
+    jiraName: row.jira_name,
+    type: row.type,
+    date: row.date,
+    environment: row.environment,
+    conclusion: row.conclusion,
+    workflowStatus: JSON.parse(row.sign_off).status,
+    archived: row.archived === 1,
+    updatedAt: row.updated_at
+  });
+
+  const selectOne = db.prepare<[string], CahierRow>('SELECT * FROM cahiers WHERE jira_number = ?');
+  const selectSteps = db.prepare<[string], StepRow>(
+    `SELECT id, kind, title, content, expected_result AS expectedResult, actual_result AS actualResult,
+      status, anomaly_ref AS anomalyRef
+    FROM steps WHERE jira_number = ? ORDER BY position`
+  );
+  const insertCahier = db.prepare(`
+    INSERT INTO cahiers (jira_number, jira_name, type, date, environment, conclusion, conclusion_text,
+      show_sql_query, sql_queries, document_template_id, document_language, cover_info, sign_off, runs, annotations,
+      created_at, updated_at)
+    VALUES (@jiraNumber, @jiraName, @type, @date, @environment, @conclusion, @conclusionText,
+      @showSqlQuery, @sqlQueries, @documentTemplateId, @documentLanguage, @coverInfo, @signOff, @runs, @annotations,
+      @now, @now)
+  `);
+  const updateCahier = db.prepare(`
+    UPDATE cahiers SET jira_name = @jiraName, type = @type, date = @date, environment = @environment,
+      conclusion = @conclusion, conclusion_text = @conclusionText, show_sql_query = @showSqlQuery,
+      sql_queries = @sqlQueries, document_template_id = @documentTemplateId,
+      document_language = @documentLanguage, cover_info = @coverInfo,
+      sign_off = @signOff, runs = @runs, annotations = @annotations, updated_at = @now
+    WHERE jira_number = @jiraNumber
+  `);
+  const deleteSteps = db.prepare('DELETE FROM steps WHERE jira_number = ?');
+  const insertStep = db.prepare(`
+    INSERT INTO steps (id, jira_number, position, kind, title, content, content_text, expected_result,
+      actual_result, status, anomaly_ref)
+    VALUES (@id, @jiraNumber, @position, @kind, @title, @content, @contentText, @expectedResult,
+      @actualResult, @status, @anomalyRef)
+  `);
+  const selectCaptures = db.prepare<[string], Capture>(
+    'SELECT id, image, caption FROM captures WHERE jira_number = ? ORDER BY position'
+  );
+  const deleteCaptures = db.prepare('DELETE FROM captures WHERE jira_number = ?');
+  const insertCapture = db.prepare(
+    'INSERT INTO captures (id, jira_number, position, image, caption) VALUES (@id, @jiraNumber, @position, @image, @caption)'
+  );
+
+  const toParams = (data: AppData) => ({
+    jiraNumber: data.jiraNumber,
+    jiraName: data.jiraName,
+    type: data.type,
+    date: data.date,
+    environment: data.environment,
+    conclusion: data.conclusion,
+    conclusionText: data.conclusionText,
+    showSqlQuery: data.showSqlQuery ? 1 : 0,
+    sqlQueries: JSON.stringify(data.sqlQueries),
+    documentTemplateId: data.documentTemplateId,
+    documentLanguage: data.documentLanguage,
+    coverInfo: JSON.stringify(data.coverInfo),
+    signOff: JSON.stringify(data.signOff),
+    runs: JSON.stringify(data.runs),
+    annotations: JSON.stringify(data.annotations),
+    now: new Date().toISOString()
+  });
+
+  const writeChildren = (data: AppData) => {
+    const { jiraNumber } = data;
+    deleteSteps.run(jiraNumber);
+    data.steps.forEach((step, position) => {
+      insertStep.run({ ...step, jiraNumber, position, contentText: htmlText(step.content) });
+    });
+    deleteCaptures.run(jiraNumber);
+    data.captures.forEach((capture, position) => {
+      insertCapture.run({ ...capture, jiraNumber, position });
+    });
+  };
+
+  // Contenu figé par la validation, indépendamment de l'ordre des clés envoyées par le client
+  // et de l'exécution affichée : passer d'un environnement à l'autre reste possible sur un cahier validé.
+  const lockedContent = (data: AppData) => JSON.stringify([
+    data.steps.map(step => [step.id, step.kind, step.title, step.content, step.expectedResult]),
+    allRuns(data)
+      .sort((a, b) => a.environment.localeCompare(b.environment))
+      .map(run => [
+        run.environment,
+        run.conclusion,
+        data.steps.map(step => {
+          const { status, actualResult, anomalyRef } = resultOf(run, step.id);
+          return [status, actualResult, anomalyRef];
+        }),
+        run.captures.map(capture => [capture.id, capture.image, capture.caption])
+      ])
+  ]);
+
+  const get = (jiraNumber: string): AppData | null => {
+    const row = selectOne.get(jiraNumber);
+    if (!row) return null;
+    return {
+      jiraNumber: row.jira_number,
+      jiraName: row.jira_name,
+      type: row.type,
+      date: row.date,
+      environment: row.environment,
+      conclusion: row.conclusion,
+      conclusionText: row.conclusion_text,
+      captures: selectCaptures.all(jiraNumber),
+      steps: selectSteps.all(jiraNumber),
+      showSqlQuery: row.show_sql_query === 1,
+      sqlQueries: JSON.parse(row.sql_queries),
+      documentTemplateId: row.document_template_id,
+      documentLanguage: row.document_language,
+      coverInfo: JSON.parse(row.cover_info),
+      signOff: JSON.parse(row.sign_off),
+      runs: JSON.parse(row.runs),
+      annotations: JSON.parse(row.annotations)
+    };
+  };
+
+  return {
+    list(filters: CahierFilters = {}): CahierSummary[] {
+      const where = ['archived = @archived'];
+      // Recherche littérale : %, _ et \ saisis par l'utilisateur ne sont pas des jokers
+      if (filters.q) {
+        where.push(`(jira_number LIKE @q ESCAPE '\\' OR jira_name LIKE @q ESCAPE '\\' OR EXISTS (
+          SELECT 1 FROM steps WHERE steps.jira_number = cahiers.jira_number
+            AND (steps.title LIKE @q ESCAPE '\\' OR steps.content_text LIKE @q ESCAPE '\\')))`);
+      }
+      if (filters.type) where.push('type = @type');
+      if (filters.conclusion) where.push('conclusion = @conclusion');
+      if (filters.from) where.push('date >= @from');
+      if (filters.to) where.push('date <= @to');
+
+      return db
+        .prepare<Record<string, unknown>, CahierRow>(
+          `SELECT * FROM cahiers WHERE ${where.join(' AND ')} ORDER BY updated_at DESC`
+        )
+        .all({
+          ...filters,
+          q: filters.q ? `%${filters.q.replace(/[\\%_]/g, '\\$&')}%` : undefined,
+          archived: filters.archived ? 1 : 0
+        })
+        .map(toSummary);
+    },
+
+    get,
+
+    // Cahiers d'une campagne, archivés compris : version de la page de garde et/ou période
+    listForCampaign(campaign: Campaign): AppData[] {
+      const where: string[] = [];
+      if (campaign.release.trim()) where.push("json_extract(cover_info, '$.version') = @release");
+      if (campaign.from) where.push('date >= @from');
+      if (campaign.to) where.push('date <= @to');
+      return db
+        .prepare<Record<string, unknown>, { jira_number: string }>(
+          `SELECT jira_number FROM cahiers ${where.length ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY date, jira_number`
+        )
+        .all({ release: campaign.release.trim(), from: campaign.from, to: campaign.to })
+        .map(row => get(row.jira_number)!);
+    },
+
+    create: db.transaction((data: AppData): AppData => {
+      if (selectOne.get(data.jiraNumber)) throw new CahierExistsError(data.jiraNumber);
+      insertCahier.run(toParams(data));
+      writeChildren(data);
+      return get(data.jiraNumber)!;
+    }),
+
+    // Remplace le contenu d'un cahier existant, ou le crée s'il n'existe pas encore.
+    // Un cahier validé garde son statut, ses étapes, captures et conclusion : il faut d'abord le déverrouiller (unlock).
+    save: db.transaction((data: AppData): AppData => {
+      const current = get(data.jiraNumber);
+      if (current?.signOff.status === 'VALIDE' && (
+        data.signOff.status !== 'VALIDE'
+        || current.conclusionText !== data.conclusionText
+        || lockedContent(current) !== lockedContent(data)
+      )) {
+        throw new CahierLockedError(data.jiraNumber);
+      }
+      const params = toParams(data);
+      if (updateCahier.run(params).changes === 0) insertCahier.run(params);
+      writeChildren(data);
+      return get(data.jiraNumber)!;
+    }),
+
+    // Repasse un cahier en brouillon (signatures effacées) ; renvoie null s'il n'existe pas
+    unlock(jiraNumber: string): AppData | null {
+      const changes = db
+        .prepare('UPDATE cahiers SET sign_off = ?, updated_at = ? WHERE jira_number = ?')
+        .run(JSON.stringify(DRAFT_SIGN_OFF), new Date().toISOString(), jiraNumber).changes;
+      return changes > 0 ? get(jiraNumber)! : null;
+    },
+
+    setArchived(jiraNumber: string, archived: boolean): boolean {
+      return db
+        .prepare('UPDATE cahiers SET archived = ? WHERE jira_number = ?')
+        .run(archived ? 1 : 0, jiraNumber).changes > 0;
+    },
+
+    remove(jiraNumber: string): boolean {
+      return db.prepare('DELETE FROM cahiers WHERE jira_number = ?').run(jiraNumber).changes > 0;
+    }
+  };
+}
+
+export type TemplateStore = ReturnType<typeof createTemplateStore>;
+
+// Modèles de requêtes SQL définis par les utilisateurs (les modèles intégrés restent dans le code).
+export function createTemplateStore(db: Database.Database) {
+  return {
+    list(): QueryTemplate[] {
+      return db.prepare<[], QueryTemplate>('SELECT id, name, sql FROM query_templates ORDER BY name').all();
+    },
+
+    save(template: QueryTemplate): QueryTemplate {
+      db.prepare(`
+        INSERT INTO query_templates (id, name, sql, updated_at) VALUES (@id, @name, @sql, @now)
+        ON CONFLICT(id) DO UPDATE SET name = excluded.name, sql = excluded.sql, updated_at = excluded.updated_at
+      `).run({ id: template.id, name: template.name, sql: template.sql, now: new Date().toISOString() });
+      return { id: template.id, name: template.name, sql: template.sql };
+    },
+
+    remove(id: string): boolean {
+      return db.prepare('DELETE FROM query_templates WHERE id = ?').run(id).changes > 0;
+    }
+  };
+}
+
+export type DocumentTemplateStore = ReturnType<typeof createDocumentTemplateStore>;
+
+// Modèles de document définis par les utilisateurs, conservés en JSON (le modèle standard reste dans le code).
+export function createDocumentTemplateStore(db: Database.Database) {
+  return {
+    list(): DocumentTemplate[] {
+      return db
+        .prepare<[], { definition: string }>('SELECT definition FROM document_templates ORDER BY name')
+        .all()
+        .map(row => JSON.parse(row.definition));
+    },
+
+    save(template: DocumentTemplate): DocumentTemplate {
+      db.prepare(`
+        INSERT INTO document_templates (id, name, definition, updated_at) VALUES (@id, @name, @definition, @now)
+        ON CONFLICT(id) DO UPDATE SET name = excluded.name, definition = excluded.definition, updated_at = excluded.updated_at
+      `).run({ id: template.id, name: template.name, definition: JSON.stringify(template), now: new Date().toISOString() });
+      return template;
+    },
+
+    remove(id: string): boolean {
+      return db.prepare('DELETE FROM document_templates WHERE id = ?').run(id).changes > 0;
+    }
+  };
+}
+
+export type SnippetStore = ReturnType<typeof createSnippetStore>;
+
+// Étapes de la bibliothèque enregistrées par les utilisateurs, conservées en JSON.
+export function createSnippetStore(db: Database.Database) {
+  return {
+    list(): StepSnippet[] {
+      return db
+        .prepare<[], { definition: string }>('SELECT definition FROM step_snippets ORDER BY category, title')
+        .all()
+        .map(row => JSON.parse(row.definition));
+    },
+
+    save(snippet: StepSnippet): StepSnippet {
+      db.prepare(`
+        INSERT INTO step_snippets (id, category, title, definition, updated_at)
+        VALUES (@id, @category, @title, @definition, @now)
+        ON CONFLICT(id) DO UPDATE SET category = excluded.category, title = excluded.title,
+          definition = excluded.definition, updated_at = excluded.updated_at
+      `).run({
+        id: snippet.id,
+        category: snippet.category,
+        title: snippet.title,
+        definition: JSON.stringify(snippet),
+        now: new Date().toISOString()
+      });
+      return snippet;
+    },
+
+    remove(id: string): boolean {
+      return db.prepare('DELETE FROM step_snippets WHERE id = ?').run(id).changes > 0;
+    }
+  };
+}
+
+export type CahierTemplateStore = ReturnType<typeof createCahierTemplateStore>;
+
+// Modèles de cahier enregistrés par les utilisateurs, conservés en JSON.
+export function createCahierTemplateStore(db: Database.Database) {
+  return {
+    list(): CahierTemplate[] {
+      return db
+        .prepare<[], { definition: string }>('SELECT definition FROM cahier_templates ORDER BY category, name')
+        .all()
+        .map(row => JSON.parse(row.definition));
+    },
+
+    save(template: CahierTemplate): CahierTemplate {
+      db.prepare(`
+        INSERT INTO cahier_templates (id, category, name, definition, updated_at)
+        VALUES (@id, @category, @name, @definition, @now)
+        ON CONFLICT(id) DO UPDATE SET category = excluded.category, name = excluded.name,
+          definition = excluded.definition, updated_at = excluded.updated_at
+      `).run({
+        id: template.id,
+        category: template.category,
+        name: template.name,
+        definition: JSON.stringify(template),
+        now: new Date().toISOString()
+      });
+      return template;
+    },
+
+    remove(id: string): boolean {
+      return db.prepare('DELETE FROM cahier_templates WHERE id = ?').run(id).changes > 0;
+    }
+  };
+}
+
+export type CampaignStore = ReturnType<typeof createCampaignStore>;
+
+// Campagnes de recette, conservées en JSON.
+export function createCampaignStore(db: Database.Database) {
+  const selectOne = db.prepare<[string], { definition: string }>('SELECT definition FROM campaigns WHERE id = ?');
+
+  return {
+    list(): Campaign[] {
+      return db
+        .prepare<[], { definition: string }>('SELECT definition FROM campaigns ORDER BY name')
+        .all()
+        .map(row => JSON.parse(row.definition));
+    },
+
+    get(id: string): Campaign | null {
+      const row = selectOne.get(id);
+      return row ? JSON.parse(row.definition) : null;
+    },
+
+    save(campaign: Campaign): Campaign {
+      db.prepare(`
+        INSERT INTO campaigns (id, name, definition, updated_at)
+        VALUES (@id, @name, @definition, @now)
+        ON CONFLICT(id) DO UPDATE SET name = excluded.name, definition = excluded.definition,
+          updated_at = excluded.updated_at
+      `).run({
+        id: campaign.id,
+        name: campaign.name,
+        definition: JSON.stringify(campaign),
+        now: new Date().toISOString()
+      });
+      return campaign;
+    },
+
+    remove(id: string): boolean {
+      return db.prepare('DELETE FROM campaigns WHERE id = ?').run(id).changes > 0;
+    }
+  };
+}
+
+export type EnvironmentStore = ReturnType<typeof createEnvironmentStore>;
+
+// Environnements proposés pour les exécutions, dans l'ordre d'affichage.
+// Retirer un environnement ne modifie pas les cahiers qui l'utilisent.
+export function createEnvironmentStore(db: Database.Database) {
+  const insert = db.prepare('INSERT INTO environments (name, description, position) VALUES (@name, @description, @position)');
+
+  return {
+    list(): TestEnvironment[] {
+      return db
+        .prepare<[], TestEnvironment>('SELECT name, description FROM environments ORDER BY position')
+        .all();
+    },
+
+    replace: db.transaction((environments: TestEnvironment[]): TestEnvironment[] => {
+      db.prepare('DELETE FROM environments').run();
+      environments.forEach(({ name, description }, position) => insert.run({ name, description, position }));
+      return environments;
+    })
+  };
+}
+
+export type PrintRuleStore = ReturnType<typeof createPrintRuleStore>;
+
+// Portée des contrôles avant impression (TMD, TMA) ; une règle sans ligne s'applique aux deux types.
+export function createPrintRuleStore(db: Database.Database) {
+  const insert = db.prepare('INSERT INTO print_rules (id, tmd, tma) VALUES (@id, @tmd, @tma)');
+
+  return {
+    get(): PrintRuleSettings {
+      const rows = db.prepare<[], { id: string; tmd: number; tma: number }>('SELECT id, tmd, tma FROM print_rules').all();
+      return Object.fromEntries(rows.map(({ id, tmd, tma }) => [id, { TMD: tmd === 1, TMA: tma === 1 }]));
+    },
+
+    replace: db.transaction((settings: PrintRuleSettings): PrintRuleSettings => {
+      db.prepare('DELETE FROM print_rules').run();
+      Object.entries(settings).forEach(([id, { TMD, TMA }]) => insert.run({ id, tmd: TMD ? 1 : 0, tma: TMA ? 1 : 0 }));
+      return settings;
+    })
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Faux serveur Jira (sous-ensemble de l'API REST v2) pour essayer l'intégration sans instance réelle :
+//   npm run jira:fake
+//   JIRA_BASE_URL=http://localhost:4010 JIRA_TOKEN=fake npm run dev
+// Les commentaires et pièces jointes reçus sont gardés en mémoire et consultables sur GET /rest/api/2/issue/:key.
+// Les tests importent `createFakeJira` et démarrent leur propre instance sur un port libre.
+
+import { pathToFileURL } from 'url';
+import express, { type NextFunction, type Request, type Response } from 'express';
+
+const PORT = Number(process.env.FAKE_JIRA_PORT) || 4010;
+
+interface FakeIssue {
+  summary: string;
+  issueType: string;
+  project: string;
+  assignee: string | null;
+  fixVersions: string[];
+  comments: { body: string; created: string }[];
+  attachments: { filename: string; size: number; mimeType: string; created: string }[];
+}
+
+const initialIssues = (): Map<string, FakeIssue> => new Map([
+  ['ERP-1234', {
+    summary: 'Calcul des congés payés au prorata',
+    issueType: 'Évolution',
+    project: 'ERP Paie',
+    assignee: 'Camille Martin',
+    fixVersions: ['R2026.11'],
+    comments: [],
+    attachments: []
+  }],
+  ['ERP-5678', {
+    summary: 'Erreur à la validation des notes de frais',
+    issueType: 'Bug',
+    project: 'ERP Finance',
+    assignee: null,
+    fixVersions: [],
+    comments: [],
+    attachments: []
+  }]
+]);
+
+// Multipart minimal : nom et taille du fichier du champ `file`, sans dépendance supplémentaire
+function readAttachment(body: Buffer, contentType: string) {
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/);
+  if (!boundary) return null;
+  const delimiter = `--${boundary[1] ?? boundary[2]}`;
+  const text = body.toString('latin1');
+  for (const part of text.split(delimiter)) {
+    const headerEnd = part.indexOf('\r\n\r\n');
+    const headers = part.slice(0, headerEnd);
+    const name = headers.match(/name="([^"]*)"/)?.[1];
+    if (name !== 'file') continue;
+    return {
+      filename: Buffer.from(headers.match(/filename="([^"]*)"/)?.[1] ?? 'fichier', 'latin1').toString('utf8'),
+      mimeType: headers.match(/Content-Type:\s*(\S+)/i)?.[1] ?? 'application/octet-stream',
+      // Contenu entre les en-têtes et le CRLF qui précède le délimiteur suivant
+      size: part.length - headerEnd - 4 - 2
+    };
+  }
+  return null;
+}
+
+export interface FakeJiraOptions {
+  // Jeton attendu (Bearer) ; par défaut tout en-tête Authorization est accepté
+  token?: string;
+  log?: (message: string) => void;
+}
+
+export function createFakeJira({ token, log = console.log }: FakeJiraOptions = {}) {
+  const issues = initialIssues();
+  const app = express();
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (!req.headers.authorization || (token !== undefined && req.headers.authorization !== `Bearer ${token}`)) {
+      res.status(401).json({ errorMessages: ['Authentification requise.'] });
+      return;
+    }
+    next();
+  });
+
+  app.param('key', (req: Request, res: Response, next: NextFunction, key: string) => {
+    if (!issues.has(key)) {
+      res.status(404).json({ errorMessages: ['Issue does not exist or you do not have permission to see it.'] });
+      return;
+    }
+    next();
+  });
+
+  app.get('/rest/api/2/issue/:key', (req: Request, res: Response) => {
+    const issue = issues.get(req.params.key)!;
+    res.json({
+      key: req.params.key,
+      fields: {
+        summary: issue.summary,
+        issuetype: { name: issue.issueType },
+        project: { name: issue.project },
+        assignee: issue.assignee && { displayName: issue.assignee },
+        fixVersions: issue.fixVersions.map(name => ({ name })),
+        comment: { comments: issue.comments },
+        attachment: issue.attachments
+      }
+    });
+  });
+
+  app.post('/rest/api/2/issue/:key/comment', express.json(), (req: Request, res: Response) => {
+    if (typeof req.body?.body !== 'string') {
+      res.status(400).json({ errorMessages: ['Comment body can not be empty!'] });
+      return;
+    }
+    const comment = { body: req.body.body, created: new Date().toISOString() };
+    issues.get(req.params.key)!.comments.push(comment);
+    log(`[${req.params.key}] commentaire :\n${comment.body}`);
+    res.status(201).json(comment);
+  });
+
+  app.post(
+    '/rest/api/2/issue/:key/attachments',
+    express.raw({ type: 'multipart/form-data', limit: '100mb' }),
+    (req: Request, res: Response) => {
+      if (req.headers['x-atlassian-token'] !== 'no-check') {
+        res.status(403).json({ errorMessages: ['XSRF check failed'] });
+        return;
+      }
+      const file = Buffer.isBuffer(req.body) ? readAttachment(req.body, req.headers['content-type'] ?? '') : null;
+      if (!file) {
+        res.status(400).json({ errorMessages: ['Aucun fichier reçu.'] });
+        return;
+      }
+      const attachment = { ...file, created: new Date().toISOString() };
+      issues.get(req.params.key)!.attachments.push(attachment);
+      log(`[${req.params.key}] pièce jointe : ${file.filename} (${file.size} octets)`);
+      res.json([attachment]);
+    }
+  );
+
+  return app;
+}
+
+// Démarré par `npm run jira:fake` ; rien n'est lancé quand le module est importé
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  createFakeJira().listen(PORT, () => {
+    console.log(`Faux Jira démarré sur http://localhost:${PORT} (tickets : ${[...initialIssues().keys()].join(', ')})`);
+  });
+}
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createFakeJira } from './fakeJira.ts';
+import { createJiraClient } from './jira.ts';
+import { createJiraRouter } from './routes.ts';
+
+const servers: Server[] = [];
+
+// Démarre une application sur un port libre et renvoie son adresse
+const listen = (app: express.Express) => new Promise<string>(resolve => {
+  const server = app.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+  servers.push(server);
+});
+
+let jiraUrl: string;
+let fakeLog: string[];
+
+// Application relayant vers le faux Jira avec `token`
+const startRelay = async (token: string) => {
+  const app = express();
+  app.use('/api/jira', createJiraRouter(createJiraClient({ baseUrl: jiraUrl, token, tmaIssueTypes: ['Bug'] })));
+  return `${await listen(app)}/api/jira`;
+};
+
+beforeEach(async () => {
+  fakeLog = [];
+  jiraUrl = await listen(createFakeJira({ token: 'secret', log: message => fakeLog.push(message) }));
+});
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+});
+
+const issueOf = async (url: string) => (await fetch(`${jiraUrl}/rest/api/2/issue/${url}`, {
+  headers: { Authorization: 'Bearer secret' }
+})).json();
+
+describe('relais Jira', () => {
+  it('renvoie le ticket converti pour le cahier', async () => {
+    const api = await startRelay('secret');
+    const response = await fetch(`${api}/issues/ERP-1234`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      key: 'ERP-1234',
+      summary: 'Calcul des congés payés au prorata',
+      issueType: 'Évolution',
+      type: 'TMD',
+      project: 'ERP Paie',
+      assignee: 'Camille Martin',
+      fixVersions: ['R2026.11'],
+      url: `${jiraUrl}/browse/ERP-1234`
+    });
+  });
+
+  it('classe en TMA les types de ticket configurés', async () => {
+    const api = await startRelay('secret');
+    const issue = await (await fetch(`${api}/issues/ERP-5678`)).json();
+    expect(issue).toMatchObject({ issueType: 'Bug', type: 'TMA', assignee: null, fixVersions: [] });
+  });
+
+  it('publie un commentaire', async () => {
+    const api = await startRelay('secret');
+    const response = await fetch(`${api}/issues/ERP-1234/comments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ body: '*BON POUR PROD OK*' })
+    });
+    expect(response.status).toBe(204);
+    const issue = await issueOf('ERP-1234');
+    expect(issue.fields.comment.comments).toEqual([expect.objectContaining({ body: '*BON POUR PROD OK*' })]);
+  });
+
+  it('joint un fichier au ticket', async () => {
+    const api = await startRelay('secret');
+    const pdf = Buffer.from('%PDF-1.4 contenu de test');
+    const response = await fetch(`${api}/issues/ERP-1234/attachments?fileName=${encodeURIComponent('ERP-1234 Cahier é.pdf')}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/pdf' },
+      body: pdf
+    });
+    expect(response.status).toBe(204);
+    const issue = await issueOf('ERP-1234');
+    expect(issue.fields.attachment).toEqual([
+      expect.objectContaining({ filename: 'ERP-1234 Cahier é.pdf', mimeType: 'application/pdf', size: pdf.length })
+    ]);
+    expect(fakeLog).toEqual([expect.stringContaining('pièce jointe : ERP-1234 Cahier é.pdf')]);
+  });
+
+  it('signale un ticket inexistant (404)', async () => {
+    const api = await startRelay('secret');
+    const response = await fetch(`${api}/issues/ERP-9999`);
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: { key: 'error.jiraNotFound', params: { key: 'ERP-9999' } } });
+  });
+
+  it('signale un jeton refusé (401) comme une erreur de passerelle', async () => {
+    const api = await startRelay('mauvais-jeton');
+    for (const request of [
+      fetch(`${api}/issues/ERP-1234`),
+      fetch(`${api}/issues/ERP-1234/comments`, {
+        method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ body: 'x' })
+      })
+    ]) {
+      const response = await request;
+      expect(response.status).toBe(502);
+      expect((await response.json()).error).toEqual({ key: 'error.jiraForbidden' });
+    }
+  });
+
+  it('signale un Jira injoignable', async () => {
+    const app = express();
+    app.use('/api/jira', createJiraRouter(createJiraClient({ baseUrl: 'http://127.0.0.1:1', token: 'secret', tmaIssueTypes: [] })));
+    const response = await fetch(`${await listen(app)}/api/jira/issues/ERP-1234`);
+    expect(response.status).toBe(502);
+    expect((await response.json()).error).toMatchObject({ key: 'error.jiraUnreachable' });
+  });
+
+  it('valide la clé et les données avant d\'appeler Jira', async () => {
+    const api = await startRelay('secret');
+    expect((await fetch(`${api}/issues/pas-une-cle`)).status).toBe(400);
+    expect((await fetch(`${api}/issues/ERP-1234/comments`, {
+      method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ body: ' ' })
+    })).status).toBe(400);
+    expect((await fetch(`${api}/issues/ERP-1234/attachments`, { method: 'POST', body: 'x' })).status).toBe(400);
+  });
+
+  it('répond 503 quand l\'intégration n\'est pas configurée', async () => {
+    const app = express();
+    app.use('/api/jira', createJiraRouter(null));
+    const api = `${await listen(app)}/api/jira`;
+    expect(await (await fetch(`${api}/config`)).json()).toEqual({ enabled: false });
+    expect((await fetch(`${api}/issues/ERP-1234`)).status).toBe(503);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { JiraIssue } from '../src/types.ts';
+import { message, MessageError, type Message } from '../src/i18n.ts';
+
+// Accès à Jira utilisé par les routes ; une autre implémentation (faux serveur, double de test) peut être injectée.
+export interface JiraClient {
+  getIssue(key: string): Promise<JiraIssue>;
+  addComment(key: string, body: string): Promise<void>;
+  addAttachment(key: string, fileName: string, data: Buffer, mimeType: string): Promise<void>;
+}
+
+export interface JiraConfig {
+  baseUrl: string;
+  // Jira Cloud : adresse du compte + jeton d'API (Basic). Jira Server / Data Center : jeton personnel seul (Bearer).
+  email?: string;
+  token: string;
+  // Types de ticket traités en TMA ; les autres donnent un cahier TMD
+  tmaIssueTypes: string[];
+}
+
+export class JiraError extends MessageError {
+  constructor(detail: Message, public status: number) {
+    super(detail);
+    this.name = 'JiraError';
+  }
+}
+
+// Configuration lue dans l'environnement (JIRA_BASE_URL, JIRA_EMAIL, JIRA_TOKEN, JIRA_TMA_ISSUE_TYPES),
+// null si l'intégration n'est pas configurée.
+export function jiraConfigFromEnv(env: NodeJS.ProcessEnv = process.env): JiraConfig | null {
+  if (!env.JIRA_BASE_URL || !env.JIRA_TOKEN) return null;
+  return {
+    baseUrl: env.JIRA_BASE_URL.replace(/\/+$/, ''),
+    email: env.JIRA_EMAIL || undefined,
+    token: env.JIRA_TOKEN,
+    tmaIssueTypes: (env.JIRA_TMA_ISSUE_TYPES || 'Bug,Anomalie,Incident').split(',').map(type => type.trim())
+  };
+}
+
+interface IssueResponse {
+  key: string;
+  fields: {
+    summary: string;
+    issuetype?: { name: string };
+    project?: { name: string };
+    assignee?: { displayName: string } | null;
+    fixVersions?: { name: string }[];
+  };
+}
+
+// Client de l'API REST v2 de Jira
+export function createJiraClient(config: JiraConfig, fetchImpl: typeof fetch = fetch): JiraClient {
+  const authorization = config.email
+    ? `Basic ${Buffer.from(`${config.email}:${config.token}`).toString('base64')}`
+    : `Bearer ${config.token}`;
+
+  const issueUrl = (key: string) => `${config.baseUrl}/browse/${encodeURIComponent(key)}`;
+
+  const call = async (key: string, path: string, init: RequestInit = {}) => {
+    let response: Response;
+    try {
+      response = await fetchImpl(`${config.baseUrl}/rest/api/2/issue/${encodeURIComponent(key)}${path}`, {
+        ...init,
+        headers: { Authorization: authorization, Accept: 'application/json', ...init.headers }
+      });
+    } catch (error) {
+      throw new JiraError(message('error.jiraUnreachable', { detail: (error as Error).message }), 502);
+    }
+    if (response.status === 404) throw new JiraError(message('error.jiraNotFound', { key }), 404);
+    if (response.status === 401 || response.status === 403) throw new JiraError(message('error.jiraForbidden'), 502);
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      const detail = body?.errorMessages?.join(' ') || response.statusText;
+      throw new JiraError(message('error.jiraStatus', { status: response.status, detail }), 502);
+    }
+    return response;
+  };
+
+  return {
+    async getIssue(key) {
+      const response = await call(key, '?fields=summary,issuetype,project,assignee,fixVersions');
+      const { fields, ...issue } = await response.json() as IssueResponse;
+      const issueType = fields.issuetype?.name ?? '';
+      return {
+        key: issue.key,
+        summary: fields.summary,
+        issueType,
+        type: config.tmaIssueTypes.includes(issueType) ? 'TMA' : 'TMD',
+        project: fields.project?.name ?? '',
+        assignee: fields.assignee?.displayName ?? null,
+        fixVersions: (fields.fixVersions ?? []).map(version => version.name),
+        url: issueUrl(issue.key)
+      };
+    },
+
+    async addComment(key, body) {
+      await call(key, '/comment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body })
+      });
+    },
+
+    async addAttachment(key, fileName, data, mimeType) {
+      const form = new FormData();
+      form.append('file', new Blob([data], { type: mimeType }), fileName);
+      // En-tête exigé par Jira pour les envois multipart (protection XSRF)
+      await call(key, '/attachments', { method: 'POST', headers: { 'X-Atlassian-Token': 'no-check' }, body: form });
+    }
+  };
+}
@@ -0,0 +1,467 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express, { type Request, type Response } from 'express';
+import type {
+  CahierFilters, CahierTemplate, Campaign, DocumentTemplate, PrintRuleSettings, StepSnippet, TestEnvironment
+} from '../src/types.ts';
+import { validateAppData } from '../src/schema.ts';
+import { message, type Message, type MessageKey, type MessageParams } from '../src/i18n.ts';
+import { BUILT_IN_TEMPLATES } from '../src/sqlTemplates.ts';
+import { BUILT_IN_DOCUMENT_TEMPLATES, checkDocumentTemplate } from '../src/documentTemplates.ts';
+import {
+  BUILT_IN_CAHIER_TEMPLATES, BUILT_IN_SNIPPETS, checkCahierTemplate, checkSnippet
+} from '../src/library.ts';
+import { isJiraKey } from '../src/jira.ts';
+import { checkCampaign } from '../src/campaigns.ts';
+import { checkEnvironments } from '../src/environments.ts';
+import { checkPrintRuleSettings } from '../src/printRules.ts';
+import { JiraError, type JiraClient } from './jira.ts';
+import {
+  AssistantError, checkConclusionRequest, checkRewriteRequest, checkStepsRequest, type AssistantProvider
+} from './assistant.ts';
+import {
+  CahierExistsError, CahierLockedError, type CahierStore, type CahierTemplateStore, type CampaignStore,
+  type DocumentTemplateStore, type EnvironmentStore, type PrintRuleStore, type SnippetStore, type TemplateStore
+} from './db.ts';
+
+// Réponse d'erreur : message traduit par le client dans la langue de l'interface
+const failure = (key: MessageKey, params?: MessageParams) => ({ error: message(key, params) });
+
+export function createCahierRouter(store: CahierStore) {
+  const router = express.Router();
+  router.use(express.json({ limit: '50mb' }));
+
+  router.get('/', (req: Request, res: Response) => {
+    const param = (name: string) =>
+      typeof req.query[name] === 'string' && req.query[name] !== '' ? (req.query[name] as string) : undefined;
+    res.json(store.list({
+      q: param('q'),
+      type: param('type') as CahierFilters['type'],
+      conclusion: param('conclusion') as CahierFilters['conclusion'],
+      from: param('from'),
+      to: param('to'),
+      archived: param('archived') === 'true'
+    }));
+  });
+
+  router.post('/', (req: Request, res: Response) => {
+    const issues = validateAppData(req.body);
+    if (issues.length > 0 || !req.body.jiraNumber.trim()) {
+      res.status(400).json({ ...failure('error.invalidCahier'), issues });
+      return;
+    }
+    try {
+      res.status(201).json(store.create(req.body));
+    } catch (error) {
+      if (error instanceof CahierExistsError) {
+        res.status(409).json({ error: error.detail });
+        return;
+      }
+      throw error;
+    }
+  });
+
+  router.get('/:jiraNumber', (req: Request, res: Response) => {
+    const data = store.get(req.params.jiraNumber);
+    if (!data) {
+      res.status(404).json(failure('error.cahierNotFound'));
+      return;
+    }
+    res.json(data);
+  });
+
+  router.put('/:jiraNumber', (req: Request, res: Response) => {
+    const issues = validateAppData(req.body);
+    if (issues.length > 0 || req.body.jiraNumber !== req.params.jiraNumber) {
+      res.status(400).json({ ...failure('error.invalidCahier'), issues });
+      return;
+    }
+    try {
+      res.json(store.save(req.body));
+    } catch (error) {
+      if (error instanceof CahierLockedError) {
+        res.status(409).json({ error: error.detail });
+        return;
+      }
+      throw error;
+    }
+  });
+
+  // Déverrouillage d'un cahier validé : seule façon de le repasser en brouillon
+  router.post('/:jiraNumber/unlock', (req: Request, res: Response) => {
+    const data = store.unlock(req.params.jiraNumber);
+    if (!data) {
+      res.status(404).json(failure('error.cahierNotFound'));
+      return;
+    }
+    res.json(data);
+  });
+
+  router.patch('/:jiraNumber', (req: Request, res: Response) => {
+    if (typeof req.body?.archived !== 'boolean') {
+      res.status(400).json(failure('error.invalidRequest'));
+      return;
+    }
+    if (!store.setArchived(req.params.jiraNumber, req.body.archived)) {
+      res.status(404).json(failure('error.cahierNotFound'));
+      return;
+    }
+    res.status(204).end();
+  });
+
+  router.delete('/:jiraNumber', (req: Request, res: Response) => {
+    if (!store.remove(req.params.jiraNumber)) {
+      res.status(404).json(failure('error.cahierNotFound'));
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
+
+export function createTemplateRouter(store: TemplateStore) {
+  const router = express.Router();
+  router.use(express.json());
+
+  router.get('/', (_req: Request, res: Response) => {
+    res.json(store.list());
+  });
+
+  router.put('/:id', (req: Request, res: Response) => {
+    const { name, sql } = req.body ?? {};
+    if (typeof name !== 'string' || !name.trim() || typeof sql !== 'string' || !sql.trim()) {
+      res.status(400).json(failure('error.queryTemplate'));
+      return;
+    }
+    if (BUILT_IN_TEMPLATES.some(template => template.id === req.params.id)) {
+      res.status(409).json(failure('error.builtInTemplate'));
+      return;
+    }
+    res.json(store.save({ id: req.params.id, name: name.trim(), sql }));
+  });
+
+  router.delete('/:id', (req: Request, res: Response) => {
+    if (!store.remove(req.params.id)) {
+      res.status(404).json(failure('error.templateNotFound'));
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
+
+export function createDocumentTemplateRouter(store: DocumentTemplateStore) {
+  const router = express.Router();
+  // Les logos sont envoyés en data URL
+  router.use(express.json({ limit: '5mb' }));
+
+  router.get('/', (_req: Request, res: Response) => {
+    res.json(store.list());
+  });
+
+  router.put('/:id', (req: Request, res: Response) => {
+    const template = { ...req.body, id: req.params.id } as DocumentTemplate;
+    const error = checkDocumentTemplate(template);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    if (BUILT_IN_DOCUMENT_TEMPLATES.some(builtIn => builtIn.id === req.params.id)) {
+      res.status(409).json(failure('error.builtInTemplate'));
+      return;
+    }
+    const { builtIn, ...definition } = template;
+    res.json(store.save({ ...definition, name: definition.name.trim() }));
+  });
+
+  router.delete('/:id', (req: Request, res: Response) => {
+    if (!store.remove(req.params.id)) {
+      res.status(404).json(failure('error.templateNotFound'));
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
+
+export function createSnippetRouter(store: SnippetStore) {
+  const router = express.Router();
+  // Le contenu Quill peut contenir des images
+  router.use(express.json({ limit: '10mb' }));
+
+  router.get('/', (_req: Request, res: Response) => {
+    res.json(store.list());
+  });
+
+  router.put('/:id', (req: Request, res: Response) => {
+    const snippet = { ...req.body, id: req.params.id } as StepSnippet;
+    const error = checkSnippet(snippet);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    if (BUILT_IN_SNIPPETS.some(builtIn => builtIn.id === req.params.id)) {
+      res.status(409).json(failure('error.builtInSnippet'));
+      return;
+    }
+    res.json(store.save({
+      id: snippet.id,
+      category: snippet.category.trim(),
+      title: snippet.title.trim(),
+      content: snippet.content,
+      expectedResult: snippet.expectedResult
+    }));
+  });
+
+  router.delete('/:id', (req: Request, res: Response) => {
+    if (!store.remove(req.params.id)) {
+      res.status(404).json(failure('error.snippetNotFound'));
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
+
+export function createCahierTemplateRouter(store: CahierTemplateStore) {
+  const router = express.Router();
+  router.use(express.json({ limit: '50mb' }));
+
+  router.get('/', (_req: Request, res: Response) => {
+    res.json(store.list());
+  });
+
+  router.put('/:id', (req: Request, res: Response) => {
+    const template = { ...req.body, id: req.params.id } as CahierTemplate;
+    const error = checkCahierTemplate(template);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    if (BUILT_IN_CAHIER_TEMPLATES.some(builtIn => builtIn.id === req.params.id)) {
+      res.status(409).json(failure('error.builtInTemplate'));
+      return;
+    }
+    res.json(store.save({
+      id: template.id,
+      name: template.name.trim(),
+      category: template.category.trim(),
+      description: template.description,
+      type: template.type,
+      sqlQueries: template.sqlQueries,
+      steps: template.steps
+    }));
+  });
+
+  router.delete('/:id', (req: Request, res: Response) => {
+    if (!store.remove(req.params.id)) {
+      res.status(404).json(failure('error.templateNotFound'));
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
+
+export function createEnvironmentRouter(store: EnvironmentStore) {
+  const router = express.Router();
+  router.use(express.json());
+
+  router.get('/', (_req: Request, res: Response) => {
+    res.json(store.list());
+  });
+
+  // La liste est remplacée en entier : ajouts, suppressions et ordre
+  router.put('/', (req: Request, res: Response) => {
+    const error = checkEnvironments(req.body);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    res.json(store.replace((req.body as TestEnvironment[]).map(({ name, description }) => ({
+      name,
+      description: description.trim()
+    }))));
+  });
+
+  return router;
+}
+
+export function createPrintRuleRouter(store: PrintRuleStore) {
+  const router = express.Router();
+  router.use(express.json());
+
+  router.get('/', (_req: Request, res: Response) => {
+    res.json(store.get());
+  });
+
+  router.put('/', (req: Request, res: Response) => {
+    const error = checkPrintRuleSettings(req.body);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    res.json(store.replace(Object.fromEntries(Object.entries(req.body as PrintRuleSettings)
+      .map(([id, { TMD, TMA }]) => [id, { TMD, TMA }]))));
+  });
+
+  return router;
+}
+
+export function createCampaignRouter(store: CampaignStore, cahiers: CahierStore) {
+  const router = express.Router();
+  router.use(express.json());
+
+  router.get('/', (_req: Request, res: Response) => {
+    res.json(store.list());
+  });
+
+  router.put('/:id', (req: Request, res: Response) => {
+    const campaign = { ...req.body, id: req.params.id } as Campaign;
+    const error = checkCampaign(campaign);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    res.json(store.save({
+      id: campaign.id,
+      name: campaign.name.trim(),
+      release: campaign.release.trim(),
+      from: campaign.from,
+      to: campaign.to
+    }));
+  });
+
+  router.delete('/:id', (req: Request, res: Response) => {
+    if (!store.remove(req.params.id)) {
+      res.status(404).json(failure('error.campaignNotFound'));
+      return;
+    }
+    res.status(204).end();
+  });
+
+  // Cahiers complets de la campagne : tableau de bord et rapport consolidé
+  router.get('/:id/cahiers', (req: Request, res: Response) => {
+    const campaign = store.get(req.params.id);
+    if (!campaign) {
+      res.status(404).json(failure('error.campaignNotFound'));
+      return;
+    }
+    res.json(cahiers.listForCampaign(campaign));
+  });
+
+  return router;
+}
+
+// Relais vers Jira : le navigateur n'a ni les identifiants ni l'autorisation CORS pour l'appeler directement.
+// `client` vaut null quand l'intégration n'est pas configurée.
+export function createJiraRouter(client: JiraClient | null) {
+  const router = express.Router();
+
+  router.get('/config', (_req: Request, res: Response) => {
+    res.json({ enabled: !!client });
+  });
+
+  router.use('/issues/:key', (req: Request, res: Response, next) => {
+    if (!client) {
+      res.status(503).json(failure('error.jiraDisabled'));
+      return;
+    }
+    if (!isJiraKey(req.params.key)) {
+      res.status(400).json(failure('error.jiraKey', { key: req.params.key }));
+      return;
+    }
+    next();
+  });
+
+  // Transforme les erreurs Jira en réponse JSON, les autres remontent à Express
+  const relay = (handler: (req: Request, res: Response) => Promise<void>) =>
+    async (req: Request, res: Response, next: (error: unknown) => void) => {
+      try {
+        await handler(req, res);
+      } catch (error) {
+        if (error instanceof JiraError) {
+          res.status(error.status).json({ error: error.detail });
+          return;
+        }
+        next(error);
+      }
+    };
+
+  router.get('/issues/:key', relay(async (req, res) => {
+    res.json(await client!.getIssue(req.params.key));
+  }));
+
+  router.post('/issues/:key/comments', express.json(), relay(async (req, res) => {
+    if (typeof req.body?.body !== 'string' || !req.body.body.trim()) {
+      res.status(400).json(failure('error.emptyComment'));
+      return;
+    }
+    await client!.addComment(req.params.key, req.body.body);
+    res.status(204).end();
+  }));
+
+  // Corps brut du fichier, nom dans le paramètre `fileName`
+  router.post('/issues/:key/attachments', express.raw({ type: () => true, limit: '100mb' }), relay(async (req, res) => {
+    const fileName = typeof req.query.fileName === 'string' ? req.query.fileName.trim() : '';
+    if (!fileName || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json(failure('error.missingFile'));
+      return;
+    }
+    await client!.addAttachment(req.params.key, fileName, req.body, req.headers['content-type'] || 'application/octet-stream');
+    res.status(204).end();
+  }));
+
+  return router;
+}
+
+// Assistant de rédaction : la clé d'API reste sur le serveur
+export function createAssistantRouter(provider: AssistantProvider | null) {
+  const router = express.Router();
+  router.use(express.json({ limit: '1mb' }));
+
+  router.get('/config', (_req: Request, res: Response) => {
+    res.json({ enabled: !!provider });
+  });
+
+  router.use((_req: Request, res: Response, next) => {
+    if (!provider) {
+      res.status(503).json(failure('error.assistantDisabled'));
+      return;
+    }
+    next();
+  });
+
+  // Contrôle la demande puis transforme les erreurs de l'assistant en réponse JSON
+  const ask = <T>(check: (value: Partial<T>) => Message | null, handler: (body: T) => Promise<unknown>) =>
+    async (req: Request, res: Response, next: (error: unknown) => void) => {
+      const error = check(req.body ?? {});
+      if (error) {
+        res.status(400).json({ error });
+        return;
+      }
+      try {
+        res.json(await handler(req.body));
+      } catch (error) {
+        if (error instanceof AssistantError) {
+          res.status(error.status).json({ error: error.detail });
+          return;
+        }
+        next(error);
+      }
+    };
+
+  router.post('/steps', ask(checkStepsRequest, async body => ({ steps: await provider!.proposeSteps(body) })));
+  router.post('/rewrite', ask(checkRewriteRequest, async body => ({ blocks: await provider!.rewriteStep(body) })));
+  router.post('/conclusion', ask(checkConclusionRequest, async body => ({ text: await provider!.summarize(body) })));
+
+  return router;
+}
@@ -3,68 +3,163 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo, type SetStateAction } from 'react';
 import { 
   Plus, 
   Trash2, 
   Printer, 
   Save, 
-  RotateCcw, 
+  FolderOpen, 
   FileText, 
   CheckCircle2, 
   XCircle,
   Database,
   Calendar,
   Layers,
-  Image as ImageIcon,
   Eye,
   X,
   Copy,
-  Check
+  Check,
+  Upload,
+  Download,
+  History,
+  LifeBuoy,
+  Undo2,
+  Redo2,
+  GripVertical,
+  ChevronUp,
+  ChevronDown,
+  CopyPlus,
+  ListPlus,
+  Heading,
+  AlertTriangle,
+  Settings2,
+  Settings,
+  FileDown,
+  Palette,
+  FileType,
+  FileCode,
+  ShieldCheck,
+  Send,
+  Lock,
+  Unlock,
+  Library,
+  BookmarkPlus,
+  CloudDownload,
+  CloudUpload,
+  Sparkles,
+  WandSparkles,
+  ClipboardList,
+  ListChecks,
+  Command,
+  Star
 } from 'lucide-react';
-import Quill from 'quill';
+import Quill, { Delta } from 'quill';
+import QuillImage from 'quill/formats/image';
 import 'quill/dist/quill.snow.css';
 import BlotFormatter from 'quill-blot-formatter';
-import { clsx, type ClassValue } from 'clsx';
+import { cn, downloadBlob } from './utils';
+import type {
+  AppData, CahierTemplate, Capture, CoverInfo, DocumentTemplate, ImageAnnotation, Locale, PrintIssue, PrintRuleSettings, QueryTemplate, Signature, SignOff,
+  StepSnippet, StepStatus, TestEnvironment, TestStep
+} from './types';
+import {
+  attachToJiraIssue, commentJiraIssue, draftConclusion, getAssistantConfig, getCahier, getJiraConfig, getJiraIssue,
+  getPrintRuleSettings, listCahierTemplates, listDocumentTemplates, listEnvironments, listQueryTemplates, listSnippets, rewriteStep, saveCahier, saveSnippet, unlockCahier
+} from './api';
+import { BUILT_IN_TEMPLATES, resolveQueries } from './sqlTemplates';
+import TemplateLibraryDialog from './components/TemplateLibraryDialog';
+import DocumentTemplateDialog from './components/DocumentTemplateDialog';
+import {
+  BUILT_IN_DOCUMENT_TEMPLATES, EMPTY_COVER_INFO, findDocumentTemplate
+} from './documentTemplates';
+import CaptureGallery from './components/CaptureGallery';
+import { CahierImportError, parseCahierFile, toCahierFile } from './schema';
+import WorkspaceSidebar from './components/WorkspaceSidebar';
+import ImportDialog, { type ImportResult } from './components/ImportDialog';
+import HistoryPanel from './components/HistoryPanel';
+import { addSnapshot, clearDraft, loadDraft, saveDraft, type Draft, type Snapshot } from './drafts';
+import { useUndoableState, type UpdateOptions } from './useUndoableState';
+import UndoToast from './components/UndoToast';
+import { numberSteps } from './numbering';
+import { countStatuses, createStep, STEP_STATUS_CLASSES } from './steps';
+import { dataUrlSize, formatBytes, processImage } from './images';
+import SettingsDialog from './components/SettingsDialog';
+import { loadSettings } from './settings';
+import { errorText, formatDate, formatDateTime, LOCALES, translator, type MessageKey } from './i18n';
+import { LocaleContext, useTranslation } from './useTranslation';
+import { downloadPdf, generatePdf } from './pdf';
+import { applyJiraIssue, conclusionComment, isJiraKey } from './jira';
+import { buildDocumentModel, exportFileName } from './documentModel';
+import { buildDocx } from './exportDocx';
+import { buildMarkdown } from './exportMarkdown';
+import {
+  decide, DRAFT_SIGN_OFF, isConclusionLocked, isLocked, signatureBlocks, submitForReview, WORKFLOW_CLASSES
+} from './signOff';
+import SignOffDialog from './components/SignOffDialog';
+import LibraryDialog from './components/LibraryDialog';
+import PrintContent from './components/PrintContent';
+import CampaignDialog from './components/CampaignDialog';
+import EnvironmentsDialog from './components/EnvironmentsDialog';
+import { DEFAULT_ENVIRONMENTS } from './environments';
+import { allRuns, newRun, promoteRun, removeRun, storeRun, viewRun } from './runs';
+import { checkPrintRules, issueTargetId } from './printRules';
+import { sanitizeCahier, sanitizeHtml } from './sanitize';
+import { ANNOTATION_ATTRIBUTE, copyAnnotations, pruneAnnotations, storeAnnotation } from './annotations';
+import ImageAnnotator from './components/ImageAnnotator';
+import PrintCheckDialog from './components/PrintCheckDialog';
+import CommandPalette, { type PaletteCommand } from './components/CommandPalette';
+import { matchShortcut, SHORTCUT_KEYS, type ShortcutId } from './shortcuts';
+import { applyCahierTemplate, freshSteps, stepToSnippet } from './library';
+import AssistantDialog from './components/AssistantDialog';
+import { blocksToHtml, conclusionRequestOf, imagesOf, richTextToBlocks } from './assistant';
 
 Quill.register('modules/blotFormatter', BlotFormatter);
-import { twMerge } from 'tailwind-merge';
 
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
-
-interface TestStep {
-  id: string;
-  title: string;
-  content: string;
-}
+// Image d'étape : l'attribut data-annotation la relie à son original et à ses annotations
+class AnnotatedImage extends QuillImage {
+  static formats(domNode: Element) {
+    const formats = super.formats(domNode);
+    if (domNode.hasAttribute(ANNOTATION_ATTRIBUTE)) formats.annotation = domNode.getAttribute(ANNOTATION_ATTRIBUTE);
+    return formats;
+  }
 
-interface AppData {
-  jiraNumber: string;
-  jiraName: string;
-  type: 'TMD' | 'TMA';
-  date: string;
-  environment: 'FRECMCOR' | 'FPOST';
-  conclusion: 'OK' | 'KO';
-  localImage: string | null;
-  steps: TestStep[];
-  showSqlQuery: boolean;
-  sqlQueryType: 'data' | 'app';
+  format(name: string, value: string) {
+    if (name !== 'annotation') {
+      super.format(name, value);
+    } else if (value) {
+      this.domNode.setAttribute(ANNOTATION_ATTRIBUTE, value);
+    } else {
+      this.domNode.removeAttribute(ANNOTATION_ATTRIBUTE);
+    }
+  }
 }
+Quill.register(AnnotatedImage, true);
 
-const INITIAL_DATA: AppData = {
+// Nouveau cahier : documenté par défaut dans la langue de l'interface, exécuté sur le premier environnement configuré
+const createInitialData = (locale: Locale, environment = DEFAULT_ENVIRONMENTS[0].name): AppData => ({
   jiraNumber: '',
   jiraName: '',
   type: 'TMD',
   date: new Date().toISOString().split('T')[0],
-  environment: 'FRECMCOR',
+  environment,
   conclusion: 'OK',
-  localImage: null,
-  steps: [{ id: crypto.randomUUID(), title: 'Étape 1', content: '' }],
+  conclusionText: '',
+  captures: [],
+  steps: [createStep('step', translator(locale)('steps.defaultTitle', { number: 1 }))],
   showSqlQuery: true,
-  sqlQueryType: 'data'
-};
+  sqlQueries: ['data'],
+  documentTemplateId: 'default',
+  documentLanguage: locale,
+  coverInfo: EMPTY_COVER_INFO,
+  signOff: DRAFT_SIGN_OFF,
+  runs: [],
+  annotations: {}
+});
+
+const STEP_DRAG_TYPE = 'application/x-cahier-step';
+// Au-delà, l'enregistrement et l'export deviennent lents : le poids est signalé dans l'en-tête
+const DOCUMENT_SIZE_WARNING = 20 * 1024 * 1024;
 
 const COLORS = [
   '#000000', '#444444', '#666666', '#999999',
@@ -74,9 +169,41 @@ const COLORS = [
 ];
 
 // --- Component: Rich Text Editor ---
-const RichTextEditor = ({ value, onChange, id }: { value: string; onChange: (content: string) => void; id: string }) => {
+const RichTextEditor = ({ value, onChange, id, readOnly = false, onAnnotateImage }: {
+  value: string;
+  onChange: (content: string) => void;
+  id: string;
+  readOnly?: boolean;
+  // Double-clic sur une image : `replace` la remplace par sa version annotée
+  onAnnotateImage?: (image: { src: string; annotationId: string | null }, replace: (src: string, annotationId: string | null) => void) => void;
+}) => {
+  const { locale, t } = useTranslation();
   const editorRef = useRef<HTMLDivElement>(null);
   const quillRef = useRef<Quill | null>(null);
+  const onAnnotateImageRef = useRef(onAnnotateImage);
+  onAnnotateImageRef.current = onAnnotateImage;
+  // Dernière valeur connue, pour ne pas renvoyer comme une modification le contenu posé depuis l'extérieur (annulation, restauration…)
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  // Images choisies, collées ou déposées : compressées avant d'être intégrées au contenu
+  const insertImages = async (index: number, files: File[]) => {
+    const quill = quillRef.current;
+    if (!quill) return;
+    for (const file of files) {
+      try {
+        const url = await processImage(file, locale);
+        quill.insertEmbed(index, 'image', url, 'user');
+        index += 1;
+      } catch (error) {
+        alert(t('captures.fileError', { file: file.name, error: errorText(error, t) }));
+      }
+    }
+    quill.setSelection(index, 0, 'silent');
+  };
+  // Les gestionnaires de Quill sont créés une fois : ils passent par la ref pour suivre la langue courante
+  const insertImagesRef = useRef(insertImages);
+  insertImagesRef.current = insertImages;
 
   useEffect(() => {
     if (editorRef.current && !quillRef.current) {
@@ -84,21 +211,65 @@ const RichTextEditor = ({ value, onChange, id }: { value: string; onChange: (con
         theme: 'snow',
         modules: {
           blotFormatter: {},
-          toolbar: [
-            [{ header: [1, 2, false] }],
-            ['bold', 'italic', 'underline', 'strike'],
-            [{ color: COLORS }, { background: COLORS }],
-            ['blockquote', 'code-block'],
-            [{ list: 'ordered' }, { list: 'bullet' }],
-            ['link', 'image'],
-            ['clean']
-          ]
+          toolbar: {
+            container: [
+              [{ header: [1, 2, false] }],
+              ['bold', 'italic', 'underline', 'strike'],
+              [{ color: COLORS }, { background: COLORS }],
+              ['blockquote', 'code-block'],
+              [{ list: 'ordered' }, { list: 'bullet' }],
+              ['link', 'image'],
+              ['clean']
+            ],
+            handlers: {
+              image: () => {
+                const input = document.createElement('input');
+                input.type = 'file';
+                input.accept = 'image/*';
+                input.onchange = () => {
+                  const range = quillRef.current?.getSelection(true);
+                  if (input.files?.length) insertImagesRef.current(range?.index ?? 0, [...input.files]);
+                };
+                input.click();
+              }
+            }
+          },
+          uploader: {
+            handler: (range: { index: number; length: number }, files: File[]) => {
+              if (range.length > 0) quillRef.current?.deleteText(range.index, range.length, 'user');
+              insertImagesRef.current(range.index, files);
+            }
+          }
         }
       });
 
       quillRef.current.on('text-change', () => {
         const html = quillRef.current?.root.innerHTML || '';
-        onChange(html);
+        if (html !== valueRef.current) onChange(html);
+      });
+
+      // Le cadre de redimensionnement recouvre l'image après le premier clic : on retient l'image cliquée
+      // et le double-clic est écouté sur tout l'éditeur.
+      const quill = quillRef.current;
+      let clickedImage: HTMLImageElement | null = null;
+      quill.root.addEventListener('click', (e) => {
+        clickedImage = e.target instanceof HTMLImageElement ? e.target : null;
+      });
+      editorRef.current.addEventListener('dblclick', () => {
+        const image = clickedImage;
+        if (!image || !quill.root.contains(image) || !quill.isEnabled() || !onAnnotateImageRef.current) return;
+        onAnnotateImageRef.current(
+          { src: image.getAttribute('src') ?? '', annotationId: image.getAttribute(ANNOTATION_ATTRIBUTE) },
+          (src, annotationId) => {
+            const blot = Quill.find(image);
+            if (!(blot instanceof AnnotatedImage)) return;
+            const { annotation, ...formats } = AnnotatedImage.formats(image);
+            quill.updateContents(
+              new Delta().retain(quill.getIndex(blot)).delete(1).insert({ image: src }, annotationId ? { ...formats, annotation: annotationId } : formats),
+              'user'
+            );
+          }
+        );
       });
     }
 
@@ -116,77 +287,446 @@ const RichTextEditor = ({ value, onChange, id }: { value: string; onChange: (con
     }
   }, []);
 
-  // Handle value updates from outside (like Restore)
+  useEffect(() => {
+    quillRef.current?.enable(!readOnly);
+  }, [readOnly]);
+
+  // Handle value updates from outside (like Restore) ; le HTML reçu est nettoyé avant d'entrer dans l'éditeur
   useEffect(() => {
     if (quillRef.current && value !== quillRef.current.root.innerHTML) {
-      quillRef.current.root.innerHTML = value;
+      quillRef.current.root.innerHTML = sanitizeHtml(value);
     }
   }, [value]);
 
   return (
-    <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+    <div id={id} className="bg-white rounded-lg border border-slate-200 overflow-hidden">
       <div ref={editorRef} style={{ minHeight: '200px' }} />
+      {onAnnotateImage && !readOnly && (
+        <p className="px-3 py-1 text-[10px] text-slate-400 italic border-t border-slate-100">{t('editor.annotateHint')}</p>
+      )}
     </div>
   );
 };
 
 export default function App() {
-  const [data, setData] = useState<AppData>(INITIAL_DATA);
+  const {
+    state: stored,
+    setState: setStored,
+    reset: resetStored,
+    undo,
+    redo,
+    canUndo,
+    canRedo
+  } = useUndoableState<AppData>(() => createInitialData(loadSettings().language));
+  // Exécution affichée dans l'éditeur (null : exécution principale du cahier). État d'interface :
+  // `stored`, enregistré et imprimé, garde toujours son exécution principale.
+  const [viewedEnvironment, setViewedEnvironment] = useState<string | null>(null);
+  const data = useMemo(() => viewRun(stored, viewedEnvironment), [stored, viewedEnvironment]);
+  // Les modifications de l'éditeur portent sur l'exécution affichée et sont rangées dans le cahier enregistré
+  const setData = useCallback((action: SetStateAction<AppData>, options?: UpdateOptions) => {
+    setStored(prev => {
+      const view = viewRun(prev, viewedEnvironment);
+      const next = typeof action === 'function' ? action(view) : action;
+      return next === view ? prev : storeRun(next, prev);
+    }, options);
+  }, [setStored, viewedEnvironment]);
+  // Remplace le cahier enregistré (ouverture, import, restauration) et revient à son exécution principale
+  const resetData = (value: AppData) => {
+    resetStored(value);
+    setViewedEnvironment(null);
+  };
+  const replaceData = (value: AppData) => {
+    setStored(value);
+    setViewedEnvironment(null);
+  };
+  // Langue de l'interface ; celle du document imprimé est propre au cahier (`data.documentLanguage`)
+  const [uiLocale, setUiLocale] = useState<Locale>(() => loadSettings().language);
+  const t = useMemo(() => translator(uiLocale), [uiLocale]);
+  // Notification en bas de l'écran : suppression annulable, ou échec d'une opération en arrière-plan
+  const [toast, setToast] = useState<{ message: string; undoable: boolean } | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [isWorkspaceOpen, setIsWorkspaceOpen] = useState(false);
+  const [workspaceRefreshKey, setWorkspaceRefreshKey] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [pendingDraft, setPendingDraft] = useState<Draft | null>(null);
+  // L'autosauvegarde ne démarre qu'une fois la question du brouillon existant réglée
+  const [isDraftChecked, setIsDraftChecked] = useState(false);
+  // Dernier état enregistré sur le serveur, pour détecter les modifications non sauvegardées
+  const savedSnapshotRef = useRef(JSON.stringify(stored));
   const printTemplateRef = useRef<HTMLDivElement>(null);
-  const [copied, setCopied] = useState(false);
+  const [copiedQueryId, setCopiedQueryId] = useState<string | null>(null);
+  const [userTemplates, setUserTemplates] = useState<QueryTemplate[]>([]);
+  const [isTemplateLibraryOpen, setIsTemplateLibraryOpen] = useState(false);
+  const [userDocumentTemplates, setUserDocumentTemplates] = useState<DocumentTemplate[]>([]);
+  const [isDocumentTemplatesOpen, setIsDocumentTemplatesOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+  const [userSnippets, setUserSnippets] = useState<StepSnippet[]>([]);
+  const [userCahierTemplates, setUserCahierTemplates] = useState<CahierTemplate[]>([]);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isCampaignsOpen, setIsCampaignsOpen] = useState(false);
+  const [environments, setEnvironments] = useState<TestEnvironment[]>(DEFAULT_ENVIRONMENTS);
+  const [isEnvironmentsOpen, setIsEnvironmentsOpen] = useState(false);
+  const [isJiraEnabled, setIsJiraEnabled] = useState(false);
+  const [isJiraLoading, setIsJiraLoading] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [isAssistantEnabled, setIsAssistantEnabled] = useState(false);
+  const [isAssistantOpen, setIsAssistantOpen] = useState(false);
+  const [rewritingStepId, setRewritingStepId] = useState<string | null>(null);
+  const [isDraftingConclusion, setIsDraftingConclusion] = useState(false);
+  const [signOffAction, setSignOffAction] = useState<'submit' | 'VALIDE' | 'REFUSE' | null>(null);
+  // Image ouverte dans l'annotateur, avec l'enregistrement propre à une capture ou à une image d'étape
+  const [annotating, setAnnotating] = useState<{
+    source: ImageAnnotation;
+    save: (annotation: ImageAnnotation, image: string) => void;
+  } | null>(null);
+  const [printRuleSettings, setPrintRuleSettings] = useState<PrintRuleSettings>({});
+  // Rapport des contrôles ouvert, avec l'action (impression, export…) qu'il retient le cas échéant
+  const [printCheck, setPrintCheck] = useState<{ actionLabel?: string; action?: () => void } | null>(null);
+  const [palette, setPalette] = useState<'commands' | 'help' | null>(null);
+  // Dernière étape ayant eu le focus, point de départ de la navigation et de l'insertion au clavier
+  const activeStepIdRef = useRef<string | null>(null);
+  const pendingFocusIndexRef = useRef<number | null>(null);
+
+  // Poids du cahier tel qu'il sera sauvegardé ou exporté, images comprises
+  const documentSize = useMemo(() => new Blob([JSON.stringify(stored)]).size, [stored]);
+  const capturesSize = useMemo(
+    () => data.captures.reduce((total, capture) => total + dataUrlSize(capture.image), 0),
+    [data.captures]
+  );
+  const queryTemplates = [...BUILT_IN_TEMPLATES, ...userTemplates];
+  const documentTemplates = [...BUILT_IN_DOCUMENT_TEMPLATES, ...userDocumentTemplates];
+  const documentTemplate = findDocumentTemplate(data.documentTemplateId, documentTemplates);
+  const locked = isLocked(data.signOff);
+  const conclusionLocked = isConclusionLocked(data.signOff);
+  const runs = allRuns(data);
+  const availableEnvironments = environments.filter(environment => !runs.some(run => run.environment === environment.name));
+  const printIssues = useMemo(() => checkPrintRules(stored, printRuleSettings, t), [stored, printRuleSettings, t]);
+  const printErrorCount = printIssues.filter(issue => issue.severity === 'error').length;
+
+  const notify = (message: string) => setToast({ message, undoable: false });
 
-  const copyToClipboard = (text: string) => {
+  useEffect(() => {
+    const loads: [MessageKey, Promise<void>][] = [
+      ['load.queryTemplates', listQueryTemplates().then(setUserTemplates)],
+      ['load.documentTemplates', listDocumentTemplates().then(setUserDocumentTemplates)],
+      ['load.snippets', listSnippets().then(setUserSnippets)],
+      ['load.cahierTemplates', listCahierTemplates().then(setUserCahierTemplates)],
+      ['load.environments', listEnvironments().then(setEnvironments)],
+      ['load.printRules', getPrintRuleSettings().then(setPrintRuleSettings)],
+      ['load.jira', getJiraConfig().then(config => setIsJiraEnabled(config.enabled))],
+      ['load.assistant', getAssistantConfig().then(config => setIsAssistantEnabled(config.enabled))]
+    ];
+    // Un seul message pour l'ensemble des chargements en échec (serveur injoignable…)
+    Promise.all(loads.map(([label, load]) => load.then(() => null, () => label))).then(results => {
+      const failed = results.filter((label): label is MessageKey => label !== null);
+      if (failed.length > 0) notify(t('message.loadError', { items: failed.map(label => t(label)).join(', ') }));
+    });
+  }, []);
+
+  // Le cahier vierge ouvert au démarrage, encore intact, suit la liste des environnements une fois chargée
+  useEffect(() => {
+    const [first] = environments;
+    if (stored.jiraNumber || stored.environment === first.name || stored.runs.length > 0) return;
+    if (JSON.stringify(stored) !== savedSnapshotRef.current) return;
+    const next = { ...stored, environment: first.name };
+    savedSnapshotRef.current = JSON.stringify(next);
+    resetData(next);
+  }, [environments]);
+
+  useEffect(() => {
+    loadDraft()
+      .then(draft => {
+        if (draft) setPendingDraft(draft);
+        else setIsDraftChecked(true);
+      })
+      .catch(() => setIsDraftChecked(true));
+  }, []);
+
+  // Autosauvegarde du brouillon, supprimé dès qu'il correspond à l'état enregistré
+  useEffect(() => {
+    if (!isDraftChecked) return;
+    const timer = setTimeout(() => {
+      const persist = JSON.stringify(stored) === savedSnapshotRef.current ? clearDraft() : saveDraft(stored);
+      persist.catch(error => notify(t('message.autosaveError', { error: errorText(error, t) })));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [stored, isDraftChecked]);
+
+  const recoverDraft = () => {
+    if (pendingDraft) resetData(pendingDraft.data);
+    setPendingDraft(null);
+    setIsDraftChecked(true);
+  };
+
+  const discardDraft = () => {
+    clearDraft();
+    setPendingDraft(null);
+    setIsDraftChecked(true);
+  };
+
+  const takeSnapshot = (name: string, snapshotData: AppData) => {
+    addSnapshot(name, snapshotData)
+      .then(() => setHistoryRefreshKey(n => n + 1))
+      .catch(error => notify(t('message.snapshotError', { error: errorText(error, t) })));
+  };
+
+  const setConclusion = (conclusion: AppData['conclusion']) => {
+    if (conclusion === data.conclusion) return;
+    const next = storeRun({ ...data, conclusion }, stored);
+    setStored(next);
+    takeSnapshot(t('snapshot.conclusion', { from: data.conclusion, to: conclusion }), next);
+  };
+
+  const restoreSnapshot = (snapshot: Snapshot) => {
+    if (locked) {
+      alert(t('message.restoreLocked'));
+      return;
+    }
+    if (!confirm(t('message.restoreConfirm', { name: snapshot.name }))) return;
+    takeSnapshot(t('snapshot.beforeRestore', { name: snapshot.name }), stored);
+    replaceData(snapshot.data);
+    setIsHistoryOpen(false);
+  };
+
+  const undoFromToast = useCallback(() => {
+    undo();
+    setToast(null);
+  }, [undo]);
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  const copyToClipboard = (id: string, text: string) => {
     navigator.clipboard.writeText(text);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
+    setCopiedQueryId(id);
+    setTimeout(() => setCopiedQueryId(null), 2000);
+  };
+
+  const stepNumbers = numberSteps(data.steps);
+  const statusCounts = countStatuses(data.steps);
+  const failingSteps = statusCounts.KO + statusCounts.BLOQUE;
+
+  const sqlQueries = resolveQueries(data, queryTemplates);
+
+  const addQuery = (templateId: string) => {
+    setData(prev => ({ ...prev, sqlQueries: [...prev.sqlQueries, templateId] }));
   };
 
-  // Helper to extract digits from JIRA number
-  const jiraDigits = data.jiraNumber.replace(/\D/g, '');
-  const sqlQuery = data.sqlQueryType === 'data' 
-    ? `select * from ps_s1_scripts_tbl where s1_script_name like '%${jiraDigits || 'XXXX'}J%';`
-    : `select * from psprojectdefn where projectname like '%${jiraDigits || 'XXXX'}J%';`;
+  const removeQuery = (index: number) => {
+    setData(prev => ({ ...prev, sqlQueries: prev.sqlQueries.filter((_, i) => i !== index) }));
+  };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+  const updateCoverInfo = (field: keyof CoverInfo, value: string) => {
+    setData(prev => ({ ...prev, coverInfo: { ...prev.coverInfo, [field]: value } }), { coalesceKey: `cover:${field}` });
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target as HTMLInputElement;
     if (type === 'checkbox') {
       setData(prev => ({ ...prev, [name]: (e.target as HTMLInputElement).checked }));
     } else {
-      setData(prev => ({ ...prev, [name]: value }));
+      setData(prev => ({ ...prev, [name]: value }), { coalesceKey: `field:${name}` });
     }
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setData(prev => ({ ...prev, localImage: reader.result as string }));
-      };
-      reader.readAsDataURL(file);
+  // Affiche l'exécution d'un autre environnement, ou en démarre une nouvelle
+  const changeRun = (environment: string) => {
+    if (environment !== stored.environment && !stored.runs.some(run => run.environment === environment)) {
+      setStored(prev => ({ ...prev, runs: [...prev.runs, newRun(environment)] }));
     }
+    setViewedEnvironment(environment === stored.environment ? null : environment);
+  };
+
+  // L'exécution principale donne au cahier sa date, son environnement et sa conclusion (recherche, campagnes)
+  const promote = (environment: string) => {
+    setStored(prev => promoteRun(prev, environment));
+    setViewedEnvironment(null);
   };
 
-  const addStep = () => {
+  const deleteRun = (environment: string) => {
+    if (!confirm(t('message.deleteRun', { environment }))) return;
+    setStored(prev => removeRun(prev, environment));
+  };
+
+  const addCaptures = (images: string[]) => {
     setData(prev => ({
       ...prev,
-      steps: [...prev.steps, { id: crypto.randomUUID(), title: `Étape ${prev.steps.length + 1}`, content: '' }]
+      captures: [...prev.captures, ...images.map(image => ({ id: crypto.randomUUID(), image, caption: '' }))]
     }));
   };
 
+  const updateCapture = (id: string, updates: Partial<Capture>) => {
+    setData(prev => ({
+      ...prev,
+      captures: prev.captures.map(capture => capture.id === id ? { ...capture, ...updates } : capture)
+    }), { coalesceKey: `capture:${id}:${Object.keys(updates).join()}` });
+  };
+
+  const moveCapture = (id: string, toIndex: number) => {
+    setData(prev => {
+      const fromIndex = prev.captures.findIndex(capture => capture.id === id);
+      if (fromIndex === -1 || toIndex < 0 || toIndex >= prev.captures.length) return prev;
+      const captures = [...prev.captures];
+      const [moved] = captures.splice(fromIndex, 1);
+      captures.splice(toIndex, 0, moved);
+      return { ...prev, captures };
+    });
+  };
+
+  const removeCapture = (id: string) => {
+    setData(prev => pruneAnnotations({ ...prev, captures: prev.captures.filter(capture => capture.id !== id) }));
+    setToast({ message: t('message.captureDeleted'), undoable: true });
+  };
+
+  const annotateCapture = (id: string) => {
+    const capture = data.captures.find(item => item.id === id);
+    if (!capture) return;
+    setAnnotating({
+      source: data.annotations[id] ?? { original: capture.image, annotations: [] },
+      save: (annotation, image) => setData(prev => storeAnnotation({
+        ...prev,
+        captures: prev.captures.map(item => (item.id === id ? { ...item, image } : item))
+      }, id, annotation))
+    });
+  };
+
+  // L'image d'étape est remplacée dans l'éditeur, qui répercute le contenu ; l'original est rangé ensuite
+  const annotateStepImage = (
+    image: { src: string; annotationId: string | null },
+    replace: (src: string, annotationId: string | null) => void
+  ) => {
+    setAnnotating({
+      source: (image.annotationId && data.annotations[image.annotationId]) || { original: image.src, annotations: [] },
+      save: (annotation, flattened) => {
+        const id = image.annotationId ?? crypto.randomUUID();
+        replace(flattened, annotation.annotations.length > 0 ? id : null);
+        setData(prev => storeAnnotation(prev, id, annotation));
+      }
+    });
+  };
+
+  // Insère une étape (ou une section) après `afterId`, ou en fin de liste
+  const addStep = (kind: TestStep['kind'] = 'step', afterId?: string) => {
+    setData(prev => {
+      const stepCount = prev.steps.filter(step => step.kind !== 'section').length;
+      const newStep = createStep(kind, kind === 'section' ? t('steps.newSection') : t('steps.defaultTitle', { number: stepCount + 1 }));
+      const index = afterId ? prev.steps.findIndex(step => step.id === afterId) + 1 : prev.steps.length;
+      return { ...prev, steps: [...prev.steps.slice(0, index), newStep, ...prev.steps.slice(index)] };
+    });
+  };
+
+  const duplicateStep = (id: string) => {
+    setData(prev => {
+      const index = prev.steps.findIndex(step => step.id === id);
+      const source = prev.steps[index];
+      const { content, annotations } = copyAnnotations(source.content, prev.annotations);
+      const copy = { ...source, id: crypto.randomUUID(), title: t('steps.copy', { title: source.title }), content };
+      return {
+        ...prev,
+        steps: [...prev.steps.slice(0, index + 1), copy, ...prev.steps.slice(index + 1)],
+        annotations: { ...prev.annotations, ...annotations }
+      };
+    });
+  };
+
+  // Étapes de la bibliothèque ajoutées en fin de cahier
+  const insertSteps = (steps: TestStep[]) => {
+    setData(prev => ({ ...prev, steps: [...prev.steps, ...freshSteps(steps)] }));
+    setIsLibraryOpen(false);
+  };
+
+  // Étapes proposées par l'assistant, ajoutées en fin de cahier ou à la place des étapes existantes
+  const addProposedSteps = (steps: TestStep[], replace: boolean) => {
+    setData(prev => ({ ...prev, steps: replace ? steps : [...prev.steps, ...steps] }));
+    setIsAssistantOpen(false);
+  };
+
+  // Reformulation du texte de l'étape ; les images sont conservées à la suite. Annulable comme toute modification.
+  const rewriteStepContent = async (step: TestStep) => {
+    const blocks = richTextToBlocks(step.content);
+    if (blocks.length === 0) {
+      alert(t('message.nothingToRewrite'));
+      return;
+    }
+    setRewritingStepId(step.id);
+    try {
+      const rewritten = await rewriteStep({ title: step.title, blocks });
+      const content = blocksToHtml(rewritten.blocks) + imagesOf(step.content);
+      setData(prev => ({
+        ...prev,
+        steps: prev.steps.map(s => (s.id === step.id ? { ...s, content } : s))
+      }));
+    } catch (error) {
+      alert(errorText(error, t));
+    } finally {
+      setRewritingStepId(null);
+    }
+  };
+
+  const writeConclusionText = async () => {
+    if (data.conclusionText.trim() && !confirm(t('message.replaceSummary'))) return;
+    setIsDraftingConclusion(true);
+    try {
+      const { text } = await draftConclusion(conclusionRequestOf(data));
+      setData(prev => ({ ...prev, conclusionText: text }));
+    } catch (error) {
+      alert(errorText(error, t));
+    } finally {
+      setIsDraftingConclusion(false);
+    }
+  };
+
+  const saveStepToLibrary = async (step: TestStep) => {
+    const category = prompt(t('message.snippetCategory'), t('message.snippetDefaultCategory'))?.trim();
+    if (!category) return;
+    try {
+      const saved = await saveSnippet(stepToSnippet(step, category));
+      setUserSnippets(prev => [...prev, saved]);
+    } catch (error) {
+      alert(errorText(error, t));
+    }
+  };
+
+  const moveStep = (id: string, toIndex: number) => {
+    setData(prev => {
+      const fromIndex = prev.steps.findIndex(step => step.id === id);
+      if (fromIndex === -1 || toIndex < 0 || toIndex >= prev.steps.length || fromIndex === toIndex) return prev;
+      const steps = [...prev.steps];
+      const [moved] = steps.splice(fromIndex, 1);
+      steps.splice(toIndex, 0, moved);
+      return { ...prev, steps };
+    });
+  };
+
+  const handleStepDrop = (e: React.DragEvent, targetIndex: number) => {
+    e.preventDefault();
+    const id = e.dataTransfer.getData(STEP_DRAG_TYPE);
+    if (id) moveStep(id, targetIndex);
+    setDropTargetId(null);
+  };
+
   const removeStep = (id: string) => {
+    const step = data.steps.find(s => s.id === id);
     setData(prev => ({
       ...prev,
       steps: prev.steps.filter(step => step.id !== id)
     }));
+    const title = step?.title || t('steps.untitled');
+    setToast({
+      message: step?.kind === 'section' ? t('message.sectionDeleted', { title }) : t('message.stepDeleted', { title }),
+      undoable: true
+    });
   };
 
   const updateStep = (id: string, updates: Partial<TestStep>) => {
     setData(prev => ({
       ...prev,
       steps: prev.steps.map(step => step.id === id ? { ...step, ...updates } : step)
-    }));
+    }), { coalesceKey: `step:${id}:${Object.keys(updates).join()}` });
   };
 
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -195,492 +735,1395 @@ export default function App() {
     const file = e.target.files?.[0];
     if (!file) return;
 
+    // Toute autre erreur que celles du format (lecture, nettoyage…) est signalée dans la même fenêtre
+    const fail = (error: unknown) => setImportResult({
+      status: 'error',
+      fileName: file.name,
+      message: { key: 'import.unexpectedError', params: { error: errorText(error, t) } },
+      issues: []
+    });
     const reader = new FileReader();
     reader.onload = (event) => {
       try {
-        const json = JSON.parse(event.target?.result as string);
-        if (json && typeof json === 'object') {
-          setData(json);
-          alert('Données restaurées avec succès !');
-        }
+        const cahier = sanitizeCahier(parseCahierFile(event.target?.result as string));
+        setImportResult({ status: 'ok', fileName: file.name, cahier });
       } catch (error) {
-        alert('Erreur lors de la lecture du fichier de sauvegarde. Assurez-vous qu\'il s\'agit d\'un fichier JSON valide.');
+        if (error instanceof CahierImportError) {
+          setImportResult({ status: 'error', fileName: file.name, message: error.detail, issues: error.issues });
+        } else {
+          fail(error);
+        }
       }
     };
+    reader.onerror = () => fail(reader.error);
     reader.readAsText(file);
     // Reset input so the same file can be loaded again if needed
     e.target.value = '';
   };
 
-  const downloadJSON = () => {
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `cahier-recette-${data.jiraNumber || 'export'}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
-  };
-
-  const handlePrint = () => {
-    if (!data.jiraNumber || !data.jiraName) {
-      alert('Veuillez remplir au moins le numéro et le nom de la JIRA.');
+  const replaceWithImport = (cahier: AppData) => {
+    replaceData(cahier);
+    setImportResult(null);
+  };
+
+  // Ajoute les étapes importées à la suite, avec de nouveaux identifiants pour éviter les collisions
+  const mergeImport = (cahier: AppData) => {
+    if (locked) {
+      alert(t('message.mergeLocked'));
       return;
     }
-    window.print();
+    setData(prev => pruneAnnotations({
+      ...prev,
+      steps: [...prev.steps, ...cahier.steps.map(step => ({ ...step, id: crypto.randomUUID() }))],
+      annotations: { ...prev.annotations, ...cahier.annotations }
+    }));
+    setImportResult(null);
+  };
+
+  // Enregistre `target` sur le serveur ; les erreurs sont signalées ici et se traduisent par `false`
+  const persist = async (target: AppData, snapshotName: string) => {
+    if (!target.jiraNumber.trim()) {
+      alert(t('message.jiraRequired'));
+      return false;
+    }
+    setIsSaving(true);
+    try {
+      await saveCahier(target);
+      savedSnapshotRef.current = JSON.stringify(target);
+      takeSnapshot(snapshotName, target);
+      setWorkspaceRefreshKey(n => n + 1);
+      return true;
+    } catch (error) {
+      alert(t('message.saveError', { error: errorText(error, t) }));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (await persist(stored, t('snapshot.save', { date: formatDateTime(new Date(), uiLocale) }))) {
+      alert(t('message.saved'));
+    }
+  };
+
+  // Chaque changement de statut est enregistré aussitôt et ne peut pas être annulé (historique vidé)
+  const changeSignOff = async (signOff: SignOff, snapshotName: string) => {
+    const next = { ...stored, signOff };
+    if (await persist(next, snapshotName)) resetData(next);
+  };
+
+  const confirmSignOff = (signature: Signature) => {
+    if (signOffAction === 'submit') {
+      changeSignOff(submitForReview(signature), t('snapshot.submitted', { name: signature.name }));
+    } else if (signOffAction) {
+      changeSignOff(
+        decide(data.signOff, signOffAction, signature),
+        t(signOffAction === 'VALIDE' ? 'snapshot.validated' : 'snapshot.refused', { name: signature.name })
+      );
+    }
+    setSignOffAction(null);
+  };
+
+  // Le serveur refuse toute sauvegarde qui fait quitter l'état validé : le déverrouillage est une requête à part
+  const reopenCahier = async () => {
+    const validated = isLocked(stored.signOff);
+    if (!confirm(validated ? t('message.unlockConfirm') : t('message.backToDraftConfirm'))) return;
+    if (validated) {
+      try {
+        await unlockCahier(stored.jiraNumber);
+      } catch (error) {
+        alert(t('message.saveError', { error: errorText(error, t) }));
+        return;
+      }
+    }
+    changeSignOff(DRAFT_SIGN_OFF, t('snapshot.backToDraft'));
+  };
+
+  const confirmDiscardChanges = () =>
+    JSON.stringify(stored) === savedSnapshotRef.current ||
+    confirm(t('message.discardChanges'));
+
+  const openCahier = async (jiraNumber: string) => {
+    if (jiraNumber === data.jiraNumber) {
+      setIsWorkspaceOpen(false);
+      setIsCampaignsOpen(false);
+      return;
+    }
+    if (!confirmDiscardChanges()) return;
+    try {
+      const cahier = await getCahier(jiraNumber);
+      savedSnapshotRef.current = JSON.stringify(cahier);
+      resetData(cahier);
+      setIsWorkspaceOpen(false);
+      setIsCampaignsOpen(false);
+    } catch (error) {
+      alert(t('message.openError', { error: errorText(error, t) }));
+    }
+  };
+
+  const newCahier = (template?: CahierTemplate) => {
+    if (!confirmDiscardChanges()) return;
+    const initial = createInitialData(uiLocale, environments[0].name);
+    const cahier = template ? applyCahierTemplate(initial, template) : initial;
+    savedSnapshotRef.current = JSON.stringify(cahier);
+    resetData(cahier);
+    setIsWorkspaceOpen(false);
+    setIsLibraryOpen(false);
+  };
+
+  const downloadJSON = () => {
+    const blob = new Blob([JSON.stringify(toCahierFile(stored), null, 2)], { type: 'application/json' });
+    downloadBlob(blob, exportFileName(stored, 'json'));
+  };
+
+  // Exports Word et Markdown, construits à partir du même contenu que le document imprimé
+  const exportDocument = (format: 'docx' | 'markdown') => withPrintCheck(t('action.export'), async () => {
+    const model = buildDocumentModel(stored, queryTemplates, documentTemplate);
+    try {
+      if (format === 'docx') {
+        downloadBlob(await buildDocx(model), exportFileName(stored, 'docx'));
+      } else {
+        downloadBlob(await buildMarkdown(model, exportFileName(stored, 'md')), exportFileName(stored, 'zip'));
+      }
+    } catch (error) {
+      alert(t('message.exportError', { error: errorText(error, t) }));
+    }
+  });
+
+  const fetchFromJira = async () => {
+    setIsJiraLoading(true);
+    try {
+      const issue = await getJiraIssue(data.jiraNumber);
+      setData(prev => applyJiraIssue(prev, issue));
+    } catch (error) {
+      alert(t('message.jiraError', { error: errorText(error, t) }));
+    } finally {
+      setIsJiraLoading(false);
+    }
+  };
+
+  // Joint le PDF au ticket puis y publie la conclusion
+  const publishToJira = () => withPrintCheck(t('action.publish'), async () => {
+    if (!printTemplateRef.current) return;
+    const fileName = exportFileName(stored, 'pdf');
+    if (!confirm(t('message.publishConfirm', { file: fileName, jira: stored.jiraNumber, conclusion: stored.conclusion }))) return;
+    setIsPublishing(true);
+    try {
+      const pdf = await generatePdf(printTemplateRef.current, stored, documentTemplate);
+      await attachToJiraIssue(stored.jiraNumber, pdf, fileName);
+      await commentJiraIssue(stored.jiraNumber, conclusionComment(stored, fileName));
+      alert(t('message.published', { jira: stored.jiraNumber }));
+    } catch (error) {
+      alert(t('message.publishError', { error: errorText(error, t) }));
+    } finally {
+      setIsPublishing(false);
+    }
+  });
+
+  // Contrôles avant impression et export : sans remarque, l'action est lancée ; sinon le rapport s'ouvre
+  // et bloque l'action tant qu'il reste des erreurs.
+  const withPrintCheck = (actionLabel: string, action: () => void) => {
+    if (printIssues.length === 0) action();
+    else setPrintCheck({ actionLabel, action });
+  };
+
+  const proceedPrintCheck = () => {
+    const action = printCheck?.action;
+    setPrintCheck(null);
+    action?.();
+  };
+
+  // Amène le champ signalé à l'écran et lui donne le focus
+  const jumpToIssue = (issue: PrintIssue) => {
+    setPrintCheck(null);
+    setViewedEnvironment(issue.environment ?? null);
+    setIsPreviewOpen(false);
+    const target = document.getElementById(issueTargetId(issue));
+    if (!target) return;
+    target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const input = target.matches('input, textarea, select, button')
+      ? target
+      : target.querySelector<HTMLElement>('input, textarea, select, button, [contenteditable="true"]');
+    input?.focus({ preventScroll: true });
+  };
+
+  const handlePrint = () => withPrintCheck(t('action.print'), () => window.print());
+
+  const handleDownloadPdf = () => withPrintCheck(t('action.download'), async () => {
+    if (!printTemplateRef.current) return;
+    setIsGeneratingPdf(true);
+    try {
+      await downloadPdf(printTemplateRef.current, stored, documentTemplate);
+    } catch (error) {
+      alert(t('message.pdfError', { error: errorText(error, t) }));
+    } finally {
+      setIsGeneratingPdf(false);
+    }
+  });
+
+  // Amène une étape à l'écran et place le curseur dans son titre
+  const focusStep = (index: number) => {
+    const step = data.steps[index];
+    if (!step) return;
+    activeStepIdRef.current = step.id;
+    document.querySelector(`[data-step-id="${step.id}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    document.getElementById(`step-${step.id}-title`)?.focus({ preventScroll: true });
   };
 
+  const activeStepIndex = () => data.steps.findIndex(step => step.id === activeStepIdRef.current);
+
+  const addStepFromKeyboard = () => {
+    const index = activeStepIndex();
+    addStep('step', index >= 0 ? data.steps[index].id : undefined);
+    pendingFocusIndexRef.current = index >= 0 ? index + 1 : data.steps.length;
+  };
+
+  // L'étape ajoutée au clavier reçoit le focus une fois rendue
+  useEffect(() => {
+    if (pendingFocusIndexRef.current === null) return;
+    const index = pendingFocusIndexRef.current;
+    pendingFocusIndexRef.current = null;
+    focusStep(index);
+  }, [data.steps]);
+
+  const toggleConclusion = () => setConclusion(data.conclusion === 'OK' ? 'KO' : 'OK');
+
+  const runShortcut = (id: ShortcutId) => {
+    switch (id) {
+      case 'palette': setPalette(prev => (prev === 'commands' ? null : 'commands')); break;
+      case 'help': setPalette(prev => (prev === 'help' ? null : 'help')); break;
+      case 'save': if (!isSaving) handleSave(); break;
+      case 'print': handlePrint(); break;
+      case 'preview': setIsPreviewOpen(prev => !prev); break;
+      case 'newStep': if (!locked) addStepFromKeyboard(); break;
+      case 'nextStep': focusStep(Math.min(activeStepIndex() + 1, data.steps.length - 1)); break;
+      case 'previousStep': focusStep(Math.max(activeStepIndex() - 1, 0)); break;
+      case 'toggleConclusion': if (!conclusionLocked) toggleConclusion(); break;
+      case 'undo': undo(); break;
+      case 'redo': redo(); break;
+    }
+  };
+
+  // Raccourcis globaux ; le gestionnaire est relu à chaque rendu pour agir sur l'état courant.
+  // Palette ouverte, seuls ses propres raccourcis restent actifs.
+  const runShortcutRef = useRef(runShortcut);
+  runShortcutRef.current = runShortcut;
+  const isPaletteOpen = palette !== null;
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const shortcut = matchShortcut(e);
+      if (!shortcut || (isPaletteOpen && shortcut.id !== 'palette' && shortcut.id !== 'help')) return;
+      e.preventDefault();
+      runShortcutRef.current(shortcut.id);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isPaletteOpen]);
+
+  const paletteCommands: PaletteCommand[] = [
+    { id: 'newStep', group: 'actions', label: t('steps.add'), keys: SHORTCUT_KEYS.newStep, disabled: locked, run: addStepFromKeyboard },
+    { id: 'newSection', group: 'actions', label: t('steps.addSection'), disabled: locked, run: () => addStep('section') },
+    { id: 'assistant', group: 'actions', label: t('palette.assistant'), disabled: locked || !isAssistantEnabled, run: () => setIsAssistantOpen(true) },
+    { id: 'toggleConclusion', group: 'actions', label: t('palette.toggleConclusion', { conclusion: data.conclusion === 'OK' ? 'KO' : 'OK' }), keys: SHORTCUT_KEYS.toggleConclusion, disabled: conclusionLocked, run: toggleConclusion },
+    { id: 'save', group: 'actions', label: t('header.save'), keys: SHORTCUT_KEYS.save, disabled: isSaving, run: handleSave },
+    { id: 'preview', group: 'actions', label: t('header.preview'), keys: SHORTCUT_KEYS.preview, run: () => setIsPreviewOpen(true) },
+    { id: 'printCheck', group: 'actions', label: t('header.printCheck'), run: () => setPrintCheck({}) },
+    { id: 'print', group: 'actions', label: t('header.print'), keys: SHORTCUT_KEYS.print, run: handlePrint },
+    { id: 'pdf', group: 'actions', label: t('palette.downloadPdf'), disabled: isGeneratingPdf, run: handleDownloadPdf },
+    { id: 'docx', group: 'actions', label: t('header.exportDocx'), run: () => exportDocument('docx') },
+    { id: 'markdown', group: 'actions', label: t('palette.exportMarkdown'), run: () => exportDocument('markdown') },
+    { id: 'json', group: 'actions', label: t('header.exportJson'), run: downloadJSON },
+    { id: 'import', group: 'actions', label: t('header.import'), run: () => fileInputRef.current?.click() },
+    { id: 'workspace', group: 'actions', label: t('header.workspace'), run: () => setIsWorkspaceOpen(true) },
+    { id: 'library', group: 'actions', label: t('header.library'), run: () => setIsLibraryOpen(true) },
+    { id: 'campaigns', group: 'actions', label: t('header.campaigns'), run: () => setIsCampaignsOpen(true) },
+    { id: 'history', group: 'actions', label: t('header.history'), run: () => setIsHistoryOpen(true) },
+    { id: 'environments', group: 'actions', label: t('config.environments'), run: () => setIsEnvironmentsOpen(true) },
+    { id: 'settings', group: 'actions', label: t('header.settings'), run: () => setIsSettingsOpen(true) },
+    { id: 'undo', group: 'actions', label: t('shortcut.undo'), keys: SHORTCUT_KEYS.undo, disabled: !canUndo, run: undo },
+    { id: 'redo', group: 'actions', label: t('shortcut.redo'), keys: SHORTCUT_KEYS.redo, disabled: !canRedo, run: redo },
+    ...data.steps.map((step, index): PaletteCommand => ({
+      id: `step-${step.id}`,
+      group: 'steps',
+      label: `${stepNumbers.get(step.id)}. ${step.title || t('palette.untitled')}`,
+      run: () => focusStep(index)
+    }))
+  ];
+
   return (
-    <div className="min-h-screen bg-slate-50 font-sans text-slate-900 pb-20 print:bg-white print:pb-0">
-      {/* Header */}
-      <header className="bg-white border-b border-slate-200 sticky top-0 z-30 shadow-sm print:hidden">
-        <div className="max-w-7xl mx-auto px-6 h-16 flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <div className="bg-indigo-600 p-2 rounded-lg">
-              <FileText className="text-white w-6 h-6" />
+    <LocaleContext.Provider value={uiLocale}>
+      <div className="min-h-screen bg-slate-50 font-sans text-slate-900 pb-20 print:bg-white print:pb-0">
+        {/* Header */}
+        <header className="bg-white border-b border-slate-200 sticky top-0 z-30 shadow-sm print:hidden">
+          <div className="max-w-7xl mx-auto px-6 h-16 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="bg-indigo-600 p-2 rounded-lg">
+                <FileText className="text-white w-6 h-6" />
+              </div>
+              <h1 className="text-xl font-bold tracking-tight text-slate-800">{t('app.title')}</h1>
+              <span
+                className={cn(
+                  'px-2 py-0.5 rounded-full text-xs font-medium',
+                  documentSize > DOCUMENT_SIZE_WARNING ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-500'
+                )}
+                title={t('header.capturesSize', { size: formatBytes(capturesSize, uiLocale) })}
+              >
+                {formatBytes(documentSize, uiLocale)}
+              </span>
+            </div>
+            <div className="flex items-center gap-3">
+              <button 
+                onClick={() => setPalette('commands')}
+                className="flex items-center gap-1.5 px-2 py-1.5 text-xs text-slate-400 border border-slate-200 hover:bg-slate-100 rounded-lg transition-colors"
+                title={t('header.palette')}
+              >
+                <Command className="w-3.5 h-3.5" /> {SHORTCUT_KEYS.palette}
+              </button>
+              <button 
+                onClick={undo}
+                disabled={!canUndo}
+                className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                title={t('header.undo', { keys: SHORTCUT_KEYS.undo })}
+              >
+                <Undo2 className="w-4 h-4" />
+              </button>
+              <button 
+                onClick={redo}
+                disabled={!canRedo}
+                className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                title={t('header.redo', { keys: SHORTCUT_KEYS.redo })}
+              >
+                <Redo2 className="w-4 h-4" />
+              </button>
+              <input 
+                type="file" 
+                accept=".json" 
+                className="hidden" 
+                ref={fileInputRef} 
+                onChange={handleFileUpload} 
+              />
+              <button 
+                onClick={() => fileInputRef.current?.click()}
+                className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+                title={t('header.import')}
+              >
+                <Upload className="w-4 h-4" />
+              </button>
+              <button 
+                onClick={downloadJSON}
+                className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+                title={t('header.exportJson')}
+              >
+                <Download className="w-4 h-4" />
+              </button>
+              <button 
+                onClick={() => exportDocument('docx')}
+                className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+                title={t('header.exportDocx')}
+              >
+                <FileType className="w-4 h-4" />
+              </button>
+              <button 
+                onClick={() => exportDocument('markdown')}
+                className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+                title={t('header.exportMarkdown')}
+              >
+                <FileCode className="w-4 h-4" />
+              </button>
+              <button 
+                onClick={() => setIsWorkspaceOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                <FolderOpen className="w-4 h-4" /> {t('header.workspace')}
+              </button>
+              <button 
+                onClick={() => setIsLibraryOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                <Library className="w-4 h-4" /> {t('header.library')}
+              </button>
+              <button 
+                onClick={() => setIsCampaignsOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                <ClipboardList className="w-4 h-4" /> {t('header.campaigns')}
+              </button>
+              <button 
+                onClick={() => setIsHistoryOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                <History className="w-4 h-4" /> {t('header.history')}
+              </button>
+              <button 
+                onClick={() => setIsSettingsOpen(true)}
+                className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+                title={t('header.settings')}
+              >
+                <Settings className="w-4 h-4" />
+              </button>
+              <button 
+                onClick={handleSave}
+                disabled={isSaving}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+                title={t('header.withKeys', { label: t('header.save'), keys: SHORTCUT_KEYS.save })}
+              >
+                <Save className="w-4 h-4" /> {t('header.save')}
+              </button>
+              <button 
+                onClick={() => setIsPreviewOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                title={t('header.withKeys', { label: t('header.preview'), keys: SHORTCUT_KEYS.preview })}
+              >
+                <Eye className="w-4 h-4" /> {t('header.preview')}
+              </button>
+              <button 
+                onClick={() => setPrintCheck({})}
+                className="relative p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+                title={t('header.printCheck')}
+              >
+                <ListChecks className="w-4 h-4" />
+                {printIssues.length > 0 && (
+                  <span
+                    className={cn(
+                      "absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full text-[10px] font-bold text-white flex items-center justify-center",
+                      printErrorCount > 0 ? "bg-red-500" : "bg-amber-500"
+                    )}
+                  >
+                    {printIssues.length}
+                  </span>
+                )}
+              </button>
+              <button 
+                onClick={handlePrint}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                title={t('header.withKeys', { label: t('header.print'), keys: SHORTCUT_KEYS.print })}
+              >
+                <Printer className="w-4 h-4" /> {t('header.print')}
+              </button>
+              <button 
+                onClick={handleDownloadPdf}
+                disabled={isGeneratingPdf}
+                className="flex items-center gap-2 px-6 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-md hover:shadow-lg transition-all disabled:opacity-50"
+              >
+                <FileDown className="w-4 h-4" /> {isGeneratingPdf ? t('header.generating') : t('header.downloadPdf')}
+              </button>
             </div>
-            <h1 className="text-xl font-bold tracking-tight text-slate-800">Cahier de Tests ERP</h1>
-          </div>
-          <div className="flex items-center gap-3">
-            <input 
-              type="file" 
-              accept=".json" 
-              className="hidden" 
-              ref={fileInputRef} 
-              onChange={handleFileUpload} 
-            />
-            <button 
-              onClick={() => fileInputRef.current?.click()}
-              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
-            >
-              <RotateCcw className="w-4 h-4" /> Restaurer
-            </button>
-            <button 
-              onClick={downloadJSON}
-              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
-            >
-              <Save className="w-4 h-4" /> Sauvegarder
-            </button>
-            <button 
-              onClick={() => setIsPreviewOpen(true)}
-              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
-            >
-              <Eye className="w-4 h-4" /> Aperçu
-            </button>
-            <button 
-              onClick={handlePrint}
-              className="flex items-center gap-2 px-6 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-md hover:shadow-lg transition-all"
-            >
-              <Printer className="w-4 h-4" /> Imprimer
-            </button>
           </div>
-        </div>
-      </header>
-
-      <main className="max-w-7xl mx-auto px-6 py-10 grid grid-cols-1 lg:grid-cols-3 gap-8 print:hidden">
-        {/* Left Column: Main Info */}
-        <div className="lg:col-span-1 space-y-6">
-          <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
-            <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-500 flex items-center gap-2">
-              <Layers className="w-4 h-4" /> Informations JIRA
-            </h2>
-            
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Numéro JIRA</label>
-                <input 
-                  type="text" 
-                  name="jiraNumber"
-                  value={data.jiraNumber}
-                  onChange={handleInputChange}
-                  placeholder="ex: ERP-1234"
-                  className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Nom de la JIRA</label>
-                <input 
-                  type="text" 
-                  name="jiraName"
-                  value={data.jiraName}
-                  onChange={handleInputChange}
-                  placeholder="Description courte"
-                  className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
-                />
-              </div>
-              <div className="grid grid-cols-2 gap-4">
+        </header>
+
+        <main className="max-w-7xl mx-auto px-6 py-10 grid grid-cols-1 lg:grid-cols-3 gap-8 print:hidden">
+          {/* Left Column: Main Info */}
+          <div className="lg:col-span-1 space-y-6">
+            <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
+              <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-500 flex items-center gap-2">
+                <Layers className="w-4 h-4" /> {t('jira.section')}
+              </h2>
+              
+              <div className="space-y-4">
                 <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-1">Type</label>
-                  <select 
-                    name="type"
-                    value={data.type}
-                    onChange={handleInputChange}
-                    className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all bg-white"
-                  >
-                    <option value="TMD">TMD</option>
-                    <option value="TMA">TMA</option>
-                  </select>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">{t('jira.number')}</label>
+                  <div className="flex gap-2">
+                    <input 
+                      type="text" 
+                      id="field-jiraNumber"
+                      name="jiraNumber"
+                      value={data.jiraNumber}
+                      onChange={handleInputChange}
+                      placeholder={t('jira.numberPlaceholder')}
+                      className={cn(
+                        "w-full px-4 py-2 rounded-xl border focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all",
+                        data.jiraNumber && !isJiraKey(data.jiraNumber) ? "border-amber-400" : "border-slate-200"
+                      )}
+                    />
+                    {isJiraEnabled && (
+                      <button
+                        onClick={fetchFromJira}
+                        disabled={!isJiraKey(data.jiraNumber) || isJiraLoading}
+                        className="shrink-0 px-3 text-slate-500 border border-slate-200 hover:bg-slate-50 hover:text-indigo-600 rounded-xl transition-all disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-500"
+                        title={t('jira.fetch')}
+                      >
+                        <CloudDownload className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                  {data.jiraNumber && !isJiraKey(data.jiraNumber) && (
+                    <p className="mt-1 text-xs text-amber-700">{t('jira.numberFormat')}</p>
+                  )}
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-1">Date</label>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">{t('jira.name')}</label>
                   <input 
-                    type="date" 
-                    name="date"
-                    value={data.date}
+                    type="text" 
+                    id="field-jiraName"
+                    name="jiraName"
+                    value={data.jiraName}
                     onChange={handleInputChange}
+                    placeholder={t('jira.namePlaceholder')}
                     className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
                   />
                 </div>
-              </div>
-
-              {/* SQL Query Auto-gen Zone */}
-              <div className="pt-4 border-t border-slate-100 space-y-4">
-                <div className="flex items-center justify-between">
-                  <label className="flex items-center gap-2 cursor-pointer group">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">{t('jira.type')}</label>
+                    <select 
+                      name="type"
+                      value={data.type}
+                      onChange={handleInputChange}
+                      className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all bg-white"
+                    >
+                      <option value="TMD">TMD</option>
+                      <option value="TMA">TMA</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">{t('jira.date')}</label>
                     <input 
-                      type="checkbox"
-                      name="showSqlQuery"
-                      checked={data.showSqlQuery}
+                      type="date" 
+                      id="field-date"
+                    name="date"
+                      value={data.date}
                       onChange={handleInputChange}
-                      className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                      className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
                     />
-                    <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider group-hover:text-slate-700 transition-colors">
-                      Requête SQL Developer
-                    </span>
-                  </label>
-                  
+                  </div>
+                </div>
+
+                {/* SQL Query Auto-gen Zone */}
+                <div className="pt-4 border-t border-slate-100 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 cursor-pointer group">
+                      <input 
+                        type="checkbox"
+                        name="showSqlQuery"
+                        checked={data.showSqlQuery}
+                        onChange={handleInputChange}
+                        className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider group-hover:text-slate-700 transition-colors">
+                        {t('sql.toggle')}
+                      </span>
+                    </label>
+                    
+                    {data.showSqlQuery && (
+                      <button
+                        onClick={() => setIsTemplateLibraryOpen(true)}
+                        className="flex items-center gap-1 text-[10px] font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+                        title={t('sql.manageTemplates')}
+                      >
+                        <Settings2 className="w-3.5 h-3.5" /> {t('sql.templates')}
+                      </button>
+                    )}
+                  </div>
+
                   {data.showSqlQuery && (
+                    <>
+                      {sqlQueries.map(({ index, template, sql }) => (
+                        <div key={`${template.id}-${index}`} className="space-y-1">
+                          <div className="flex items-center justify-between">
+                            <span className="text-[10px] font-semibold text-slate-500">{template.name}</span>
+                            <button
+                              onClick={() => removeQuery(index)}
+                              className="p-0.5 text-slate-300 hover:text-red-500 transition-colors"
+                              title={t('sql.remove')}
+                            >
+                              <X className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                          <div className="relative group">
+                            <div className="w-full bg-slate-900 text-indigo-300 p-3 rounded-xl font-mono text-[10px] sm:text-xs break-all pr-10 border border-slate-800 shadow-inner">
+                              {sql}
+                            </div>
+                            <button 
+                              onClick={() => copyToClipboard(`${template.id}-${index}`, sql)}
+                              className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 rounded-lg bg-slate-800 text-slate-400 hover:text-white hover:bg-slate-700 transition-all shadow-sm"
+                              title={t('sql.copy')}
+                            >
+                              {copiedQueryId === `${template.id}-${index}` ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                      <select
+                        value=""
+                        onChange={(e) => e.target.value && addQuery(e.target.value)}
+                        className="w-full text-xs font-medium bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 outline-none focus:ring-1 focus:ring-indigo-500"
+                      >
+                        <option value="">{t('sql.add')}</option>
+                        {queryTemplates.map(template => (
+                          <option key={template.id} value={template.id}>{template.name}</option>
+                        ))}
+                      </select>
+                      <p className="text-[10px] text-slate-400 mt-2 italic">{t('sql.generated')}</p>
+                    </>
+                  )}
+                </div>
+              </div>
+            </section>
+
+            <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
+              <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-500 flex items-center gap-2">
+                <Database className="w-4 h-4" /> {t('config.section')}
+              </h2>
+              
+              <div className="space-y-4">
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-slate-700">{t('config.runs')}</label>
+                    <button
+                      onClick={() => setIsEnvironmentsOpen(true)}
+                      className="flex items-center gap-1 text-[10px] font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+                      title={t('config.manageEnvironments')}
+                    >
+                      <Settings2 className="w-3.5 h-3.5" /> {t('config.environments')}
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {runs.map(run => (
+                      <div
+                        key={run.environment}
+                        className={cn(
+                          "flex items-center rounded-xl border text-sm transition-all",
+                          run.environment === data.environment
+                            ? "bg-indigo-50 border-indigo-500 text-indigo-700 ring-2 ring-indigo-500/20"
+                            : "bg-white border-slate-200 text-slate-600 hover:bg-slate-50"
+                        )}
+                      >
+                        <button
+                          onClick={() => changeRun(run.environment)}
+                          className="flex items-center gap-2 px-3 py-1.5 font-medium"
+                          title={t('config.runDate', { date: formatDate(run.date, uiLocale) })}
+                        >
+                          {run.environment === stored.environment && (
+                            <Star className="w-3.5 h-3.5 fill-current" aria-label={t('config.primaryRun')} />
+                          )}
+                          {run.environment}
+                          <span className={cn("text-[10px] font-bold", run.conclusion === 'OK' ? "text-emerald-600" : "text-red-600")}>
+                            {run.conclusion}
+                          </span>
+                        </button>
+                        {run.environment !== stored.environment && !locked && (
+                          <button
+                            onClick={() => promote(run.environment)}
+                            className="pr-2 text-slate-400 hover:text-indigo-600 transition-colors"
+                            title={t('config.promoteRun')}
+                          >
+                            <Star className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                        {run.environment !== data.environment && run.environment !== stored.environment && !locked && (
+                          <button
+                            onClick={() => deleteRun(run.environment)}
+                            className="pr-2 text-slate-400 hover:text-red-500 transition-colors"
+                            title={t('config.deleteRun')}
+                          >
+                            <X className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  {!locked && availableEnvironments.length > 0 && (
                     <select
-                      name="sqlQueryType"
-                      value={data.sqlQueryType}
-                      onChange={handleInputChange}
-                      className="text-[10px] font-medium bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 outline-none focus:ring-1 focus:ring-indigo-500"
+                      value=""
+                      onChange={(e) => e.target.value && changeRun(e.target.value)}
+                      className="mt-2 w-full px-4 py-2 text-sm rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all bg-white"
                     >
-                      <option value="data">Modif. Données</option>
-                      <option value="app">Modif. Applicative</option>
+                      <option value="">{t('config.newRun')}</option>
+                      {availableEnvironments.map(environment => (
+                        <option key={environment.name} value={environment.name}>
+                          {environment.name}{environment.description && ` — ${environment.description}`}
+                        </option>
+                      ))}
                     </select>
                   )}
+                  <p className="mt-1 text-[10px] text-slate-400 italic">
+                    {t('config.currentRun', { environment: data.environment })}
+                  </p>
                 </div>
-
-                {data.showSqlQuery && (
-                  <>
-                    <div className="relative group">
-                      <div className="w-full bg-slate-900 text-indigo-300 p-3 rounded-xl font-mono text-[10px] sm:text-xs break-all pr-10 border border-slate-800 shadow-inner">
-                        {sqlQuery}
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">{t('config.conclusion')}</label>
+                  <div id="field-conclusion" className="grid grid-cols-2 gap-2">
+                    <button 
+                      onClick={() => setConclusion('OK')}
+                      disabled={conclusionLocked}
+                      className={cn(
+                        "flex items-center justify-center gap-2 py-2 rounded-xl border transition-all font-medium",
+                        data.conclusion === 'OK' 
+                          ? "bg-emerald-50 border-emerald-500 text-emerald-700 ring-2 ring-emerald-500/20" 
+                          : "bg-white border-slate-200 text-slate-600 hover:bg-slate-50",
+                        "disabled:cursor-not-allowed disabled:opacity-60"
+                      )}
+                    >
+                      <CheckCircle2 className="w-4 h-4" /> {t('config.goodForProd', { conclusion: 'OK' })}
+                    </button>
+                    <button 
+                      onClick={() => setConclusion('KO')}
+                      disabled={conclusionLocked}
+                      className={cn(
+                        "flex items-center justify-center gap-2 py-2 rounded-xl border transition-all font-medium",
+                        data.conclusion === 'KO' 
+                          ? "bg-red-50 border-red-500 text-red-700 ring-2 ring-red-500/20" 
+                          : "bg-white border-slate-200 text-slate-600 hover:bg-slate-50",
+                        "disabled:cursor-not-allowed disabled:opacity-60"
+                      )}
+                    >
+                      <XCircle className="w-4 h-4" /> {t('config.goodForProd', { conclusion: 'KO' })}
+                    </button>
+                  </div>
+                  {data.conclusion === 'OK' && failingSteps > 0 && !conclusionLocked && (
+                    <div className="mt-2 flex items-start gap-2 p-3 rounded-xl bg-amber-50 border border-amber-200 text-xs text-amber-800">
+                      <AlertTriangle className="w-4 h-4 shrink-0" />
+                      <div>
+                        {t('config.conclusionMismatch', { ko: statusCounts.KO, blocked: statusCounts.BLOQUE })}
+                        <button onClick={() => setConclusion('KO')} className="block mt-1 font-semibold underline">
+                          {t('config.switchToKo')}
+                        </button>
                       </div>
-                      <button 
-                        onClick={() => copyToClipboard(sqlQuery)}
-                        className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 rounded-lg bg-slate-800 text-slate-400 hover:text-white hover:bg-slate-700 transition-all shadow-sm"
-                        title="Copier la requête"
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-slate-700">{t('config.summary')}</label>
+                    {isAssistantEnabled && !conclusionLocked && (
+                      <button
+                        onClick={writeConclusionText}
+                        disabled={isDraftingConclusion || !data.steps.some(step => step.kind === 'step')}
+                        className="flex items-center gap-1 text-[10px] font-medium text-slate-500 hover:text-indigo-600 transition-colors disabled:opacity-40"
+                        title={t('config.summaryAssistantHint')}
                       >
-                        {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+                        <Sparkles className="w-3.5 h-3.5" /> {isDraftingConclusion ? t('config.summaryDrafting') : t('config.summaryAssistant')}
                       </button>
-                    </div>
-                    <p className="text-[10px] text-slate-400 mt-2 italic">Générée automatiquement à partir du numéro JIRA</p>
+                    )}
+                  </div>
+                  <textarea
+                    id="field-conclusionText"
+                    name="conclusionText"
+                    value={data.conclusionText}
+                    onChange={handleInputChange}
+                    readOnly={conclusionLocked}
+                    rows={4}
+                    placeholder={t('config.summaryPlaceholder')}
+                    className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm read-only:bg-slate-50 read-only:text-slate-500"
+                  />
+                </div>
+                <div id="field-captures">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">{t('config.captures')}</label>
+                  <CaptureGallery
+                    captures={data.captures}
+                    readOnly={locked}
+                    onAdd={addCaptures}
+                    onUpdate={updateCapture}
+                    onMove={moveCapture}
+                    onRemove={removeCapture}
+                    onAnnotate={annotateCapture}
+                  />
+                </div>
+              </div>
+            </section>
+
+            <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-500 flex items-center gap-2">
+                  <ShieldCheck className="w-4 h-4" /> {t('signOff.section')}
+                </h2>
+                <span className={cn('px-2 py-0.5 rounded-full text-xs font-semibold', WORKFLOW_CLASSES[data.signOff.status])}>
+                  {t(`workflow.${data.signOff.status}`)}
+                </span>
+              </div>
+              {signatureBlocks(data.signOff).filter(({ signature }) => signature).map(({ role, signature }) => (
+                <div key={role} className="flex gap-3 p-3 rounded-xl border border-slate-200 bg-slate-50 text-xs text-slate-600">
+                  {signature.image && (
+                    <img src={signature.image} alt={t('signature.alt', { name: signature.name })} className="h-12 w-24 object-contain bg-white rounded-lg border border-slate-200" />
+                  )}
+                  <div className="min-w-0">
+                    <p><span className="font-semibold">{t(`signature.${role}`)}</span> {signature.name}</p>
+                    <p className="text-slate-400">{formatDateTime(signature.signedAt, uiLocale)}</p>
+                    {signature.comment && <p className="mt-1 italic whitespace-pre-wrap">{signature.comment}</p>}
+                  </div>
+                </div>
+              ))}
+              {locked && (
+                <p className="flex items-center gap-2 text-xs text-emerald-700">
+                  <Lock className="w-3.5 h-3.5" /> {t('signOff.locked')}
+                </p>
+              )}
+              <div className="flex flex-wrap gap-2">
+                {data.signOff.status === 'BROUILLON' && (
+                  <button
+                    onClick={() => setSignOffAction('submit')}
+                    disabled={isSaving}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-xl transition-all disabled:opacity-50"
+                  >
+                    <Send className="w-4 h-4" /> {t('signOff.submit')}
+                  </button>
+                )}
+                {data.signOff.status === 'EN_REVUE' && (
+                  <>
+                    <button
+                      onClick={() => setSignOffAction('VALIDE')}
+                      disabled={isSaving}
+                      className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-xl transition-all disabled:opacity-50"
+                    >
+                      <CheckCircle2 className="w-4 h-4" /> {t('signOff.validate')}
+                    </button>
+                    <button
+                      onClick={() => setSignOffAction('REFUSE')}
+                      disabled={isSaving}
+                      className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-red-600 hover:bg-red-700 rounded-xl transition-all disabled:opacity-50"
+                    >
+                      <XCircle className="w-4 h-4" /> {t('signOff.refuse')}
+                    </button>
                   </>
                 )}
+                {data.signOff.status !== 'BROUILLON' && (
+                  <button
+                    onClick={reopenCahier}
+                    disabled={isSaving}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-xl transition-colors disabled:opacity-50"
+                  >
+                    {locked ? <><Unlock className="w-4 h-4" /> {t('signOff.unlock')}</> : <><Undo2 className="w-4 h-4" /> {t('signOff.backToDraft')}</>}
+                  </button>
+                )}
+              </div>
+            </section>
+
+            <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-500 flex items-center gap-2">
+                  <Palette className="w-4 h-4" /> {t('presentation.section')}
+                </h2>
+                <button
+                  onClick={() => setIsDocumentTemplatesOpen(true)}
+                  className="flex items-center gap-1 text-[10px] font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+                  title={t('presentation.manageTemplates')}
+                >
+                  <Settings2 className="w-3.5 h-3.5" /> {t('presentation.templates')}
+                </button>
               </div>
-            </div>
-          </section>
-
-          <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
-            <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-500 flex items-center gap-2">
-              <Database className="w-4 h-4" /> Configuration Test
-            </h2>
-            
-            <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Environnement</label>
-                <select 
-                  name="environment"
-                  value={data.environment}
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('presentation.template')}</label>
+                <select
+                  name="documentTemplateId"
+                  value={documentTemplate.id}
                   onChange={handleInputChange}
                   className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all bg-white"
                 >
-                  <option value="FRECMCOR">FRECMCOR</option>
-                  <option value="FPOST">FPOST</option>
+                  {documentTemplates.map(template => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                  ))}
                 </select>
               </div>
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Conclusion</label>
-                <div className="grid grid-cols-2 gap-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('presentation.language')}</label>
+                <select
+                  name="documentLanguage"
+                  value={data.documentLanguage}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all bg-white"
+                >
+                  {LOCALES.map(locale => (
+                    <option key={locale} value={locale}>{t(`language.${locale}`)}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-[10px] text-slate-400 italic">{t('presentation.languageHint')}</p>
+              </div>
+              {documentTemplate.coverFields.length > 0 && (
+                <div className="grid grid-cols-2 gap-4">
+                  {documentTemplate.coverFields.map(field => (
+                    <div key={field}>
+                      <label className="block text-sm font-medium text-slate-700 mb-1">{t(`cover.${field}`)}</label>
+                      <input
+                        type="text"
+                        value={data.coverInfo[field]}
+                        onChange={(e) => updateCoverInfo(field, e.target.value)}
+                        className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          </div>
+
+          {/* Right Column: Steps Editor (figé une fois le cahier validé) */}
+          <fieldset disabled={locked} className="lg:col-span-2 space-y-6 min-w-0">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <Calendar className="w-5 h-5 text-indigo-600" /> {t('steps.section')}
+              </h2>
+              <div className="flex items-center gap-2">
+                <button 
+                  onClick={() => addStep('section')}
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-slate-700 bg-white border border-slate-200 hover:bg-slate-50 rounded-xl shadow-sm transition-all"
+                >
+                  <Heading className="w-4 h-4" /> {t('steps.addSection')}
+                </button>
+                {isAssistantEnabled && (
                   <button 
-                    onClick={() => setData(prev => ({ ...prev, conclusion: 'OK' }))}
-                    className={cn(
-                      "flex items-center justify-center gap-2 py-2 rounded-xl border transition-all font-medium",
-                      data.conclusion === 'OK' 
-                        ? "bg-emerald-50 border-emerald-500 text-emerald-700 ring-2 ring-emerald-500/20" 
-                        : "bg-white border-slate-200 text-slate-600 hover:bg-slate-50"
-                    )}
+                    onClick={() => setIsAssistantOpen(true)}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-indigo-700 bg-indigo-50 border border-indigo-200 hover:bg-indigo-100 rounded-xl shadow-sm transition-all"
                   >
-                    <CheckCircle2 className="w-4 h-4" /> Bon pour Prod OK
+                    <Sparkles className="w-4 h-4" /> {t('steps.propose')}
                   </button>
-                  <button 
-                    onClick={() => setData(prev => ({ ...prev, conclusion: 'KO' }))}
+                )}
+                <button 
+                  onClick={() => addStep()}
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-slate-800 hover:bg-slate-900 rounded-xl shadow-sm transition-all"
+                  title={t('steps.addHint', { keys: SHORTCUT_KEYS.newStep })}
+                >
+                  <Plus className="w-4 h-4" /> {t('steps.add')}
+                </button>
+              </div>
+            </div>
+
+            <div id="field-steps" className="space-y-6">
+              {data.steps.map((step, index) => {
+                const isSection = step.kind === 'section';
+                const stepActions = (
+                  <div className="flex items-center gap-0.5">
+                    <button 
+                      onClick={() => moveStep(step.id, index - 1)}
+                      disabled={index === 0}
+                      className="text-slate-400 hover:text-slate-700 p-1.5 rounded-lg hover:bg-slate-100 transition-all disabled:opacity-30 disabled:hover:bg-transparent"
+                      title={t('steps.moveUp')}
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button 
+                      onClick={() => moveStep(step.id, index + 1)}
+                      disabled={index === data.steps.length - 1}
+                      className="text-slate-400 hover:text-slate-700 p-1.5 rounded-lg hover:bg-slate-100 transition-all disabled:opacity-30 disabled:hover:bg-transparent"
+                      title={t('steps.moveDown')}
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                    <button 
+                      onClick={() => addStep('step', step.id)}
+                      className="text-slate-400 hover:text-indigo-600 p-1.5 rounded-lg hover:bg-indigo-50 transition-all"
+                      title={t('steps.insertAfter')}
+                    >
+                      <ListPlus className="w-4 h-4" />
+                    </button>
+                    {!isSection && isAssistantEnabled && (
+                      <button 
+                        onClick={() => rewriteStepContent(step)}
+                        disabled={rewritingStepId !== null}
+                        className="text-slate-400 hover:text-indigo-600 p-1.5 rounded-lg hover:bg-indigo-50 transition-all disabled:opacity-30 disabled:hover:bg-transparent"
+                        title={rewritingStepId === step.id ? t('steps.rewriting') : t('steps.rewrite')}
+                      >
+                        <WandSparkles className={cn("w-4 h-4", rewritingStepId === step.id && "animate-pulse text-indigo-600")} />
+                      </button>
+                    )}
+                    {!isSection && (
+                      <button 
+                        onClick={() => saveStepToLibrary(step)}
+                        className="text-slate-400 hover:text-indigo-600 p-1.5 rounded-lg hover:bg-indigo-50 transition-all"
+                        title={t('steps.saveToLibrary')}
+                      >
+                        <BookmarkPlus className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button 
+                      onClick={() => duplicateStep(step.id)}
+                      className="text-slate-400 hover:text-indigo-600 p-1.5 rounded-lg hover:bg-indigo-50 transition-all"
+                      title={t('steps.duplicate')}
+                    >
+                      <CopyPlus className="w-4 h-4" />
+                    </button>
+                    <button 
+                      onClick={() => removeStep(step.id)}
+                      className="text-slate-400 hover:text-red-500 p-1.5 rounded-lg hover:bg-red-50 transition-all"
+                      title={t('steps.delete')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+                const dragHandle = (
+                  <span
+                    draggable={!locked}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData(STEP_DRAG_TYPE, step.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                    }}
+                    onDragEnd={() => setDropTargetId(null)}
+                    className={cn('text-slate-300', !locked && 'cursor-grab active:cursor-grabbing hover:text-slate-500')}
+                    title={t('steps.drag')}
+                  >
+                    <GripVertical className="w-4 h-4" />
+                  </span>
+                );
+
+                return (
+                  <div
+                    key={step.id}
+                    data-step-id={step.id}
+                    onFocus={() => { activeStepIdRef.current = step.id; }}
+                    onDragOver={(e) => {
+                      if (!e.dataTransfer.types.includes(STEP_DRAG_TYPE)) return;
+                      e.preventDefault();
+                      setDropTargetId(step.id);
+                    }}
+                    onDrop={(e) => handleStepDrop(e, index)}
                     className={cn(
-                      "flex items-center justify-center gap-2 py-2 rounded-xl border transition-all font-medium",
-                      data.conclusion === 'KO' 
-                        ? "bg-red-50 border-red-500 text-red-700 ring-2 ring-red-500/20" 
-                        : "bg-white border-slate-200 text-slate-600 hover:bg-slate-50"
+                      'rounded-2xl transition-all',
+                      dropTargetId === step.id && 'ring-2 ring-indigo-400 ring-offset-2'
                     )}
                   >
-                    <XCircle className="w-4 h-4" /> Bon pour Prod KO
-                  </button>
-                </div>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Capture exécution requête</label>
-                <div className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-slate-300 border-dashed rounded-xl hover:border-indigo-400 transition-colors cursor-pointer relative group">
-                  <input 
-                    type="file" 
-                    accept="image/*"
-                    onChange={handleImageUpload}
-                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
-                  />
-                  <div className="space-y-1 text-center">
-                    {data.localImage ? (
-                      <div className="relative inline-block">
-                        <img src={data.localImage} alt="Preview" className="h-24 w-auto rounded-lg shadow-sm border border-slate-200" />
-                        <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 flex items-center justify-center rounded-lg transition-opacity">
-                          <ImageIcon className="text-white w-6 h-6" />
+                    {isSection ? (
+                      <div className="bg-indigo-50 border border-indigo-200 border-l-4 border-l-indigo-600 rounded-2xl px-4 py-3 flex items-center justify-between gap-3">
+                        <div className="flex items-center gap-3 flex-1">
+                          {dragHandle}
+                          <span className="text-indigo-700 font-bold text-lg">{stepNumbers.get(step.id)}.</span>
+                          <input 
+                            type="text"
+                            id={`step-${step.id}-title`}
+                            value={step.title}
+                            onChange={(e) => updateStep(step.id, { title: e.target.value })}
+                            className="bg-transparent border-none focus:ring-0 font-bold text-lg text-indigo-900 p-0 w-full"
+                            placeholder={t('steps.sectionPlaceholder')}
+                          />
                         </div>
+                        {stepActions}
                       </div>
                     ) : (
-                      <>
-                        <ImageIcon className="mx-auto h-12 w-12 text-slate-400" />
-                        <div className="flex text-sm text-slate-600">
-                          <span className="relative cursor-pointer bg-white rounded-md font-medium text-indigo-600 hover:text-indigo-500">Charger une image</span>
+                      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden group transition-all hover:shadow-md">
+                        <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex items-center justify-between gap-3">
+                          <div className="flex items-center gap-3 flex-1">
+                            {dragHandle}
+                            <span className="bg-slate-200 text-slate-600 min-w-8 h-8 px-2 rounded-full flex items-center justify-center font-bold text-sm">
+                              {stepNumbers.get(step.id)}
+                            </span>
+                            <span className={cn('text-[10px] font-bold px-2 py-0.5 rounded-full border whitespace-nowrap', STEP_STATUS_CLASSES[step.status])}>
+                              {t(`status.${step.status}`)}
+                            </span>
+                            <input 
+                              type="text"
+                              id={`step-${step.id}-title`}
+                              value={step.title}
+                              onChange={(e) => updateStep(step.id, { title: e.target.value })}
+                              className="bg-transparent border-none focus:ring-0 font-semibold text-slate-700 p-0 w-full"
+                              placeholder={t('steps.titlePlaceholder')}
+                            />
+                          </div>
+                          {stepActions}
                         </div>
-                        <p className="text-xs text-slate-500">PNG, JPG jusqu'à 10MB</p>
-                      </>
+                        <div className="p-6 space-y-4">
+                          <RichTextEditor 
+                            id={`step-${step.id}-content`}
+                            value={step.content}
+                            readOnly={locked}
+                            onChange={(content) => updateStep(step.id, { content })}
+                            onAnnotateImage={annotateStepImage}
+                          />
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                              <label className="block text-sm font-medium text-slate-700 mb-1">{t('steps.expectedResult')}</label>
+                              <textarea 
+                                id={`step-${step.id}-expectedResult`}
+                                value={step.expectedResult}
+                                onChange={(e) => updateStep(step.id, { expectedResult: e.target.value })}
+                                rows={3}
+                                className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-slate-700 mb-1">{t('steps.actualResult')}</label>
+                              <textarea 
+                                value={step.actualResult}
+                                onChange={(e) => updateStep(step.id, { actualResult: e.target.value })}
+                                rows={3}
+                                className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-slate-700 mb-1">{t('steps.status')}</label>
+                              <select 
+                                id={`step-${step.id}-status`}
+                                value={step.status}
+                                onChange={(e) => updateStep(step.id, { status: e.target.value as StepStatus })}
+                                className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all bg-white"
+                              >
+                                {(Object.keys(STEP_STATUS_CLASSES) as StepStatus[]).map(status => (
+                                  <option key={status} value={status}>{t(`status.${status}`)}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-slate-700 mb-1">{t('steps.anomalyRef')}</label>
+                              <input 
+                                type="text"
+                                id={`step-${step.id}-anomalyRef`}
+                                value={step.anomalyRef}
+                                onChange={(e) => updateStep(step.id, { anomalyRef: e.target.value })}
+                                placeholder={t('steps.anomalyPlaceholder')}
+                                className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                              />
+                            </div>
+                          </div>
+                        </div>
+                      </div>
                     )}
                   </div>
+                );
+              })}
+
+              {data.steps.length === 0 && (
+                <div className="text-center py-20 bg-white rounded-2xl border-2 border-dashed border-slate-200">
+                  <FileText className="mx-auto h-12 w-12 text-slate-300 mb-4" />
+                  <p className="text-slate-500 font-medium">{t('steps.empty')}</p>
+                  <button 
+                    onClick={() => addStep()}
+                    className="mt-4 text-indigo-600 font-semibold hover:underline"
+                  >
+                    {t('steps.addFirst')}
+                  </button>
                 </div>
-              </div>
+              )}
             </div>
-          </section>
-        </div>
+          </fieldset>
+        </main>
+
+        {isWorkspaceOpen && (
+          <WorkspaceSidebar
+            currentJira={data.jiraNumber}
+            refreshKey={workspaceRefreshKey}
+            onOpen={openCahier}
+            onNew={() => newCahier()}
+            onClose={() => setIsWorkspaceOpen(false)}
+          />
+        )}
+
+        {isTemplateLibraryOpen && (
+          <TemplateLibraryDialog
+            data={data}
+            userTemplates={userTemplates}
+            onChange={setUserTemplates}
+            onClose={() => setIsTemplateLibraryOpen(false)}
+          />
+        )}
+
+        {isDocumentTemplatesOpen && (
+          <DocumentTemplateDialog
+            userTemplates={userDocumentTemplates}
+            onChange={setUserDocumentTemplates}
+            onClose={() => setIsDocumentTemplatesOpen(false)}
+          />
+        )}
+
+        {isLibraryOpen && (
+          <LibraryDialog
+            data={data}
+            queryTemplates={queryTemplates}
+            userSnippets={userSnippets}
+            userCahierTemplates={userCahierTemplates}
+            canInsert={!locked}
+            onSnippetsChange={setUserSnippets}
+            onCahierTemplatesChange={setUserCahierTemplates}
+            onInsertSteps={insertSteps}
+            onNewCahier={newCahier}
+            onClose={() => setIsLibraryOpen(false)}
+          />
+        )}
+
+        {isEnvironmentsOpen && (
+          <EnvironmentsDialog
+            environments={environments}
+            onChange={setEnvironments}
+            onClose={() => setIsEnvironmentsOpen(false)}
+          />
+        )}
+
+        {isCampaignsOpen && (
+          <CampaignDialog
+            queryTemplates={queryTemplates}
+            documentTemplates={documentTemplates}
+            onOpenCahier={openCahier}
+            onClose={() => setIsCampaignsOpen(false)}
+          />
+        )}
+
+        {isAssistantOpen && (
+          <AssistantDialog
+            data={data}
+            onAdd={addProposedSteps}
+            onClose={() => setIsAssistantOpen(false)}
+          />
+        )}
+
+        {signOffAction && (
+          <SignOffDialog
+            title={
+              signOffAction === 'submit' ? t('signOff.submit')
+                : signOffAction === 'VALIDE' ? t('signOff.validateTitle') : t('signOff.refuseTitle')
+            }
+            actionLabel={
+              signOffAction === 'submit' ? t('signOff.signAndSubmit')
+                : signOffAction === 'VALIDE' ? t('signOff.signAndValidate') : t('signOff.signAndRefuse')
+            }
+            requireComment={signOffAction === 'REFUSE'}
+            onConfirm={confirmSignOff}
+            onClose={() => setSignOffAction(null)}
+          />
+        )}
 
-        {/* Right Column: Steps Editor */}
-        <div className="lg:col-span-2 space-y-6">
-          <div className="flex items-center justify-between">
-            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
-              <Calendar className="w-5 h-5 text-indigo-600" /> Étapes du Test
-            </h2>
-            <button 
-              onClick={addStep}
-              className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-slate-800 hover:bg-slate-900 rounded-xl shadow-sm transition-all"
-            >
-              <Plus className="w-4 h-4" /> Ajouter une étape
-            </button>
+        {isSettingsOpen && (
+          <SettingsDialog
+            onClose={() => {
+              setIsSettingsOpen(false);
+              setUiLocale(loadSettings().language);
+            }}
+          />
+        )}
+
+        {toast && (
+          <UndoToast message={toast.message} onUndo={toast.undoable ? undoFromToast : undefined} onDismiss={dismissToast} />
+        )}
+
+        {isHistoryOpen && (
+          <HistoryPanel
+            data={stored}
+            refreshKey={historyRefreshKey}
+            onRestore={restoreSnapshot}
+            onClose={() => setIsHistoryOpen(false)}
+          />
+        )}
+
+        {pendingDraft && (
+          <div className="fixed bottom-6 right-6 z-50 w-full max-w-sm bg-white rounded-2xl shadow-2xl border border-slate-200 p-5 print:hidden">
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+              <LifeBuoy className="w-5 h-5 text-indigo-600" /> {t('draft.title')}
+            </h3>
+            <p className="text-sm text-slate-600 mt-2">
+              {t('draft.found', {
+                jira: pendingDraft.data.jiraNumber || t('draft.noNumber'),
+                date: formatDateTime(pendingDraft.updatedAt, uiLocale)
+              })}
+            </p>
+            <div className="flex justify-end gap-2 mt-4">
+              <button
+                onClick={discardDraft}
+                className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                {t('draft.ignore')}
+              </button>
+              <button
+                onClick={recoverDraft}
+                className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-all"
+              >
+                {t('draft.restore')}
+              </button>
+            </div>
           </div>
+        )}
 
-          <div className="space-y-6">
-            {data.steps.map((step, index) => (
-              <div key={step.id} className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden group transition-all hover:shadow-md">
-                <div className="bg-slate-50 px-6 py-3 border-b border-slate-200 flex items-center justify-between">
-                  <div className="flex items-center gap-4 flex-1">
-                    <span className="bg-slate-200 text-slate-600 w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm">
-                      {index + 1}
-                    </span>
-                    <input 
-                      type="text"
-                      value={step.title}
-                      onChange={(e) => updateStep(step.id, { title: e.target.value })}
-                      className="bg-transparent border-none focus:ring-0 font-semibold text-slate-700 p-0 w-full"
-                      placeholder="Titre de l'étape"
-                    />
-                  </div>
+        {importResult && (
+          <ImportDialog
+            result={importResult}
+            onReplace={replaceWithImport}
+            onMerge={mergeImport}
+            onClose={() => setImportResult(null)}
+          />
+        )}
+
+        {/* --- PREVIEW MODAL --- */}
+        {isPreviewOpen && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200 print:hidden">
+            <div className="bg-slate-100 w-full max-w-7xl h-[90vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+              <div className="bg-white px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+                <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                  <Eye className="w-5 h-5 text-indigo-600" /> {t('preview.title')}
+                </h3>
+                <div className="flex items-center gap-3">
                   <button 
-                    onClick={() => removeStep(step.id)}
-                    className="text-slate-400 hover:text-red-500 p-2 rounded-lg hover:bg-red-50 transition-all"
+                    onClick={handlePrint}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
                   >
-                    <Trash2 className="w-5 h-5" />
+                    <Printer className="w-4 h-4" /> {t('preview.printNow')}
+                  </button>
+                  <button 
+                    onClick={handleDownloadPdf}
+                    disabled={isGeneratingPdf}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-all disabled:opacity-50"
+                  >
+                    <FileDown className="w-4 h-4" /> {t('header.downloadPdf')}
+                  </button>
+                  {isJiraEnabled && (
+                    <button 
+                      onClick={publishToJira}
+                      disabled={isPublishing || !isJiraKey(data.jiraNumber)}
+                      className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+                      title={t('preview.publishHint')}
+                    >
+                      <CloudUpload className="w-4 h-4" /> {isPublishing ? t('preview.publishing') : t('preview.publish')}
+                    </button>
+                  )}
+                  <button 
+                    onClick={() => setIsPreviewOpen(false)}
+                    className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
+                  >
+                    <X className="w-6 h-6" />
                   </button>
                 </div>
-                <div className="p-6">
-                  <RichTextEditor 
-                    id={step.id}
-                    value={step.content}
-                    onChange={(content) => updateStep(step.id, { content })}
-                  />
-                </div>
-              </div>
-            ))}
-
-            {data.steps.length === 0 && (
-              <div className="text-center py-20 bg-white rounded-2xl border-2 border-dashed border-slate-200">
-                <FileText className="mx-auto h-12 w-12 text-slate-300 mb-4" />
-                <p className="text-slate-500 font-medium">Aucune étape ajoutée</p>
-                <button 
-                  onClick={addStep}
-                  className="mt-4 text-indigo-600 font-semibold hover:underline"
-                >
-                  Ajouter votre première étape
-                </button>
               </div>
-            )}
-          </div>
-        </div>
-      </main>
-
-      {/* --- PREVIEW MODAL --- */}
-      {isPreviewOpen && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200 print:hidden">
-          <div className="bg-slate-100 w-full max-w-7xl h-[90vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
-            <div className="bg-white px-6 py-4 border-b border-slate-200 flex items-center justify-between">
-              <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
-                <Eye className="w-5 h-5 text-indigo-600" /> Aperçu avant impression (Format A4)
-              </h3>
-              <div className="flex items-center gap-3">
-                <button 
-                  onClick={handlePrint}
-                  className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-all"
-                >
-                  <Printer className="w-4 h-4" /> Imprimer maintenant
-                </button>
-                <button 
-                  onClick={() => setIsPreviewOpen(false)}
-                  className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
-                >
-                  <X className="w-6 h-6" />
-                </button>
-              </div>
-            </div>
-            <div className="flex-1 overflow-y-auto p-8 bg-slate-200/50">
-              <div className="print-container shadow-2xl relative">
-                <PrintContent data={data} jiraDigits={jiraDigits} />
-                <div className="pdf-footer-fixed">
-                  <div>{data.jiraNumber} / {data.jiraName}</div>
-                  <div>Cahier de recette</div>
+              <div className="flex-1 overflow-y-auto p-8 bg-slate-200/50">
+                <div className="print-container shadow-2xl relative">
+                  <PrintContent data={stored} templates={queryTemplates} template={documentTemplate} idPrefix="preview" />
+                  <div className="pdf-footer-fixed">
+                    <div>{data.jiraNumber} / {data.jiraName}</div>
+                    <div>{documentTemplate.footerText}</div>
+                  </div>
                 </div>
               </div>
             </div>
           </div>
-        </div>
-      )}
+        )}
 
-      {/* --- HIDDEN PRINT TEMPLATE --- */}
-      <div className="hidden print:block">
-        <div ref={printTemplateRef} className="print-container relative">
-          <PrintContent data={data} jiraDigits={jiraDigits} />
-          <div className="pdf-footer-fixed">
-            <div>{data.jiraNumber} / {data.jiraName}</div>
-            <div>Cahier de recette</div>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
-
-// --- Sub-component for the actual document content ---
-function PrintContent({ data, jiraDigits }: { data: AppData; jiraDigits: string }) {
-  return (
-    <>
-      {/* Page 1: Page de Garde */}
-      <div className="pdf-page">
-        <div className="pdf-header-band">
-          <div className="pdf-header-left">
-            {data.jiraNumber || 'JIRA-XXX'}
-          </div>
-          <div className="pdf-header-right">
-            {data.jiraName || 'NOM DE LA JIRA'}
-          </div>
-        </div>
-        
-        <div className="pdf-sub-header">
-          [{data.type}] - [{new Date(data.date).toLocaleDateString('fr-FR')}]
-        </div>
-
-        <div className="flex flex-col items-center justify-center" style={{ height: '200mm' }}>
-          <img 
-            src="/icon.png" 
-            alt="Logo Cahier de Tests" 
-            className="w-[576px] h-[576px] object-contain"
-            onError={(e) => {
-              // Fallback visuel si l'image n'est pas trouvée
-              e.currentTarget.src = 'data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" width="100" height="100" viewBox="0 0 24 24" fill="none" stroke="%234f46e5" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14.5 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7.5L14.5 2z"/><polyline points="14 2 14 8 20 8"/><line x1="16" y1="13" x2="8" y2="13"/><line x1="16" y1="17" x2="8" y2="17"/><line x1="10" y1="9" x2="8" y2="9"/></svg>';
+        {annotating && (
+          <ImageAnnotator
+            source={annotating.source}
+            onSave={(annotation, image) => {
+              annotating.save(annotation, image);
+              setAnnotating(null);
             }}
+            onClose={() => setAnnotating(null)}
           />
-          <p className="mt-8 text-2xl font-bold text-slate-400 uppercase tracking-widest">Cahier de Recette</p>
-        </div>
-      </div>
+        )}
 
-      {/* Page 2 and following */}
-      <table className="w-full">
-        <thead>
-          <tr>
-            <td>
-              <div style={{ height: '15mm' }}></div>
-            </td>
-          </tr>
-        </thead>
-        <tbody>
-          <tr>
-            <td>
-              <div className="pdf-content">
-                <h2 className="text-xl font-bold mb-4 border-b-2 border-red-900 text-red-900 pb-2">Détails Techniques</h2>
-                
-                {data.showSqlQuery && (
-                  <div className="mb-8">
-                    <p className="font-semibold mb-2">Requête SQL de vérification :</p>
-                    <div className="sql-block">
-                      {data.sqlQueryType === 'data' 
-                        ? `select * from ps_s1_scripts_tbl where s1_script_name like '%${jiraDigits || 'XXXX'}J%';`
-                        : `select * from psprojectdefn where projectname like '%${jiraDigits || 'XXXX'}J%';`
-                      }
-                    </div>
-                  </div>
-                )}
-
-                {data.localImage && (
-                  <div className="mb-8">
-                    <p className="font-semibold mb-2">Exécution SQL :</p>
-                    <img src={data.localImage} alt="Local" className="pdf-image-main" />
-                  </div>
-                )}
-
-                <div className="mb-8">
-                  <h3 className="text-lg font-bold mb-2">Environnement de test</h3>
-                  <p className="bg-slate-100 p-3 rounded border border-slate-300 inline-block font-mono">
-                    {data.environment}
-                  </p>
-                </div>
+        {printCheck && (
+          <PrintCheckDialog
+            data={stored}
+            issues={printIssues}
+            settings={printRuleSettings}
+            actionLabel={printCheck.actionLabel}
+            onSettingsChange={setPrintRuleSettings}
+            onProceed={proceedPrintCheck}
+            onJump={jumpToIssue}
+            onClose={() => setPrintCheck(null)}
+          />
+        )}
 
-                <h2 className="text-xl font-bold mt-10 mb-4 border-b-2 border-red-900 text-red-900 pb-2">Déroulement des Tests</h2>
-                
-                {data.steps.map((step, idx) => (
-                  <div key={step.id} className="mb-8" style={{ pageBreakInside: 'avoid' }}>
-                    <div className="step-title">
-                      Étape {idx + 1} : {step.title}
-                    </div>
-                    <div 
-                      className="ql-editor" 
-                      style={{ padding: 0, minHeight: 'auto' }}
-                      dangerouslySetInnerHTML={{ __html: step.content }} 
-                    />
-                  </div>
-                ))}
+        {palette && (
+          <CommandPalette
+            commands={paletteCommands}
+            initialView={palette}
+            onClose={() => setPalette(null)}
+          />
+        )}
 
-                <div className="mt-12" style={{ pageBreakInside: 'avoid' }}>
-                  <h2 className="text-xl font-bold mb-4 border-b-2 border-red-900 text-red-900 pb-2">Conclusion du Test</h2>
-                  <div className={data.conclusion === 'OK' ? 'conclusion-ok' : 'conclusion-ko'}>
-                    BON POUR PROD {data.conclusion}
-                  </div>
-                </div>
-              </div>
-            </td>
-          </tr>
-        </tbody>
-        <tfoot>
-          <tr>
-            <td>
-              <div style={{ height: '15mm' }}></div>
-            </td>
-          </tr>
-        </tfoot>
-      </table>
-    </>
+        {/* --- HIDDEN PRINT TEMPLATE --- */}
+        <div className="hidden print:block">
+          <div ref={printTemplateRef} className="print-container relative">
+            <PrintContent data={stored} templates={queryTemplates} template={documentTemplate} idPrefix="doc" />
+            <div className="pdf-footer-fixed">
+              <div>{data.jiraNumber} / {data.jiraName}</div>
+              <div>{documentTemplate.footerText}</div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </LocaleContext.Provider>
   );
 }
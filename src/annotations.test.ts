@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { copyAnnotations } from './annotations';
+import type { ImageAnnotation } from './types';
+
+const ARROW: ImageAnnotation = {
+  original: 'data:image/png;base64,AAAA',
+  annotations: [{ type: 'arrow', color: '#e11d48', x1: 0, y1: 0, x2: 10, y2: 10 }]
+};
+
+describe('copyAnnotations', () => {
+  it('donne à chaque image copiée un nouvel identifiant et sa propre entrée', () => {
+    const content = '<p><img src="x" data-annotation="a1"></p><p><img src="y" data-annotation="sans-entree"></p>';
+    const { content: copied, annotations } = copyAnnotations(content, { a1: ARROW });
+    const ids = [...copied.matchAll(/data-annotation="([^"]+)"/g)].map(([, id]) => id);
+    expect(ids).toHaveLength(2);
+    expect(ids).not.toContain('a1');
+    expect(ids).not.toContain('sans-entree');
+    expect(annotations).toEqual({ [ids[0]]: ARROW });
+  });
+
+  it('laisse un contenu sans image annotée inchangé', () => {
+    expect(copyAnnotations('<p>Texte</p>', { a1: ARROW })).toEqual({ content: '<p>Texte</p>', annotations: {} });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Annotation, AppData, ImageAnnotation } from './types';
+import { loadSettings } from './settings';
+import { allRuns } from './runs';
+import { message, MessageError } from './i18n';
+
+// Attribut qui relie une image d'étape à son entrée dans `AppData.annotations`
+export const ANNOTATION_ATTRIBUTE = 'data-annotation';
+
+export const ANNOTATION_COLORS = ['#e11d48', '#f59e0b', '#facc15', '#16a34a', '#2563eb', '#000000'];
+
+export function loadHtmlImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new MessageError(message('annotator.unreadable')));
+    image.src = src;
+  });
+}
+
+// Rectangle de largeur et hauteur positives, quel que soit le sens du tracé
+export const normalizeRect = <T extends { x: number; y: number; width: number; height: number }>(rect: T): T => ({
+  ...rect,
+  x: Math.min(rect.x, rect.x + rect.width),
+  y: Math.min(rect.y, rect.y + rect.height),
+  width: Math.abs(rect.width),
+  height: Math.abs(rect.height)
+});
+
+export const nextCalloutNumber = (annotations: Annotation[]) =>
+  Math.max(0, ...annotations.map(annotation => (annotation.type === 'callout' ? annotation.number : 0))) + 1;
+
+// Masque une zone à partir de ce qui est déjà dessiné (image et annotations précédentes)
+function maskArea(context: CanvasRenderingContext2D, annotation: Extract<Annotation, { width: number }>, unit: number) {
+  const { x, y, width, height } = normalizeRect(annotation);
+  if (width < 1 || height < 1) return;
+  const area = document.createElement('canvas');
+  if (annotation.type === 'pixelate') {
+    const block = unit * 5;
+    area.width = Math.max(1, Math.round(width / block));
+    area.height = Math.max(1, Math.round(height / block));
+    area.getContext('2d')!.drawImage(context.canvas, x, y, width, height, 0, 0, area.width, area.height);
+    context.save();
+    context.imageSmoothingEnabled = false;
+    context.drawImage(area, 0, 0, area.width, area.height, x, y, width, height);
+    context.restore();
+    return;
+  }
+  area.width = width;
+  area.height = height;
+  area.getContext('2d')!.drawImage(context.canvas, x, y, width, height, 0, 0, width, height);
+  context.save();
+  context.beginPath();
+  context.rect(x, y, width, height);
+  context.clip();
+  // Fond blanc sous le flou : les bords de la zone ne laissent pas transparaître l'original
+  context.fillStyle = '#ffffff';
+  context.fillRect(x, y, width, height);
+  context.filter = `blur(${Math.max(unit * 4, Math.round(Math.min(width, height) / 6))}px)`;
+  context.drawImage(area, x, y);
+  context.restore();
+}
+
+function drawAnnotation(context: CanvasRenderingContext2D, annotation: Annotation, unit: number) {
+  context.save();
+  context.strokeStyle = annotation.color;
+  context.fillStyle = annotation.color;
+  context.lineWidth = unit;
+  context.lineJoin = 'round';
+  context.lineCap = 'round';
+  switch (annotation.type) {
+    case 'arrow': {
+      const { x1, y1, x2, y2 } = annotation;
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const head = unit * 5;
+      context.beginPath();
+      context.moveTo(x1, y1);
+      context.lineTo(x2 - Math.cos(angle) * head * 0.8, y2 - Math.sin(angle) * head * 0.8);
+      context.stroke();
+      context.beginPath();
+      context.moveTo(x2, y2);
+      context.lineTo(x2 - head * Math.cos(angle - Math.PI / 7), y2 - head * Math.sin(angle - Math.PI / 7));
+      context.lineTo(x2 - head * Math.cos(angle + Math.PI / 7), y2 - head * Math.sin(angle + Math.PI / 7));
+      context.closePath();
+      context.fill();
+      break;
+    }
+    case 'rect': {
+      const { x, y, width, height } = normalizeRect(annotation);
+      context.strokeRect(x, y, width, height);
+      break;
+    }
+    case 'highlight': {
+      const { x, y, width, height } = normalizeRect(annotation);
+      context.globalAlpha = 0.35;
+      context.fillRect(x, y, width, height);
+      break;
+    }
+    case 'blur':
+    case 'pixelate':
+      maskArea(context, annotation, unit);
+      break;
+    case 'callout': {
+      const radius = unit * 6;
+      context.beginPath();
+      context.arc(annotation.x, annotation.y, radius, 0, Math.PI * 2);
+      context.fill();
+      context.fillStyle = '#ffffff';
+      context.font = `bold ${radius * 1.2}px sans-serif`;
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.fillText(String(annotation.number), annotation.x, annotation.y + radius * 0.05);
+      break;
+    }
+    case 'text': {
+      context.font = `bold ${unit * 8}px sans-serif`;
+      context.textBaseline = 'top';
+      // Contour blanc : le texte reste lisible sur une capture chargée
+      context.strokeStyle = '#ffffff';
+      context.lineWidth = unit * 1.5;
+      context.strokeText(annotation.text, annotation.x, annotation.y);
+      context.fillText(annotation.text, annotation.x, annotation.y);
+      break;
+    }
+  }
+  context.restore();
+}
+
+// Dessine l'image puis ses annotations, dans l'ordre, sur un canvas à la taille de l'image
+export function drawAnnotations(context: CanvasRenderingContext2D, image: HTMLImageElement, annotations: Annotation[]) {
+  const { width, height } = context.canvas;
+  // Épaisseur de trait proportionnelle à l'image, pour un rendu comparable d'une capture à l'autre
+  const unit = Math.max(2, Math.round(Math.max(width, height) / 400));
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+  annotations.forEach(annotation => drawAnnotation(context, annotation, unit));
+}
+
+// Image affichée dans le cahier : l'original quand il n'y a plus d'annotation, sinon sa version aplatie
+export async function flattenAnnotations({ original, annotations }: ImageAnnotation): Promise<string> {
+  if (annotations.length === 0) return original;
+  const image = await loadHtmlImage(original);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  drawAnnotations(canvas.getContext('2d')!, image, annotations);
+  return canvas.toDataURL('image/jpeg', loadSettings().image.quality);
+}
+
+// Range l'original et les annotations d'une image ; une image sans annotation n'a plus d'entrée
+export function storeAnnotation(data: AppData, id: string, annotation: ImageAnnotation): AppData {
+  const { [id]: _previous, ...annotations } = data.annotations;
+  return pruneAnnotations({
+    ...data,
+    annotations: annotation.annotations.length > 0 ? { ...annotations, [id]: annotation } : annotations
+  });
+}
+
+// Contenu d'une étape copiée : chaque image annotée reçoit un nouvel identifiant et sa propre entrée,
+// pour qu'annoter la copie ne modifie pas l'original
+export function copyAnnotations(content: string, annotations: AppData['annotations']) {
+  const copies: AppData['annotations'] = {};
+  const copied = content.replace(new RegExp(`${ANNOTATION_ATTRIBUTE}="([^"]+)"`, 'g'), (_match, id: string) => {
+    const copyId = crypto.randomUUID();
+    if (annotations[id]) copies[copyId] = annotations[id];
+    return `${ANNOTATION_ATTRIBUTE}="${copyId}"`;
+  });
+  return { content: copied, annotations: copies };
+}
+
+// Retire les annotations des captures et des images d'étape qui n'existent plus
+export function pruneAnnotations(data: AppData): AppData {
+  const used = new Set(allRuns(data).flatMap(run => run.captures.map(capture => capture.id)));
+  const attribute = new RegExp(`${ANNOTATION_ATTRIBUTE}="([^"]+)"`, 'g');
+  data.steps.forEach(step => {
+    for (const [, id] of step.content.matchAll(attribute)) used.add(id);
+  });
+  const annotations = Object.fromEntries(Object.entries(data.annotations).filter(([id]) => used.has(id)));
+  return Object.keys(annotations).length === Object.keys(data.annotations).length ? data : { ...data, annotations };
+}
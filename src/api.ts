@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  AppData, AssistantBlock, CahierFilters, CahierSummary, CahierTemplate, Campaign, ConclusionRequest, DocumentTemplate, JiraIssue,
+  PrintRuleSettings, ProposedStep, QueryTemplate, RewriteRequest, StepSnippet, StepsRequest, TestEnvironment
+} from './types';
+import { isMessage, message, MessageError } from './i18n';
+
+const BASE_URL = '/api/cahiers';
+
+// Les erreurs du serveur sont des messages à traduire (voir `errorText`)
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new MessageError(isMessage(body?.error) ? body.error : message('error.server', { status: response.status }));
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+const cahierUrl = (jiraNumber: string) => `${BASE_URL}/${encodeURIComponent(jiraNumber)}`;
+
+export const listCahiers = (filters: CahierFilters = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '' && value !== false) params.set(key, String(value));
+  });
+  const query = params.toString();
+  return request<CahierSummary[]>(query ? `${BASE_URL}?${query}` : BASE_URL);
+};
+
+export const getCahier = (jiraNumber: string) => request<AppData>(cahierUrl(jiraNumber));
+
+export const createCahier = (data: AppData) =>
+  request<AppData>(BASE_URL, { method: 'POST', body: JSON.stringify(data) });
+
+export const saveCahier = (data: AppData) =>
+  request<AppData>(cahierUrl(data.jiraNumber), { method: 'PUT', body: JSON.stringify(data) });
+
+export const unlockCahier = (jiraNumber: string) =>
+  request<AppData>(`${cahierUrl(jiraNumber)}/unlock`, { method: 'POST' });
+
+export const setCahierArchived = (jiraNumber: string, archived: boolean) =>
+  request<void>(cahierUrl(jiraNumber), { method: 'PATCH', body: JSON.stringify({ archived }) });
+
+export const deleteCahier = (jiraNumber: string) =>
+  request<void>(cahierUrl(jiraNumber), { method: 'DELETE' });
+
+const TEMPLATES_URL = '/api/query-templates';
+
+export const listQueryTemplates = () => request<QueryTemplate[]>(TEMPLATES_URL);
+
+export const saveQueryTemplate = (template: QueryTemplate) =>
+  request<QueryTemplate>(`${TEMPLATES_URL}/${encodeURIComponent(template.id)}`, {
+    method: 'PUT',
+    body: JSON.stringify({ name: template.name, sql: template.sql })
+  });
+
+export const deleteQueryTemplate = (id: string) =>
+  request<void>(`${TEMPLATES_URL}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+const DOCUMENT_TEMPLATES_URL = '/api/document-templates';
+
+export const listDocumentTemplates = () => request<DocumentTemplate[]>(DOCUMENT_TEMPLATES_URL);
+
+export const saveDocumentTemplate = (template: DocumentTemplate) =>
+  request<DocumentTemplate>(`${DOCUMENT_TEMPLATES_URL}/${encodeURIComponent(template.id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(template)
+  });
+
+export const deleteDocumentTemplate = (id: string) =>
+  request<void>(`${DOCUMENT_TEMPLATES_URL}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+const SNIPPETS_URL = '/api/step-snippets';
+
+export const listSnippets = () => request<StepSnippet[]>(SNIPPETS_URL);
+
+export const saveSnippet = (snippet: StepSnippet) =>
+  request<StepSnippet>(`${SNIPPETS_URL}/${encodeURIComponent(snippet.id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(snippet)
+  });
+
+export const deleteSnippet = (id: string) =>
+  request<void>(`${SNIPPETS_URL}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+const CAHIER_TEMPLATES_URL = '/api/cahier-templates';
+
+export const listCahierTemplates = () => request<CahierTemplate[]>(CAHIER_TEMPLATES_URL);
+
+export const saveCahierTemplate = (template: CahierTemplate) =>
+  request<CahierTemplate>(`${CAHIER_TEMPLATES_URL}/${encodeURIComponent(template.id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(template)
+  });
+
+export const deleteCahierTemplate = (id: string) =>
+  request<void>(`${CAHIER_TEMPLATES_URL}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+const ENVIRONMENTS_URL = '/api/environments';
+
+export const listEnvironments = () => request<TestEnvironment[]>(ENVIRONMENTS_URL);
+
+export const saveEnvironments = (environments: TestEnvironment[]) =>
+  request<TestEnvironment[]>(ENVIRONMENTS_URL, { method: 'PUT', body: JSON.stringify(environments) });
+
+const PRINT_RULES_URL = '/api/print-rules';
+
+export const getPrintRuleSettings = () => request<PrintRuleSettings>(PRINT_RULES_URL);
+
+export const savePrintRuleSettings = (settings: PrintRuleSettings) =>
+  request<PrintRuleSettings>(PRINT_RULES_URL, { method: 'PUT', body: JSON.stringify(settings) });
+
+const CAMPAIGNS_URL = '/api/campaigns';
+
+const campaignUrl = (id: string) => `${CAMPAIGNS_URL}/${encodeURIComponent(id)}`;
+
+export const listCampaigns = () => request<Campaign[]>(CAMPAIGNS_URL);
+
+export const saveCampaign = (campaign: Campaign) =>
+  request<Campaign>(campaignUrl(campaign.id), { method: 'PUT', body: JSON.stringify(campaign) });
+
+export const deleteCampaign = (id: string) => request<void>(campaignUrl(id), { method: 'DELETE' });
+
+export const getCampaignCahiers = (id: string) => request<AppData[]>(`${campaignUrl(id)}/cahiers`);
+
+const JIRA_URL = '/api/jira';
+
+const jiraIssueUrl = (key: string) => `${JIRA_URL}/issues/${encodeURIComponent(key)}`;
+
+export const getJiraConfig = () => request<{ enabled: boolean }>(`${JIRA_URL}/config`);
+
+export const getJiraIssue = (key: string) => request<JiraIssue>(jiraIssueUrl(key));
+
+export const commentJiraIssue = (key: string, body: string) =>
+  request<void>(`${jiraIssueUrl(key)}/comments`, { method: 'POST', body: JSON.stringify({ body }) });
+
+export const attachToJiraIssue = (key: string, file: Blob, fileName: string) =>
+  request<void>(`${jiraIssueUrl(key)}/attachments?fileName=${encodeURIComponent(fileName)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': file.type || 'application/octet-stream' },
+    body: file
+  });
+
+const ASSISTANT_URL = '/api/assistant';
+
+export const getAssistantConfig = () => request<{ enabled: boolean }>(`${ASSISTANT_URL}/config`);
+
+export const proposeSteps = (body: StepsRequest) =>
+  request<{ steps: ProposedStep[] }>(`${ASSISTANT_URL}/steps`, { method: 'POST', body: JSON.stringify(body) });
+
+export const rewriteStep = (body: RewriteRequest) =>
+  request<{ blocks: AssistantBlock[] }>(`${ASSISTANT_URL}/rewrite`, { method: 'POST', body: JSON.stringify(body) });
+
+export const draftConclusion = (body: ConclusionRequest) =>
+  request<{ text: string }>(`${ASSISTANT_URL}/conclusion`, { method: 'POST', body: JSON.stringify(body) });
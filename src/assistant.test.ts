@@ -0,0 +1,20 @@
+// @vitest-environment jsdom
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { imagesOf } from './assistant';
+
+describe('imagesOf', () => {
+  it('conserve chaque image avec tous ses attributs', () => {
+    const image = '<img src="data:image/png;base64,AAAA" alt="Écran" data-annotation="a1" width="320" height="200">';
+    expect(imagesOf(`<p>Ouvrir la page</p><p>${image}</p><ol><li data-list="bullet">Saisir ${image}</li></ol>`))
+      .toBe(`<p>${image}</p><p>${image}</p>`);
+  });
+
+  it('ne renvoie rien sans image', () => {
+    expect(imagesOf('<p>Texte seul</p>')).toBe('');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AppData, AssistantBlock, ConclusionRequest, ProposedStep, TestStep } from './types';
+import { parseRichText, type Inline } from './richText';
+import { createStep } from './steps';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// HTML Quill 2 : toutes les listes dans <ol>, le type porté par data-list
+export function blocksToHtml(blocks: AssistantBlock[]): string {
+  let html = '';
+  blocks.forEach((block, index) => {
+    if (block.type === 'paragraph') {
+      html += `<p>${escapeHtml(block.text)}</p>`;
+      return;
+    }
+    if (blocks[index - 1]?.type === 'paragraph' || index === 0) html += '<ol>';
+    html += `<li data-list="${block.type}">${escapeHtml(block.text)}</li>`;
+    if (blocks[index + 1]?.type === 'paragraph' || index === blocks.length - 1) html += '</ol>';
+  });
+  return html;
+}
+
+const plainText = (inlines: Inline[]) =>
+  inlines.map(inline => (inline.type === 'text' ? inline.text : inline.type === 'break' ? ' ' : '')).join('').trim();
+
+// Texte d'une étape envoyé à l'assistant ; les images restent côté navigateur (voir imagesOf)
+export function richTextToBlocks(html: string): AssistantBlock[] {
+  return parseRichText(html)
+    .map((block): AssistantBlock => ({
+      type: block.type === 'list-item' ? (block.ordered ? 'ordered' : 'bullet') : 'paragraph',
+      text: plainText(block.inlines)
+    }))
+    .filter(block => block.text);
+}
+
+// Images de l'étape, réinsérées telles quelles après le texte reformulé : data-annotation et
+// dimensions les relient toujours à leur original annoté
+export function imagesOf(html: string): string {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  return [...body.querySelectorAll('img')].map(image => `<p>${image.outerHTML}</p>`).join('');
+}
+
+export const proposedToStep = (proposed: ProposedStep): TestStep => ({
+  ...createStep('step', proposed.title),
+  content: blocksToHtml(proposed.blocks),
+  expectedResult: proposed.expectedResult
+});
+
+// Éléments du cahier utiles à la synthèse : les sections et le contenu détaillé des étapes sont laissés de côté
+export const conclusionRequestOf = (data: AppData): ConclusionRequest => ({
+  jiraNumber: data.jiraNumber,
+  jiraName: data.jiraName,
+  conclusion: data.conclusion,
+  steps: data.steps
+    .filter(step => step.kind === 'step')
+    .map(({ title, status, expectedResult, actualResult, anomalyRef }) => ({
+      title, status, expectedResult, actualResult, anomalyRef
+    }))
+});
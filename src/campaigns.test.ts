@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { campaignCsv } from './campaigns';
+import { translator } from './i18n';
+import { makeCahier } from './testFixtures';
+
+const rowOf = (csv: string) => csv.replace(/^﻿/, '').split('\r\n')[1].split(';');
+
+describe('campaignCsv', () => {
+  it('neutralise les cellules qui seraient lues comme des formules', () => {
+    for (const jiraName of ['=HYPERLINK("http://evil.test")', '+1', '-2+3', '@SUM(A1)']) {
+      const [, name] = rowOf(campaignCsv([makeCahier({ jiraName })], translator('fr')));
+      expect(name.replace(/^"|"$/g, '').replace(/""/g, '"')).toBe(`'${jiraName}`);
+    }
+  });
+
+  it('laisse les autres cellules et les compteurs tels quels', () => {
+    const row = rowOf(campaignCsv([makeCahier()], translator('fr')));
+    expect(row.slice(0, 3)).toEqual(['ERP-1234', 'Contrôle de l\'export', 'TMD']);
+    expect(row).toContain('0');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AppData, Campaign, Locale, StepStatus } from './types';
+import { countStatuses, STEP_STATUS_LABELS } from './steps';
+import { formatDate, message, translator, type Message, type Translate } from './i18n';
+import { allRuns, resultOf } from './runs';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isText = (value: unknown): value is string => typeof value === 'string';
+
+// Contrôle une campagne reçue par le serveur ; renvoie le message d'erreur ou null.
+export function checkCampaign(value: Partial<Campaign>): Message | null {
+  if (!isText(value.name) || !value.name.trim()) return message('check.campaign.name');
+  if (!isText(value.release) || !isText(value.from) || !isText(value.to)) return message('check.campaign.criteria');
+  if ([value.from, value.to].some(date => date && !DATE_PATTERN.test(date))) return message('check.campaign.dates');
+  if (!value.release.trim() && !value.from && !value.to) return message('check.campaign.empty');
+  if (value.from && value.to && value.from > value.to) return message('check.campaign.order');
+  return null;
+}
+
+export const campaignFileName = (campaign: Campaign, extension: string) =>
+  `rapport-recette-${campaign.name.trim().replace(/[^\w.-]+/g, '-') || 'campagne'}.${extension}`;
+
+// Critères en clair, pour l'écran et la page de synthèse du rapport
+export function describeCriteria(campaign: Campaign, locale: Locale): string {
+  const t = translator(locale);
+  const from = campaign.from && formatDate(campaign.from, locale);
+  const to = campaign.to && formatDate(campaign.to, locale);
+  const period = from && to ? t('campaign.period', { from, to })
+    : from ? t('campaign.since', { date: from })
+      : to ? t('campaign.until', { date: to }) : '';
+  return [campaign.release.trim() && t('campaign.release', { release: campaign.release.trim() }), period].filter(Boolean).join(', ');
+}
+
+const tally = (values: string[]) => values.reduce<Record<string, number>>((counts, value) => {
+  counts[value] = (counts[value] ?? 0) + 1;
+  return counts;
+}, {});
+
+// Répartition des cahiers de la campagne, pour le tableau de bord et la synthèse du rapport
+export function campaignStats(cahiers: AppData[], t: Translate) {
+  return {
+    total: cahiers.length,
+    byType: tally(cahiers.map(cahier => cahier.type)),
+    byEnvironment: tally(cahiers.flatMap(cahier => allRuns(cahier).map(run => run.environment))),
+    byConclusion: tally(cahiers.map(cahier => cahier.conclusion)),
+    byWorkflow: tally(cahiers.map(cahier => t(`workflow.${cahier.signOff.status}`)))
+  };
+}
+
+export interface KoItem {
+  jiraNumber: string;
+  jiraName: string;
+  environment: string;
+  // Étape en échec ; null quand c'est la conclusion du cahier qui est KO sans étape en échec
+  step: { title: string; status: StepStatus; anomalyRef: string } | null;
+}
+
+// Points bloquants de la livraison : étapes KO ou bloquées, et exécutions conclues KO, sur chaque environnement
+export function koItems(cahiers: AppData[]): KoItem[] {
+  return cahiers.flatMap(cahier => allRuns(cahier).flatMap(run => {
+    const item = { jiraNumber: cahier.jiraNumber, jiraName: cahier.jiraName, environment: run.environment };
+    const failed = cahier.steps
+      .filter(step => step.kind === 'step')
+      .map(step => ({ title: step.title, ...resultOf(run, step.id) }))
+      .filter(({ status }) => status === 'KO' || status === 'BLOQUE');
+    if (failed.length === 0) return run.conclusion === 'KO' ? [{ ...item, step: null }] : [];
+    return failed.map(({ title, status, anomalyRef }) => ({ ...item, step: { title, status, anomalyRef } }));
+  }));
+}
+
+const STATUSES = Object.keys(STEP_STATUS_LABELS) as StepStatus[];
+
+// Tableau de synthèse au format CSV (séparateur « ; » et BOM, lus tels quels par Excel en français)
+export function campaignCsv(cahiers: AppData[], t: Translate): string {
+  const cell = (value: string | number) => {
+    // Un texte commençant par = + - @ serait évalué comme une formule par le tableur
+    const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+    return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = [
+    [
+      t('campaign.jira'), t('campaign.csv.name'), t('campaign.type'), t('campaign.csv.environment'), t('campaign.date'),
+      t('campaign.csv.version'), t('campaign.conclusion'), t('campaign.csv.workflow'),
+      ...STATUSES.map(status => t(`status.${status}`)), t('campaign.csv.anomalies')
+    ],
+    ...cahiers.map(cahier => {
+      const counts = countStatuses(cahier.steps);
+      const anomalies = [...new Set(allRuns(cahier)
+        .flatMap(run => Object.values(run.results).map(result => result.anomalyRef.trim()))
+        .filter(Boolean))];
+      return [
+        cahier.jiraNumber, cahier.jiraName, cahier.type, allRuns(cahier).map(run => run.environment).join(', '), cahier.date, cahier.coverInfo.version,
+        cahier.conclusion, t(`workflow.${cahier.signOff.status}`), ...STATUSES.map(status => counts[status]), anomalies.join(', ')
+      ];
+    })
+  ];
+  return `﻿${rows.map(row => row.map(cell).join(';')).join('\r\n')}\r\n`;
+}
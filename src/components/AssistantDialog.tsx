@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Sparkles, X } from 'lucide-react';
+import type { AppData, ProposedStep, TestStep } from '../types';
+import { proposeSteps } from '../api';
+import { blocksToHtml, proposedToStep } from '../assistant';
+import { cn } from '../utils';
+import { errorText } from '../i18n';
+import { useTranslation } from '../useTranslation';
+
+const inputClass = 'w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all';
+
+// --- Component: proposition d'étapes par l'assistant à partir du nom JIRA et d'une description ---
+export default function AssistantDialog({ data, onAdd, onClose }: {
+  data: AppData;
+  // `replace` : les étapes proposées remplacent celles du cahier
+  onAdd: (steps: TestStep[], replace: boolean) => void;
+  onClose: () => void;
+}) {
+  const { t } = useTranslation();
+  const [description, setDescription] = useState('');
+  const [proposals, setProposals] = useState<ProposedStep[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const generate = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const { steps } = await proposeSteps({ jiraName: data.jiraName, description, type: data.type });
+      setProposals(steps);
+      setSelected(steps.map((_, index) => index));
+    } catch (error) {
+      setError(errorText(error, t));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggle = (index: number) => {
+    setSelected(prev => (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b)));
+  };
+
+  const add = (replace: boolean) => {
+    if (replace && data.steps.length > 0 && !confirm(t('assistant.replaceConfirm', { count: data.steps.length }))) return;
+    onAdd(selected.map(index => proposedToStep(proposals[index])), replace);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 print:hidden">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Sparkles className="w-5 h-5 text-indigo-600" /> {t('assistant.title')}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">{t('assistant.jiraName')}</label>
+            <p className="text-sm text-slate-600">{data.jiraName || <span className="italic text-slate-400">{t('assistant.notSet')}</span>}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">{t('assistant.description')}</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={4}
+              placeholder={t('assistant.descriptionPlaceholder')}
+              className={`${inputClass} text-sm`}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-red-600">{error}</p>
+            <button
+              onClick={generate}
+              disabled={isLoading || (!data.jiraName.trim() && !description.trim())}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-all disabled:opacity-50"
+            >
+              <Sparkles className="w-4 h-4" />
+              {isLoading ? t('assistant.generating') : proposals.length > 0 ? t('assistant.regenerate') : t('assistant.generate')}
+            </button>
+          </div>
+
+          {proposals.length > 0 && (
+            <ul className="space-y-2">
+              {proposals.map((proposal, index) => (
+                <li key={index}>
+                  <label
+                    className={cn(
+                      'flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-all',
+                      selected.includes(index) ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-200 opacity-60'
+                    )}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(index)}
+                      onChange={() => toggle(index)}
+                      className="mt-1 w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <div className="min-w-0 text-sm">
+                      <p className="font-semibold text-slate-800">{proposal.title}</p>
+                      <div
+                        className="mt-1 text-slate-600 [&_ol]:list-disc [&_ol]:pl-5"
+                        dangerouslySetInnerHTML={{ __html: blocksToHtml(proposal.blocks) }}
+                      />
+                      <p className="mt-1 text-xs text-slate-500">
+                        <span className="font-medium">{t('assistant.expectedResult')}</span> {proposal.expectedResult}
+                      </p>
+                    </div>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex items-center justify-between gap-4">
+          <p className="text-xs text-slate-500">
+            {proposals.length > 0 && t('assistant.selection', { selected: selected.length, total: proposals.length })}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => add(true)}
+              disabled={selected.length === 0}
+              className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {t('assistant.replace')}
+            </button>
+            <button
+              onClick={() => add(false)}
+              disabled={selected.length === 0}
+              className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-all disabled:opacity-50"
+            >
+              {t('assistant.add')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
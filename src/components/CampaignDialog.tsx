@@ -0,0 +1,433 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, ClipboardList, FileDown, FileSpreadsheet, FolderOpen, Plus, Save, Trash2, X } from 'lucide-react';
+import type { AppData, Campaign, DocumentTemplate, QueryTemplate } from '../types';
+import { deleteCampaign, getCampaignCahiers, listCampaigns, saveCampaign } from '../api';
+import { campaignCsv, campaignFileName, campaignStats, describeCriteria, koItems } from '../campaigns';
+import { findDocumentTemplate } from '../documentTemplates';
+import { downloadCampaignPdf } from '../pdf';
+import { countStatuses } from '../steps';
+import { WORKFLOW_CLASSES } from '../signOff';
+import { allRuns } from '../runs';
+import { cn, downloadBlob } from '../utils';
+import { errorText, formatDate } from '../i18n';
+import { useTranslation } from '../useTranslation';
+import PrintContent from './PrintContent';
+
+const inputClass = 'w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all';
+
+const newCampaign = (): Campaign => ({ id: crypto.randomUUID(), name: '', release: '', from: '', to: '' });
+
+// --- Component: répartition d'un critère (type, environnement…) ---
+function Breakdown({ title, counts }: { title: string; counts: Record<string, number> }) {
+  return (
+    <div className="p-3 rounded-xl border border-slate-200">
+      <p className="text-[10px] font-semibold uppercase tracking-wider text-slate-500 mb-2">{title}</p>
+      {Object.entries(counts).map(([label, count]) => (
+        <div key={label} className="flex justify-between text-sm">
+          <span className="text-slate-600">{label}</span>
+          <span className="font-semibold text-slate-800">{count}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// --- Component: page de synthèse en tête du rapport PDF ---
+function CampaignSummary({ campaign, cahiers }: { campaign: Campaign; cahiers: AppData[] }) {
+  const { locale, t } = useTranslation();
+  const stats = campaignStats(cahiers, t);
+  const items = koItems(cahiers);
+  const breakdowns: [string, Record<string, number>][] = [
+    [t('campaign.type'), stats.byType],
+    [t('campaign.environment'), stats.byEnvironment],
+    [t('campaign.conclusion'), stats.byConclusion],
+    [t('campaign.validation'), stats.byWorkflow]
+  ];
+
+  return (
+    <div className="pdf-campaign-summary">
+      <h1 className="pdf-part-title">{t('campaign.reportTitle', { name: campaign.name })}</h1>
+      <p>
+        {t('campaign.reportMeta', {
+          criteria: describeCriteria(campaign, locale),
+          count: stats.total,
+          date: formatDate(new Date().toISOString(), locale)
+        })}
+      </p>
+
+      <table className="step-results pdf-campaign-table">
+        <tbody>
+          {breakdowns.map(([title, counts]) => (
+            <tr key={title}>
+              <th>{title}</th>
+              <td>{Object.entries(counts).map(([label, count]) => `${label} : ${count}`).join('   ·   ')}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <table className="step-results pdf-campaign-table">
+        <thead>
+          <tr>
+            <th>{t('campaign.jira')}</th>
+            <th>{t('campaign.name')}</th>
+            <th>{t('campaign.type')}</th>
+            <th>{t('campaign.env')}</th>
+            <th>{t('campaign.date')}</th>
+            <th>{t('campaign.statusCounts')}</th>
+            <th>{t('campaign.conclusion')}</th>
+            <th>{t('campaign.validation')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {cahiers.map(cahier => {
+            const counts = countStatuses(cahier.steps);
+            return (
+              <tr key={cahier.jiraNumber}>
+                <td>{cahier.jiraNumber}</td>
+                <td>{cahier.jiraName}</td>
+                <td>{cahier.type}</td>
+                <td>{allRuns(cahier).map(run => run.environment).join(', ')}</td>
+                <td>{formatDate(cahier.date, locale)}</td>
+                <td>{counts.OK} / {counts.KO} / {counts.BLOQUE} / {counts.NON_EXECUTE}</td>
+                <td className={cahier.conclusion === 'OK' ? 'step-status-ok' : 'step-status-ko'}>{cahier.conclusion}</td>
+                <td>{t(`workflow.${cahier.signOff.status}`)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {items.length > 0 && (
+        <>
+          <h2 className="pdf-part-title">{t('campaign.koItems')}</h2>
+          <table className="step-results pdf-campaign-table">
+            <tbody>
+              {items.map((item, index) => (
+                <tr key={index}>
+                  <td>{item.jiraNumber}</td>
+                  <td>{item.environment}</td>
+                  <td>{item.step ? item.step.title : t('campaign.conclusionKo')}</td>
+                  <td className={item.step?.status === 'BLOQUE' ? 'step-status-bloque' : 'step-status-ko'}>
+                    {item.step ? t(`status.${item.step.status}`) : 'KO'}
+                    {item.step?.anomalyRef && ` — ${t('doc.anomaly', { ref: item.step.anomalyRef })}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
+
+// --- Component: campagnes de recette (cahiers d'une livraison), tableau de bord et rapport consolidé ---
+export default function CampaignDialog({ queryTemplates, documentTemplates, onOpenCahier, onClose }: {
+  queryTemplates: QueryTemplate[];
+  documentTemplates: DocumentTemplate[];
+  onOpenCahier: (jiraNumber: string) => void;
+  onClose: () => void;
+}) {
+  const { locale, t } = useTranslation();
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [campaign, setCampaign] = useState<Campaign>(newCampaign);
+  const [cahiers, setCahiers] = useState<AppData[] | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const reportRef = useRef<HTMLDivElement>(null);
+
+  const saved = campaigns.find(item => item.id === campaign.id);
+  const isDirty = !saved || JSON.stringify(saved) !== JSON.stringify(campaign);
+
+  useEffect(() => {
+    listCampaigns()
+      .then(list => {
+        setCampaigns(list);
+        if (list.length > 0) setCampaign(list[0]);
+      })
+      .catch(error => alert(t('campaign.loadError', { error: errorText(error, t) })));
+  }, []);
+
+  // Cahiers de la campagne enregistrée, rechargés à chaque changement de critères
+  useEffect(() => {
+    setCahiers(null);
+    if (!saved) return;
+    let cancelled = false;
+    getCampaignCahiers(saved.id)
+      .then(list => !cancelled && setCahiers(list))
+      .catch(error => alert(t('campaign.cahiersLoadError', { error: errorText(error, t) })));
+    return () => {
+      cancelled = true;
+    };
+  }, [saved]);
+
+  // Le rapport n'est monté que le temps de l'export : il contient tous les cahiers et leurs images
+  useEffect(() => {
+    if (!isExporting || !saved || !cahiers) return;
+    downloadCampaignPdf(reportRef.current!, saved, cahiers.length, locale)
+      .catch(error => alert(t('campaign.reportError', { error: errorText(error, t) })))
+      .finally(() => setIsExporting(false));
+  }, [isExporting]);
+
+  const handleSave = async () => {
+    try {
+      const result = await saveCampaign(campaign);
+      setCampaigns(prev => [...prev.filter(item => item.id !== result.id), result].sort((a, b) => a.name.localeCompare(b.name, locale)));
+      setCampaign(result);
+    } catch (error) {
+      alert(errorText(error, t));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(t('campaign.deleteConfirm', { name: campaign.name }))) return;
+    try {
+      await deleteCampaign(campaign.id);
+      const rest = campaigns.filter(item => item.id !== campaign.id);
+      setCampaigns(rest);
+      setCampaign(rest[0] ?? newCampaign());
+    } catch (error) {
+      alert(errorText(error, t));
+    }
+  };
+
+  const exportCsv = () => {
+    downloadBlob(new Blob([campaignCsv(cahiers!, t)], { type: 'text/csv;charset=utf-8' }), campaignFileName(saved!, 'csv'));
+  };
+
+  const stats = cahiers && campaignStats(cahiers, t);
+  const items = cahiers ? koItems(cahiers) : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 print:hidden">
+      <div className="bg-white w-full max-w-6xl h-[85vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-indigo-600" /> {t('campaign.title')}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 grid grid-cols-4 overflow-hidden">
+          <div className="border-r border-slate-200 overflow-y-auto p-4 space-y-2">
+            <button
+              onClick={() => setCampaign(newCampaign())}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm font-semibold text-white bg-slate-800 hover:bg-slate-900 rounded-xl transition-all"
+            >
+              <Plus className="w-4 h-4" /> {t('campaign.new')}
+            </button>
+            {campaigns.map(item => (
+              <button
+                key={item.id}
+                onClick={() => setCampaign(item)}
+                className={cn(
+                  'w-full text-left px-3 py-2 rounded-xl transition-colors',
+                  item.id === campaign.id ? 'bg-indigo-50 text-indigo-700' : 'text-slate-600 hover:bg-slate-50'
+                )}
+              >
+                <span className="block text-sm font-medium truncate">{item.name}</span>
+                <span className="block text-xs text-slate-400 truncate">{describeCriteria(item, locale)}</span>
+              </button>
+            ))}
+            {campaigns.length === 0 && <p className="px-3 py-4 text-sm text-slate-400 text-center">{t('campaign.empty')}</p>}
+          </div>
+
+          <div className="col-span-3 overflow-y-auto p-6 space-y-6">
+            <div className="grid grid-cols-4 gap-4">
+              <div className="col-span-4">
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('campaign.name')}</label>
+                <input
+                  type="text"
+                  value={campaign.name}
+                  onChange={(e) => setCampaign(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder={t('campaign.namePlaceholder')}
+                  className={inputClass}
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('campaign.version')}</label>
+                <input
+                  type="text"
+                  value={campaign.release}
+                  onChange={(e) => setCampaign(prev => ({ ...prev, release: e.target.value }))}
+                  placeholder={t('campaign.versionPlaceholder')}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('campaign.from')}</label>
+                <input
+                  type="date"
+                  value={campaign.from}
+                  onChange={(e) => setCampaign(prev => ({ ...prev, from: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('campaign.to')}</label>
+                <input
+                  type="date"
+                  value={campaign.to}
+                  onChange={(e) => setCampaign(prev => ({ ...prev, to: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="flex justify-between gap-2">
+              <button
+                onClick={handleDelete}
+                disabled={!saved}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                <Trash2 className="w-4 h-4" /> {t('campaign.delete')}
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!isDirty}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-all disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" /> {t('campaign.save')}
+              </button>
+            </div>
+
+            {saved && !cahiers && <p className="text-sm text-slate-400">{t('campaign.loadingCahiers')}</p>}
+
+            {saved && stats && (
+              <>
+                <div className="flex items-center justify-between border-t border-slate-200 pt-6">
+                  <p className="text-sm text-slate-600">
+                    <span className="text-2xl font-bold text-slate-800 mr-2">{stats.total}</span>{t('campaign.cahierCount')}
+                  </p>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={exportCsv}
+                      disabled={stats.total === 0}
+                      className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <FileSpreadsheet className="w-4 h-4" /> CSV
+                    </button>
+                    <button
+                      onClick={() => setIsExporting(true)}
+                      disabled={stats.total === 0 || isExporting}
+                      className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-slate-800 hover:bg-slate-900 rounded-lg transition-all disabled:opacity-50"
+                    >
+                      <FileDown className="w-4 h-4" /> {isExporting ? t('campaign.generating') : t('campaign.pdfReport')}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-4 gap-3">
+                  <Breakdown title={t('campaign.type')} counts={stats.byType} />
+                  <Breakdown title={t('campaign.environment')} counts={stats.byEnvironment} />
+                  <Breakdown title={t('campaign.conclusion')} counts={stats.byConclusion} />
+                  <Breakdown title={t('campaign.validation')} counts={stats.byWorkflow} />
+                </div>
+
+                {items.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-semibold text-slate-700 mb-2 flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4 text-red-500" /> {t('campaign.koItemsCount', { count: items.length })}
+                    </h4>
+                    <ul className="divide-y divide-slate-100 rounded-xl border border-red-200 bg-red-50/40">
+                      {items.map((item, index) => (
+                        <li key={index} className="px-3 py-2 flex items-center gap-3 text-sm">
+                          <span className="font-mono text-xs text-slate-500 shrink-0">{item.jiraNumber}</span>
+                          <span className="font-mono text-xs text-slate-500 shrink-0">{item.environment}</span>
+                          <span className="flex-1 min-w-0 truncate text-slate-700">
+                            {item.step ? item.step.title : t('campaign.cahierConclusionKo', { name: item.jiraName })}
+                          </span>
+                          {item.step && (
+                            <span className="text-xs font-semibold text-red-700 shrink-0">
+                              {t(`status.${item.step.status}`)}{item.step.anomalyRef && ` — ${item.step.anomalyRef}`}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-[10px] uppercase tracking-wider text-slate-500 border-b border-slate-200">
+                      <th className="py-2 pr-2">{t('campaign.jira')}</th>
+                      <th className="py-2 pr-2">{t('campaign.name')}</th>
+                      <th className="py-2 pr-2">{t('campaign.type')}</th>
+                      <th className="py-2 pr-2">{t('campaign.env')}</th>
+                      <th className="py-2 pr-2">{t('campaign.date')}</th>
+                      <th className="py-2 pr-2">{t('campaign.conclusion')}</th>
+                      <th className="py-2 pr-2">{t('campaign.validation')}</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {cahiers.map(cahier => (
+                      <tr key={cahier.jiraNumber}>
+                        <td className="py-2 pr-2 font-mono text-xs">{cahier.jiraNumber}</td>
+                        <td className="py-2 pr-2 text-slate-700">{cahier.jiraName}</td>
+                        <td className="py-2 pr-2">{cahier.type}</td>
+                        <td className="py-2 pr-2">{allRuns(cahier).map(run => run.environment).join(', ')}</td>
+                        <td className="py-2 pr-2">{formatDate(cahier.date, locale)}</td>
+                        <td className={cn('py-2 pr-2 font-semibold', cahier.conclusion === 'OK' ? 'text-emerald-700' : 'text-red-700')}>
+                          {cahier.conclusion}
+                        </td>
+                        <td className="py-2 pr-2">
+                          <span className={cn('px-2 py-0.5 rounded-full text-[10px] font-semibold', WORKFLOW_CLASSES[cahier.signOff.status])}>
+                            {t(`workflow.${cahier.signOff.status}`)}
+                          </span>
+                        </td>
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() => onOpenCahier(cahier.jiraNumber)}
+                            className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all"
+                            title={t('campaign.open')}
+                          >
+                            <FolderOpen className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {stats.total === 0 && (
+                  <p className="text-sm text-slate-400 text-center">{t('campaign.noMatch')}</p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {isExporting && saved && cahiers && (
+        <div className="hidden">
+          {/* Chaque partie est rendue séparément dans le PDF (voir downloadCampaignPdf) */}
+          <div ref={reportRef}>
+            <div className="print-container relative">
+              <CampaignSummary campaign={saved} cahiers={cahiers} />
+            </div>
+            {cahiers.map(cahier => (
+              <div key={cahier.jiraNumber} className="print-container relative">
+                <PrintContent
+                  data={cahier}
+                  templates={queryTemplates}
+                  template={findDocumentTemplate(cahier.documentTemplateId, documentTemplates)}
+                  idPrefix={`campaign-${cahier.jiraNumber}`}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, ClipboardPaste, Image as ImageIcon, PenLine, Trash2 } from 'lucide-react';
+import type { Capture } from '../types';
+import { processImage } from '../images';
+import { loadSettings } from '../settings';
+import { cn } from '../utils';
+import { errorText } from '../i18n';
+import { useTranslation } from '../useTranslation';
+
+// --- Component: galerie des captures d'exécution des requêtes ---
+export default function CaptureGallery({ captures, readOnly = false, onAdd, onUpdate, onMove, onRemove, onAnnotate }: {
+  captures: Capture[];
+  // Cahier validé : captures consultables, sans ajout ni modification
+  readOnly?: boolean;
+  onAdd: (images: string[]) => void;
+  onUpdate: (id: string, updates: Partial<Capture>) => void;
+  onMove: (id: string, toIndex: number) => void;
+  onRemove: (id: string) => void;
+  onAnnotate: (id: string) => void;
+}) {
+  const { locale, t } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const addFiles = async (files: Iterable<File>) => {
+    const images: string[] = [];
+    for (const file of files) {
+      if (!file.type.startsWith('image/')) continue;
+      try {
+        images.push(await processImage(file, locale));
+      } catch (error) {
+        alert(t('captures.fileError', { file: file.name, error: errorText(error, t) }));
+      }
+    }
+    if (images.length > 0) onAdd(images);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    addFiles(e.dataTransfer.files);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = [...e.clipboardData.items]
+      .filter(item => item.kind === 'file')
+      .map(item => item.getAsFile())
+      .filter((file): file is File => !!file);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  return (
+    <fieldset disabled={readOnly} className="space-y-3">
+      {captures.map((capture, index) => (
+        <div key={capture.id} className="flex gap-3 p-2 rounded-xl border border-slate-200 bg-slate-50">
+          <img src={capture.image} alt={capture.caption} className="h-16 w-24 object-cover rounded-lg border border-slate-200 bg-white" />
+          <div className="flex-1 min-w-0 space-y-1">
+            <input
+              type="text"
+              value={capture.caption}
+              onChange={(e) => onUpdate(capture.id, { caption: e.target.value })}
+              placeholder={t('captures.captionPlaceholder')}
+              className="w-full px-2 py-1 text-xs rounded-lg border border-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none bg-white"
+            />
+            <div className="flex items-center gap-0.5">
+              <button
+                onClick={() => onMove(capture.id, index - 1)}
+                disabled={index === 0}
+                className="p-1 text-slate-400 hover:text-slate-700 rounded-lg hover:bg-slate-200 transition-all disabled:opacity-30 disabled:hover:bg-transparent"
+                title={t('captures.moveBefore')}
+              >
+                <ChevronLeft className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => onMove(capture.id, index + 1)}
+                disabled={index === captures.length - 1}
+                className="p-1 text-slate-400 hover:text-slate-700 rounded-lg hover:bg-slate-200 transition-all disabled:opacity-30 disabled:hover:bg-transparent"
+                title={t('captures.moveAfter')}
+              >
+                <ChevronRight className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => onAnnotate(capture.id)}
+                className="p-1 text-slate-400 hover:text-indigo-600 rounded-lg hover:bg-indigo-50 transition-all"
+                title={t('captures.annotate')}
+              >
+                <PenLine className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => onRemove(capture.id)}
+                className="ml-auto p-1 text-slate-400 hover:text-red-500 rounded-lg hover:bg-red-50 transition-all"
+                title={t('captures.delete')}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {!readOnly && (
+        <div
+          tabIndex={0}
+          onPaste={handlePaste}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragOver(true);
+          }}
+          onDragLeave={() => setIsDragOver(false)}
+          onDrop={handleDrop}
+          className={cn(
+            'flex justify-center px-6 pt-5 pb-6 border-2 border-dashed rounded-xl transition-colors outline-none focus:border-indigo-500 focus:bg-indigo-50/50',
+            isDragOver ? 'border-indigo-500 bg-indigo-50' : 'border-slate-300 hover:border-indigo-400'
+          )}
+        >
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files) addFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+          <div className="space-y-1 text-center">
+            <ImageIcon className="mx-auto h-10 w-10 text-slate-400" />
+            <div className="text-sm text-slate-600">
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="font-medium text-indigo-600 hover:text-indigo-500"
+              >
+                {t('captures.add')}
+              </button>{' '}
+              {t('captures.orDrop')}
+            </div>
+            <p className="text-xs text-slate-500 flex items-center justify-center gap-1">
+              <ClipboardPaste className="w-3 h-3" /> {t('captures.pasteHint')}
+            </p>
+            <p className="text-xs text-slate-500">{t('captures.formats', { size: loadSettings().image.maxFileSizeMb })}</p>
+          </div>
+        </div>
+      )}
+    </fieldset>
+  );
+}
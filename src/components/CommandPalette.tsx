@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Keyboard, Search, X } from 'lucide-react';
+import { SHORTCUTS } from '../shortcuts';
+import { useTranslation } from '../useTranslation';
+import { cn } from '../utils';
+
+const EDITOR_KEYS = SHORTCUTS.filter(shortcut => shortcut.inEditor).map(shortcut => shortcut.keys).join(', ');
+
+export interface PaletteCommand {
+  id: string;
+  group: 'actions' | 'steps';
+  label: string;
+  keys?: string;
+  disabled?: boolean;
+  run: () => void;
+}
+
+// Recherche sans tenir compte des accents ni de la casse ; chaque mot saisi doit apparaître
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const matches = (command: PaletteCommand, group: string, query: string) => {
+  const label = normalize(`${group} ${command.label}`);
+  return normalize(query).split(/\s+/).every(word => label.includes(word));
+};
+
+// --- Component: palette de commandes (actions et étapes) et aide des raccourcis clavier ---
+export default function CommandPalette({ commands, initialView = 'commands', onClose }: {
+  commands: PaletteCommand[];
+  initialView?: 'commands' | 'help';
+  onClose: () => void;
+}) {
+  const { t } = useTranslation();
+  const [view, setView] = useState(initialView);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const results = commands.filter(command => !command.disabled && matches(command, t(`palette.${command.group}`), query));
+
+  useEffect(() => {
+    // Le focus reste dans la palette pour que Échap la ferme dans les deux vues
+    (view === 'commands' ? inputRef.current : panelRef.current)?.focus();
+  }, [view]);
+
+  // Ctrl+K et Ctrl+/ basculent d'une vue à l'autre quand la palette est déjà ouverte
+  useEffect(() => setView(initialView), [initialView]);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const execute = (command: PaletteCommand | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (view === 'help') {
+      return;
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      execute(results[activeIndex]);
+    } else if (e.key === '?' && !query) {
+      e.preventDefault();
+      setView('help');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 backdrop-blur-sm p-4 pt-[12vh] print:hidden"
+      onMouseDown={(e) => e.target === e.currentTarget && onClose()}
+      onKeyDown={handleKeyDown}
+    >
+      <div ref={panelRef} tabIndex={-1} className="bg-white w-full max-w-xl max-h-[70vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden outline-none">
+        <div className="px-4 py-3 border-b border-slate-200 flex items-center gap-3">
+          {view === 'commands' ? (
+            <>
+              <Search className="w-5 h-5 text-slate-400 shrink-0" />
+              <input
+                ref={inputRef}
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t('palette.search')}
+                className="flex-1 text-sm outline-none"
+              />
+            </>
+          ) : (
+            <h3 className="flex-1 text-sm font-bold text-slate-800 flex items-center gap-2">
+              <Keyboard className="w-5 h-5 text-indigo-600" /> {t('palette.shortcuts')}
+            </h3>
+          )}
+          <button
+            onClick={() => setView(prev => (prev === 'help' ? 'commands' : 'help'))}
+            className="px-2 py-1 text-xs font-medium text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            {view === 'help' ? t('palette.showCommands') : t('palette.showShortcuts')}
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {view === 'commands' ? (
+          <ul ref={listRef} className="flex-1 overflow-y-auto p-2">
+            {results.map((command, index) => (
+              <li key={command.id} data-index={index}>
+                <button
+                  onClick={() => execute(command)}
+                  onMouseMove={() => setActiveIndex(index)}
+                  className={cn(
+                    'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm',
+                    index === activeIndex ? 'bg-indigo-50 text-indigo-800' : 'text-slate-700'
+                  )}
+                >
+                  <span className="text-[10px] font-semibold uppercase tracking-wider text-slate-400 w-14 shrink-0">{t(`palette.${command.group}`)}</span>
+                  <span className="flex-1 truncate">{command.label}</span>
+                  {command.keys && (
+                    <kbd className="text-[10px] font-mono text-slate-500 bg-slate-100 border border-slate-200 rounded px-1.5 py-0.5">{command.keys}</kbd>
+                  )}
+                </button>
+              </li>
+            ))}
+            {results.length === 0 && (
+              <li className="px-3 py-6 text-center text-sm text-slate-500">{t('palette.noResult')}</li>
+            )}
+          </ul>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-4">
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-slate-100">
+                {SHORTCUTS.map(shortcut => (
+                  <tr key={shortcut.keys}>
+                    <td className="py-2 pr-4 text-slate-700">{t(`shortcut.${shortcut.id}`)}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <kbd className="text-[10px] font-mono text-slate-600 bg-slate-100 border border-slate-200 rounded px-1.5 py-0.5">{shortcut.keys}</kbd>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-4 text-[10px] text-slate-400 italic">{t('palette.editorNote', { keys: EDITOR_KEYS })}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, CopyPlus, Lock, Palette, Plus, Save, Trash2, Upload, X } from 'lucide-react';
+import { deleteDocumentTemplate, saveDocumentTemplate } from '../api';
+import { BUILT_IN_DOCUMENT_TEMPLATES, COVER_FIELD_LABELS, DEFAULT_DOCUMENT_TEMPLATE } from '../documentTemplates';
+import { processImage } from '../images';
+import { errorText, translator } from '../i18n';
+import { useTranslation } from '../useTranslation';
+import type { CoverInfo, DocumentSection, DocumentTemplate } from '../types';
+import { cn } from '../utils';
+
+const inputClass = 'w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all disabled:bg-slate-50';
+
+const COLORS = Object.keys(DEFAULT_DOCUMENT_TEMPLATE.colors) as (keyof DocumentTemplate['colors'])[];
+
+// --- Component: bibliothèque des modèles de document (page de garde, couleurs, parties) ---
+export default function DocumentTemplateDialog({ userTemplates, onChange, onClose }: {
+  userTemplates: DocumentTemplate[];
+  onChange: (templates: DocumentTemplate[]) => void;
+  onClose: () => void;
+}) {
+  const { locale, t } = useTranslation();
+  const templates = [...BUILT_IN_DOCUMENT_TEMPLATES, ...userTemplates];
+  const [selectedId, setSelectedId] = useState(templates[0].id);
+  const [draft, setDraft] = useState<DocumentTemplate>(templates[0]);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const select = (template: DocumentTemplate) => {
+    setSelectedId(template.id);
+    setDraft(template);
+  };
+
+  const createTemplate = (from: DocumentTemplate = DEFAULT_DOCUMENT_TEMPLATE) => {
+    const { builtIn, ...definition } = from;
+    const template: DocumentTemplate = {
+      ...definition,
+      id: crypto.randomUUID(),
+      name: from === DEFAULT_DOCUMENT_TEMPLATE ? t('docTemplate.new') : t('docTemplate.copy', { name: from.name })
+    };
+    setSelectedId(template.id);
+    setDraft(template);
+  };
+
+  const update = (updates: Partial<DocumentTemplate>) => setDraft(prev => ({ ...prev, ...updates }));
+
+  const toggleCoverField = (field: keyof CoverInfo) => {
+    const fields = draft.coverFields.includes(field)
+      ? draft.coverFields.filter(f => f !== field)
+      : (Object.keys(COVER_FIELD_LABELS) as (keyof CoverInfo)[]).filter(f => f === field || draft.coverFields.includes(f));
+    update({ coverFields: fields });
+  };
+
+  const moveSection = (index: number, toIndex: number) => {
+    const sections = [...draft.sections];
+    const [moved] = sections.splice(index, 1);
+    sections.splice(toIndex, 0, moved);
+    update({ sections });
+  };
+
+  const handleLogo = async (file: File) => {
+    try {
+      update({ logo: await processImage(file, locale) });
+    } catch (error) {
+      alert(errorText(error, t));
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      const saved = await saveDocumentTemplate(draft);
+      const exists = userTemplates.some(template => template.id === saved.id);
+      onChange(exists
+        ? userTemplates.map(template => (template.id === saved.id ? saved : template))
+        : [...userTemplates, saved]);
+      setDraft(saved);
+    } catch (error) {
+      alert(errorText(error, t));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(t('docTemplate.deleteConfirm', { name: draft.name }))) return;
+    try {
+      await deleteDocumentTemplate(draft.id);
+      onChange(userTemplates.filter(template => template.id !== draft.id));
+      select(DEFAULT_DOCUMENT_TEMPLATE);
+    } catch (error) {
+      alert(errorText(error, t));
+    }
+  };
+
+  const isNew = !templates.some(template => template.id === draft.id);
+  const isBuiltIn = !!draft.builtIn;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 print:hidden">
+      <div className="bg-white w-full max-w-5xl h-[85vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Palette className="w-5 h-5 text-indigo-600" /> {t('docTemplate.title')}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 grid grid-cols-3 overflow-hidden">
+          <div className="border-r border-slate-200 overflow-y-auto p-4 space-y-1">
+            <button
+              onClick={() => createTemplate()}
+              className="w-full flex items-center gap-2 px-3 py-2 mb-2 text-sm font-semibold text-white bg-slate-800 hover:bg-slate-900 rounded-xl transition-all"
+            >
+              <Plus className="w-4 h-4" /> {t('docTemplate.new')}
+            </button>
+            {templates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => select(template)}
+                className={cn(
+                  'w-full flex items-center justify-between gap-2 px-3 py-2 text-left text-sm rounded-lg transition-colors',
+                  template.id === selectedId ? 'bg-indigo-50 text-indigo-700 font-semibold' : 'text-slate-600 hover:bg-slate-50'
+                )}
+              >
+                <span className="truncate">{template.name}</span>
+                {template.builtIn && <Lock className="w-3.5 h-3.5 shrink-0 text-slate-400" />}
+              </button>
+            ))}
+          </div>
+
+          <fieldset disabled={isBuiltIn} className="col-span-2 overflow-y-auto p-6 space-y-5">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">{t('docTemplate.name')}</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => update({ name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('docTemplate.coverLabel')}</label>
+                <input
+                  type="text"
+                  value={draft.coverLabel}
+                  onChange={(e) => update({ coverLabel: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('docTemplate.footerText')}</label>
+                <input
+                  type="text"
+                  value={draft.footerText}
+                  onChange={(e) => update({ footerText: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">{t('docTemplate.logo')}</label>
+              <div className="flex items-center gap-3">
+                <img src={draft.logo} alt="" className="h-14 w-14 object-contain rounded-lg border border-slate-200 bg-white" />
+                <input
+                  ref={logoInputRef}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    if (e.target.files?.[0]) handleLogo(e.target.files[0]);
+                    e.target.value = '';
+                  }}
+                />
+                <button
+                  onClick={() => logoInputRef.current?.click()}
+                  className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-200 hover:bg-slate-50 rounded-xl transition-all disabled:opacity-50"
+                >
+                  <Upload className="w-4 h-4" /> {t('docTemplate.chooseImage')}
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-slate-700 mb-2">{t('docTemplate.colors')}</p>
+              <div className="grid grid-cols-2 gap-3">
+                {COLORS.map(key => (
+                  <label key={key} className="flex items-center gap-2 text-sm text-slate-600">
+                    <input
+                      type="color"
+                      value={draft.colors[key]}
+                      onChange={(e) => update({ colors: { ...draft.colors, [key]: e.target.value } })}
+                      className="h-8 w-10 rounded border border-slate-200 bg-white"
+                    />
+                    {t(`docTemplate.color.${key}`)}
+                  </label>
+                ))}
+              </div>
+              <div className="mt-3 flex h-10 border border-black text-xs font-bold">
+                <div className="w-1/4 flex items-center justify-center" style={{ backgroundColor: draft.colors.headerLeft }}>ERP-1234</div>
+                <div className="flex-1 flex items-center justify-center text-white" style={{ backgroundColor: draft.colors.headerRight }}>
+                  {t('jira.name')}
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-slate-700 mb-2">{t('docTemplate.coverFields')}</p>
+              <div className="flex flex-wrap gap-3">
+                {(Object.keys(COVER_FIELD_LABELS) as (keyof CoverInfo)[]).map(field => (
+                  <label key={field} className="flex items-center gap-2 text-sm text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={draft.coverFields.includes(field)}
+                      onChange={() => toggleCoverField(field)}
+                      className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {t(`cover.${field}`)}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-slate-700 mb-2">{t('docTemplate.sections')}</p>
+              <div className="space-y-2">
+                {draft.sections.map((section, index) => (
+                  <div key={section.id} className="flex items-center gap-2">
+                    <span className="w-40 shrink-0 text-xs text-slate-500">{t(`section.${section.id as DocumentSection}`)}</span>
+                    <input
+                      type="text"
+                      value={section.title}
+                      onChange={(e) => update({
+                        sections: draft.sections.map(s => (s.id === section.id ? { ...s, title: e.target.value } : s))
+                      })}
+                      className={inputClass}
+                    />
+                    <input
+                      type="text"
+                      value={section.titleEn ?? ''}
+                      onChange={(e) => update({
+                        sections: draft.sections.map(s => (s.id === section.id ? { ...s, titleEn: e.target.value } : s))
+                      })}
+                      placeholder={translator('en')(`section.${section.id as DocumentSection}`)}
+                      className={inputClass}
+                      title={t('docTemplate.titleEn')}
+                    />
+                    <button
+                      onClick={() => moveSection(index, index - 1)}
+                      disabled={index === 0}
+                      className="p-1.5 text-slate-400 hover:text-slate-700 rounded-lg hover:bg-slate-100 transition-all disabled:opacity-30"
+                      title={t('docTemplate.moveUp')}
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveSection(index, index + 1)}
+                      disabled={index === draft.sections.length - 1}
+                      className="p-1.5 text-slate-400 hover:text-slate-700 rounded-lg hover:bg-slate-100 transition-all disabled:opacity-30"
+                      title={t('docTemplate.moveDown')}
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </fieldset>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex justify-end gap-2">
+          {isBuiltIn ? (
+            <button
+              onClick={() => createTemplate(draft)}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-slate-700 bg-white border border-slate-200 hover:bg-slate-50 rounded-xl transition-all"
+            >
+              <CopyPlus className="w-4 h-4" /> {t('docTemplate.duplicate')}
+            </button>
+          ) : (
+            <>
+              {!isNew && (
+                <button
+                  onClick={handleDelete}
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-xl transition-all"
+                >
+                  <Trash2 className="w-4 h-4" /> {t('docTemplate.delete')}
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-xl transition-all"
+              >
+                <Save className="w-4 h-4" /> {t('docTemplate.save')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
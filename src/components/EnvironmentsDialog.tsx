@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Plus, Save, Server, Trash2, X } from 'lucide-react';
+import type { TestEnvironment } from '../types';
+import { saveEnvironments } from '../api';
+import { checkEnvironments } from '../environments';
+import { errorText } from '../i18n';
+import { useTranslation } from '../useTranslation';
+
+const inputClass = 'w-full px-3 py-1.5 text-sm rounded-lg border border-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none';
+
+// --- Component: liste des environnements proposés pour les exécutions, partagée par tous les utilisateurs ---
+export default function EnvironmentsDialog({ environments, onChange, onClose }: {
+  environments: TestEnvironment[];
+  onChange: (environments: TestEnvironment[]) => void;
+  onClose: () => void;
+}) {
+  const { t } = useTranslation();
+  const [list, setList] = useState(environments);
+  const error = checkEnvironments(list);
+
+  const update = (index: number, updates: Partial<TestEnvironment>) => {
+    setList(prev => prev.map((environment, i) => (i === index ? { ...environment, ...updates } : environment)));
+  };
+
+  const move = (index: number, offset: number) => {
+    setList(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      onChange(await saveEnvironments(list));
+      onClose();
+    } catch (error) {
+      alert(errorText(error, t));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 print:hidden">
+      <div className="bg-white w-full max-w-lg max-h-[85vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Server className="w-5 h-5 text-indigo-600" /> {t('environments.title')}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          <p className="text-xs text-slate-500">
+            {t('environments.hint')}
+          </p>
+          {list.map((environment, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={environment.name}
+                onChange={(e) => update(index, { name: e.target.value.toUpperCase() })}
+                placeholder={t('environments.namePlaceholder')}
+                className={`${inputClass} w-36 font-mono`}
+              />
+              <input
+                type="text"
+                value={environment.description}
+                onChange={(e) => update(index, { description: e.target.value })}
+                placeholder={t('environments.descriptionPlaceholder')}
+                className={inputClass}
+              />
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="p-1.5 text-slate-400 hover:text-slate-700 rounded-lg hover:bg-slate-100 disabled:opacity-30"
+                title={t('environments.moveUp')}
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === list.length - 1}
+                className="p-1.5 text-slate-400 hover:text-slate-700 rounded-lg hover:bg-slate-100 disabled:opacity-30"
+                title={t('environments.moveDown')}
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setList(prev => prev.filter((_, i) => i !== index))}
+                className="p-1.5 text-slate-400 hover:text-red-500 rounded-lg hover:bg-red-50"
+                title={t('environments.remove')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setList(prev => [...prev, { name: '', description: '' }])}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" /> {t('environments.add')}
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex items-center justify-between gap-4">
+          <p className="text-xs text-red-600">{t(error.key, error.params)}</p>
+          <button
+            onClick={handleSave}
+            disabled={!!error}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-all disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" /> {t('environments.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Camera, GitCompare, History, RotateCcw, Trash2, X } from 'lucide-react';
+import { addSnapshot, deleteSnapshot, listSnapshots, type Snapshot } from '../drafts';
+import { diffCahiers } from '../diff';
+import type { AppData } from '../types';
+import { cn } from '../utils';
+import { formatDateTime } from '../i18n';
+import { useTranslation } from '../useTranslation';
+
+// --- Component: historique des instantanés du cahier en cours ---
+export default function HistoryPanel({ data, refreshKey, onRestore, onClose }: {
+  data: AppData;
+  refreshKey: number;
+  onRestore: (snapshot: Snapshot) => void;
+  onClose: () => void;
+}) {
+  const { locale, t } = useTranslation();
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [comparedId, setComparedId] = useState<number | null>(null);
+  const [reload, setReload] = useState(0);
+
+  useEffect(() => {
+    listSnapshots(data.jiraNumber).then(setSnapshots);
+  }, [data.jiraNumber, refreshKey, reload]);
+
+  const handleCreate = async () => {
+    const name = prompt(t('history.namePrompt'), t('history.defaultName', { date: formatDateTime(new Date(), locale) }))?.trim();
+    if (!name) return;
+    await addSnapshot(name, data);
+    setReload(n => n + 1);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm(t('history.deleteConfirm'))) return;
+    await deleteSnapshot(id);
+    setReload(n => n + 1);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end print:hidden">
+      <div className="flex-1 bg-black/40 backdrop-blur-sm" onClick={onClose} />
+      <aside className="w-full max-w-md h-full bg-white shadow-2xl flex flex-col">
+        <div className="px-5 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <History className="w-5 h-5 text-indigo-600" /> {t('history.title')}
+          </h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleCreate}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-all"
+            >
+              <Camera className="w-4 h-4" /> {t('history.snapshot')}
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {snapshots.length === 0 && (
+            <p className="text-sm text-slate-500 text-center py-12">
+              {t('history.empty', { jira: data.jiraNumber || t('history.thisCahier') })}
+            </p>
+          )}
+          <ol className="relative border-l-2 border-slate-200 ml-2 space-y-4">
+            {snapshots.map(snapshot => {
+              const isCompared = comparedId === snapshot.id;
+              const changes = isCompared ? diffCahiers(snapshot.data, data, t) : [];
+              return (
+                <li key={snapshot.id} className="ml-4">
+                  <span className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-indigo-500 border-2 border-white" />
+                  <div className="font-semibold text-slate-800 text-sm">{snapshot.name}</div>
+                  <div className="text-xs text-slate-400">{formatDateTime(snapshot.createdAt, locale)}</div>
+                  <div className="flex items-center gap-1 mt-1">
+                    <button
+                      onClick={() => setComparedId(isCompared ? null : snapshot.id!)}
+                      className={cn(
+                        'flex items-center gap-1 px-2 py-1 text-xs rounded-lg transition-all',
+                        isCompared ? 'bg-indigo-100 text-indigo-700' : 'text-slate-500 hover:bg-slate-100'
+                      )}
+                    >
+                      <GitCompare className="w-3.5 h-3.5" /> {t('history.compare')}
+                    </button>
+                    <button
+                      onClick={() => onRestore(snapshot)}
+                      className="flex items-center gap-1 px-2 py-1 text-xs text-slate-500 hover:bg-slate-100 rounded-lg transition-all"
+                    >
+                      <RotateCcw className="w-3.5 h-3.5" /> {t('history.restore')}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(snapshot.id!)}
+                      className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                      title={t('history.delete')}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                  {isCompared && (
+                    <div className="mt-2 rounded-xl border border-slate-200 bg-slate-50 p-3 text-xs space-y-2">
+                      {changes.length === 0 && <p className="text-slate-500">{t('history.identical')}</p>}
+                      {changes.map((change, index) => (
+                        <div key={index}>
+                          <div className="font-semibold text-slate-700">{change.label}</div>
+                          {change.before !== undefined && (
+                            <div className="text-red-700 bg-red-50 px-2 py-0.5 rounded line-through">{change.before || t('history.emptyValue')}</div>
+                          )}
+                          {change.after !== undefined && (
+                            <div className="text-emerald-700 bg-emerald-50 px-2 py-0.5 rounded">{change.after || t('history.emptyValue')}</div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Droplet, Grid3x3, Hash, Highlighter, MoveUpRight, PenLine, Save, Square, Trash2, Type, Undo2, X } from 'lucide-react';
+import type { Annotation, ImageAnnotation } from '../types';
+import {
+  ANNOTATION_COLORS, drawAnnotations, flattenAnnotations, loadHtmlImage, nextCalloutNumber, normalizeRect
+} from '../annotations';
+import { cn } from '../utils';
+import { errorText } from '../i18n';
+import { useTranslation } from '../useTranslation';
+
+const TOOLS: { type: Annotation['type']; icon: React.ElementType }[] = [
+  { type: 'arrow', icon: MoveUpRight },
+  { type: 'rect', icon: Square },
+  { type: 'callout', icon: Hash },
+  { type: 'text', icon: Type },
+  { type: 'highlight', icon: Highlighter },
+  { type: 'blur', icon: Droplet },
+  { type: 'pixelate', icon: Grid3x3 }
+];
+
+// Zone tracée en glissant, à partir du point de départ
+function drawnAnnotation(type: Annotation['type'], color: string, x1: number, y1: number, x2: number, y2: number): Annotation | null {
+  if (type === 'arrow') return { type, color, x1, y1, x2, y2 };
+  if (type === 'rect' || type === 'highlight' || type === 'blur' || type === 'pixelate') {
+    return { type, color, x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+  }
+  return null;
+}
+
+// --- Component: annotation d'une capture ou d'une image d'étape (flèches, cadres, repères, texte, masquage) ---
+export default function ImageAnnotator({ source, onSave, onClose }: {
+  source: ImageAnnotation;
+  // `image` : version aplatie à afficher dans le cahier
+  onSave: (annotation: ImageAnnotation, image: string) => void;
+  onClose: () => void;
+}) {
+  const { t } = useTranslation();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [annotations, setAnnotations] = useState<Annotation[]>(source.annotations);
+  const [tool, setTool] = useState<Annotation['type']>('arrow');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [start, setStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadHtmlImage(source.original)
+      .then(setImage)
+      .catch(() => {
+        alert(t('annotator.unreadable'));
+        onClose();
+      });
+  }, [source.original]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    drawAnnotations(canvas.getContext('2d')!, image, draft ? [...annotations, draft] : annotations);
+  }, [image, annotations, draft]);
+
+  // Position du pointeur en pixels de l'image (le canvas est affiché réduit)
+  const toImage = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.round((e.clientX - rect.left) * (e.currentTarget.width / rect.width)),
+      y: Math.round((e.clientY - rect.top) * (e.currentTarget.height / rect.height))
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = toImage(e);
+    if (tool === 'callout') {
+      setAnnotations(prev => [...prev, { type: 'callout', color, x, y, number: nextCalloutNumber(prev) }]);
+      return;
+    }
+    if (tool === 'text') {
+      const text = prompt(t('annotator.textPrompt'))?.trim();
+      if (text) setAnnotations(prev => [...prev, { type: 'text', color, x, y, text }]);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setStart({ x, y });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!start) return;
+    const { x, y } = toImage(e);
+    setDraft(drawnAnnotation(tool, color, start.x, start.y, x, y));
+  };
+
+  const handlePointerUp = () => {
+    // Un simple clic ne laisse pas de forme vide
+    const isVisible = draft && (draft.type === 'arrow'
+      ? Math.hypot(draft.x2 - draft.x1, draft.y2 - draft.y1) > 4
+      : 'width' in draft && Math.abs(draft.width) > 4 && Math.abs(draft.height) > 4);
+    if (isVisible) {
+      setAnnotations(prev => [...prev, draft.type === 'arrow' || draft.type === 'callout' || draft.type === 'text' ? draft : normalizeRect(draft)]);
+    }
+    setStart(null);
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const annotation = { original: source.original, annotations };
+      onSave(annotation, await flattenAnnotations(annotation));
+    } catch (error) {
+      alert(t('annotator.error', { error: errorText(error, t) }));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 print:hidden">
+      <div className="bg-white w-full max-w-6xl h-[90vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between gap-4">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <PenLine className="w-5 h-5 text-indigo-600" /> {t('annotator.title')}
+          </h3>
+          <div className="flex items-center gap-1">
+            {TOOLS.map(({ type, icon: Icon }) => (
+              <button
+                key={type}
+                onClick={() => setTool(type)}
+                className={cn(
+                  'p-2 rounded-lg transition-colors',
+                  tool === type ? 'bg-indigo-100 text-indigo-700' : 'text-slate-500 hover:bg-slate-100'
+                )}
+                title={t(`annotator.tool.${type}`)}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
+            <span className="w-px h-6 bg-slate-200 mx-2" />
+            {ANNOTATION_COLORS.map(value => (
+              <button
+                key={value}
+                onClick={() => setColor(value)}
+                className={cn('w-6 h-6 rounded-full border-2', color === value ? 'border-slate-800' : 'border-white shadow')}
+                style={{ backgroundColor: value }}
+                title={value}
+              />
+            ))}
+            <span className="w-px h-6 bg-slate-200 mx-2" />
+            <button
+              onClick={() => setAnnotations(prev => prev.slice(0, -1))}
+              disabled={annotations.length === 0}
+              className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30"
+              title={t('annotator.undo')}
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onClose}
+              className="ml-2 p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <div className="flex-1 min-w-0 overflow-auto bg-slate-200/50 p-4 flex items-start justify-center">
+            {image ? (
+              <canvas
+                ref={canvasRef}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                className="max-w-full h-auto shadow-lg cursor-crosshair touch-none bg-white"
+              />
+            ) : (
+              <p className="text-sm text-slate-500">{t('annotator.loading')}</p>
+            )}
+          </div>
+          <aside className="w-64 border-l border-slate-200 p-4 overflow-y-auto space-y-3">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-slate-500">{t('annotator.list', { count: annotations.length })}</h4>
+            <ul className="space-y-1">
+              {annotations.map((annotation, index) => (
+                <li key={index} className="flex items-center gap-2 text-sm text-slate-700">
+                  <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: annotation.color }} />
+                  <span className="flex-1 truncate">
+                    {t(`annotator.tool.${annotation.type}`)}
+                    {annotation.type === 'callout' && ` ${annotation.number}`}
+                    {annotation.type === 'text' && t('annotator.quotedText', { text: annotation.text })}
+                  </span>
+                  <button
+                    onClick={() => setAnnotations(prev => prev.filter((_, i) => i !== index))}
+                    className="p-1 text-slate-400 hover:text-red-500 rounded-lg hover:bg-red-50"
+                    title={t('annotator.delete')}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <p className="text-[10px] text-slate-400 italic">
+              {t('annotator.originalKept')}
+            </p>
+          </aside>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={!image || isSaving}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-all disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" /> {isSaving ? t('annotator.saving') : t('annotator.apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { AlertTriangle, FileInput, ListPlus, Replace, X } from 'lucide-react';
+import type { ValidationIssue } from '../schema';
+import type { Message } from '../i18n';
+import type { AppData } from '../types';
+import { useTranslation } from '../useTranslation';
+
+export type ImportResult =
+  | { status: 'ok'; fileName: string; cahier: AppData }
+  | { status: 'error'; fileName: string; message: Message; issues: ValidationIssue[] };
+
+// --- Component: résultat de l'import d'un fichier JSON ---
+export default function ImportDialog({ result, onReplace, onMerge, onClose }: {
+  result: ImportResult;
+  onReplace: (cahier: AppData) => void;
+  onMerge: (cahier: AppData) => void;
+  onClose: () => void;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 print:hidden">
+      <div className="bg-white w-full max-w-lg max-h-[80vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <FileInput className="w-5 h-5 text-indigo-600" /> {t('import.title', { file: result.fileName })}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {result.status === 'ok' ? (
+            <>
+              <div className="text-sm text-slate-600">
+                <div className="font-semibold text-slate-800">
+                  {result.cahier.jiraNumber || t('import.noNumber')} — {result.cahier.jiraName || t('import.untitled')}
+                </div>
+                <div>{t('import.stepCount', { count: result.cahier.steps.length })}</div>
+              </div>
+              <div className="grid grid-cols-1 gap-2">
+                <button
+                  onClick={() => onReplace(result.cahier)}
+                  className="flex items-center gap-3 px-4 py-3 text-left rounded-xl border border-slate-200 hover:bg-slate-50 transition-all"
+                >
+                  <Replace className="w-5 h-5 text-indigo-600" />
+                  <span>
+                    <span className="block font-semibold text-slate-800">{t('import.replace')}</span>
+                    <span className="block text-xs text-slate-500">{t('import.replaceHint')}</span>
+                  </span>
+                </button>
+                <button
+                  onClick={() => onMerge(result.cahier)}
+                  className="flex items-center gap-3 px-4 py-3 text-left rounded-xl border border-slate-200 hover:bg-slate-50 transition-all"
+                >
+                  <ListPlus className="w-5 h-5 text-indigo-600" />
+                  <span>
+                    <span className="block font-semibold text-slate-800">{t('import.merge')}</span>
+                    <span className="block text-xs text-slate-500">{t('import.mergeHint')}</span>
+                  </span>
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="flex items-center gap-2 text-sm font-semibold text-red-700">
+                <AlertTriangle className="w-4 h-4" /> {t(result.message.key, result.message.params)}
+              </p>
+              {result.issues.length > 0 && (
+                <ul className="text-sm space-y-1 bg-red-50 border border-red-200 rounded-xl p-4">
+                  {result.issues.map(issue => (
+                    <li key={issue.path + issue.message.key}>
+                      <code className="font-mono text-red-800">{issue.path}</code>{' '}
+                      <span className="text-red-700">{t(issue.message.key, issue.message.params)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
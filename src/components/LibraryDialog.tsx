@@ -0,0 +1,424 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { CopyPlus, FilePlus, Library, ListPlus, Lock, Save, Search, Trash2, X } from 'lucide-react';
+import { deleteCahierTemplate, deleteSnippet, saveCahierTemplate, saveSnippet } from '../api';
+import { htmlToText } from '../diff';
+import {
+  BUILT_IN_CAHIER_TEMPLATES, BUILT_IN_SNIPPETS, categoriesOf, freshSteps, matchesSearch, snippetToStep
+} from '../library';
+import { numberSteps } from '../numbering';
+import { sanitizeHtml } from '../sanitize';
+import type { AppData, CahierTemplate, QueryTemplate, StepSnippet, TestStep } from '../types';
+import { cn } from '../utils';
+import { errorText } from '../i18n';
+import { useTranslation } from '../useTranslation';
+
+const inputClass = 'w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all disabled:bg-slate-50';
+
+type Tab = 'snippets' | 'cahiers';
+
+// --- Component: bibliothèque d'étapes réutilisables et de modèles de cahier ---
+export default function LibraryDialog({
+  data, queryTemplates, userSnippets, userCahierTemplates, canInsert,
+  onSnippetsChange, onCahierTemplatesChange, onInsertSteps, onNewCahier, onClose
+}: {
+  data: AppData;
+  queryTemplates: QueryTemplate[];
+  userSnippets: StepSnippet[];
+  userCahierTemplates: CahierTemplate[];
+  // Faux quand le cahier en cours est validé
+  canInsert: boolean;
+  onSnippetsChange: (snippets: StepSnippet[]) => void;
+  onCahierTemplatesChange: (templates: CahierTemplate[]) => void;
+  onInsertSteps: (steps: TestStep[]) => void;
+  onNewCahier: (template: CahierTemplate) => void;
+  onClose: () => void;
+}) {
+  const { t } = useTranslation();
+  const snippets = [...BUILT_IN_SNIPPETS, ...userSnippets];
+  const cahierTemplates = [...BUILT_IN_CAHIER_TEMPLATES, ...userCahierTemplates];
+  const [tab, setTab] = useState<Tab>('snippets');
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState('');
+  const [snippet, setSnippet] = useState<StepSnippet>(snippets[0]);
+  const [cahierTemplate, setCahierTemplate] = useState<CahierTemplate>(cahierTemplates[0]);
+
+  const switchTab = (next: Tab) => {
+    setTab(next);
+    setCategory('');
+  };
+
+  const visibleSnippets = snippets.filter(item => (!category || item.category === category)
+    && matchesSearch(search, item.title, item.category, htmlToText(item.content), item.expectedResult));
+  const visibleTemplates = cahierTemplates.filter(item => (!category || item.category === category)
+    && matchesSearch(search, item.name, item.category, item.description, ...item.steps.map(step => step.title)));
+
+  const categories = categoriesOf(tab === 'snippets' ? snippets : cahierTemplates);
+  const isSnippetNew = !snippets.some(item => item.id === snippet.id);
+  const isTemplateNew = !cahierTemplates.some(item => item.id === cahierTemplate.id);
+
+  const duplicateSnippet = () => {
+    const { builtIn, ...definition } = snippet;
+    setSnippet({ ...definition, id: crypto.randomUUID(), title: t('library.copy', { name: snippet.title }) });
+  };
+
+  const duplicateTemplate = (from: CahierTemplate) => {
+    const { builtIn, ...definition } = from;
+    setCahierTemplate({ ...definition, id: crypto.randomUUID(), name: t('library.copy', { name: from.name }) });
+  };
+
+  // Modèle construit à partir du cahier en cours (étapes remises à zéro, sans captures)
+  const templateFromCahier = () => {
+    setCahierTemplate({
+      id: crypto.randomUUID(),
+      name: data.jiraName || t('library.newTemplate'),
+      category: t('message.snippetDefaultCategory'),
+      description: '',
+      type: data.type,
+      sqlQueries: data.sqlQueries,
+      steps: freshSteps(data.steps)
+    });
+  };
+
+  const handleSaveSnippet = async () => {
+    try {
+      const saved = await saveSnippet(snippet);
+      onSnippetsChange(isSnippetNew
+        ? [...userSnippets, saved]
+        : userSnippets.map(item => (item.id === saved.id ? saved : item)));
+      setSnippet(saved);
+    } catch (error) {
+      alert(errorText(error, t));
+    }
+  };
+
+  const handleDeleteSnippet = async () => {
+    if (!confirm(t('library.deleteSnippetConfirm', { title: snippet.title }))) return;
+    try {
+      await deleteSnippet(snippet.id);
+      onSnippetsChange(userSnippets.filter(item => item.id !== snippet.id));
+      setSnippet(BUILT_IN_SNIPPETS[0]);
+    } catch (error) {
+      alert(errorText(error, t));
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    try {
+      const saved = await saveCahierTemplate(cahierTemplate);
+      onCahierTemplatesChange(isTemplateNew
+        ? [...userCahierTemplates, saved]
+        : userCahierTemplates.map(item => (item.id === saved.id ? saved : item)));
+      setCahierTemplate(saved);
+    } catch (error) {
+      alert(errorText(error, t));
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!confirm(t('library.deleteTemplateConfirm', { name: cahierTemplate.name }))) return;
+    try {
+      await deleteCahierTemplate(cahierTemplate.id);
+      onCahierTemplatesChange(userCahierTemplates.filter(item => item.id !== cahierTemplate.id));
+      setCahierTemplate(BUILT_IN_CAHIER_TEMPLATES[0]);
+    } catch (error) {
+      alert(errorText(error, t));
+    }
+  };
+
+  // Liste regroupée par catégorie
+  const renderList = <T extends { id: string; category: string; builtIn?: boolean }>(
+    items: T[], selectedId: string, label: (item: T) => string, onSelect: (item: T) => void
+  ) => categoriesOf(items).map(group => (
+    <div key={group} className="space-y-1">
+      <p className="px-3 pt-2 text-[10px] font-semibold uppercase tracking-wider text-slate-400">{group}</p>
+      {items.filter(item => item.category === group).map(item => (
+        <button
+          key={item.id}
+          onClick={() => onSelect(item)}
+          className={cn(
+            'w-full flex items-center justify-between gap-2 px-3 py-2 text-left text-sm rounded-lg transition-colors',
+            item.id === selectedId ? 'bg-indigo-50 text-indigo-700 font-semibold' : 'text-slate-600 hover:bg-slate-50'
+          )}
+        >
+          <span className="truncate">{label(item)}</span>
+          {item.builtIn && <Lock className="w-3.5 h-3.5 shrink-0 text-slate-400" />}
+        </button>
+      ))}
+    </div>
+  ));
+
+  const editActions = (isBuiltIn: boolean, isNew: boolean, onDuplicate: () => void, onDelete: () => void, onSave: () => void) =>
+    isBuiltIn ? (
+      <button
+        onClick={onDuplicate}
+        className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-slate-700 bg-white border border-slate-200 hover:bg-slate-50 rounded-xl transition-all"
+      >
+        <CopyPlus className="w-4 h-4" /> {t('library.duplicate')}
+      </button>
+    ) : (
+      <>
+        {!isNew && (
+          <button
+            onClick={onDelete}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-xl transition-all"
+          >
+            <Trash2 className="w-4 h-4" /> {t('library.delete')}
+          </button>
+        )}
+        <button
+          onClick={onSave}
+          className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-xl transition-all"
+        >
+          <Save className="w-4 h-4" /> {t('library.save')}
+        </button>
+      </>
+    );
+
+  const templateNumbers = numberSteps(cahierTemplate.steps);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 print:hidden">
+      <div className="bg-white w-full max-w-5xl h-[80vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="flex items-center gap-6">
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Library className="w-5 h-5 text-indigo-600" /> {t('library.title')}
+            </h3>
+            <div className="flex gap-1 p-1 bg-slate-100 rounded-xl">
+              {([['snippets', t('library.snippets')], ['cahiers', t('library.cahierTemplates')]] as [Tab, string][]).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => switchTab(id)}
+                  className={cn(
+                    'px-3 py-1 text-sm font-medium rounded-lg transition-colors',
+                    tab === id ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 grid grid-cols-3 overflow-hidden">
+          <div className="border-r border-slate-200 overflow-y-auto p-4 space-y-2">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder={t('library.search')}
+                className="w-full pl-9 pr-3 py-1.5 text-sm rounded-lg border border-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+            </div>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className="w-full px-3 py-1.5 text-sm rounded-lg border border-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+            >
+              <option value="">{t('library.allCategories')}</option>
+              {categories.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            {tab === 'snippets' ? (
+              <>
+                {renderList(visibleSnippets, snippet.id, item => item.title, setSnippet)}
+                <p className="px-3 pt-2 text-xs text-slate-400 italic">
+                  {t('library.addSnippetHint')}
+                </p>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={templateFromCahier}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm font-semibold text-white bg-slate-800 hover:bg-slate-900 rounded-xl transition-all"
+                >
+                  <Save className="w-4 h-4" /> {t('library.saveCurrent')}
+                </button>
+                {renderList(visibleTemplates, cahierTemplate.id, item => item.name, setCahierTemplate)}
+              </>
+            )}
+            {(tab === 'snippets' ? visibleSnippets : visibleTemplates).length === 0 && (
+              <p className="px-3 py-4 text-sm text-slate-400 text-center">{t('library.noResult')}</p>
+            )}
+          </div>
+
+          {tab === 'snippets' ? (
+            <div className="col-span-2 overflow-y-auto p-6 space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">{t('library.stepTitle')}</label>
+                  <input
+                    type="text"
+                    value={snippet.title}
+                    disabled={snippet.builtIn}
+                    onChange={(e) => setSnippet(prev => ({ ...prev, title: e.target.value }))}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">{t('library.category')}</label>
+                  <input
+                    type="text"
+                    list="library-categories"
+                    value={snippet.category}
+                    disabled={snippet.builtIn}
+                    onChange={(e) => setSnippet(prev => ({ ...prev, category: e.target.value }))}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div>
+                <p className="block text-sm font-medium text-slate-700 mb-1">{t('library.content')}</p>
+                <div
+                  className="ql-editor rounded-xl border border-slate-200 bg-slate-50 text-sm"
+                  style={{ minHeight: 'auto' }}
+                  dangerouslySetInnerHTML={{ __html: sanitizeHtml(snippet.content) }}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('library.expectedResult')}</label>
+                <textarea
+                  value={snippet.expectedResult}
+                  disabled={snippet.builtIn}
+                  onChange={(e) => setSnippet(prev => ({ ...prev, expectedResult: e.target.value }))}
+                  rows={3}
+                  className={`${inputClass} text-sm`}
+                />
+              </div>
+              <div className="flex justify-between gap-2 pt-2">
+                <button
+                  onClick={() => onInsertSteps([snippetToStep(snippet)])}
+                  disabled={!canInsert}
+                  title={canInsert ? undefined : t('library.locked')}
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-slate-800 hover:bg-slate-900 rounded-xl transition-all disabled:opacity-50"
+                >
+                  <ListPlus className="w-4 h-4" /> {t('library.insert')}
+                </button>
+                <div className="flex gap-2">
+                  {editActions(!!snippet.builtIn, isSnippetNew, duplicateSnippet, handleDeleteSnippet, handleSaveSnippet)}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="col-span-2 overflow-y-auto p-6 space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">{t('library.name')}</label>
+                  <input
+                    type="text"
+                    value={cahierTemplate.name}
+                    disabled={cahierTemplate.builtIn}
+                    onChange={(e) => setCahierTemplate(prev => ({ ...prev, name: e.target.value }))}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">{t('library.category')}</label>
+                  <input
+                    type="text"
+                    list="library-categories"
+                    value={cahierTemplate.category}
+                    disabled={cahierTemplate.builtIn}
+                    onChange={(e) => setCahierTemplate(prev => ({ ...prev, category: e.target.value }))}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">{t('library.type')}</label>
+                  <select
+                    value={cahierTemplate.type}
+                    disabled={cahierTemplate.builtIn}
+                    onChange={(e) => setCahierTemplate(prev => ({ ...prev, type: e.target.value as CahierTemplate['type'] }))}
+                    className={`${inputClass} bg-white`}
+                  >
+                    <option value="TMD">TMD</option>
+                    <option value="TMA">TMA</option>
+                  </select>
+                </div>
+                <div className="col-span-2">
+                  <p className="block text-sm font-medium text-slate-700 mb-1">{t('library.queries')}</p>
+                  <p className="text-sm text-slate-600 py-2">
+                    {cahierTemplate.sqlQueries
+                      .map(id => queryTemplates.find(query => query.id === id)?.name ?? id)
+                      .join(', ') || t('library.noQuery')}
+                  </p>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('library.description')}</label>
+                <textarea
+                  value={cahierTemplate.description}
+                  disabled={cahierTemplate.builtIn}
+                  onChange={(e) => setCahierTemplate(prev => ({ ...prev, description: e.target.value }))}
+                  rows={2}
+                  className={`${inputClass} text-sm`}
+                />
+              </div>
+              <div>
+                <p className="block text-sm font-medium text-slate-700 mb-1">{t('library.steps')}</p>
+                <ol className="rounded-xl border border-slate-200 divide-y divide-slate-100 text-sm">
+                  {cahierTemplate.steps.map(step => (
+                    <li
+                      key={step.id}
+                      className={cn('px-4 py-2', step.kind === 'section' ? 'font-bold text-indigo-800 bg-indigo-50/50' : 'text-slate-700')}
+                    >
+                      {step.kind === 'section'
+                        ? `${templateNumbers.get(step.id)}. ${step.title}`
+                        : t('library.step', { number: templateNumbers.get(step.id) ?? '', title: step.title })}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+              <div className="flex justify-between gap-2 pt-2">
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onNewCahier(cahierTemplate)}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-slate-800 hover:bg-slate-900 rounded-xl transition-all"
+                  >
+                    <FilePlus className="w-4 h-4" /> {t('library.newCahier')}
+                  </button>
+                  <button
+                    onClick={() => onInsertSteps(cahierTemplate.steps)}
+                    disabled={!canInsert}
+                    title={canInsert ? undefined : t('library.locked')}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-slate-700 bg-white border border-slate-200 hover:bg-slate-50 rounded-xl transition-all disabled:opacity-50"
+                  >
+                    <ListPlus className="w-4 h-4" /> {t('library.insertSteps')}
+                  </button>
+                </div>
+                <div className="flex gap-2">
+                  {editActions(
+                    !!cahierTemplate.builtIn,
+                    isTemplateNew,
+                    () => duplicateTemplate(cahierTemplate),
+                    handleDeleteTemplate,
+                    handleSaveTemplate
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <datalist id="library-categories">
+          {categories.map(name => <option key={name} value={name} />)}
+        </datalist>
+      </div>
+    </div>
+  );
+}
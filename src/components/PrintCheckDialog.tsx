@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { AlertTriangle, ListChecks, Save, X, XCircle } from 'lucide-react';
+import type { AppData, PrintIssue, PrintRuleSettings } from '../types';
+import { savePrintRuleSettings } from '../api';
+import { PRINT_RULES, ruleScope } from '../printRules';
+import { numberSteps } from '../numbering';
+import { cn } from '../utils';
+import { errorText } from '../i18n';
+import { useTranslation } from '../useTranslation';
+
+// --- Component: rapport des contrôles avant impression et portée des règles par type de cahier ---
+export default function PrintCheckDialog({ data, issues, settings, actionLabel, onSettingsChange, onProceed, onJump, onClose }: {
+  data: AppData;
+  issues: PrintIssue[];
+  settings: PrintRuleSettings;
+  // Action retenue par le rapport (impression, export…) ; absente quand le rapport est ouvert pour consultation
+  actionLabel?: string;
+  onSettingsChange: (settings: PrintRuleSettings) => void;
+  onProceed: () => void;
+  onJump: (issue: PrintIssue) => void;
+  onClose: () => void;
+}) {
+  const { t } = useTranslation();
+  const [isEditingRules, setIsEditingRules] = useState(false);
+  const [draft, setDraft] = useState(settings);
+  const stepNumbers = numberSteps(data.steps);
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+  // Problèmes du cahier d'abord, puis ceux de chaque étape dans l'ordre du document
+  const groups = [
+    { id: 'cahier', title: t('printCheck.cahier'), issues: issues.filter(issue => !issue.stepId) },
+    ...data.steps
+      .map(step => ({
+        id: step.id,
+        title: t('printCheck.step', { number: stepNumbers.get(step.id) ?? '', title: step.title || t('printCheck.untitled') }),
+        issues: issues.filter(issue => issue.stepId === step.id)
+      }))
+  ].filter(group => group.issues.length > 0);
+
+  const toggle = (ruleId: string, type: AppData['type']) => {
+    setDraft(prev => {
+      const scope = ruleScope(prev, ruleId);
+      return { ...prev, [ruleId]: { ...scope, [type]: !scope[type] } };
+    });
+  };
+
+  const saveRules = async () => {
+    try {
+      onSettingsChange(await savePrintRuleSettings(draft));
+      setIsEditingRules(false);
+    } catch (error) {
+      alert(errorText(error, t));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 print:hidden">
+      <div className="bg-white w-full max-w-2xl max-h-[85vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <ListChecks className="w-5 h-5 text-indigo-600" /> {isEditingRules ? t('printCheck.rulesTitle') : t('printCheck.title')}
+          </h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => {
+                setDraft(settings);
+                setIsEditingRules(prev => !prev);
+              }}
+              className="px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              {isEditingRules ? t('printCheck.backToReport') : t('printCheck.rules')}
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {isEditingRules ? (
+          <>
+            <div className="flex-1 overflow-y-auto p-6">
+              <p className="text-xs text-slate-500 mb-4">
+                {t('printCheck.rulesHint')}
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase tracking-wider text-slate-500">
+                    <th className="pb-2">{t('printCheck.rule')}</th>
+                    <th className="pb-2 w-16 text-center">TMD</th>
+                    <th className="pb-2 w-16 text-center">TMA</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {PRINT_RULES.map(rule => (
+                    <tr key={rule.id}>
+                      <td className="py-2 pr-2 text-slate-700">
+                        {t(rule.label)}
+                        <span className={cn('ml-2 text-[10px] font-bold', rule.severity === 'error' ? 'text-red-600' : 'text-amber-600')}>
+                          {rule.severity === 'error' ? t('printCheck.error') : t('printCheck.warning')}
+                        </span>
+                      </td>
+                      {(['TMD', 'TMA'] as const).map(type => (
+                        <td key={type} className="py-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={ruleScope(draft, rule.id)[type]}
+                            onChange={() => toggle(rule.id, type)}
+                            className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="px-6 py-4 border-t border-slate-200 flex justify-end">
+              <button
+                onClick={saveRules}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-all"
+              >
+                <Save className="w-4 h-4" /> {t('printCheck.save')}
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto p-6 space-y-4">
+              {groups.length === 0 && (
+                <p className="text-sm text-emerald-700">{t('printCheck.noIssue', { type: data.type })}</p>
+              )}
+              {groups.map(group => (
+                <div key={group.id}>
+                  <h4 className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-1">{group.title}</h4>
+                  <ul className="space-y-1">
+                    {group.issues.map((issue, index) => (
+                      <li key={index}>
+                        <button
+                          onClick={() => onJump(issue)}
+                          className={cn(
+                            'w-full flex items-center gap-2 px-3 py-2 rounded-lg border text-left text-sm transition-colors',
+                            issue.severity === 'error'
+                              ? 'border-red-200 bg-red-50 text-red-800 hover:bg-red-100'
+                              : 'border-amber-200 bg-amber-50 text-amber-800 hover:bg-amber-100'
+                          )}
+                          title={t('printCheck.jump')}
+                        >
+                          {issue.severity === 'error'
+                            ? <XCircle className="w-4 h-4 shrink-0" />
+                            : <AlertTriangle className="w-4 h-4 shrink-0" />}
+                          {issue.environment && <span className="font-mono text-xs font-semibold">{issue.environment}</span>}
+                          {issue.message}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+            <div className="px-6 py-4 border-t border-slate-200 flex items-center justify-between gap-4">
+              <p className="text-xs text-slate-500">
+                {errorCount > 0
+                  ? t(actionLabel ? 'printCheck.errorsBeforeAction' : 'printCheck.errors', { count: errorCount })
+                  : issues.length > 0 ? t('printCheck.warnings', { count: issues.length }) : ''}
+              </p>
+              {actionLabel && (
+                <button
+                  onClick={onProceed}
+                  disabled={errorCount > 0}
+                  className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-all disabled:opacity-50"
+                >
+                  {issues.length > 0 ? t('printCheck.proceedAnyway', { action: actionLabel }) : actionLabel}
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
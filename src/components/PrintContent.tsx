@@ -0,0 +1,300 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import type { AppData, DocumentSection, DocumentTemplate, Locale, QueryTemplate, StepStatus, TestStep } from '../types';
+import { documentTemplateStyle } from '../documentTemplates';
+import { resolveQueries } from '../sqlTemplates';
+import { numberSteps } from '../numbering';
+import { countStatuses, STEP_STATUS_LABELS } from '../steps';
+import { signatureBlocks } from '../signOff';
+import { allRuns, resultOf } from '../runs';
+import { sanitizeHtml } from '../sanitize';
+import { sectionTitle } from '../documentModel';
+import { formatDate, formatDateTime, translator, type Translate } from '../i18n';
+
+// Entrées du sommaire : parties du document dans l'ordre du modèle, les étapes numérotées sous leur partie
+function tableOfContents(
+  steps: TestStep[], stepNumbers: Map<string, string>, template: DocumentTemplate, idPrefix: string, locale: Locale, t: Translate
+) {
+  return template.sections.flatMap(section => [
+    { id: `${idPrefix}-${section.id}`, level: 0, label: sectionTitle(section, locale) },
+    ...(section.id !== 'steps' ? [] : steps.map(step => {
+      const number = stepNumbers.get(step.id)!;
+      return {
+        id: `${idPrefix}-${step.id}`,
+        level: number.includes('.') ? 2 : 1,
+        label: step.kind === 'section' ? `${number}. ${step.title}` : t('doc.stepTitle', { number, title: step.title })
+      };
+    }))
+  ]);
+}
+
+// --- Sub-component for the actual document content ---
+// `idPrefix` distingue les ancres du sommaire quand le document est rendu deux fois (aperçu et gabarit d'impression)
+export default function PrintContent({ data, templates, template, idPrefix }: {
+  data: AppData;
+  templates: QueryTemplate[];
+  template: DocumentTemplate;
+  idPrefix: string;
+}) {
+  // Le document suit la langue du cahier, pas celle de l'interface
+  const locale = data.documentLanguage;
+  const t = translator(locale);
+  const stepNumbers = numberSteps(data.steps);
+  const runs = allRuns(data);
+  // Le nom de l'environnement ne suffixe les libellés que lorsque le cahier a plusieurs exécutions
+  const suffix = (environment: string) => (runs.length > 1 ? ` — ${environment}` : '');
+  const statuses = Object.keys(STEP_STATUS_LABELS) as StepStatus[];
+  const coverFields = template.coverFields.filter(field => data.coverInfo[field]);
+
+  const parts: Record<DocumentSection, React.ReactNode> = {
+    details: (
+      <>
+        {data.showSqlQuery && resolveQueries(data, templates).map(({ index, template: query, sql }) => (
+          <div key={`${query.id}-${index}`} className="mb-8">
+            <p className="font-semibold mb-2">{t('doc.query', { name: query.name })}</p>
+            <div className="sql-block">{sql}</div>
+          </div>
+        ))}
+
+        {runs.filter(run => run.captures.length > 0).map(run => (
+          <div key={run.environment} className="mb-8">
+            <p className="font-semibold mb-2">
+              {runs.length > 1 ? t('doc.capturesOf', { environment: run.environment }) : t('doc.captures')}
+            </p>
+            {run.captures.map(capture => (
+              <figure key={capture.id} className="mb-4" style={{ pageBreakInside: 'avoid' }}>
+                <img src={capture.image} alt={capture.caption} className="pdf-image-main" />
+                {capture.caption && <figcaption className="pdf-caption">{capture.caption}</figcaption>}
+              </figure>
+            ))}
+          </div>
+        ))}
+
+        <div className="mb-8">
+          <h3 className="text-lg font-bold mb-2">{t('doc.environmentPart')}</h3>
+          <table className="step-results">
+            <tbody>
+              <tr>
+                <th>{t('doc.step')}</th>
+                {runs.map(run => (
+                  <th key={run.environment} className="font-mono">
+                    {run.environment} ({formatDate(run.date, locale)})
+                  </th>
+                ))}
+              </tr>
+              {data.steps.filter(step => step.kind === 'step').map(step => (
+                <tr key={step.id}>
+                  <td>{stepNumbers.get(step.id)}. {step.title}</td>
+                  {runs.map(run => {
+                    const { status } = resultOf(run, step.id);
+                    return <td key={run.environment} className={`step-status-${status.toLowerCase()}`}>{t(`status.${status}`)}</td>;
+                  })}
+                </tr>
+              ))}
+              <tr>
+                <th>{t('doc.conclusion')}</th>
+                {runs.map(run => (
+                  <td key={run.environment} className={run.conclusion === 'OK' ? 'step-status-ok' : 'step-status-ko'}>{run.conclusion}</td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </>
+    ),
+    steps: data.steps.map(step => step.kind === 'section' ? (
+      <h3 key={step.id} id={`${idPrefix}-${step.id}`} className="section-title">
+        {stepNumbers.get(step.id)}. {step.title}
+      </h3>
+    ) : (
+      <div key={step.id} id={`${idPrefix}-${step.id}`} className="mb-8" style={{ pageBreakInside: 'avoid' }}>
+        <div className="step-title">
+          {t('doc.stepTitle', { number: stepNumbers.get(step.id)!, title: step.title })}
+        </div>
+        <div 
+          className="ql-editor" 
+          style={{ padding: 0, minHeight: 'auto' }}
+          dangerouslySetInnerHTML={{ __html: sanitizeHtml(step.content) }} 
+        />
+        <table className="step-results">
+          <tbody>
+            <tr>
+              <th>{t('doc.expectedResult')}</th>
+              <td>{step.expectedResult}</td>
+            </tr>
+            {runs.map(run => {
+              const { status, actualResult, anomalyRef } = resultOf(run, step.id);
+              return (
+                <React.Fragment key={run.environment}>
+                  <tr>
+                    <th>{t('doc.actualResult')}{suffix(run.environment)}</th>
+                    <td>{actualResult}</td>
+                  </tr>
+                  <tr>
+                    <th>{t('doc.status')}{suffix(run.environment)}</th>
+                    <td className={`step-status-${status.toLowerCase()}`}>
+                      {t(`status.${status}`)}
+                      {anomalyRef && ` — ${t('doc.anomaly', { ref: anomalyRef })}`}
+                    </td>
+                  </tr>
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    )),
+    conclusion: (
+      <>
+        <table className="step-results">
+          <tbody>
+            <tr>
+              {runs.length > 1 && <th>{t('doc.environment')}</th>}
+              {statuses.map(status => (
+                <th key={status}>{t(`status.${status}`)}</th>
+              ))}
+            </tr>
+            {runs.map(run => {
+              const counts = countStatuses(data.steps.map(step => ({ ...step, ...resultOf(run, step.id) })));
+              return (
+                <tr key={run.environment}>
+                  {runs.length > 1 && <td className="font-mono">{run.environment}</td>}
+                  {statuses.map(status => (
+                    <td key={status} className="text-center">{counts[status]}</td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <div className={data.conclusion === 'OK' ? 'conclusion-ok' : 'conclusion-ko'}>
+          {t('doc.goodForProd', { conclusion: data.conclusion })}
+        </div>
+        {data.conclusionText.trim() && <p className="pdf-conclusion-text">{data.conclusionText.trim()}</p>}
+        <table className="pdf-signatures">
+          <tbody>
+            <tr>
+              {signatureBlocks(data.signOff).map(({ role }) => <th key={role}>{t(`signature.${role}`)}</th>)}
+            </tr>
+            <tr>
+              {signatureBlocks(data.signOff).map(({ role, signature }) => (
+                <td key={role}>
+                  {signature && (
+                    <>
+                      <div className="font-semibold">{signature.name}</div>
+                      <div>{t('doc.signedAt', { date: formatDateTime(signature.signedAt, locale) })}</div>
+                      {signature.comment && <div className="italic">{signature.comment}</div>}
+                      {signature.image && <img src={signature.image} alt={t('signature.alt', { name: signature.name })} />}
+                    </>
+                  )}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+        <p className="pdf-workflow-status">{t('doc.workflowStatus', { status: t(`workflow.${data.signOff.status}`) })}</p>
+      </>
+    )
+  };
+
+  return (
+    <div style={documentTemplateStyle(template)}>
+      {/* Page 1: Page de Garde */}
+      <div className="pdf-page">
+        <div className="pdf-header-band">
+          <div className="pdf-header-left">
+            {data.jiraNumber || 'JIRA-XXX'}
+          </div>
+          <div className="pdf-header-right">
+            {data.jiraName || t('doc.jiraNamePlaceholder')}
+          </div>
+        </div>
+        
+        <div className="pdf-sub-header">
+          [{data.type}] - [{formatDate(data.date, locale)}]
+        </div>
+
+        <div className="flex flex-col items-center justify-center" style={{ height: '200mm' }}>
+          <img 
+            src={template.logo} 
+            alt="Logo" 
+            className="w-[576px] h-[576px] object-contain"
+            onError={(e) => {
+              // Fallback visuel si l'image n'est pas trouvée
+              e.currentTarget.src = 'data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" width="100" height="100" viewBox="0 0 24 24" fill="none" stroke="%234f46e5" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14.5 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7.5L14.5 2z"/><polyline points="14 2 14 8 20 8"/><line x1="16" y1="13" x2="8" y2="13"/><line x1="16" y1="17" x2="8" y2="17"/><line x1="10" y1="9" x2="8" y2="9"/></svg>';
+            }}
+          />
+          <p className="mt-8 text-2xl font-bold text-slate-400 uppercase tracking-widest">{template.coverLabel}</p>
+          {coverFields.length > 0 && (
+            <table className="pdf-cover-fields">
+              <tbody>
+                {coverFields.map(field => (
+                  <tr key={field}>
+                    <th>{t(`cover.${field}`)}</th>
+                    <td>{data.coverInfo[field]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {/* Page 2: Sommaire (numéros de page renseignés à la génération du PDF, masqués sinon) */}
+      <div className="pdf-toc">
+        <h2 className="pdf-part-title">{t('doc.toc')}</h2>
+        <ol>
+          {tableOfContents(data.steps, stepNumbers, template, idPrefix, locale, t).map(entry => (
+            <li key={entry.id} className={`toc-level-${entry.level}`}>
+              <a href={`#${entry.id}`}>
+                <span className="toc-label">{entry.label}</span>
+                <span className="toc-dots" />
+                <span className="toc-page" />
+              </a>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {/* Page 3 and following */}
+      <table className="w-full">
+        <thead>
+          <tr>
+            <td>
+              <div className="pdf-spacer" style={{ height: '15mm' }}></div>
+            </td>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td>
+              <div className="pdf-content">
+                {template.sections.map(section => (
+                  <div
+                    key={section.id}
+                    className="mb-10"
+                    style={section.id === 'conclusion' ? { pageBreakInside: 'avoid' } : undefined}
+                  >
+                    <h2 id={`${idPrefix}-${section.id}`} className="pdf-part-title">{sectionTitle(section, locale)}</h2>
+                    {parts[section.id]}
+                  </div>
+                ))}
+              </div>
+            </td>
+          </tr>
+        </tbody>
+        <tfoot>
+          <tr>
+            <td>
+              <div className="pdf-spacer" style={{ height: '15mm' }}></div>
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Save, Settings, X } from 'lucide-react';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings, type AppSettings } from '../settings';
+import { LOCALES } from '../i18n';
+import { useTranslation } from '../useTranslation';
+import type { Locale } from '../types';
+
+const inputClass = 'w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all';
+
+// --- Component: préférences de l'application ---
+export default function SettingsDialog({ onClose }: { onClose: () => void }) {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+
+  const setImage = (key: keyof AppSettings['image'], value: number) => {
+    setSettings(prev => ({ ...prev, image: { ...prev.image, [key]: value } }));
+  };
+
+  const handleSave = () => {
+    saveSettings(settings);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 print:hidden">
+      <div className="bg-white w-full max-w-lg max-h-[85vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Settings className="w-5 h-5 text-indigo-600" /> {t('settings.title')}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <section className="space-y-4">
+            <h4 className="text-sm font-semibold uppercase tracking-wider text-slate-500">{t('settings.interface')}</h4>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">{t('settings.language')}</label>
+              <select
+                value={settings.language}
+                onChange={(e) => setSettings(prev => ({ ...prev, language: e.target.value as Locale }))}
+                className={`${inputClass} bg-white`}
+              >
+                {LOCALES.map(locale => (
+                  <option key={locale} value={locale}>{t(`language.${locale}`)}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-slate-500">{t('settings.languageHint')}</p>
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h4 className="text-sm font-semibold uppercase tracking-wider text-slate-500">{t('settings.document')}</h4>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">{t('settings.author')}</label>
+              <input
+                type="text"
+                value={settings.author}
+                onChange={(e) => setSettings(prev => ({ ...prev, author: e.target.value }))}
+                placeholder={t('settings.authorPlaceholder')}
+                className={inputClass}
+              />
+              <p className="mt-1 text-xs text-slate-500">{t('settings.authorHint')}</p>
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h4 className="text-sm font-semibold uppercase tracking-wider text-slate-500">{t('settings.images')}</h4>
+            <p className="text-xs text-slate-500">{t('settings.imagesHint')}</p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('settings.maxFileSize')}</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.image.maxFileSizeMb}
+                  onChange={(e) => setImage('maxFileSizeMb', Number(e.target.value))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('settings.maxDimension')}</label>
+                <input
+                  type="number"
+                  min={200}
+                  step={100}
+                  value={settings.image.maxDimension}
+                  onChange={(e) => setImage('maxDimension', Number(e.target.value))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  {t('settings.quality', { percent: Math.round(settings.image.quality * 100) })}
+                </label>
+                <input
+                  type="range"
+                  min={0.3}
+                  max={1}
+                  step={0.05}
+                  value={settings.image.quality}
+                  onChange={(e) => setImage('quality', Number(e.target.value))}
+                  className="w-full accent-indigo-600"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('settings.reencodeAbove')}</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={settings.image.reencodeAboveKb}
+                  onChange={(e) => setImage('reencodeAboveKb', Number(e.target.value))}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </section>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex justify-between">
+          <button
+            onClick={() => setSettings(DEFAULT_SETTINGS)}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            {t('settings.reset')}
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-all"
+          >
+            <Save className="w-4 h-4" /> {t('settings.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
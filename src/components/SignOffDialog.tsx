@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Eraser, PenLine, X } from 'lucide-react';
+import type { Signature } from '../types';
+import { loadSettings } from '../settings';
+import { useTranslation } from '../useTranslation';
+
+const inputClass = 'w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all';
+
+const PAD_WIDTH = 400;
+const PAD_HEIGHT = 150;
+
+// --- Component: zone de signature manuscrite (souris, stylet ou doigt), restituée en PNG ---
+function SignaturePad({ onChange }: { onChange: (image: string) => void }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  useEffect(() => {
+    const context = canvasRef.current!.getContext('2d')!;
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#1e293b';
+  }, []);
+
+  // Coordonnées dans le repère du canvas, quelle que soit sa taille à l'écran
+  const pointOf = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (PAD_WIDTH / rect.width),
+      y: (e.clientY - rect.top) * (PAD_HEIGHT / rect.height)
+    };
+  };
+
+  const start = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const context = e.currentTarget.getContext('2d')!;
+    const { x, y } = pointOf(e);
+    context.beginPath();
+    context.moveTo(x, y);
+    // Un simple clic laisse un point
+    context.lineTo(x + 0.1, y + 0.1);
+    context.stroke();
+  };
+
+  const move = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = e.currentTarget.getContext('2d')!;
+    const { x, y } = pointOf(e);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const end = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    onChange(e.currentTarget.toDataURL('image/png'));
+  };
+
+  const { t } = useTranslation();
+
+  const clear = () => {
+    const canvas = canvasRef.current!;
+    canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    onChange('');
+  };
+
+  return (
+    <div className="relative">
+      <canvas
+        ref={canvasRef}
+        width={PAD_WIDTH}
+        height={PAD_HEIGHT}
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={end}
+        onPointerCancel={end}
+        className="w-full bg-slate-50 rounded-xl border border-dashed border-slate-300 cursor-crosshair touch-none"
+      />
+      <button
+        type="button"
+        onClick={clear}
+        className="absolute top-2 right-2 flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-slate-500 bg-white border border-slate-200 rounded-lg hover:text-slate-700"
+      >
+        <Eraser className="w-3 h-3" /> {t('signature.clear')}
+      </button>
+    </div>
+  );
+}
+
+// --- Component: signature d'une étape du circuit de validation (soumission, validation, refus) ---
+export default function SignOffDialog({ title, actionLabel, requireComment = false, onConfirm, onClose }: {
+  title: string;
+  actionLabel: string;
+  // Un refus doit être motivé
+  requireComment?: boolean;
+  onConfirm: (signature: Signature) => void;
+  onClose: () => void;
+}) {
+  const { t } = useTranslation();
+  const [name, setName] = useState(() => loadSettings().author);
+  const [comment, setComment] = useState('');
+  const [image, setImage] = useState('');
+
+  const missing = [
+    !name.trim() && t('signature.missingName'),
+    !image && t('signature.missingSignature'),
+    requireComment && !comment.trim() && t('signature.missingComment')
+  ].filter(Boolean);
+
+  const handleConfirm = () => {
+    onConfirm({ name: name.trim(), signedAt: new Date().toISOString(), comment: comment.trim(), image });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 print:hidden">
+      <div className="bg-white w-full max-w-lg rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <PenLine className="w-5 h-5 text-indigo-600" /> {title}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">{t('signature.name')}</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('signature.namePlaceholder')}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              {t(requireComment ? 'signature.comment' : 'signature.optionalComment')}
+            </label>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+              className={`${inputClass} text-sm`}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">{t('signature.signature')}</label>
+            <SignaturePad onChange={setImage} />
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex items-center justify-between gap-4">
+          <p className="text-xs text-slate-500">
+            {missing.length > 0 && t('signature.missing', { fields: missing.join(', ') })}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              {t('signature.cancel')}
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={missing.length > 0}
+              className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-all disabled:opacity-50"
+            >
+              {actionLabel}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
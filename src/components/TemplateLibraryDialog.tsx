@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { CopyPlus, Database, Lock, Plus, Save, Trash2, X } from 'lucide-react';
+import { deleteQueryTemplate, saveQueryTemplate } from '../api';
+import { BUILT_IN_TEMPLATES, PLACEHOLDERS, renderSqlQuery } from '../sqlTemplates';
+import type { AppData, QueryTemplate } from '../types';
+import { cn } from '../utils';
+import { errorText } from '../i18n';
+import { useTranslation } from '../useTranslation';
+
+// --- Component: bibliothèque des modèles de requêtes SQL ---
+export default function TemplateLibraryDialog({ data, userTemplates, onChange, onClose }: {
+  data: AppData;
+  userTemplates: QueryTemplate[];
+  onChange: (templates: QueryTemplate[]) => void;
+  onClose: () => void;
+}) {
+  const { t } = useTranslation();
+  const templates = [...BUILT_IN_TEMPLATES, ...userTemplates];
+  const [selectedId, setSelectedId] = useState(templates[0].id);
+  const [draft, setDraft] = useState<QueryTemplate>(templates[0]);
+
+  const select = (template: QueryTemplate) => {
+    setSelectedId(template.id);
+    setDraft(template);
+  };
+
+  const createTemplate = (from?: QueryTemplate) => {
+    const template: QueryTemplate = {
+      id: crypto.randomUUID(),
+      name: from ? t('sqlTemplate.copy', { name: from.name }) : t('sqlTemplate.new'),
+      sql: from?.sql ?? "select * from  where  like '%{jiraDigits}J%';"
+    };
+    setSelectedId(template.id);
+    setDraft(template);
+  };
+
+  const handleSave = async () => {
+    try {
+      const saved = await saveQueryTemplate(draft);
+      const exists = userTemplates.some(template => template.id === saved.id);
+      onChange(exists
+        ? userTemplates.map(template => (template.id === saved.id ? saved : template))
+        : [...userTemplates, saved]);
+      setDraft(saved);
+    } catch (error) {
+      alert(errorText(error, t));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(t('sqlTemplate.deleteConfirm', { name: draft.name }))) return;
+    try {
+      await deleteQueryTemplate(draft.id);
+      onChange(userTemplates.filter(template => template.id !== draft.id));
+      select(BUILT_IN_TEMPLATES[0]);
+    } catch (error) {
+      alert(errorText(error, t));
+    }
+  };
+
+  const isNew = !templates.some(template => template.id === draft.id);
+  const isBuiltIn = !!draft.builtIn;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 print:hidden">
+      <div className="bg-white w-full max-w-5xl h-[80vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Database className="w-5 h-5 text-indigo-600" /> {t('sqlTemplate.title')}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 grid grid-cols-3 overflow-hidden">
+          <div className="border-r border-slate-200 overflow-y-auto p-4 space-y-1">
+            <button
+              onClick={() => createTemplate()}
+              className="w-full flex items-center gap-2 px-3 py-2 mb-2 text-sm font-semibold text-white bg-slate-800 hover:bg-slate-900 rounded-xl transition-all"
+            >
+              <Plus className="w-4 h-4" /> {t('sqlTemplate.new')}
+            </button>
+            {templates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => select(template)}
+                className={cn(
+                  'w-full flex items-center justify-between gap-2 px-3 py-2 text-left text-sm rounded-lg transition-colors',
+                  template.id === selectedId ? 'bg-indigo-50 text-indigo-700 font-semibold' : 'text-slate-600 hover:bg-slate-50'
+                )}
+              >
+                <span className="truncate">{template.name}</span>
+                {template.builtIn && <Lock className="w-3.5 h-3.5 shrink-0 text-slate-400" />}
+              </button>
+            ))}
+          </div>
+
+          <div className="col-span-2 overflow-y-auto p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">{t('sqlTemplate.name')}</label>
+              <input
+                type="text"
+                value={draft.name}
+                disabled={isBuiltIn}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all disabled:bg-slate-50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">{t('sqlTemplate.query')}</label>
+              <textarea
+                value={draft.sql}
+                disabled={isBuiltIn}
+                onChange={(e) => setDraft(prev => ({ ...prev, sql: e.target.value }))}
+                rows={6}
+                className="w-full px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all font-mono text-xs disabled:bg-slate-50"
+              />
+            </div>
+            <div className="text-xs text-slate-500 space-y-1">
+              <p className="font-semibold uppercase tracking-wider">{t('sqlTemplate.placeholders')}</p>
+              {PLACEHOLDERS.map(name => (
+                <p key={name}>
+                  <code className="font-mono text-indigo-700">{`{${name}}`}</code> — {t(`sqlTemplate.placeholder.${name}`)}
+                </p>
+              ))}
+            </div>
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-1">{t('sqlTemplate.preview')}</p>
+              <div className="w-full bg-slate-900 text-indigo-300 p-3 rounded-xl font-mono text-xs break-all border border-slate-800">
+                {renderSqlQuery(draft, data)}
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+              {isBuiltIn ? (
+                <button
+                  onClick={() => createTemplate(draft)}
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-slate-700 bg-white border border-slate-200 hover:bg-slate-50 rounded-xl transition-all"
+                >
+                  <CopyPlus className="w-4 h-4" /> {t('sqlTemplate.duplicate')}
+                </button>
+              ) : (
+                <>
+                  {!isNew && (
+                    <button
+                      onClick={handleDelete}
+                      className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-xl transition-all"
+                    >
+                      <Trash2 className="w-4 h-4" /> {t('sqlTemplate.delete')}
+                    </button>
+                  )}
+                  <button
+                    onClick={handleSave}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-xl transition-all"
+                  >
+                    <Save className="w-4 h-4" /> {t('sqlTemplate.save')}
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+import { useTranslation } from '../useTranslation';
+
+const TOAST_DURATION = 6000;
+
+// --- Component: notification, proposant d'annuler l'action destructive qui l'a déclenchée le cas échéant ---
+export default function UndoToast({ message, onUndo, onDismiss }: {
+  message: string;
+  onUndo?: () => void;
+  onDismiss: () => void;
+}) {
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-slate-900 text-white pl-5 pr-2 py-2 rounded-xl shadow-2xl print:hidden">
+      <span className="text-sm">{message}</span>
+      {onUndo && (
+        <button
+          onClick={onUndo}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-semibold text-indigo-300 hover:text-white hover:bg-slate-800 rounded-lg transition-all"
+        >
+          <Undo2 className="w-4 h-4" /> {t('toast.undo')}
+        </button>
+      )}
+      <button onClick={onDismiss} className="p-1.5 text-slate-400 hover:text-white rounded-lg transition-all">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Archive, ArchiveRestore, Copy, FilePlus, FolderOpen, Search, Trash2, X, FileText } from 'lucide-react';
+import { createCahier, deleteCahier, getCahier, listCahiers, setCahierArchived } from '../api';
+import type { AppData, CahierFilters, CahierSummary } from '../types';
+import { cn } from '../utils';
+import { DRAFT_SIGN_OFF, WORKFLOW_CLASSES } from '../signOff';
+import { rekeyRuns } from '../runs';
+import { errorText, formatDate } from '../i18n';
+import { useTranslation } from '../useTranslation';
+
+const inputClass = 'w-full px-3 py-1.5 text-sm rounded-lg border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none bg-white';
+
+// --- Component: espace de travail listant tous les cahiers enregistrés ---
+export default function WorkspaceSidebar({ currentJira, refreshKey, onOpen, onNew, onClose }: {
+  currentJira: string;
+  refreshKey: number;
+  onOpen: (jiraNumber: string) => void;
+  onNew: () => void;
+  onClose: () => void;
+}) {
+  const { locale, t } = useTranslation();
+  const [cahiers, setCahiers] = useState<CahierSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<CahierFilters>({});
+  const [reload, setReload] = useState(0);
+
+  useEffect(() => {
+    // Petit délai pour ne pas interroger le serveur à chaque frappe dans la recherche
+    const timer = setTimeout(() => {
+      listCahiers(filters)
+        .then(list => {
+          setCahiers(list);
+          setError(null);
+        })
+        .catch((err: Error) => setError(err.message));
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [filters, refreshKey, reload]);
+
+  const setFilter = <K extends keyof CahierFilters>(key: K, value: CahierFilters[K] | '') => {
+    setFilters(prev => ({ ...prev, [key]: value === '' ? undefined : value }));
+  };
+
+  const handleDuplicate = async (jiraNumber: string) => {
+    const target = prompt(t('workspace.copyPrompt'), t('workspace.copySuffix', { jira: jiraNumber }))?.trim();
+    if (!target) return;
+    try {
+      const source = await getCahier(jiraNumber);
+      const ids = new Map(source.steps.map(step => [step.id, crypto.randomUUID()]));
+      const copy: AppData = {
+        ...source,
+        jiraNumber: target,
+        steps: source.steps.map(step => ({ ...step, id: ids.get(step.id)! })),
+        runs: rekeyRuns(source.runs, ids),
+        // Les signatures portent sur l'original : la copie repart en brouillon
+        signOff: DRAFT_SIGN_OFF
+      };
+      await createCahier(copy);
+      setReload(n => n + 1);
+      onOpen(target);
+    } catch (err) {
+      alert(errorText(err, t));
+    }
+  };
+
+  const handleArchive = async (cahier: CahierSummary) => {
+    try {
+      await setCahierArchived(cahier.jiraNumber, !cahier.archived);
+      setReload(n => n + 1);
+    } catch (err) {
+      alert(errorText(err, t));
+    }
+  };
+
+  const handleDelete = async (jiraNumber: string) => {
+    if (!confirm(t('workspace.deleteConfirm', { jira: jiraNumber }))) return;
+    try {
+      await deleteCahier(jiraNumber);
+      setReload(n => n + 1);
+    } catch (err) {
+      alert(errorText(err, t));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex print:hidden">
+      <aside className="w-full max-w-md h-full bg-white shadow-2xl flex flex-col">
+        <div className="px-5 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <FolderOpen className="w-5 h-5 text-indigo-600" /> {t('workspace.title')}
+          </h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onNew}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-all"
+            >
+              <FilePlus className="w-4 h-4" /> {t('workspace.new')}
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-5 py-4 border-b border-slate-100 space-y-3 bg-slate-50">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input
+              type="search"
+              value={filters.q ?? ''}
+              onChange={(e) => setFilter('q', e.target.value)}
+              placeholder={t('workspace.search')}
+              className={cn(inputClass, 'pl-9')}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={filters.type ?? ''}
+              onChange={(e) => setFilter('type', e.target.value as CahierFilters['type'])}
+              className={inputClass}
+            >
+              <option value="">{t('workspace.allTypes')}</option>
+              <option value="TMD">TMD</option>
+              <option value="TMA">TMA</option>
+            </select>
+            <select
+              value={filters.conclusion ?? ''}
+              onChange={(e) => setFilter('conclusion', e.target.value as CahierFilters['conclusion'])}
+              className={inputClass}
+            >
+              <option value="">{t('workspace.allConclusions')}</option>
+              <option value="OK">OK</option>
+              <option value="KO">KO</option>
+            </select>
+            <input
+              type="date"
+              value={filters.from ?? ''}
+              onChange={(e) => setFilter('from', e.target.value)}
+              title={t('workspace.from')}
+              className={inputClass}
+            />
+            <input
+              type="date"
+              value={filters.to ?? ''}
+              onChange={(e) => setFilter('to', e.target.value)}
+              title={t('workspace.to')}
+              className={inputClass}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-xs font-medium text-slate-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!filters.archived}
+              onChange={(e) => setFilter('archived', e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            {t('workspace.showArchived')}
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {error && <p className="text-sm text-red-600 p-4">{error}</p>}
+          {!error && !cahiers && <p className="text-sm text-slate-500 p-4">{t('workspace.loading')}</p>}
+          {cahiers?.length === 0 && (
+            <div className="text-center py-12">
+              <FileText className="mx-auto h-12 w-12 text-slate-300 mb-4" />
+              <p className="text-slate-500 font-medium">{t('workspace.empty')}</p>
+            </div>
+          )}
+          <ul className="space-y-2">
+            {cahiers?.map(cahier => (
+              <li
+                key={cahier.jiraNumber}
+                className={cn(
+                  'group px-4 py-3 rounded-xl border transition-colors',
+                  cahier.jiraNumber === currentJira
+                    ? 'border-indigo-300 bg-indigo-50'
+                    : 'border-slate-200 hover:bg-slate-50'
+                )}
+              >
+                <button onClick={() => onOpen(cahier.jiraNumber)} className="w-full text-left">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold text-slate-800">{cahier.jiraNumber}</span>
+                    <span className="flex items-center gap-1">
+                      <span className={cn('text-[10px] font-bold px-2 py-0.5 rounded-full', WORKFLOW_CLASSES[cahier.workflowStatus])}>
+                        {t(`workflow.${cahier.workflowStatus}`)}
+                      </span>
+                      <span
+                        className={cn(
+                          'text-[10px] font-bold px-2 py-0.5 rounded-full',
+                          cahier.conclusion === 'OK' ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'
+                        )}
+                      >
+                        {cahier.conclusion}
+                      </span>
+                    </span>
+                  </div>
+                  <div className="text-sm text-slate-600 truncate">{cahier.jiraName || t('workspace.untitled')}</div>
+                  <div className="text-xs text-slate-400">
+                    {cahier.type} · {cahier.environment} · {formatDate(cahier.date, locale)}
+                  </div>
+                </button>
+                <div className="flex items-center justify-end gap-1 mt-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => handleDuplicate(cahier.jiraNumber)}
+                    className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all"
+                    title={t('workspace.duplicate')}
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleArchive(cahier)}
+                    className="p-1.5 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-all"
+                    title={cahier.archived ? t('workspace.unarchive') : t('workspace.archive')}
+                  >
+                    {cahier.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(cahier.jiraNumber)}
+                    className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                    title={t('workspace.delete')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </aside>
+      <div className="flex-1 bg-black/40 backdrop-blur-sm" onClick={onClose} />
+    </div>
+  );
+}
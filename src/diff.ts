@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AppData, CoverInfo, TestStep } from './types';
+import { COVER_FIELD_LABELS } from './documentTemplates';
+import type { MessageKey, Translate } from './i18n';
+
+export interface Change {
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+const FIELD_LABELS: Partial<Record<keyof AppData, MessageKey>> = {
+  jiraNumber: 'jira.number',
+  jiraName: 'jira.name',
+  type: 'jira.type',
+  date: 'jira.date',
+  environment: 'doc.environment',
+  conclusion: 'config.conclusion',
+  conclusionText: 'diff.conclusionText',
+  showSqlQuery: 'diff.showSqlQuery',
+  documentTemplateId: 'diff.documentTemplate',
+  documentLanguage: 'presentation.language'
+};
+
+const STEP_FIELD_LABELS: Partial<Record<keyof TestStep, MessageKey>> = {
+  expectedResult: 'steps.expectedResult',
+  actualResult: 'steps.actualResult',
+  status: 'steps.status',
+  anomalyRef: 'diff.anomaly'
+};
+
+// Texte brut d'un contenu Quill, pour un aperçu lisible des différences
+export function htmlToText(html: string) {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+const excerpt = (text: string) => (text.length > 120 ? `${text.slice(0, 117)}…` : text);
+
+// Liste les différences entre deux états d'un cahier, de `before` vers `after`, libellées dans la langue de `t`.
+export function diffCahiers(before: AppData, after: AppData, t: Translate): Change[] {
+  const changes: Change[] = [];
+
+  for (const [key, label] of Object.entries(FIELD_LABELS) as [keyof AppData, MessageKey][]) {
+    if (before[key] !== after[key]) {
+      changes.push({ label: t(label), before: String(before[key]), after: String(after[key]) });
+    }
+  }
+
+  const captureSummary = (data: AppData) =>
+    data.captures.map(capture => capture.caption || t('diff.noCaption')).join(', ') || t('diff.noCapture');
+  if (JSON.stringify(before.captures) !== JSON.stringify(after.captures)) {
+    changes.push({ label: t('diff.captures'), before: captureSummary(before), after: captureSummary(after) });
+  }
+
+  for (const key of Object.keys(COVER_FIELD_LABELS) as (keyof CoverInfo)[]) {
+    if (before.coverInfo[key] !== after.coverInfo[key]) {
+      changes.push({ label: t('diff.coverField', { label: t(`cover.${key}`) }), before: before.coverInfo[key], after: after.coverInfo[key] });
+    }
+  }
+
+  if (before.signOff.status !== after.signOff.status) {
+    changes.push({
+      label: t('diff.workflow'),
+      before: t(`workflow.${before.signOff.status}`),
+      after: t(`workflow.${after.signOff.status}`)
+    });
+  }
+
+  if (before.sqlQueries.join() !== after.sqlQueries.join()) {
+    changes.push({ label: t('diff.queries'), before: before.sqlQueries.join(', '), after: after.sqlQueries.join(', ') });
+  }
+
+  const beforeSteps = new Map<string, TestStep>(before.steps.map(step => [step.id, step]));
+  const afterIds = new Set(after.steps.map(step => step.id));
+
+  before.steps.forEach(step => {
+    if (!afterIds.has(step.id)) changes.push({ label: t('diff.stepRemoved', { title: step.title }) });
+  });
+
+  after.steps.forEach((step, index) => {
+    const previous = beforeSteps.get(step.id);
+    if (!previous) {
+      changes.push({ label: t('diff.stepAdded', { title: step.title }) });
+      return;
+    }
+    if (previous.title !== step.title) {
+      changes.push({ label: t('diff.stepTitle', { number: index + 1 }), before: previous.title, after: step.title });
+    }
+    for (const [key, label] of Object.entries(STEP_FIELD_LABELS) as [keyof TestStep, MessageKey][]) {
+      if (previous[key] !== step[key]) {
+        changes.push({ label: t('diff.stepField', { label: t(label), number: index + 1 }), before: String(previous[key]), after: String(step[key]) });
+      }
+    }
+    if (previous.content !== step.content) {
+      changes.push({
+        label: t('diff.stepContent', { number: index + 1, title: step.title }),
+        before: excerpt(htmlToText(previous.content)),
+        after: excerpt(htmlToText(step.content))
+      });
+    }
+  });
+
+  const commonBefore = before.steps.filter(step => afterIds.has(step.id)).map(step => step.id);
+  const commonAfter = after.steps.filter(step => beforeSteps.has(step.id)).map(step => step.id);
+  if (commonBefore.join() !== commonAfter.join()) {
+    changes.push({ label: t('diff.stepOrder') });
+  }
+
+  return changes;
+}
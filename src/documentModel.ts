@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AppData, Capture, DocumentSection, DocumentTemplate, Locale, QueryTemplate, Signature, StepStatus } from './types';
+import { numberSteps } from './numbering';
+import { parseRichText, type Block } from './richText';
+import { signatureBlocks } from './signOff';
+import { resolveQueries } from './sqlTemplates';
+import { countStatuses, STEP_STATUS_LABELS } from './steps';
+import { allRuns, resultOf } from './runs';
+import { sanitizeHtml } from './sanitize';
+import { formatDate, formatDateTime, translator, type Translate } from './i18n';
+
+// Contenu du document imprimé, indépendant du format de sortie (DOCX, Markdown).
+// Reprend ce qu'affiche PrintContent, dans l'ordre des parties du modèle de document.
+export interface DocumentModel {
+  // Langue du document : libellés déjà traduits ici, `t` pour ceux que les exports composent eux-mêmes
+  locale: Locale;
+  t: Translate;
+  jiraNumber: string;
+  jiraName: string;
+  // Sous-titre de la page de garde : [TYPE] - [date]
+  subtitle: string;
+  template: DocumentTemplate;
+  coverFields: { label: string; value: string }[];
+  sections: { id: DocumentSection; title: string }[];
+  queries: { name: string; sql: string }[];
+  // Exécutions dans l'ordre chronologique ; une seule pour un cahier passé sur un seul environnement
+  runs: { environment: string; date: string; conclusion: AppData['conclusion']; captures: Capture[] }[];
+  // Statut de chaque étape sur chaque exécution, dans l'ordre de `runs`
+  matrix: { number: string; title: string; statuses: string[] }[];
+  steps: DocumentStep[];
+  statusLabels: string[];
+  // Décompte des statuts par exécution, dans l'ordre de `statusLabels`
+  statusCounts: { environment: string; counts: number[] }[];
+  conclusion: AppData['conclusion'];
+  conclusionText: string;
+  workflowStatus: string;
+  // Cartouche de signatures, date déjà formatée ; null pour une case à signer à la main
+  signatures: { label: string; signature: Signature | null }[];
+}
+
+export type DocumentStep =
+  | { kind: 'section'; number: string; title: string }
+  | {
+    kind: 'step';
+    number: string;
+    title: string;
+    content: Block[];
+    expectedResult: string;
+    // Une entrée par exécution
+    results: { environment: string; actualResult: string; status: string }[];
+  };
+
+// Titre d'une partie dans la langue du document ; en anglais, libellé par défaut quand le modèle n'en donne pas
+export const sectionTitle = (section: DocumentTemplate['sections'][number], locale: Locale) =>
+  locale === 'fr' ? section.title : section.titleEn?.trim() || translator(locale)(`section.${section.id}`);
+
+export const statusText = (t: Translate, status: StepStatus, anomalyRef: string) =>
+  t(`status.${status}`) + (anomalyRef ? ` — ${t('doc.anomaly', { ref: anomalyRef })}` : '');
+
+// Lignes « Résultat obtenu / Statut » d'une étape, suffixées de l'environnement quand il y a plusieurs exécutions
+export const resultRows = (
+  t: Translate,
+  results: { environment: string; actualResult: string; status: string }[]
+): [string, string][] =>
+  results.flatMap(({ environment, actualResult, status }) => {
+    const suffix = results.length > 1 ? ` — ${environment}` : '';
+    return [[`${t('doc.actualResult')}${suffix}`, actualResult], [`${t('doc.status')}${suffix}`, status]] as [string, string][];
+  });
+
+export function buildDocumentModel(data: AppData, queryTemplates: QueryTemplate[], template: DocumentTemplate): DocumentModel {
+  const locale = data.documentLanguage;
+  const t = translator(locale);
+  const numbers = numberSteps(data.steps);
+  const runs = allRuns(data);
+  const statuses = Object.keys(STEP_STATUS_LABELS) as StepStatus[];
+  return {
+    locale,
+    t,
+    jiraNumber: data.jiraNumber,
+    jiraName: data.jiraName,
+    subtitle: `[${data.type}] - [${formatDate(data.date, locale)}]`,
+    template,
+    coverFields: template.coverFields
+      .filter(field => data.coverInfo[field])
+      .map(field => ({ label: t(`cover.${field}`), value: data.coverInfo[field] })),
+    sections: template.sections.map(section => ({ id: section.id, title: sectionTitle(section, locale) })),
+    queries: data.showSqlQuery
+      ? resolveQueries(data, queryTemplates).map(({ template: query, sql }) => ({ name: query.name, sql }))
+      : [],
+    runs: runs.map(({ environment, date, conclusion, captures }) =>
+      ({ environment, date: formatDate(date, locale), conclusion, captures })),
+    matrix: data.steps.filter(step => step.kind === 'step').map(step => ({
+      number: numbers.get(step.id)!,
+      title: step.title,
+      statuses: runs.map(run => {
+        const { status, anomalyRef } = resultOf(run, step.id);
+        return statusText(t, status, anomalyRef);
+      })
+    })),
+    steps: data.steps.map(step => step.kind === 'section'
+      ? { kind: 'section', number: numbers.get(step.id)!, title: step.title }
+      : {
+        kind: 'step',
+        number: numbers.get(step.id)!,
+        title: step.title,
+        content: parseRichText(sanitizeHtml(step.content)),
+        expectedResult: step.expectedResult,
+        results: runs.map(run => {
+          const { status, actualResult, anomalyRef } = resultOf(run, step.id);
+          return { environment: run.environment, actualResult, status: statusText(t, status, anomalyRef) };
+        })
+      }),
+    statusLabels: statuses.map(status => t(`status.${status}`)),
+    statusCounts: runs.map(run => {
+      const counts = countStatuses(data.steps.map(step => ({ ...step, ...resultOf(run, step.id) })));
+      return { environment: run.environment, counts: statuses.map(status => counts[status]) };
+    }),
+    conclusion: data.conclusion,
+    conclusionText: data.conclusionText,
+    workflowStatus: t(`workflow.${data.signOff.status}`),
+    signatures: signatureBlocks(data.signOff).map(({ role, signature }) => ({
+      label: t(`signature.${role}`),
+      signature: signature && { ...signature, signedAt: formatDateTime(signature.signedAt, locale) }
+    }))
+  };
+}
+
+// Tableaux partagés par les exports : matrice de la partie « Environnement de test » (une colonne par exécution,
+// conclusion en dernière ligne) et décompte des statuts, par environnement quand il y en a plusieurs.
+export const environmentMatrix = (model: DocumentModel) => ({
+  header: [model.t('doc.step'), ...model.runs.map(run => `${run.environment} (${run.date})`)],
+  rows: [
+    ...model.matrix.map(row => [`${row.number}. ${row.title}`, ...row.statuses]),
+    [model.t('doc.conclusion'), ...model.runs.map(run => run.conclusion)]
+  ]
+});
+
+export const statusCountTable = (model: DocumentModel) => model.runs.length > 1
+  ? {
+    header: [model.t('doc.environment'), ...model.statusLabels],
+    rows: model.statusCounts.map(({ environment, counts }) => [environment, ...counts.map(String)])
+  }
+  : { header: model.statusLabels, rows: model.statusCounts.map(({ counts }) => counts.map(String)) };
+
+export const capturesLabel = (model: DocumentModel, environment: string) =>
+  model.runs.length > 1 ? model.t('doc.capturesOf', { environment }) : model.t('doc.captures');
+
+export const exportFileName = (data: AppData, extension: string) =>
+  `cahier-recette-${data.jiraNumber || 'export'}.${extension}`;
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import type { CoverInfo, DocumentSection, DocumentTemplate } from './types';
+import { message, type Message } from './i18n';
+
+export const COVER_FIELD_LABELS: Record<keyof CoverInfo, string> = {
+  project: 'Projet',
+  lot: 'Lot',
+  version: 'Version',
+  tester: 'Testeur',
+  validator: 'Valideur'
+};
+
+export const SECTION_LABELS: Record<DocumentSection, string> = {
+  details: 'Détails techniques',
+  steps: 'Déroulement des tests',
+  conclusion: 'Conclusion'
+};
+
+export const EMPTY_COVER_INFO: CoverInfo = { project: '', lot: '', version: '', tester: '', validator: '' };
+
+// Présentation historique du cahier, utilisée quand aucun autre modèle n'est choisi.
+export const DEFAULT_DOCUMENT_TEMPLATE: DocumentTemplate = {
+  id: 'default',
+  name: 'Standard ERP',
+  logo: '/icon.png',
+  coverLabel: 'Cahier de Recette',
+  footerText: 'Cahier de recette',
+  colors: {
+    headerLeft: '#add8e6',
+    headerRight: '#00008b',
+    heading: '#7f1d1d',
+    stepTitle: '#00008b'
+  },
+  coverFields: [],
+  sections: [
+    { id: 'details', title: 'Détails Techniques' },
+    { id: 'steps', title: 'Déroulement des Tests' },
+    { id: 'conclusion', title: 'Conclusion du Test' }
+  ],
+  builtIn: true
+};
+
+export const BUILT_IN_DOCUMENT_TEMPLATES: DocumentTemplate[] = [DEFAULT_DOCUMENT_TEMPLATE];
+
+// Modèle d'un cahier ; un modèle supprimé depuis retombe sur le modèle standard.
+export const findDocumentTemplate = (id: string, templates: DocumentTemplate[]) =>
+  templates.find(template => template.id === id) ?? DEFAULT_DOCUMENT_TEMPLATE;
+
+// Couleurs du modèle exposées aux classes `pdf-*` de index.css
+export const documentTemplateStyle = ({ colors }: DocumentTemplate) => ({
+  '--doc-header-left': colors.headerLeft,
+  '--doc-header-right': colors.headerRight,
+  '--doc-heading': colors.heading,
+  '--doc-step-title': colors.stepTitle
+}) as React.CSSProperties;
+
+const isColor = (value: unknown) => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+// Contrôle un modèle reçu par le serveur ; renvoie le message d'erreur ou null.
+export function checkDocumentTemplate(value: Partial<DocumentTemplate>): Message | null {
+  if (typeof value.name !== 'string' || !value.name.trim()) return message('check.template.name');
+  if (typeof value.logo !== 'string' || typeof value.coverLabel !== 'string' || typeof value.footerText !== 'string') {
+    return message('check.documentTemplate.texts');
+  }
+  if (!value.colors || !Object.keys(DEFAULT_DOCUMENT_TEMPLATE.colors).every(key => isColor(value.colors![key]))) {
+    return message('check.documentTemplate.colors');
+  }
+  if (!Array.isArray(value.coverFields) || !value.coverFields.every(field => field in COVER_FIELD_LABELS)) {
+    return message('check.documentTemplate.coverFields');
+  }
+  const sectionIds = Array.isArray(value.sections) ? value.sections.map(section => section?.id).sort() : [];
+  if (sectionIds.join() !== Object.keys(SECTION_LABELS).sort().join()
+    || !value.sections!.every(section => typeof section.title === 'string' && section.title.trim()
+      && (section.titleEn === undefined || typeof section.titleEn === 'string'))) {
+    return message('check.documentTemplate.sections');
+  }
+  return null;
+}
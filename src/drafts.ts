@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AppData } from './types';
+import { upgradeCahier } from './schema';
+
+// Stockage local dans IndexedDB : les images en base64 dépassent vite le quota de localStorage.
+const DB_NAME = 'cahier-recette';
+const DB_VERSION = 1;
+const DRAFTS = 'drafts';
+const SNAPSHOTS = 'snapshots';
+const CURRENT_DRAFT = 'current';
+// Instantanés conservés par cahier : chacun contient tout le cahier, images comprises
+const MAX_SNAPSHOTS = 30;
+
+export interface Draft {
+  key: string;
+  data: AppData;
+  updatedAt: string;
+}
+
+export interface Snapshot {
+  id?: number;
+  jiraNumber: string;
+  name: string;
+  createdAt: string;
+  data: AppData;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(DRAFTS, { keyPath: 'key' });
+        const snapshots = db.createObjectStore(SNAPSHOTS, { keyPath: 'id', autoIncrement: true });
+        snapshots.createIndex('jiraNumber', 'jiraNumber');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function loadDraft(): Promise<Draft | undefined> {
+  const draft = await run<Draft | undefined>(DRAFTS, 'readonly', store => store.get(CURRENT_DRAFT));
+  return draft && { ...draft, data: upgradeCahier(draft.data) };
+}
+
+export const saveDraft = (data: AppData) =>
+  run<string>(DRAFTS, 'readwrite', store =>
+    store.put({ key: CURRENT_DRAFT, data, updatedAt: new Date().toISOString() } satisfies Draft)
+  );
+
+export const clearDraft = () => run<void>(DRAFTS, 'readwrite', store => store.delete(CURRENT_DRAFT));
+
+export async function listSnapshots(jiraNumber: string): Promise<Snapshot[]> {
+  const snapshots = await run<Snapshot[]>(SNAPSHOTS, 'readonly', store =>
+    store.index('jiraNumber').getAll(jiraNumber)
+  );
+  return snapshots
+    .map(snapshot => ({ ...snapshot, data: upgradeCahier(snapshot.data) }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Ajoute un instantané, sauf si le cahier n'a pas changé depuis le précédent, et supprime les plus anciens
+// au-delà de MAX_SNAPSHOTS
+export async function addSnapshot(name: string, data: AppData): Promise<void> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SNAPSHOTS, 'readwrite');
+    const store = transaction.objectStore(SNAPSHOTS);
+    const request = store.index('jiraNumber').getAll(data.jiraNumber);
+    request.onsuccess = () => {
+      const snapshots = (request.result as Snapshot[]).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      if (snapshots.length > 0 && JSON.stringify(snapshots[0].data) === JSON.stringify(data)) return;
+      store.add({ jiraNumber: data.jiraNumber, name, createdAt: new Date().toISOString(), data } satisfies Snapshot);
+      snapshots.slice(MAX_SNAPSHOTS - 1).forEach(snapshot => store.delete(snapshot.id!));
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export const deleteSnapshot = (id: number) => run<void>(SNAPSHOTS, 'readwrite', store => store.delete(id));
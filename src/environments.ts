@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { TestEnvironment } from './types';
+import { message, type Message } from './i18n';
+
+// Environnements créés avec la base, utilisés tant que la liste du serveur n'est pas chargée
+export const DEFAULT_ENVIRONMENTS: TestEnvironment[] = [
+  { name: 'FRECMCOR', description: 'Recette' },
+  { name: 'FPOST', description: 'Post-production' }
+];
+
+const NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Contrôle la liste des environnements reçue par le serveur ; renvoie le message d'erreur ou null.
+export function checkEnvironments(value: unknown): Message | null {
+  if (!Array.isArray(value) || value.length === 0) return message('check.environments.empty');
+  const seen = new Set<string>();
+  for (const environment of value) {
+    if (typeof environment?.name !== 'string' || !NAME_PATTERN.test(environment.name)) {
+      return message('check.environments.name', { name: String(environment?.name ?? '') });
+    }
+    if (typeof environment.description !== 'string') return message('check.environments.description');
+    if (seen.has(environment.name.toUpperCase())) return message('check.environments.duplicate', { name: environment.name });
+    seen.add(environment.name.toUpperCase());
+  }
+  return null;
+}
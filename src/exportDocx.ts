@@ -0,0 +1,358 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  AlignmentType, Document, ExternalHyperlink, Footer, HeadingLevel, ImageRun, LevelFormat, Packer, PageBreak,
+  PageNumber, Paragraph, ShadingType, Tab, Table, TableCell, TableOfContents, TableRow, TabStopType, TextRun, WidthType,
+  type ParagraphChild
+} from 'docx';
+import { capturesLabel, environmentMatrix, resultRows, statusCountTable, type DocumentModel } from './documentModel';
+import { loadImage } from './images';
+import { message, MessageError } from './i18n';
+import type { Block, Inline } from './richText';
+
+// A4 avec 15 mm de marge, en twips (1 mm = 56,7 twips)
+const MM = 56.7;
+const PAGE_MARGIN = Math.round(15 * MM);
+const CONTENT_WIDTH = Math.round(180 * MM);
+// Largeur utile en pixels (96 dpi), pour dimensionner les images
+const CONTENT_WIDTH_PX = Math.round(180 / 25.4 * 96);
+
+const IMAGE_TYPES: Record<string, 'png' | 'jpg' | 'gif' | 'bmp'> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp'
+};
+
+const hex = (color: string) => color.replace('#', '');
+
+// Image à la taille d'origine, réduite à la largeur utile de la page.
+// Les formats que Word n'accepte pas en ligne (SVG…) sont remplacés par leur texte alternatif.
+async function imageRun(src: string, alt = '', maxWidth = CONTENT_WIDTH_PX): Promise<ParagraphChild> {
+  try {
+    const image = await loadImage(src);
+    const type = IMAGE_TYPES[image.mimeType];
+    if (!type) throw new MessageError(message('error.imageFormat', { type: image.mimeType }));
+    const scale = Math.min(1, maxWidth / image.width);
+    return new ImageRun({
+      type,
+      data: image.bytes,
+      transformation: { width: Math.round(image.width * scale), height: Math.round(image.height * scale) },
+      altText: { name: alt || 'image', description: alt, title: alt }
+    });
+  } catch {
+    return new TextRun({ text: `[image${alt ? ` : ${alt}` : ''}]`, italics: true, color: '666666' });
+  }
+}
+
+async function inlineRuns(inlines: Inline[]): Promise<ParagraphChild[]> {
+  const runs: ParagraphChild[] = [];
+  for (const inline of inlines) {
+    if (inline.type === 'break') {
+      runs.push(new TextRun({ text: '', break: 1 }));
+    } else if (inline.type === 'image') {
+      runs.push(await imageRun(inline.src, inline.alt));
+    } else {
+      const run = new TextRun({
+        text: inline.text,
+        bold: inline.bold,
+        italics: inline.italic,
+        underline: inline.underline || inline.link ? {} : undefined,
+        strike: inline.strike,
+        color: inline.color ? hex(inline.color) : inline.link ? '0563C1' : undefined,
+        shading: inline.background ? { type: ShadingType.CLEAR, fill: hex(inline.background) } : undefined,
+        font: inline.code ? 'Courier New' : undefined
+      });
+      runs.push(inline.link ? new ExternalHyperlink({ link: inline.link, children: [run] }) : run);
+    }
+  }
+  return runs;
+}
+
+// Contenu Quill d'une étape. Chaque liste numérotée repart de 1 (nouvelle instance de numérotation).
+async function richTextParagraphs(blocks: Block[], nextListInstance: () => number): Promise<Paragraph[]> {
+  const paragraphs: Paragraph[] = [];
+  let listInstance = 0;
+  for (const [index, block] of blocks.entries()) {
+    // Les titres internes à une étape restent hors du sommaire : simple paragraphe en gras
+    const children = await inlineRuns(block.type !== 'heading' ? block.inlines : block.inlines.map(inline =>
+      inline.type === 'text' ? { ...inline, bold: true } : inline));
+    switch (block.type) {
+      case 'heading':
+        paragraphs.push(new Paragraph({ children, spacing: { before: 120, after: 60 } }));
+        break;
+      case 'quote':
+        paragraphs.push(new Paragraph({
+          children,
+          indent: { left: 400 },
+          border: { left: { style: 'single', size: 12, color: 'CCCCCC', space: 8 } }
+        }));
+        break;
+      case 'code':
+        paragraphs.push(new Paragraph({
+          children: block.inlines.map(inline => new TextRun({
+            text: inline.type === 'text' ? inline.text : '',
+            font: 'Courier New',
+            size: 18
+          })),
+          shading: { type: ShadingType.CLEAR, fill: 'F4F4F4' },
+          spacing: { before: 0, after: 0 }
+        }));
+        break;
+      case 'list-item': {
+        if (!block.ordered) {
+          paragraphs.push(new Paragraph({ children, bullet: { level: block.level ?? 0 } }));
+          break;
+        }
+        const previous = blocks[index - 1];
+        if (!previous || previous.type !== 'list-item' || !previous.ordered) listInstance = nextListInstance();
+        paragraphs.push(new Paragraph({
+          children,
+          numbering: { reference: 'ordered-list', level: block.level ?? 0, instance: listInstance }
+        }));
+        break;
+      }
+      default:
+        paragraphs.push(new Paragraph({ children, indent: block.level ? { left: block.level * 400 } : undefined }));
+    }
+  }
+  return paragraphs;
+}
+
+const cell = (text: string, options: { header?: boolean; width?: number } = {}) =>
+  new TableCell({
+    width: options.width ? { size: options.width, type: WidthType.PERCENTAGE } : undefined,
+    shading: options.header ? { type: ShadingType.CLEAR, fill: 'E5E7EB' } : undefined,
+    children: text.split('\n').map(line => new Paragraph({
+      children: [new TextRun({ text: line, bold: options.header })]
+    }))
+  });
+
+// Tableau à deux colonnes libellé / valeur
+const keyValueTable = (rows: [string, string][]) => new Table({
+  width: { size: 100, type: WidthType.PERCENTAGE },
+  rows: rows.map(([label, value]) => new TableRow({
+    children: [cell(label, { header: true, width: 25 }), cell(value, { width: 75 })]
+  }))
+});
+
+// Tableau à ligne d'en-tête
+const gridTable = ({ header, rows }: { header: string[]; rows: string[][] }) => new Table({
+  width: { size: 100, type: WidthType.PERCENTAGE },
+  rows: [
+    new TableRow({ tableHeader: true, children: header.map(label => cell(label, { header: true })) }),
+    ...rows.map(row => new TableRow({ children: row.map(value => cell(value)) }))
+  ]
+});
+
+const partTitle = (title: string, color: string, pageBreakBefore: boolean) => new Paragraph({
+  heading: HeadingLevel.HEADING_1,
+  children: [new TextRun({ text: title, color: hex(color), bold: true })],
+  border: { bottom: { style: 'single', size: 12, color: hex(color), space: 4 } },
+  pageBreakBefore
+});
+
+export async function buildDocx(model: DocumentModel): Promise<Blob> {
+  const { template } = model;
+  const colors = template.colors;
+  let listInstances = 0;
+  const nextListInstance = () => ++listInstances;
+
+  const cover = [
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [new TableRow({
+        height: { value: Math.round(30 * MM), rule: 'atLeast' },
+        children: [
+          new TableCell({
+            width: { size: 25, type: WidthType.PERCENTAGE },
+            shading: { type: ShadingType.CLEAR, fill: hex(colors.headerLeft) },
+            verticalAlign: 'center',
+            children: [new Paragraph({
+              alignment: AlignmentType.CENTER,
+              children: [new TextRun({ text: model.jiraNumber || 'JIRA-XXX', bold: true, size: 36 })]
+            })]
+          }),
+          new TableCell({
+            width: { size: 75, type: WidthType.PERCENTAGE },
+            shading: { type: ShadingType.CLEAR, fill: hex(colors.headerRight) },
+            verticalAlign: 'center',
+            children: [new Paragraph({
+              alignment: AlignmentType.CENTER,
+              children: [new TextRun({ text: model.jiraName || model.t('doc.jiraNamePlaceholder'), bold: true, size: 40, color: 'FFFFFF' })]
+            })]
+          })
+        ]
+      })]
+    }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      shading: { type: ShadingType.CLEAR, fill: 'E5E7EB' },
+      children: [new TextRun({ text: model.subtitle, bold: true, size: 28 })]
+    }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 1200 },
+      children: [await imageRun(template.logo, 'Logo', 380)]
+    }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 400, after: 400 },
+      children: [new TextRun({ text: template.coverLabel.toUpperCase(), bold: true, size: 48, color: '94A3B8' })]
+    }),
+    ...(model.coverFields.length > 0
+      ? [keyValueTable(model.coverFields.map(field => [field.label, field.value] as [string, string]))]
+      : []),
+    new Paragraph({ children: [new PageBreak()] }),
+    new TableOfContents(model.t('doc.toc'), { hyperlink: true, headingStyleRange: '1-3' })
+  ];
+
+  const parts: Record<DocumentModel['sections'][number]['id'], () => Promise<(Paragraph | Table)[]>> = {
+    details: async () => {
+      const children: (Paragraph | Table)[] = [];
+      for (const query of model.queries) {
+        children.push(new Paragraph({ children: [new TextRun({ text: model.t('doc.query', { name: query.name }), bold: true })] }));
+        children.push(new Paragraph({
+          shading: { type: ShadingType.CLEAR, fill: 'F4F4F4' },
+          border: { left: { style: 'single', size: 24, color: hex(colors.headerRight), space: 8 } },
+          children: [new TextRun({ text: query.sql, font: 'Courier New', size: 18 })]
+        }));
+      }
+      for (const run of model.runs.filter(run => run.captures.length > 0)) {
+        children.push(new Paragraph({
+          children: [new TextRun({ text: capturesLabel(model, run.environment), bold: true })],
+          spacing: { before: 200 }
+        }));
+        for (const capture of run.captures) {
+          children.push(new Paragraph({ alignment: AlignmentType.CENTER, children: [await imageRun(capture.image, capture.caption)] }));
+          if (capture.caption) {
+            children.push(new Paragraph({
+              alignment: AlignmentType.CENTER,
+              children: [new TextRun({ text: capture.caption, italics: true, size: 18, color: '444444' })]
+            }));
+          }
+        }
+      }
+      children.push(new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun({ text: model.t('doc.environmentPart') })] }));
+      children.push(gridTable(environmentMatrix(model)));
+      return children;
+    },
+    steps: async () => {
+      const children: (Paragraph | Table)[] = [];
+      for (const step of model.steps) {
+        if (step.kind === 'section') {
+          children.push(new Paragraph({
+            heading: HeadingLevel.HEADING_2,
+            children: [new TextRun({ text: `${step.number}. ${step.title}`, color: hex(colors.heading), bold: true })]
+          }));
+          continue;
+        }
+        children.push(new Paragraph({
+          heading: HeadingLevel.HEADING_3,
+          keepNext: true,
+          border: { bottom: { style: 'single', size: 12, color: hex(colors.stepTitle), space: 4 } },
+          children: [new TextRun({ text: model.t('doc.stepTitle', { number: step.number, title: step.title }), color: hex(colors.stepTitle), bold: true })]
+        }));
+        children.push(...await richTextParagraphs(step.content, nextListInstance));
+        children.push(keyValueTable([[model.t('doc.expectedResult'), step.expectedResult], ...resultRows(model.t, step.results)]));
+      }
+      return children;
+    },
+    conclusion: async () => [
+      gridTable(statusCountTable(model)),
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        spacing: { before: 300, after: 300 },
+        shading: { type: ShadingType.CLEAR, fill: model.conclusion === 'OK' ? 'DCFCE7' : 'FEE2E2' },
+        children: [new TextRun({
+          text: model.t('doc.goodForProd', { conclusion: model.conclusion }),
+          bold: true,
+          size: 28,
+          color: model.conclusion === 'OK' ? '166534' : '991B1B'
+        })]
+      }),
+      ...model.conclusionText.split('\n').filter(line => line.trim()).map(line => new Paragraph({
+        spacing: { after: 120 },
+        children: [new TextRun({ text: line })]
+      })),
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        rows: [
+          new TableRow({ children: model.signatures.map(({ label }) => cell(label, { header: true, width: 50 })) }),
+          new TableRow({
+            height: { value: Math.round(35 * MM), rule: 'atLeast' },
+            children: await Promise.all(model.signatures.map(async ({ signature }) => new TableCell({
+              width: { size: 50, type: WidthType.PERCENTAGE },
+              children: !signature ? [new Paragraph({ children: [] })] : [
+                new Paragraph({ children: [new TextRun({ text: signature.name, bold: true })] }),
+                new Paragraph({ children: [new TextRun({ text: model.t('doc.signedAt', { date: signature.signedAt }) })] }),
+                ...signature.comment.split('\n').map(line => new Paragraph({ children: [new TextRun({ text: line, italics: true })] })),
+                new Paragraph({ children: [await imageRun(signature.image, model.t('signature.alt', { name: signature.name }), 200)] })
+              ]
+            })))
+          })
+        ]
+      }),
+      new Paragraph({
+        alignment: AlignmentType.RIGHT,
+        spacing: { before: 100 },
+        children: [new TextRun({ text: model.t('doc.workflowStatus', { status: model.workflowStatus }), size: 18, color: '666666' })]
+      })
+    ]
+  };
+
+  const body: (Paragraph | Table)[] = [];
+  // Le premier titre de partie ouvre une nouvelle page après le sommaire
+  for (const [index, section] of model.sections.entries()) {
+    body.push(partTitle(section.title, colors.heading, index === 0), ...await parts[section.id]());
+  }
+
+  const doc = new Document({
+    title: `${model.jiraNumber} - ${model.jiraName}`,
+    subject: template.footerText,
+    creator: 'Cahier de Tests ERP',
+    features: { updateFields: true },
+    styles: { default: { document: { run: { font: 'Arial', size: 22 } } } },
+    numbering: {
+      config: [{
+        reference: 'ordered-list',
+        levels: Array.from({ length: 6 }, (_, level) => ({
+          level,
+          format: LevelFormat.DECIMAL,
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: 400 * (level + 1), hanging: 300 } } }
+        }))
+      }]
+    },
+    sections: [{
+      properties: {
+        page: {
+          size: { width: Math.round(210 * MM), height: Math.round(297 * MM) },
+          margin: { top: PAGE_MARGIN, bottom: PAGE_MARGIN, left: PAGE_MARGIN, right: PAGE_MARGIN }
+        }
+      },
+      footers: {
+        default: new Footer({
+          children: [new Paragraph({
+            tabStops: [
+              { type: TabStopType.CENTER, position: CONTENT_WIDTH / 2 },
+              { type: TabStopType.RIGHT, position: CONTENT_WIDTH }
+            ],
+            children: [
+              new TextRun({ text: `${model.jiraNumber} / ${model.jiraName}`, size: 18, color: '666666' }),
+              new TextRun({ children: [new Tab(), template.footerText, new Tab()], size: 18, color: '666666' }),
+              new TextRun({ children: ['page ', PageNumber.CURRENT, ' / ', PageNumber.TOTAL_PAGES], size: 18, color: '666666' })
+            ]
+          })]
+        })
+      },
+      children: [...cover, ...body]
+    }]
+  });
+
+  return Packer.toBlob(doc);
+}
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import JSZip from 'jszip';
+import { capturesLabel, environmentMatrix, resultRows, statusCountTable, type DocumentModel } from './documentModel';
+import { loadImage } from './images';
+import type { Block, Inline } from './richText';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp'
+};
+
+// Caractères interprétés par Markdown dans un texte courant
+const escapeText = (text: string) => text.replace(/([\\`*_[\]<>#|~])/g, '\\$1');
+
+// Cellule de tableau : ni retour à la ligne ni séparateur de colonne
+const escapeCell = (text: string) => escapeText(text).replace(/\r?\n/g, '<br>') || ' ';
+
+// Extrait les images dans le dossier `images/` de l'archive et renvoie leur chemin relatif
+class ImageFolder {
+  private count = 0;
+  constructor(private zip: JSZip) {}
+
+  async add(src: string): Promise<string | null> {
+    try {
+      const image = await loadImage(src);
+      const path = `images/image-${String(++this.count).padStart(3, '0')}.${EXTENSIONS[image.mimeType] ?? 'bin'}`;
+      this.zip.file(path, image.bytes);
+      return path;
+    } catch {
+      return null;
+    }
+  }
+}
+
+async function inlineMarkdown(inlines: Inline[], images: ImageFolder): Promise<string> {
+  let markdown = '';
+  for (const inline of inlines) {
+    if (inline.type === 'break') {
+      markdown += '  \n';
+    } else if (inline.type === 'image') {
+      const path = await images.add(inline.src);
+      markdown += path ? `![${escapeText(inline.alt)}](${path})` : `*[image${inline.alt ? ` : ${escapeText(inline.alt)}` : ''}]*`;
+    } else {
+      // Les espaces en bordure restent hors des marqueurs, sinon Markdown ne les reconnaît pas
+      const [, before, core, after] = inline.text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+      if (!core) {
+        markdown += inline.text;
+        continue;
+      }
+      let text = inline.code ? `\`${core}\`` : escapeText(core);
+      if (inline.bold) text = `**${text}**`;
+      if (inline.italic) text = `_${text}_`;
+      if (inline.strike) text = `~~${text}~~`;
+      if (inline.underline) text = `<u>${text}</u>`;
+      // Couleurs en HTML brut : conservées par les wikis qui l'acceptent, ignorées ailleurs
+      const css = [inline.color && `color: ${inline.color}`, inline.background && `background-color: ${inline.background}`]
+        .filter(Boolean)
+        .join('; ');
+      if (css) text = `<span style="${css}">${text}</span>`;
+      if (inline.link) text = `[${text}](${inline.link})`;
+      markdown += before + text + after;
+    }
+  }
+  return markdown;
+}
+
+async function blocksMarkdown(blocks: Block[], images: ImageFolder): Promise<string> {
+  const lines: string[] = [];
+  for (const [index, block] of blocks.entries()) {
+    const previous = blocks[index - 1];
+    if (block.type === 'code') {
+      if (previous?.type !== 'code') lines.push('', '```');
+      lines.push(block.inlines.map(inline => (inline.type === 'text' ? inline.text : '')).join(''));
+      if (blocks[index + 1]?.type !== 'code') lines.push('```');
+      continue;
+    }
+    const text = await inlineMarkdown(block.inlines, images);
+    if (block.type === 'list-item') {
+      if (previous?.type !== 'list-item') lines.push('');
+      lines.push(`${'   '.repeat(block.level ?? 0)}${block.ordered ? '1.' : '-'} ${text}`);
+    } else if (block.type === 'heading') {
+      // Sous le niveau des titres d'étape (####)
+      lines.push('', `${'#'.repeat(Math.min(6, 4 + (block.level ?? 1)))} ${text}`);
+    } else if (block.type === 'quote') {
+      lines.push('', `> ${text.replace(/\n/g, '\n> ')}`);
+    } else if (text.trim()) {
+      lines.push('', text);
+    }
+  }
+  return lines.join('\n');
+}
+
+const table = (header: string[], rows: string[][]) => [
+  `| ${header.map(escapeCell).join(' | ')} |`,
+  `| ${header.map(() => '---').join(' | ')} |`,
+  ...rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`)
+].join('\n');
+
+export async function buildMarkdown(model: DocumentModel, fileName: string): Promise<Blob> {
+  const zip = new JSZip();
+  const images = new ImageFolder(zip);
+  const { template } = model;
+
+  const out: string[] = [
+    `# ${escapeText(model.jiraNumber)} — ${escapeText(model.jiraName)}`,
+    '',
+    `**${escapeText(template.coverLabel)}** ${escapeText(model.subtitle)}`
+  ];
+  if (model.coverFields.length > 0) {
+    out.push('', table(['', ''], model.coverFields.map(field => [field.label, field.value])));
+  }
+
+  out.push('', `## ${model.t('doc.toc')}`, '');
+  for (const section of model.sections) {
+    out.push(`- ${escapeText(section.title)}`);
+    if (section.id === 'steps') {
+      model.steps.forEach(step => {
+        const label = step.kind === 'section' ? `${step.number}. ${step.title}` : model.t('doc.stepTitle', { number: step.number, title: step.title });
+        // « 1. » en début d'élément serait lu comme une liste numérotée imbriquée
+        out.push(`${step.number.includes('.') ? '    ' : '  '}- ${escapeText(label).replace(/^(\d+)\./, '$1\\.')}`);
+      });
+    }
+  }
+
+  for (const section of model.sections) {
+    out.push('', `## ${escapeText(section.title)}`);
+    if (section.id === 'details') {
+      for (const query of model.queries) {
+        out.push('', `**${model.t('doc.query', { name: escapeText(query.name) })}**`, '', '```sql', query.sql, '```');
+      }
+      for (const run of model.runs.filter(run => run.captures.length > 0)) {
+        out.push('', `**${escapeText(capturesLabel(model, run.environment))}**`);
+        for (const capture of run.captures) {
+          const path = await images.add(capture.image);
+          if (path) out.push('', `![${escapeText(capture.caption)}](${path})`);
+          if (capture.caption) out.push('', `_${escapeText(capture.caption)}_`);
+        }
+      }
+      const matrix = environmentMatrix(model);
+      out.push('', `### ${model.t('doc.environmentPart')}`, '', table(matrix.header, matrix.rows));
+    } else if (section.id === 'steps') {
+      for (const step of model.steps) {
+        if (step.kind === 'section') {
+          out.push('', `### ${step.number}. ${escapeText(step.title)}`);
+          continue;
+        }
+        out.push('', `#### ${model.t('doc.stepTitle', { number: step.number, title: escapeText(step.title) })}`);
+        const content = await blocksMarkdown(step.content, images);
+        if (content) out.push(content);
+        out.push('', table(['', ''], [[model.t('doc.expectedResult'), step.expectedResult], ...resultRows(model.t, step.results)]));
+      }
+    } else {
+      out.push(
+        '',
+        table(statusCountTable(model).header, statusCountTable(model).rows),
+        '',
+        `**${model.t('doc.goodForProd', { conclusion: model.conclusion })}**`,
+        ...(model.conclusionText.trim() ? ['', escapeText(model.conclusionText.trim()).replace(/\n/g, '  \n')] : []),
+        '',
+        `| ${model.signatures.map(({ label }) => escapeCell(label)).join(' | ')} |`,
+        `| ${model.signatures.map(() => '---').join(' | ')} |`
+      );
+      const cells: string[] = [];
+      for (const { signature } of model.signatures) {
+        if (!signature) {
+          cells.push(' ');
+          continue;
+        }
+        const path = await images.add(signature.image);
+        cells.push([
+          `**${escapeCell(signature.name)}**`,
+          model.t('doc.signedAt', { date: escapeCell(signature.signedAt) }),
+          signature.comment && `_${escapeCell(signature.comment)}_`,
+          path && `![Signature](${path})`
+        ].filter(Boolean).join('<br>'));
+      }
+      out.push(`| ${cells.join(' | ')} |`, '', model.t('doc.workflowStatus', { status: model.workflowStatus }));
+    }
+  }
+
+  zip.file(fileName, `${out.join('\n')}\n`);
+  return zip.generateAsync({ type: 'blob' });
+}
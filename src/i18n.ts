@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Locale } from './types';
+import { fr, type Messages } from './locales/fr';
+import { en } from './locales/en';
+
+// Traductions de l'interface (langue choisie dans les paramètres) et du document imprimé
+// (langue propre à chaque cahier, `AppData.documentLanguage`).
+export type MessageKey = keyof Messages;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// Texte à traduire au moment de l'affichage. Les contrôles partagés avec le serveur et les erreurs
+// de l'API donnent une clé du catalogue et ses paramètres : le client les traduit avec `translator`.
+export interface Message {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export const message = (key: MessageKey, params?: MessageParams): Message => (params ? { key, params } : { key });
+
+// Message reçu d'ailleurs (réponse du serveur) : la clé doit exister dans le catalogue
+export const isMessage = (value: unknown): value is Message =>
+  typeof (value as Message)?.key === 'string' && Object.hasOwn(fr, (value as Message).key);
+
+// Erreur décrite par un message à traduire ; `message` garde la clé, pour les journaux
+export class MessageError extends Error {
+  constructor(public detail: Message) {
+    super(detail.key);
+    this.name = 'MessageError';
+  }
+}
+
+const MESSAGES: Record<Locale, Messages> = { fr, en };
+
+export const LOCALES = Object.keys(MESSAGES) as Locale[];
+
+// Les dates restent au format jour/mois/année dans les deux langues
+const INTL_LOCALES: Record<Locale, string> = { fr: 'fr-FR', en: 'en-GB' };
+
+export const translator = (locale: Locale): Translate => (key, params = {}) =>
+  MESSAGES[locale][key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    (name in params ? String(params[name]) : placeholder));
+
+// Texte d'une erreur dans la langue de `t` : message traduit, ou texte d'une erreur quelconque
+export const errorText = (error: unknown, t: Translate) =>
+  error instanceof MessageError ? t(error.detail.key, error.detail.params) : (error as Error)?.message ?? String(error);
+
+export const formatDate = (date: string, locale: Locale) => new Date(date).toLocaleDateString(INTL_LOCALES[locale]);
+
+export const formatDateTime = (date: string | Date, locale: Locale) => new Date(date).toLocaleString(INTL_LOCALES[locale]);
+
+export const formatNumber = (value: number, locale: Locale, options?: Intl.NumberFormatOptions) =>
+  value.toLocaleString(INTL_LOCALES[locale], options);
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { loadSettings, type ImageSettings } from './settings';
+import { formatNumber, message, MessageError, translator } from './i18n';
+import type { Locale } from './types';
+import { readFileAsDataUrl } from './utils';
+
+export class ImageTooLargeError extends Error {
+  constructor(public size: number, public limit: number, locale: Locale) {
+    super(translator(locale)('image.tooLarge', { size: formatBytes(size, locale), limit: formatBytes(limit, locale) }));
+    this.name = 'ImageTooLargeError';
+  }
+}
+
+export function formatBytes(bytes: number, locale: Locale) {
+  const t = translator(locale);
+  if (bytes < 1024) return t('bytes.b', { size: bytes });
+  if (bytes < 1024 * 1024) return t('bytes.kb', { size: (bytes / 1024).toFixed(0) });
+  return t('bytes.mb', { size: formatNumber(bytes / 1024 / 1024, locale, { maximumFractionDigits: 1 }) });
+}
+
+// Taille approximative en octets d'une data URL base64
+export const dataUrlSize = (dataUrl: string) => Math.round((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+// Vérifie la taille d'une image puis la réduit et la ré-encode si elle dépasse les seuils configurés.
+// Renvoie une data URL prête à être stockée dans le cahier ; `locale` : langue du message d'erreur.
+export async function processImage(file: Blob, locale: Locale, settings: ImageSettings = loadSettings().image): Promise<string> {
+  const limit = settings.maxFileSizeMb * 1024 * 1024;
+  if (file.size > limit) throw new ImageTooLargeError(file.size, limit, locale);
+
+  const original = await readFileAsDataUrl(file);
+  // Les SVG et GIF animés perdraient leur nature en passant par un canvas
+  if (file.type === 'image/svg+xml' || file.type === 'image/gif') return original;
+
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, settings.maxDimension / Math.max(bitmap.width, bitmap.height));
+  if (scale === 1 && file.size <= settings.reencodeAboveKb * 1024) {
+    bitmap.close();
+    return original;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext('2d')!;
+  // Fond blanc : le JPEG ne gère pas la transparence des captures PNG
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const compressed = canvas.toDataURL('image/jpeg', settings.quality);
+  return scale < 1 || compressed.length < original.length ? compressed : original;
+}
+
+export interface LoadedImage {
+  bytes: Uint8Array;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+// Contenu et dimensions d'une image (data URL ou adresse du serveur), pour l'intégrer à un fichier exporté
+export async function loadImage(src: string): Promise<LoadedImage> {
+  const response = await fetch(src);
+  if (!response.ok) throw new MessageError(message('error.imageUnreachable', { src }));
+  const blob = await response.blob();
+  const bitmap = await createImageBitmap(blob);
+  const image = {
+    bytes: new Uint8Array(await blob.arrayBuffer()),
+    mimeType: blob.type,
+    width: bitmap.width,
+    height: bitmap.height
+  };
+  bitmap.close();
+  return image;
+}
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AppData, JiraIssue } from './types';
+import { countStatuses } from './steps';
+import { formatDate, translator } from './i18n';
+
+// Clé de ticket Jira : PROJET-123
+export const JIRA_KEY_PATTERN = /^[A-Z][A-Z0-9_]+-\d+$/;
+
+export const isJiraKey = (value: string) => JIRA_KEY_PATTERN.test(value);
+
+// Reporte les informations du ticket dans le cahier ; les champs absents du ticket restent inchangés
+export const applyJiraIssue = (data: AppData, issue: JiraIssue): AppData => ({
+  ...data,
+  jiraName: issue.summary,
+  type: issue.type,
+  coverInfo: {
+    ...data.coverInfo,
+    project: issue.project || data.coverInfo.project,
+    version: issue.fixVersions.join(', ') || data.coverInfo.version,
+    tester: issue.assignee ?? data.coverInfo.tester
+  }
+});
+
+// Commentaire publié sur le ticket avec le PDF joint (syntaxe wiki de Jira), dans la langue du document
+export function conclusionComment(data: AppData, fileName: string) {
+  const t = translator(data.documentLanguage);
+  const counts = countStatuses(data.steps);
+  const { signOff } = data;
+  const signatures = [
+    signOff.tester && t('jira.comment.executedBy', { name: signOff.tester.name }),
+    signOff.validator && t(signOff.status === 'REFUSE' ? 'jira.comment.refusedBy' : 'jira.comment.validatedBy', { name: signOff.validator.name })
+  ].filter(Boolean).join(', ');
+  return [
+    t('jira.comment.title', { type: data.type, date: formatDate(data.date, data.documentLanguage), environment: data.environment }),
+    `*${t('doc.goodForProd', { conclusion: data.conclusion })}*`,
+    ...(data.conclusionText.trim() ? [data.conclusionText.trim()] : []),
+    t('jira.comment.steps', { ok: counts.OK, ko: counts.KO, blocked: counts.BLOQUE, notRun: counts.NON_EXECUTE }),
+    t('jira.comment.validation', { status: t(`workflow.${signOff.status}`) }) + (signatures ? ` (${signatures})` : ''),
+    t('jira.comment.attachment', { file: `[^${fileName}]` })
+  ].join('\n');
+}
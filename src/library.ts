@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AppData, CahierTemplate, StepSnippet, TestStep } from './types';
+import { validateSteps } from './schema';
+import { message, type Message } from './i18n';
+import { createStep } from './steps';
+
+const list = (...items: string[]) => `<ol>${items.map(item => `<li data-list="bullet">${item}</li>`).join('')}</ol>`;
+
+// Étapes fournies avec l'application, non modifiables
+export const BUILT_IN_SNIPPETS: StepSnippet[] = [
+  {
+    id: 'login',
+    category: 'Général',
+    title: 'Connexion à l\'ERP',
+    content: `<p>Se connecter à l'environnement de test avec un compte de recette.</p>${list(
+      'Ouvrir l\'URL de l\'environnement dans le navigateur',
+      'Saisir l\'identifiant et le mot de passe du compte de test',
+      'Vérifier le nom de la base affiché dans l\'en-tête'
+    )}`,
+    expectedResult: 'La page d\'accueil s\'affiche sur le bon environnement.',
+    builtIn: true
+  },
+  {
+    id: 'navigation',
+    category: 'Général',
+    title: 'Accès au composant',
+    content: `<p>Naviguer jusqu'au composant modifié :</p>${list(
+      'Menu principal > … > …',
+      'Rechercher un enregistrement de test'
+    )}`,
+    expectedResult: 'Le composant s\'ouvre sans erreur.',
+    builtIn: true
+  },
+  {
+    id: 'sql-check',
+    category: 'Données',
+    title: 'Contrôle SQL des données',
+    content: '<p>Exécuter la requête de vérification dans SQL Developer et comparer le résultat à l\'attendu.</p>',
+    expectedResult: 'Les lignes retournées correspondent aux données attendues.',
+    builtIn: true
+  },
+  {
+    id: 'ae-run',
+    category: 'App Engine',
+    title: 'Lancement du traitement App Engine',
+    content: `<p>Lancer le traitement depuis le Process Scheduler :</p>${list(
+      'Créer ou choisir un contrôle d\'exécution',
+      'Renseigner les paramètres du traitement',
+      'Lancer sur le serveur de traitements'
+    )}`,
+    expectedResult: 'Le traitement est mis en file d\'attente.',
+    builtIn: true
+  },
+  {
+    id: 'ae-monitor',
+    category: 'App Engine',
+    title: 'Suivi dans le Process Monitor',
+    content: '<p>Suivre l\'exécution dans le Process Monitor et consulter le journal du traitement.</p>',
+    expectedResult: 'Statut « Succès » / « Posté », aucun message d\'erreur dans le journal.',
+    builtIn: true
+  }
+];
+
+const stepFrom = (id: string, kind: TestStep['kind'], title: string, snippetId?: string): TestStep => {
+  const snippet = BUILT_IN_SNIPPETS.find(s => s.id === snippetId);
+  return {
+    ...createStep(kind, title),
+    id,
+    content: snippet?.content ?? '',
+    expectedResult: snippet?.expectedResult ?? ''
+  };
+};
+
+export const BUILT_IN_CAHIER_TEMPLATES: CahierTemplate[] = [
+  {
+    id: 'app-engine',
+    name: 'Modif. App Engine',
+    category: 'App Engine',
+    description: 'Modification d\'un traitement App Engine : lancement, suivi et contrôle des données produites.',
+    type: 'TMD',
+    sqlQueries: ['app', 'app-engine'],
+    steps: [
+      stepFrom('s1', 'section', 'Préparation'),
+      stepFrom('s2', 'step', 'Connexion à l\'ERP', 'login'),
+      stepFrom('s3', 'section', 'Exécution'),
+      stepFrom('s4', 'step', 'Lancement du traitement App Engine', 'ae-run'),
+      stepFrom('s5', 'step', 'Suivi dans le Process Monitor', 'ae-monitor'),
+      stepFrom('s6', 'section', 'Contrôles'),
+      stepFrom('s7', 'step', 'Contrôle SQL des données', 'sql-check')
+    ],
+    builtIn: true
+  },
+  {
+    id: 'data',
+    name: 'Modif. données',
+    category: 'Données',
+    description: 'Script de mise à jour des données : contrôle avant, passage du script, contrôle après.',
+    type: 'TMD',
+    sqlQueries: ['data'],
+    steps: [
+      stepFrom('s1', 'step', 'Contrôle des données avant passage du script', 'sql-check'),
+      stepFrom('s2', 'step', 'Passage du script'),
+      stepFrom('s3', 'step', 'Contrôle des données après passage du script', 'sql-check')
+    ],
+    builtIn: true
+  },
+  {
+    id: 'tma-fix',
+    name: 'Correctif TMA',
+    category: 'TMA',
+    description: 'Correction d\'anomalie : reproduction, vérification du correctif et non-régression.',
+    type: 'TMA',
+    sqlQueries: ['app'],
+    steps: [
+      stepFrom('s1', 'step', 'Connexion à l\'ERP', 'login'),
+      stepFrom('s2', 'step', 'Reproduction du cas de l\'anomalie', 'navigation'),
+      stepFrom('s3', 'step', 'Vérification du correctif'),
+      stepFrom('s4', 'step', 'Non-régression')
+    ],
+    builtIn: true
+  }
+];
+
+// Copie d'étapes prête à être ajoutée à un cahier : nouveaux identifiants, exécution remise à zéro
+export const freshSteps = (steps: TestStep[]): TestStep[] => steps.map(step => ({
+  ...step,
+  id: crypto.randomUUID(),
+  actualResult: '',
+  status: 'NON_EXECUTE',
+  anomalyRef: ''
+}));
+
+export const snippetToStep = (snippet: StepSnippet): TestStep => ({
+  ...createStep('step', snippet.title),
+  content: snippet.content,
+  expectedResult: snippet.expectedResult
+});
+
+export const stepToSnippet = (step: TestStep, category: string): StepSnippet => ({
+  id: crypto.randomUUID(),
+  category,
+  title: step.title,
+  content: step.content,
+  expectedResult: step.expectedResult
+});
+
+// Nouveau cahier à partir d'un modèle : type, requêtes et étapes du modèle, le reste tel que `data`
+export const applyCahierTemplate = (data: AppData, template: CahierTemplate): AppData => ({
+  ...data,
+  type: template.type,
+  sqlQueries: template.sqlQueries,
+  showSqlQuery: template.sqlQueries.length > 0,
+  steps: freshSteps(template.steps)
+});
+
+// Recherche insensible à la casse et aux accents
+const normalize = (text: string) => text.normalize('NFD').replace(/\p{Diacritic}/gu, '').toLowerCase();
+
+export const matchesSearch = (query: string, ...texts: string[]) => {
+  const needle = normalize(query.trim());
+  return !needle || texts.some(text => normalize(text).includes(needle));
+};
+
+// Catégories distinctes, dans l'ordre alphabétique
+export const categoriesOf = (items: { category: string }[]) =>
+  [...new Set(items.map(item => item.category))].sort((a, b) => a.localeCompare(b, 'fr'));
+
+const isText = (value: unknown) => typeof value === 'string';
+
+// Contrôle une étape de bibliothèque reçue par le serveur ; renvoie le message d'erreur ou null.
+export function checkSnippet(value: Partial<StepSnippet>): Message | null {
+  if (!isText(value.title) || !value.title.trim()) return message('check.snippet.title');
+  if (!isText(value.category) || !value.category.trim()) return message('check.library.category');
+  if (!isText(value.content) || !isText(value.expectedResult)) return message('check.snippet.texts');
+  return null;
+}
+
+// Contrôle un modèle de cahier reçu par le serveur ; renvoie le message d'erreur ou null.
+export function checkCahierTemplate(value: Partial<CahierTemplate>): Message | null {
+  if (!isText(value.name) || !value.name.trim()) return message('check.template.name');
+  if (!isText(value.category) || !value.category.trim()) return message('check.library.category');
+  if (!isText(value.description)) return message('check.cahierTemplate.description');
+  if (value.type !== 'TMD' && value.type !== 'TMA') return message('check.type');
+  if (!Array.isArray(value.sqlQueries) || !value.sqlQueries.every(isText)) return message('check.cahierTemplate.queries');
+  if (!Array.isArray(value.steps)) return message('check.cahierTemplate.steps');
+  const [issue] = validateSteps(value.steps);
+  return issue ? message('check.cahierTemplate.invalidStep', { path: issue.path }) : null;
+}
@@ -0,0 +1,689 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Messages } from './fr';
+
+export const en: Messages = {
+  // Statuts, circuit de validation, page de garde et parties du document
+  'status.OK': 'OK',
+  'status.KO': 'KO',
+  'status.BLOQUE': 'Blocked',
+  'status.NON_EXECUTE': 'Not run',
+  'workflow.BROUILLON': 'Draft',
+  'workflow.EN_REVUE': 'In review',
+  'workflow.VALIDE': 'Approved',
+  'workflow.REFUSE': 'Rejected',
+  'signature.executedBy': 'Executed by',
+  'signature.validatedBy': 'Approved by',
+  'signature.refusedBy': 'Rejected by',
+  'signature.alt': 'Signature of {name}',
+  'cover.project': 'Project',
+  'cover.lot': 'Batch',
+  'cover.version': 'Version',
+  'cover.tester': 'Tester',
+  'cover.validator': 'Approver',
+  'section.details': 'Technical Details',
+  'section.steps': 'Test Procedure',
+  'section.conclusion': 'Test Conclusion',
+
+  // Document imprimé et exports
+  'doc.jiraNamePlaceholder': 'JIRA NAME',
+  'doc.toc': 'Contents',
+  'doc.stepTitle': 'Step {number}: {title}',
+  'doc.query': 'SQL verification query — {name}:',
+  'doc.captures': 'SQL execution:',
+  'doc.capturesOf': 'SQL execution — {environment}:',
+  'doc.environmentPart': 'Test environment',
+  'doc.step': 'Step',
+  'doc.conclusion': 'Conclusion',
+  'doc.environment': 'Environment',
+  'doc.expectedResult': 'Expected result',
+  'doc.actualResult': 'Actual result',
+  'doc.status': 'Status',
+  'doc.anomaly': 'Defect {ref}',
+  'doc.goodForProd': 'GO FOR PROD {conclusion}',
+  'doc.signedAt': 'On {date}',
+  'doc.workflowStatus': 'Document status: {status}',
+  'doc.image': 'image',
+  'doc.subject': 'Acceptance test report {type} — {environment}',
+  'jira.comment.title': 'Acceptance test report [{type}] of {date} — environment {environment}',
+  'jira.comment.steps': 'Steps: {ok} OK, {ko} KO, {blocked} blocked, {notRun} not run',
+  'jira.comment.validation': 'Sign-off: {status}',
+  'jira.comment.executedBy': 'executed by {name}',
+  'jira.comment.validatedBy': 'approved by {name}',
+  'jira.comment.refusedBy': 'rejected by {name}',
+  'jira.comment.attachment': 'Attached document: {file}',
+
+  // Langues
+  'language.fr': 'Français',
+  'language.en': 'English',
+
+  // En-tête
+  'app.title': 'ERP Test Book',
+  'header.capturesSize': 'Including captures: {size}',
+  'header.palette': 'Command palette and keyboard shortcuts',
+  'header.undo': 'Undo ({keys})',
+  'header.redo': 'Redo ({keys})',
+  'header.import': 'Import a JSON file',
+  'header.exportJson': 'Export as JSON',
+  'header.exportDocx': 'Export as Word (.docx)',
+  'header.exportMarkdown': 'Export as Markdown (.zip archive with images)',
+  'header.workspace': 'My test books',
+  'header.library': 'Library',
+  'header.campaigns': 'Campaigns',
+  'header.history': 'History',
+  'header.settings': 'Settings',
+  'header.save': 'Save',
+  'header.preview': 'Preview',
+  'header.printCheck': 'Pre-print checks',
+  'header.print': 'Print',
+  'header.generating': 'Generating…',
+  'header.downloadPdf': 'Download PDF',
+  'header.withKeys': '{label} ({keys})',
+
+  // Informations JIRA
+  'jira.section': 'JIRA information',
+  'jira.number': 'JIRA number',
+  'jira.numberPlaceholder': 'e.g. ERP-1234',
+  'jira.fetch': 'Fetch the title, type, assignee and version from Jira',
+  'jira.numberFormat': 'Expected format: PROJECT-123 (capital letters, hyphen, number).',
+  'jira.name': 'JIRA name',
+  'jira.namePlaceholder': 'Short description',
+  'jira.type': 'Type',
+  'jira.date': 'Date',
+  'sql.toggle': 'SQL Developer query',
+  'sql.manageTemplates': 'Manage query templates',
+  'sql.templates': 'Templates',
+  'sql.remove': 'Remove the query',
+  'sql.copy': 'Copy the query',
+  'sql.add': '+ Add a query…',
+  'sql.generated': 'Generated automatically from the JIRA number',
+
+  // Configuration du test
+  'config.section': 'Test setup',
+  'config.runs': 'Runs per environment',
+  'config.manageEnvironments': 'Manage the environment list',
+  'config.environments': 'Environments',
+  'config.runDate': 'Run of {date}',
+  'config.deleteRun': 'Delete the run',
+  'config.primaryRun': 'Main run: date, environment and conclusion of the test book',
+  'config.promoteRun': 'Make it the main run',
+  'config.newRun': 'New run on…',
+  'config.currentRun': 'Date, captures, step statuses and conclusion: run on {environment}',
+  'config.conclusion': 'Conclusion',
+  'config.goodForProd': 'Go for Prod {conclusion}',
+  'config.conclusionMismatch': '{ko} KO step(s) and {blocked} blocked: the conclusion should be KO.',
+  'config.switchToKo': 'Set the conclusion to KO',
+  'config.summary': 'Summary',
+  'config.summaryAssistantHint': 'Summarise the steps and their results',
+  'config.summaryDrafting': 'Drafting…',
+  'config.summaryAssistant': 'Draft with the assistant',
+  'config.summaryPlaceholder': 'Test summary, printed below the conclusion (optional)',
+  'config.captures': 'Query execution captures',
+
+  // Validation
+  'signOff.section': 'Sign-off',
+  'signOff.locked': 'Steps, captures and conclusion can no longer be edited.',
+  'signOff.submit': 'Submit for review',
+  'signOff.validate': 'Approve',
+  'signOff.refuse': 'Reject',
+  'signOff.unlock': 'Unlock',
+  'signOff.backToDraft': 'Back to draft',
+  'signOff.validateTitle': 'Approve the test book',
+  'signOff.refuseTitle': 'Reject the test book',
+  'signOff.signAndSubmit': 'Sign and submit',
+  'signOff.signAndValidate': 'Sign and approve',
+  'signOff.signAndRefuse': 'Sign and reject',
+
+  // Présentation du document
+  'presentation.section': 'Document layout',
+  'presentation.manageTemplates': 'Manage document templates',
+  'presentation.templates': 'Templates',
+  'presentation.template': 'Template',
+  'presentation.language': 'Document language',
+  'presentation.languageHint': 'Print, PDF, exports and Jira comment',
+
+  // Étapes
+  'steps.section': 'Test steps',
+  'steps.addSection': 'Add a section',
+  'steps.propose': 'Suggest steps',
+  'steps.add': 'Add a step',
+  'steps.addHint': 'New step after the current step: {keys}',
+  'steps.moveUp': 'Move up',
+  'steps.moveDown': 'Move down',
+  'steps.insertAfter': 'Insert a step after',
+  'steps.rewriting': 'Rewriting…',
+  'steps.rewrite': 'Rewrite with the assistant',
+  'steps.saveToLibrary': 'Save to the library',
+  'steps.duplicate': 'Duplicate',
+  'steps.delete': 'Delete',
+  'steps.drag': 'Drag to move',
+  'steps.sectionPlaceholder': 'Section title',
+  'steps.titlePlaceholder': 'Step title',
+  'steps.expectedResult': 'Expected result',
+  'steps.actualResult': 'Actual result',
+  'steps.status': 'Status',
+  'steps.anomalyRef': 'Defect reference',
+  'steps.anomalyPlaceholder': 'e.g. ERP-5678',
+  'steps.empty': 'No steps yet',
+  'steps.addFirst': 'Add your first step',
+  'steps.defaultTitle': 'Step {number}',
+  'steps.newSection': 'New section',
+  'steps.copy': '{title} (copy)',
+  'steps.untitled': 'untitled',
+  'editor.annotateHint': 'Double-click an image to annotate it',
+
+  // Brouillon et aperçu
+  'draft.title': 'Unsaved draft',
+  'draft.found': 'A draft of {jira} modified on {date} was found. Do you want to restore it?',
+  'draft.noNumber': 'an unnumbered test book',
+  'draft.ignore': 'Ignore',
+  'draft.restore': 'Restore the draft',
+  'preview.title': 'Print preview (A4)',
+  'preview.printNow': 'Print now',
+  'preview.publishHint': 'Attach the PDF to the ticket and post the conclusion',
+  'preview.publishing': 'Publishing…',
+  'preview.publish': 'Publish to Jira',
+
+  // Actions soumises aux contrôles avant impression
+  'action.print': 'Print',
+  'action.download': 'Download',
+  'action.export': 'Export',
+  'action.publish': 'Publish',
+
+  // Instantanés de l'historique
+  'snapshot.conclusion': 'Conclusion changed from {from} to {to}',
+  'snapshot.beforeRestore': 'Before returning to “{name}”',
+  'snapshot.save': 'Saved on {date}',
+  'snapshot.submitted': 'Submitted for review by {name}',
+  'snapshot.validated': 'Approved by {name}',
+  'snapshot.refused': 'Rejected by {name}',
+  'snapshot.backToDraft': 'Back to draft',
+
+  // Messages, confirmations et notifications
+  'message.restoreLocked': 'The test book is approved: unlock it before returning to a snapshot.',
+  'message.restoreConfirm': 'Return to the snapshot “{name}”? The current state will be kept in the history.',
+  'message.deleteRun': 'Delete the run on {environment} (statuses, captures and conclusion)?',
+  'message.captureDeleted': 'Capture deleted',
+  'message.stepDeleted': 'Step “{title}” deleted',
+  'message.sectionDeleted': 'Section “{title}” deleted',
+  'message.nothingToRewrite': 'The step contains no text to rewrite.',
+  'message.replaceSummary': 'Replace the existing summary with the assistant\'s?',
+  'message.snippetCategory': 'Category of the step in the library:',
+  'message.snippetDefaultCategory': 'General',
+  'message.mergeLocked': 'The test book is approved: unlock it before adding steps to it.',
+  'message.jiraRequired': 'Please enter the JIRA number before saving.',
+  'message.saveError': 'Error while saving: {error}',
+  'message.saved': 'Test book saved successfully!',
+  'message.unlockConfirm': 'Unlock the test book? It will go back to draft and the signatures will be cleared.',
+  'message.backToDraftConfirm': 'Put the test book back to draft? The signatures will be cleared.',
+  'message.discardChanges': 'Unsaved changes to the current test book will be lost. Continue?',
+  'message.openError': 'Error while opening the test book: {error}',
+  'message.exportError': 'Error while exporting: {error}',
+  'message.jiraError': 'Jira error: {error}',
+  'message.publishConfirm': 'Attach {file} to ticket {jira} and post the conclusion {conclusion}?',
+  'message.published': 'Test book published to {jira}.',
+  'message.publishError': 'Error while publishing to Jira: {error}',
+  'message.pdfError': 'Error while generating the PDF: {error}',
+  'message.loadError': 'Could not load from the server: {items}',
+  'message.autosaveError': 'Could not autosave the draft: {error}',
+  'message.snapshotError': 'Could not record the history snapshot: {error}',
+  'load.queryTemplates': 'query templates',
+  'load.documentTemplates': 'document templates',
+  'load.snippets': 'step library',
+  'load.cahierTemplates': 'test book templates',
+  'load.environments': 'environments',
+  'load.printRules': 'check rules',
+  'load.jira': 'Jira configuration',
+  'load.assistant': 'assistant configuration',
+
+  // Palette de commandes et raccourcis clavier
+  'palette.actions': 'Actions',
+  'palette.steps': 'Steps',
+  'palette.search': 'Search for an action or a step…',
+  'palette.noResult': 'No matching command.',
+  'palette.shortcuts': 'Keyboard shortcuts',
+  'palette.showShortcuts': 'Shortcuts (?)',
+  'palette.showCommands': 'Commands',
+  'palette.editorNote': 'In step text, only {keys} remain active: other combinations belong to the editor (link, history, typing). On macOS, Ctrl means Cmd.',
+  'palette.untitled': 'Untitled',
+  'palette.toggleConclusion': 'Set the conclusion to {conclusion}',
+  'palette.assistant': 'Suggest steps with the assistant',
+  'palette.downloadPdf': 'Download the PDF',
+  'palette.exportMarkdown': 'Export as Markdown',
+  'shortcut.palette': 'Command palette',
+  'shortcut.help': 'Shortcut list',
+  'shortcut.save': 'Save',
+  'shortcut.print': 'Print',
+  'shortcut.preview': 'Preview',
+  'shortcut.newStep': 'New step after the current step',
+  'shortcut.nextStep': 'Next step',
+  'shortcut.previousStep': 'Previous step',
+  'shortcut.toggleConclusion': 'Toggle the conclusion OK / KO',
+  'shortcut.undo': 'Undo',
+  'shortcut.redo': 'Redo',
+
+  // Paramètres
+  'settings.title': 'Settings',
+  'settings.interface': 'Interface',
+  'settings.language': 'Interface language',
+  'settings.languageHint': 'The document language is chosen for each test book.',
+  'settings.document': 'Document',
+  'settings.author': 'Author',
+  'settings.authorPlaceholder': 'First Last',
+  'settings.authorHint': 'Written to the properties of downloaded PDFs.',
+  'settings.images': 'Images',
+  'settings.imagesHint': 'Applies to execution captures and to images inserted in steps.',
+  'settings.maxFileSize': 'Max. size (MB)',
+  'settings.maxDimension': 'Max. resolution (px)',
+  'settings.quality': 'JPEG quality ({percent} %)',
+  'settings.reencodeAbove': 'Re-encode above (KB)',
+  'settings.reset': 'Defaults',
+  'settings.save': 'Save',
+
+  // Notifications
+  'toast.undo': 'Undo',
+
+  // Import d'un fichier JSON
+  'import.title': 'Import {file}',
+  'import.noNumber': 'No number',
+  'import.untitled': 'Untitled',
+  'import.stepCount': '{count} step(s)',
+  'import.replace': 'Replace the current test book',
+  'import.replaceHint': 'All the information is taken from the file.',
+  'import.merge': 'Add the steps to the current test book',
+  'import.mergeHint': 'The steps from the file are appended.',
+  'import.unexpectedError': 'The file could not be imported: {error}',
+  'import.invalidJson': 'The file is not valid JSON.',
+  'import.notCahier': 'The file does not contain a test book.',
+  'import.invalidVersion': 'Invalid format number: {version}.',
+  'import.newerVersion': 'This file was created by a newer version of the application (format v{version}).',
+  'import.invalidFields': 'The file contains invalid fields.',
+
+  // Assistant de rédaction
+  'assistant.title': 'Suggest steps',
+  'assistant.jiraName': 'JIRA name',
+  'assistant.notSet': 'not set',
+  'assistant.description': 'Description of the requirement',
+  'assistant.descriptionPlaceholder': 'Screens involved, business rules, cases to cover…',
+  'assistant.generating': 'Generating…',
+  'assistant.regenerate': 'New suggestion',
+  'assistant.generate': 'Generate',
+  'assistant.expectedResult': 'Expected result:',
+  'assistant.selection': '{selected} of {total} step(s) selected. Review them before running the tests.',
+  'assistant.replace': 'Replace the steps',
+  'assistant.add': 'Add to the test book',
+  'assistant.replaceConfirm': 'Replace the {count} step(s) of the test book with the suggestion?',
+
+  // Galerie des captures
+  'captures.captionPlaceholder': 'Caption (query, environment…)',
+  'captures.moveBefore': 'Move before',
+  'captures.moveAfter': 'Move after',
+  'captures.annotate': 'Annotate the capture',
+  'captures.delete': 'Delete the capture',
+  'captures.add': 'Add captures',
+  'captures.orDrop': 'or drag and drop',
+  'captures.pasteHint': 'Select the area then press Ctrl+V to paste',
+  'captures.formats': 'PNG, JPG up to {size} MB',
+  'captures.fileError': '{file}: {error}',
+
+  // Environnements
+  'environments.title': 'Environments',
+  'environments.hint': 'Environments offered for runs, for all users. Removing an environment does not change the test books already run on it.',
+  'environments.namePlaceholder': 'NAME',
+  'environments.descriptionPlaceholder': 'Description',
+  'environments.moveUp': 'Move up',
+  'environments.moveDown': 'Move down',
+  'environments.remove': 'Remove',
+  'environments.add': 'Add an environment',
+  'environments.save': 'Save',
+
+  // Historique
+  'history.title': 'History',
+  'history.snapshot': 'Snapshot',
+  'history.namePrompt': 'Snapshot name:',
+  'history.defaultName': 'Snapshot of {date}',
+  'history.deleteConfirm': 'Delete this snapshot?',
+  'history.empty': 'No snapshot for {jira}.',
+  'history.thisCahier': 'this test book',
+  'history.compare': 'Compare',
+  'history.restore': 'Restore',
+  'history.delete': 'Delete',
+  'history.identical': 'Identical to the current state.',
+  'history.emptyValue': '(empty)',
+
+  // Comparaison avec un instantané
+  'diff.conclusionText': 'Conclusion summary',
+  'diff.showSqlQuery': 'SQL query shown',
+  'diff.documentTemplate': 'Document template',
+  'diff.anomaly': 'Anomaly',
+  'diff.noCaption': 'no caption',
+  'diff.noCapture': 'none',
+  'diff.captures': 'Execution captures',
+  'diff.coverField': '{label} (cover page)',
+  'diff.workflow': 'Approval status',
+  'diff.queries': 'SQL queries',
+  'diff.stepRemoved': 'Step removed: {title}',
+  'diff.stepAdded': 'Step added: {title}',
+  'diff.stepTitle': 'Title of step {number}',
+  'diff.stepField': '{label} of step {number}',
+  'diff.stepContent': 'Content of step {number} ({title})',
+  'diff.stepOrder': 'Step order changed',
+
+  // Images
+  'image.tooLarge': 'The image is {size}, above the {limit} limit.',
+  'bytes.b': '{size} B',
+  'bytes.kb': '{size} KB',
+  'bytes.mb': '{size} MB',
+
+  // Modèles de document
+  'docTemplate.title': 'Document templates',
+  'docTemplate.new': 'New template',
+  'docTemplate.copy': '{name} (copy)',
+  'docTemplate.deleteConfirm': 'Delete the template “{name}”? The test books using it will go back to the standard template.',
+  'docTemplate.name': 'Name',
+  'docTemplate.coverLabel': 'Cover label',
+  'docTemplate.footerText': 'Footer text',
+  'docTemplate.logo': 'Logo',
+  'docTemplate.chooseImage': 'Choose an image',
+  'docTemplate.colors': 'Colours',
+  'docTemplate.color.headerLeft': 'Header (JIRA number)',
+  'docTemplate.color.headerRight': 'Header (name)',
+  'docTemplate.color.heading': 'Part headings',
+  'docTemplate.color.stepTitle': 'Step titles',
+  'docTemplate.coverFields': 'Cover page fields',
+  'docTemplate.sections': 'Document parts (titles in French, then in English)',
+  'docTemplate.titleEn': 'Title in English documents',
+  'docTemplate.moveUp': 'Move up',
+  'docTemplate.moveDown': 'Move down',
+  'docTemplate.duplicate': 'Duplicate to edit',
+  'docTemplate.delete': 'Delete',
+  'docTemplate.save': 'Save',
+
+  // Annotation des images
+  'annotator.title': 'Annotate the image',
+  'annotator.tool.arrow': 'Arrow',
+  'annotator.tool.rect': 'Rectangle',
+  'annotator.tool.callout': 'Numbered marker',
+  'annotator.tool.text': 'Text',
+  'annotator.tool.highlight': 'Highlight',
+  'annotator.tool.blur': 'Blur',
+  'annotator.tool.pixelate': 'Pixelate',
+  'annotator.undo': 'Remove the last annotation',
+  'annotator.textPrompt': 'Text to place on the image:',
+  'annotator.loading': 'Loading…',
+  'annotator.list': 'Annotations ({count})',
+  'annotator.quotedText': ' “{text}”',
+  'annotator.delete': 'Delete',
+  'annotator.originalKept': 'The original image is kept in the test book so the annotations can be edited; only the annotated version is printed and exported.',
+  'annotator.saving': 'Saving…',
+  'annotator.apply': 'Apply',
+  'annotator.error': 'Could not annotate: {error}',
+  'annotator.unreadable': 'Unreadable image.',
+
+  // Règles de contrôle avant impression
+  'printRule.jira': 'JIRA number and name filled in',
+  'printRule.date': 'Valid date',
+  'printRule.steps': 'At least one step',
+  'printRule.stepTitle': 'Custom step titles',
+  'printRule.stepContent': 'Step descriptions',
+  'printRule.stepExpected': 'Expected result filled in',
+  'printRule.stepExecuted': 'All steps run',
+  'printRule.stepAnomaly': 'Anomaly referenced for KO steps',
+  'printRule.sqlCapture': 'Execution capture when the SQL query is printed',
+  'printRule.conclusionText': 'Summary for a KO conclusion',
+  'printRule.conclusionConsistency': 'Conclusion consistent with the statuses',
+  'printIssue.jiraNumber': 'The JIRA number is empty.',
+  'printIssue.jiraName': 'The JIRA name is empty.',
+  'printIssue.date': 'The test book date is invalid.',
+  'printIssue.steps': 'The test book contains no step.',
+  'printIssue.defaultTitle': 'Default title “{title}”.',
+  'printIssue.emptyTitle': 'Empty title.',
+  'printIssue.emptyContent': 'Empty description.',
+  'printIssue.emptyExpected': 'Empty expected result.',
+  'printIssue.notExecuted': 'Step not run.',
+  'printIssue.missingAnomaly': 'KO step without an anomaly reference.',
+  'printIssue.sqlCapture': 'The SQL query is printed without a capture of its execution.',
+  'printIssue.conclusionText': 'The conclusion is KO without a summary explaining it.',
+  'printIssue.conclusionConsistency': 'Conclusion OK although some steps are KO or blocked.',
+
+  // Rapport des contrôles avant impression
+  'printCheck.rulesTitle': 'Check rules',
+  'printCheck.title': 'Pre-print checks',
+  'printCheck.backToReport': 'Back to the report',
+  'printCheck.rules': 'Rules',
+  'printCheck.rulesHint': 'Rules applied according to the test book type, for the whole team. Errors block printing and exports.',
+  'printCheck.rule': 'Rule',
+  'printCheck.error': 'ERROR',
+  'printCheck.warning': 'WARNING',
+  'printCheck.save': 'Save',
+  'printCheck.noIssue': 'No issue found for a {type} test book.',
+  'printCheck.cahier': 'Test book',
+  'printCheck.step': 'Step {number}: {title}',
+  'printCheck.untitled': 'untitled',
+  'printCheck.jump': 'Go to the field',
+  'printCheck.errors': '{count} error(s) to fix.',
+  'printCheck.errorsBeforeAction': '{count} error(s) to fix before continuing.',
+  'printCheck.warnings': '{count} warning(s).',
+  'printCheck.proceedAnyway': '{action} despite the warnings',
+
+  // Signature
+  'signature.name': 'Name',
+  'signature.namePlaceholder': 'First Last',
+  'signature.comment': 'Comment',
+  'signature.optionalComment': 'Comment (optional)',
+  'signature.signature': 'Signature',
+  'signature.missing': 'Required: {fields}.',
+  'signature.missingName': 'name',
+  'signature.missingSignature': 'signature',
+  'signature.missingComment': 'comment',
+  'signature.cancel': 'Cancel',
+  'signature.clear': 'Clear',
+
+  // Modèles de requêtes SQL
+  'sqlTemplate.title': 'SQL query templates',
+  'sqlTemplate.new': 'New template',
+  'sqlTemplate.copy': '{name} (copy)',
+  'sqlTemplate.deleteConfirm': 'Delete the template “{name}”? The test books using it will no longer show it.',
+  'sqlTemplate.name': 'Name',
+  'sqlTemplate.query': 'Query',
+  'sqlTemplate.placeholders': 'Available placeholders',
+  'sqlTemplate.placeholder.jiraDigits': 'Digits of the JIRA number (e.g. 1234)',
+  'sqlTemplate.placeholder.jiraNumber': 'Full JIRA number (e.g. ERP-1234)',
+  'sqlTemplate.placeholder.jiraName': 'JIRA name',
+  'sqlTemplate.placeholder.environment': 'Test environment',
+  'sqlTemplate.placeholder.date': 'Test date (YYYY-MM-DD)',
+  'sqlTemplate.preview': 'Preview for the current test book',
+  'sqlTemplate.duplicate': 'Duplicate to edit',
+  'sqlTemplate.delete': 'Delete',
+  'sqlTemplate.save': 'Save',
+
+  // Espace de travail
+  'workspace.title': 'My test books',
+  'workspace.new': 'New',
+  'workspace.copyPrompt': 'JIRA number of the copy:',
+  'workspace.copySuffix': '{jira}-copy',
+  'workspace.deleteConfirm': 'Permanently delete the test book {jira}?',
+  'workspace.search': 'Search (title, step content…)',
+  'workspace.allTypes': 'TMD and TMA',
+  'workspace.allConclusions': 'OK and KO',
+  'workspace.from': 'Start date',
+  'workspace.to': 'End date',
+  'workspace.showArchived': 'Show archived test books',
+  'workspace.loading': 'Loading…',
+  'workspace.empty': 'No test book found',
+  'workspace.untitled': 'Untitled',
+  'workspace.duplicate': 'Duplicate',
+  'workspace.unarchive': 'Unarchive',
+  'workspace.archive': 'Archive',
+  'workspace.delete': 'Delete',
+
+  // Bibliothèque
+  'library.title': 'Library',
+  'library.snippets': 'Steps',
+  'library.cahierTemplates': 'Test book templates',
+  'library.copy': '{name} (copy)',
+  'library.newTemplate': 'New template',
+  'library.deleteSnippetConfirm': 'Delete the step “{title}” from the library?',
+  'library.deleteTemplateConfirm': 'Delete the test book template “{name}”?',
+  'library.duplicate': 'Duplicate to edit',
+  'library.delete': 'Delete',
+  'library.save': 'Save',
+  'library.search': 'Search…',
+  'library.allCategories': 'All categories',
+  'library.addSnippetHint': 'To add a step, use “Save to library” on a step of the test book.',
+  'library.saveCurrent': 'Save the current test book',
+  'library.noResult': 'No result',
+  'library.stepTitle': 'Title',
+  'library.category': 'Category',
+  'library.content': 'Content',
+  'library.expectedResult': 'Expected result',
+  'library.locked': 'The current test book is approved',
+  'library.insert': 'Insert into the test book',
+  'library.name': 'Name',
+  'library.type': 'Type',
+  'library.queries': 'SQL queries',
+  'library.noQuery': 'None',
+  'library.description': 'Description',
+  'library.steps': 'Steps',
+  'library.step': 'Step {number}: {title}',
+  'library.newCahier': 'New test book',
+  'library.insertSteps': 'Insert the steps',
+
+  // Campagnes de recette
+  'campaign.title': 'Test campaigns',
+  'campaign.new': 'New campaign',
+  'campaign.empty': 'No campaign',
+  'campaign.name': 'Name',
+  'campaign.namePlaceholder': 'November delivery',
+  'campaign.version': 'Release',
+  'campaign.versionPlaceholder': 'Release on the cover page',
+  'campaign.from': 'From',
+  'campaign.to': 'To',
+  'campaign.delete': 'Delete',
+  'campaign.save': 'Save',
+  'campaign.deleteConfirm': 'Delete the campaign “{name}”? The test books are not deleted.',
+  'campaign.loadError': 'Could not load the campaigns: {error}',
+  'campaign.cahiersLoadError': 'Could not load the test books of the campaign: {error}',
+  'campaign.reportError': 'Error while generating the report: {error}',
+  'campaign.loadingCahiers': 'Loading the test books…',
+  'campaign.cahierCount': 'test book(s) in the campaign',
+  'campaign.generating': 'Generating…',
+  'campaign.pdfReport': 'PDF report',
+  'campaign.type': 'Type',
+  'campaign.environment': 'Environment',
+  'campaign.conclusion': 'Conclusion',
+  'campaign.validation': 'Approval',
+  'campaign.jira': 'JIRA',
+  'campaign.env': 'Env.',
+  'campaign.date': 'Date',
+  'campaign.koItems': 'KO items',
+  'campaign.koItemsCount': 'KO items ({count})',
+  'campaign.conclusionKo': 'Conclusion KO',
+  'campaign.cahierConclusionKo': '{name} — conclusion KO',
+  'campaign.open': 'Open the test book',
+  'campaign.noMatch': 'No test book matches the campaign criteria.',
+  'campaign.statusCounts': 'OK / KO / Blocked / Not run',
+  'campaign.reportTitle': 'Test report — {name}',
+  'campaign.reportMeta': '{criteria} — {count} test book(s), issued on {date}',
+  'campaign.period': 'from {from} to {to}',
+  'campaign.since': 'since {date}',
+  'campaign.until': 'until {date}',
+  'campaign.release': 'Release {release}',
+  'campaign.csv.name': 'Name',
+  'campaign.csv.environment': 'Environment',
+  'campaign.csv.version': 'Release',
+  'campaign.csv.workflow': 'Approval status',
+  'campaign.csv.anomalies': 'Anomalies',
+  'campaign.pdf.footer': 'Campaign {name}',
+  'campaign.pdf.count': '{count} test book(s)',
+  'campaign.pdf.subject': 'Test campaign {name}',
+
+  // Contrôle des champs d'un cahier (import et serveur)
+  'validation.missing': 'is missing',
+  'validation.object': 'must be an object',
+  'validation.list': 'must be a list',
+  'validation.oneOf': 'must be one of {values}',
+  'validation.string': 'must be a string',
+  'validation.id': 'must be a non-empty identifier',
+  'validation.date': 'must be a date in YYYY-MM-DD format',
+  'validation.boolean': 'must be true or false',
+  'validation.queryIds': 'must be a list of template identifiers',
+  'validation.coverInfo': 'must contain the texts {fields}',
+  'validation.signOffStatus': 'must have a status among {values}',
+  'validation.signature': '{role} must be null or a signature (name, signedAt, comment, image)',
+  'validation.image': 'must be an encoded image (data:image/…)',
+  'validation.duplicateRun': 'already has a run',
+  'validation.duplicateId': 'is duplicated',
+  'validation.annotation': 'must be an annotation ({types})',
+  'validation.color': 'must be a colour',
+  'validation.number': 'must be a number',
+
+  // Contrôle des données envoyées au serveur
+  'check.type': 'The type must be TMD or TMA.',
+  'check.template.name': 'The template name is required.',
+  'check.documentTemplate.texts': 'The logo, cover label and footer must be texts.',
+  'check.documentTemplate.colors': 'Colours must use the #RRGGBB format.',
+  'check.documentTemplate.coverFields': 'Unknown cover page fields.',
+  'check.documentTemplate.sections': 'Each part of the document must appear once, with a title.',
+  'check.library.category': 'The category is required.',
+  'check.snippet.title': 'The step title is required.',
+  'check.snippet.texts': 'The content and expected result must be texts.',
+  'check.cahierTemplate.description': 'The description must be a text.',
+  'check.cahierTemplate.queries': 'The queries must be a list of template identifiers.',
+  'check.cahierTemplate.steps': 'The steps must be a list.',
+  'check.cahierTemplate.invalidStep': 'Invalid step: {path}.',
+  'check.environments.empty': 'The list must contain at least one environment.',
+  'check.environments.name': '"{name}" is not a valid environment name (letters, digits, _ and -).',
+  'check.environments.description': 'The description must be a text.',
+  'check.environments.duplicate': 'The environment {name} is duplicated.',
+  'check.printRules.object': 'The settings must be an object.',
+  'check.printRules.unknown': 'Unknown rule: {rule}.',
+  'check.printRules.scope': 'Invalid scope for rule {rule}.',
+  'check.campaign.name': 'The campaign name is required.',
+  'check.campaign.criteria': 'The criteria must be texts.',
+  'check.campaign.dates': 'Dates must use the YYYY-MM-DD format.',
+  'check.campaign.empty': 'Enter a version or a period.',
+  'check.campaign.order': 'The start date is after the end date.',
+  'check.assistant.stepsTexts': 'The JIRA name and description must be texts.',
+  'check.assistant.stepsEmpty': 'Enter the JIRA name or a description of the need.',
+  'check.assistant.stepsTooLong': 'The description is too long.',
+  'check.assistant.title': 'The title must be a text.',
+  'check.assistant.blocks': 'The content must be a list of text blocks.',
+  'check.assistant.rewriteEmpty': 'The step contains no text to rephrase.',
+  'check.assistant.rewriteTooLong': 'The step is too long.',
+  'check.assistant.jiraTexts': 'The JIRA number and name must be texts.',
+  'check.assistant.conclusion': 'The conclusion must be OK or KO.',
+  'check.assistant.noStep': 'The test book contains no step.',
+  'check.assistant.steps': 'The steps sent are invalid.',
+
+  // Erreurs du serveur et des images
+  'error.server': 'Server error ({status})',
+  'error.invalidCahier': 'Invalid test book.',
+  'error.invalidRequest': 'Invalid request.',
+  'error.cahierExists': 'The test book {jira} already exists.',
+  'error.cahierLocked': 'The test book {jira} is approved: its steps can no longer be changed without unlocking it.',
+  'error.cahierNotFound': 'Test book not found.',
+  'error.queryTemplate': 'Invalid template: the name and query are required.',
+  'error.builtInTemplate': 'Built-in templates cannot be changed.',
+  'error.templateNotFound': 'Template not found.',
+  'error.builtInSnippet': 'Built-in steps cannot be changed.',
+  'error.snippetNotFound': 'Step not found.',
+  'error.campaignNotFound': 'Campaign not found.',
+  'error.jiraDisabled': 'The Jira integration is not configured on the server.',
+  'error.jiraKey': '"{key}" is not a Jira issue key (e.g. ERP-1234).',
+  'error.emptyComment': 'The comment is empty.',
+  'error.missingFile': 'Missing file or file name.',
+  'error.jiraUnreachable': 'Jira cannot be reached: {detail}',
+  'error.jiraNotFound': 'Issue {key} was not found in Jira.',
+  'error.jiraForbidden': 'Access denied by Jira: check the token and the account permissions.',
+  'error.jiraStatus': 'Jira error ({status}): {detail}',
+  'error.assistantDisabled': 'The writing assistant is not configured on the server.',
+  'error.geminiUnavailable': 'Gemini is unavailable: {detail}',
+  'error.geminiEmpty': 'Gemini returned no answer.',
+  'error.geminiUnusable': 'Gemini\'s answer cannot be used, try again.',
+  'error.imageUnreachable': 'Image not accessible: {src}',
+  'error.imageFormat': 'Unsupported format: {type}'
+};
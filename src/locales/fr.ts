@@ -0,0 +1,691 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Libellés français, langue de référence : les autres langues reprennent exactement les mêmes clés.
+// `{nom}` est remplacé par le paramètre du même nom.
+export const fr = {
+  // Statuts, circuit de validation, page de garde et parties du document
+  'status.OK': 'OK',
+  'status.KO': 'KO',
+  'status.BLOQUE': 'Bloqué',
+  'status.NON_EXECUTE': 'Non exécuté',
+  'workflow.BROUILLON': 'Brouillon',
+  'workflow.EN_REVUE': 'En revue',
+  'workflow.VALIDE': 'Validé',
+  'workflow.REFUSE': 'Refusé',
+  'signature.executedBy': 'Exécuté par',
+  'signature.validatedBy': 'Validé par',
+  'signature.refusedBy': 'Refusé par',
+  'signature.alt': 'Signature de {name}',
+  'cover.project': 'Projet',
+  'cover.lot': 'Lot',
+  'cover.version': 'Version',
+  'cover.tester': 'Testeur',
+  'cover.validator': 'Valideur',
+  'section.details': 'Détails Techniques',
+  'section.steps': 'Déroulement des Tests',
+  'section.conclusion': 'Conclusion du Test',
+
+  // Document imprimé et exports
+  'doc.jiraNamePlaceholder': 'NOM DE LA JIRA',
+  'doc.toc': 'Sommaire',
+  'doc.stepTitle': 'Étape {number} : {title}',
+  'doc.query': 'Requête SQL de vérification — {name} :',
+  'doc.captures': 'Exécution SQL :',
+  'doc.capturesOf': 'Exécution SQL — {environment} :',
+  'doc.environmentPart': 'Environnement de test',
+  'doc.step': 'Étape',
+  'doc.conclusion': 'Conclusion',
+  'doc.environment': 'Environnement',
+  'doc.expectedResult': 'Résultat attendu',
+  'doc.actualResult': 'Résultat obtenu',
+  'doc.status': 'Statut',
+  'doc.anomaly': 'Anomalie {ref}',
+  'doc.goodForProd': 'BON POUR PROD {conclusion}',
+  'doc.signedAt': 'Le {date}',
+  'doc.workflowStatus': 'Statut du cahier : {status}',
+  'doc.image': 'image',
+  'doc.subject': 'Cahier de recette {type} — {environment}',
+  'jira.comment.title': 'Cahier de recette [{type}] du {date} — environnement {environment}',
+  'jira.comment.steps': 'Étapes : {ok} OK, {ko} KO, {blocked} bloquée(s), {notRun} non exécutée(s)',
+  'jira.comment.validation': 'Validation : {status}',
+  'jira.comment.executedBy': 'exécuté par {name}',
+  'jira.comment.validatedBy': 'validé par {name}',
+  'jira.comment.refusedBy': 'refusé par {name}',
+  'jira.comment.attachment': 'Document joint : {file}',
+
+  // Langues
+  'language.fr': 'Français',
+  'language.en': 'English',
+
+  // En-tête
+  'app.title': 'Cahier de Tests ERP',
+  'header.capturesSize': 'Dont captures : {size}',
+  'header.palette': 'Palette de commandes et raccourcis clavier',
+  'header.undo': 'Annuler ({keys})',
+  'header.redo': 'Rétablir ({keys})',
+  'header.import': 'Importer un fichier JSON',
+  'header.exportJson': 'Exporter en JSON',
+  'header.exportDocx': 'Exporter en Word (.docx)',
+  'header.exportMarkdown': 'Exporter en Markdown (archive .zip avec les images)',
+  'header.workspace': 'Mes cahiers',
+  'header.library': 'Bibliothèque',
+  'header.campaigns': 'Campagnes',
+  'header.history': 'Historique',
+  'header.settings': 'Paramètres',
+  'header.save': 'Sauvegarder',
+  'header.preview': 'Aperçu',
+  'header.printCheck': 'Contrôles avant impression',
+  'header.print': 'Imprimer',
+  'header.generating': 'Génération…',
+  'header.downloadPdf': 'Télécharger PDF',
+  'header.withKeys': '{label} ({keys})',
+
+  // Informations JIRA
+  'jira.section': 'Informations JIRA',
+  'jira.number': 'Numéro JIRA',
+  'jira.numberPlaceholder': 'ex: ERP-1234',
+  'jira.fetch': 'Récupérer le titre, le type, l\'assigné et la version depuis Jira',
+  'jira.numberFormat': 'Format attendu : PROJET-123 (lettres majuscules, tiret, numéro).',
+  'jira.name': 'Nom de la JIRA',
+  'jira.namePlaceholder': 'Description courte',
+  'jira.type': 'Type',
+  'jira.date': 'Date',
+  'sql.toggle': 'Requête SQL Developer',
+  'sql.manageTemplates': 'Gérer les modèles de requêtes',
+  'sql.templates': 'Modèles',
+  'sql.remove': 'Retirer la requête',
+  'sql.copy': 'Copier la requête',
+  'sql.add': '+ Ajouter une requête…',
+  'sql.generated': 'Générées automatiquement à partir du numéro JIRA',
+
+  // Configuration du test
+  'config.section': 'Configuration Test',
+  'config.runs': 'Exécutions par environnement',
+  'config.manageEnvironments': 'Gérer la liste des environnements',
+  'config.environments': 'Environnements',
+  'config.runDate': 'Exécution du {date}',
+  'config.deleteRun': 'Supprimer l\'exécution',
+  'config.primaryRun': 'Exécution principale : date, environnement et conclusion du cahier',
+  'config.promoteRun': 'En faire l\'exécution principale',
+  'config.newRun': 'Nouvelle exécution sur…',
+  'config.currentRun': 'Date, captures, statuts des étapes et conclusion : exécution sur {environment}',
+  'config.conclusion': 'Conclusion',
+  'config.goodForProd': 'Bon pour Prod {conclusion}',
+  'config.conclusionMismatch': '{ko} étape(s) KO et {blocked} bloquée(s) : la conclusion devrait être KO.',
+  'config.switchToKo': 'Passer la conclusion en KO',
+  'config.summary': 'Synthèse',
+  'config.summaryAssistantHint': 'Résumer les étapes et leurs résultats',
+  'config.summaryDrafting': 'Rédaction…',
+  'config.summaryAssistant': 'Rédiger avec l\'assistant',
+  'config.summaryPlaceholder': 'Synthèse de la recette, imprimée sous la conclusion (facultatif)',
+  'config.captures': 'Captures exécution requêtes',
+
+  // Validation
+  'signOff.section': 'Validation',
+  'signOff.locked': 'Étapes, captures et conclusion ne sont plus modifiables.',
+  'signOff.submit': 'Soumettre pour revue',
+  'signOff.validate': 'Valider',
+  'signOff.refuse': 'Refuser',
+  'signOff.unlock': 'Déverrouiller',
+  'signOff.backToDraft': 'Repasser en brouillon',
+  'signOff.validateTitle': 'Valider le cahier',
+  'signOff.refuseTitle': 'Refuser le cahier',
+  'signOff.signAndSubmit': 'Signer et soumettre',
+  'signOff.signAndValidate': 'Signer et valider',
+  'signOff.signAndRefuse': 'Signer et refuser',
+
+  // Présentation du document
+  'presentation.section': 'Présentation du document',
+  'presentation.manageTemplates': 'Gérer les modèles de document',
+  'presentation.templates': 'Modèles',
+  'presentation.template': 'Modèle',
+  'presentation.language': 'Langue du document',
+  'presentation.languageHint': 'Impression, PDF, exports et commentaire Jira',
+
+  // Étapes
+  'steps.section': 'Étapes du Test',
+  'steps.addSection': 'Ajouter une section',
+  'steps.propose': 'Proposer des étapes',
+  'steps.add': 'Ajouter une étape',
+  'steps.addHint': 'Nouvelle étape après l\'étape courante : {keys}',
+  'steps.moveUp': 'Monter',
+  'steps.moveDown': 'Descendre',
+  'steps.insertAfter': 'Insérer une étape après',
+  'steps.rewriting': 'Reformulation…',
+  'steps.rewrite': 'Reformuler avec l\'assistant',
+  'steps.saveToLibrary': 'Enregistrer dans la bibliothèque',
+  'steps.duplicate': 'Dupliquer',
+  'steps.delete': 'Supprimer',
+  'steps.drag': 'Glisser pour déplacer',
+  'steps.sectionPlaceholder': 'Titre de la section',
+  'steps.titlePlaceholder': 'Titre de l\'étape',
+  'steps.expectedResult': 'Résultat attendu',
+  'steps.actualResult': 'Résultat obtenu',
+  'steps.status': 'Statut',
+  'steps.anomalyRef': 'Référence anomalie',
+  'steps.anomalyPlaceholder': 'ex: ERP-5678',
+  'steps.empty': 'Aucune étape ajoutée',
+  'steps.addFirst': 'Ajouter votre première étape',
+  'steps.defaultTitle': 'Étape {number}',
+  'steps.newSection': 'Nouvelle section',
+  'steps.copy': '{title} (copie)',
+  'steps.untitled': 'sans titre',
+  'editor.annotateHint': 'Double-cliquez sur une image pour l\'annoter',
+
+  // Brouillon et aperçu
+  'draft.title': 'Brouillon non sauvegardé',
+  'draft.found': 'Un brouillon de {jira} modifié le {date} a été retrouvé. Voulez-vous le restaurer ?',
+  'draft.noNumber': 'cahier sans numéro',
+  'draft.ignore': 'Ignorer',
+  'draft.restore': 'Restaurer le brouillon',
+  'preview.title': 'Aperçu avant impression (Format A4)',
+  'preview.printNow': 'Imprimer maintenant',
+  'preview.publishHint': 'Joindre le PDF au ticket et y publier la conclusion',
+  'preview.publishing': 'Publication…',
+  'preview.publish': 'Publier dans Jira',
+
+  // Actions soumises aux contrôles avant impression
+  'action.print': 'Imprimer',
+  'action.download': 'Télécharger',
+  'action.export': 'Exporter',
+  'action.publish': 'Publier',
+
+  // Instantanés de l'historique
+  'snapshot.conclusion': 'Conclusion passée de {from} à {to}',
+  'snapshot.beforeRestore': 'Avant retour à « {name} »',
+  'snapshot.save': 'Sauvegarde du {date}',
+  'snapshot.submitted': 'Soumis pour revue par {name}',
+  'snapshot.validated': 'Validé par {name}',
+  'snapshot.refused': 'Refusé par {name}',
+  'snapshot.backToDraft': 'Retour en brouillon',
+
+  // Messages, confirmations et notifications
+  'message.restoreLocked': 'Le cahier est validé : déverrouillez-le avant de revenir à un instantané.',
+  'message.restoreConfirm': 'Revenir à l\'instantané « {name} » ? L\'état actuel sera conservé dans l\'historique.',
+  'message.deleteRun': 'Supprimer l\'exécution sur {environment} (statuts, captures et conclusion) ?',
+  'message.captureDeleted': 'Capture supprimée',
+  'message.stepDeleted': 'Étape « {title} » supprimée',
+  'message.sectionDeleted': 'Section « {title} » supprimée',
+  'message.nothingToRewrite': 'L\'étape ne contient aucun texte à reformuler.',
+  'message.replaceSummary': 'Remplacer la synthèse existante par celle de l\'assistant ?',
+  'message.snippetCategory': 'Catégorie de l\'étape dans la bibliothèque :',
+  'message.snippetDefaultCategory': 'Général',
+  'message.mergeLocked': 'Le cahier est validé : déverrouillez-le avant d\'y ajouter des étapes.',
+  'message.jiraRequired': 'Veuillez renseigner le numéro de la JIRA avant de sauvegarder.',
+  'message.saveError': 'Erreur lors de la sauvegarde : {error}',
+  'message.saved': 'Cahier sauvegardé avec succès !',
+  'message.unlockConfirm': 'Déverrouiller le cahier ? Il repassera en brouillon et les signatures seront effacées.',
+  'message.backToDraftConfirm': 'Repasser le cahier en brouillon ? Les signatures seront effacées.',
+  'message.discardChanges': 'Les modifications non sauvegardées du cahier en cours seront perdues. Continuer ?',
+  'message.openError': 'Erreur lors de l\'ouverture du cahier : {error}',
+  'message.exportError': 'Erreur lors de l\'export : {error}',
+  'message.jiraError': 'Erreur Jira : {error}',
+  'message.publishConfirm': 'Joindre {file} au ticket {jira} et y publier la conclusion {conclusion} ?',
+  'message.published': 'Cahier publié sur {jira}.',
+  'message.publishError': 'Erreur lors de la publication dans Jira : {error}',
+  'message.pdfError': 'Erreur lors de la génération du PDF : {error}',
+  'message.loadError': 'Chargement impossible depuis le serveur : {items}',
+  'message.autosaveError': 'Autosauvegarde du brouillon impossible : {error}',
+  'message.snapshotError': 'Instantané de l\'historique impossible : {error}',
+  'load.queryTemplates': 'modèles de requêtes',
+  'load.documentTemplates': 'modèles de document',
+  'load.snippets': 'bibliothèque d\'étapes',
+  'load.cahierTemplates': 'modèles de cahier',
+  'load.environments': 'environnements',
+  'load.printRules': 'règles de contrôle',
+  'load.jira': 'configuration Jira',
+  'load.assistant': 'configuration de l\'assistant',
+
+  // Palette de commandes et raccourcis clavier
+  'palette.actions': 'Actions',
+  'palette.steps': 'Étapes',
+  'palette.search': 'Rechercher une action ou une étape…',
+  'palette.noResult': 'Aucune commande ne correspond.',
+  'palette.shortcuts': 'Raccourcis clavier',
+  'palette.showShortcuts': 'Raccourcis (?)',
+  'palette.showCommands': 'Commandes',
+  'palette.editorNote': 'Dans le texte des étapes, seuls {keys} restent actifs : les autres combinaisons sont celles de l\'éditeur (lien, historique, saisie). Sous macOS, Ctrl correspond à Cmd.',
+  'palette.untitled': 'Sans titre',
+  'palette.toggleConclusion': 'Passer la conclusion en {conclusion}',
+  'palette.assistant': 'Proposer des étapes avec l\'assistant',
+  'palette.downloadPdf': 'Télécharger le PDF',
+  'palette.exportMarkdown': 'Exporter en Markdown',
+  'shortcut.palette': 'Palette de commandes',
+  'shortcut.help': 'Liste des raccourcis',
+  'shortcut.save': 'Sauvegarder',
+  'shortcut.print': 'Imprimer',
+  'shortcut.preview': 'Aperçu',
+  'shortcut.newStep': 'Nouvelle étape après l\'étape courante',
+  'shortcut.nextStep': 'Étape suivante',
+  'shortcut.previousStep': 'Étape précédente',
+  'shortcut.toggleConclusion': 'Basculer la conclusion OK / KO',
+  'shortcut.undo': 'Annuler',
+  'shortcut.redo': 'Rétablir',
+
+  // Paramètres
+  'settings.title': 'Paramètres',
+  'settings.interface': 'Interface',
+  'settings.language': 'Langue de l\'interface',
+  'settings.languageHint': 'La langue des documents se choisit pour chaque cahier.',
+  'settings.document': 'Document',
+  'settings.author': 'Auteur',
+  'settings.authorPlaceholder': 'Prénom Nom',
+  'settings.authorHint': 'Renseigné dans les propriétés des PDF téléchargés.',
+  'settings.images': 'Images',
+  'settings.imagesHint': 'Appliqué aux captures d\'exécution et aux images insérées dans les étapes.',
+  'settings.maxFileSize': 'Taille max. (Mo)',
+  'settings.maxDimension': 'Résolution max. (px)',
+  'settings.quality': 'Qualité JPEG ({percent} %)',
+  'settings.reencodeAbove': 'Ré-encoder au-delà de (Ko)',
+  'settings.reset': 'Valeurs par défaut',
+  'settings.save': 'Enregistrer',
+
+  // Notifications
+  'toast.undo': 'Annuler',
+
+  // Import d'un fichier JSON
+  'import.title': 'Importer {file}',
+  'import.noNumber': 'Sans numéro',
+  'import.untitled': 'Sans titre',
+  'import.stepCount': '{count} étape(s)',
+  'import.replace': 'Remplacer le cahier en cours',
+  'import.replaceHint': 'Toutes les informations sont reprises du fichier.',
+  'import.merge': 'Ajouter les étapes au cahier en cours',
+  'import.mergeHint': 'Les étapes du fichier sont ajoutées à la suite.',
+  'import.unexpectedError': 'Le fichier n\'a pas pu être importé : {error}',
+  'import.invalidJson': 'Le fichier n\'est pas un JSON valide.',
+  'import.notCahier': 'Le fichier ne contient pas de cahier.',
+  'import.invalidVersion': 'Numéro de format invalide : {version}.',
+  'import.newerVersion': 'Ce fichier a été créé par une version plus récente de l\'application (format v{version}).',
+  'import.invalidFields': 'Le fichier contient des champs invalides.',
+
+  // Assistant de rédaction
+  'assistant.title': 'Proposer des étapes',
+  'assistant.jiraName': 'Nom JIRA',
+  'assistant.notSet': 'non renseigné',
+  'assistant.description': 'Description du besoin',
+  'assistant.descriptionPlaceholder': 'Écrans concernés, règles de gestion, cas à couvrir…',
+  'assistant.generating': 'Génération…',
+  'assistant.regenerate': 'Nouvelle proposition',
+  'assistant.generate': 'Générer',
+  'assistant.expectedResult': 'Résultat attendu :',
+  'assistant.selection': '{selected} étape(s) sélectionnée(s) sur {total}. Relisez-les avant d\'exécuter la recette.',
+  'assistant.replace': 'Remplacer les étapes',
+  'assistant.add': 'Ajouter au cahier',
+  'assistant.replaceConfirm': 'Remplacer les {count} étape(s) du cahier par la proposition ?',
+
+  // Galerie des captures
+  'captures.captionPlaceholder': 'Légende (requête, environnement…)',
+  'captures.moveBefore': 'Déplacer avant',
+  'captures.moveAfter': 'Déplacer après',
+  'captures.annotate': 'Annoter la capture',
+  'captures.delete': 'Supprimer la capture',
+  'captures.add': 'Ajouter des captures',
+  'captures.orDrop': 'ou glisser-déposer',
+  'captures.pasteHint': 'Sélectionner la zone puis Ctrl+V pour coller',
+  'captures.formats': 'PNG, JPG jusqu\'à {size} Mo',
+  'captures.fileError': '{file} : {error}',
+
+  // Environnements
+  'environments.title': 'Environnements',
+  'environments.hint': 'Environnements proposés pour les exécutions, pour tous les utilisateurs. Retirer un environnement ne modifie pas les cahiers déjà exécutés dessus.',
+  'environments.namePlaceholder': 'NOM',
+  'environments.descriptionPlaceholder': 'Description',
+  'environments.moveUp': 'Monter',
+  'environments.moveDown': 'Descendre',
+  'environments.remove': 'Retirer',
+  'environments.add': 'Ajouter un environnement',
+  'environments.save': 'Enregistrer',
+
+  // Historique
+  'history.title': 'Historique',
+  'history.snapshot': 'Instantané',
+  'history.namePrompt': 'Nom de l\'instantané :',
+  'history.defaultName': 'Instantané du {date}',
+  'history.deleteConfirm': 'Supprimer cet instantané ?',
+  'history.empty': 'Aucun instantané pour {jira}.',
+  'history.thisCahier': 'ce cahier',
+  'history.compare': 'Comparer',
+  'history.restore': 'Restaurer',
+  'history.delete': 'Supprimer',
+  'history.identical': 'Identique à l\'état actuel.',
+  'history.emptyValue': '(vide)',
+
+  // Comparaison avec un instantané
+  'diff.conclusionText': 'Synthèse de conclusion',
+  'diff.showSqlQuery': 'Requête SQL affichée',
+  'diff.documentTemplate': 'Modèle de document',
+  'diff.anomaly': 'Anomalie',
+  'diff.noCaption': 'sans légende',
+  'diff.noCapture': 'aucune',
+  'diff.captures': 'Captures d\'exécution',
+  'diff.coverField': '{label} (page de garde)',
+  'diff.workflow': 'Statut de validation',
+  'diff.queries': 'Requêtes SQL',
+  'diff.stepRemoved': 'Étape supprimée : {title}',
+  'diff.stepAdded': 'Étape ajoutée : {title}',
+  'diff.stepTitle': 'Titre de l\'étape {number}',
+  'diff.stepField': '{label} de l\'étape {number}',
+  'diff.stepContent': 'Contenu de l\'étape {number} ({title})',
+  'diff.stepOrder': 'Ordre des étapes modifié',
+
+  // Images
+  'image.tooLarge': 'L\'image fait {size}, au-delà de la limite de {limit}.',
+  'bytes.b': '{size} o',
+  'bytes.kb': '{size} Ko',
+  'bytes.mb': '{size} Mo',
+
+  // Modèles de document
+  'docTemplate.title': 'Modèles de document',
+  'docTemplate.new': 'Nouveau modèle',
+  'docTemplate.copy': '{name} (copie)',
+  'docTemplate.deleteConfirm': 'Supprimer le modèle « {name} » ? Les cahiers qui l\'utilisent reprendront le modèle standard.',
+  'docTemplate.name': 'Nom',
+  'docTemplate.coverLabel': 'Libellé de couverture',
+  'docTemplate.footerText': 'Texte du pied de page',
+  'docTemplate.logo': 'Logo',
+  'docTemplate.chooseImage': 'Choisir une image',
+  'docTemplate.colors': 'Couleurs',
+  'docTemplate.color.headerLeft': 'En-tête (numéro JIRA)',
+  'docTemplate.color.headerRight': 'En-tête (nom)',
+  'docTemplate.color.heading': 'Titres des parties',
+  'docTemplate.color.stepTitle': 'Titres des étapes',
+  'docTemplate.coverFields': 'Champs de la page de garde',
+  'docTemplate.sections': 'Parties du document (titres en français, puis en anglais)',
+  'docTemplate.titleEn': 'Titre dans les documents en anglais',
+  'docTemplate.moveUp': 'Monter',
+  'docTemplate.moveDown': 'Descendre',
+  'docTemplate.duplicate': 'Dupliquer pour modifier',
+  'docTemplate.delete': 'Supprimer',
+  'docTemplate.save': 'Enregistrer',
+
+  // Annotation des images
+  'annotator.title': 'Annoter l\'image',
+  'annotator.tool.arrow': 'Flèche',
+  'annotator.tool.rect': 'Rectangle',
+  'annotator.tool.callout': 'Repère numéroté',
+  'annotator.tool.text': 'Texte',
+  'annotator.tool.highlight': 'Surlignage',
+  'annotator.tool.blur': 'Flou',
+  'annotator.tool.pixelate': 'Pixellisation',
+  'annotator.undo': 'Retirer la dernière annotation',
+  'annotator.textPrompt': 'Texte à placer sur l\'image :',
+  'annotator.loading': 'Chargement…',
+  'annotator.list': 'Annotations ({count})',
+  'annotator.quotedText': ' « {text} »',
+  'annotator.delete': 'Supprimer',
+  'annotator.originalKept': 'L\'image d\'origine est conservée dans le cahier pour reprendre les annotations ; seule la version annotée est imprimée et exportée.',
+  'annotator.saving': 'Enregistrement…',
+  'annotator.apply': 'Appliquer',
+  'annotator.error': 'Annotation impossible : {error}',
+  'annotator.unreadable': 'Image illisible.',
+
+  // Règles de contrôle avant impression
+  'printRule.jira': 'Numéro et nom de la JIRA renseignés',
+  'printRule.date': 'Date valide',
+  'printRule.steps': 'Au moins une étape',
+  'printRule.stepTitle': 'Titres d\'étape personnalisés',
+  'printRule.stepContent': 'Description des étapes',
+  'printRule.stepExpected': 'Résultat attendu renseigné',
+  'printRule.stepExecuted': 'Toutes les étapes exécutées',
+  'printRule.stepAnomaly': 'Anomalie référencée pour les étapes KO',
+  'printRule.sqlCapture': 'Capture d\'exécution quand la requête SQL est imprimée',
+  'printRule.conclusionText': 'Synthèse pour une conclusion KO',
+  'printRule.conclusionConsistency': 'Conclusion cohérente avec les statuts',
+  'printIssue.jiraNumber': 'Le numéro de la JIRA est vide.',
+  'printIssue.jiraName': 'Le nom de la JIRA est vide.',
+  'printIssue.date': 'La date du cahier est invalide.',
+  'printIssue.steps': 'Le cahier ne contient aucune étape.',
+  'printIssue.defaultTitle': 'Titre par défaut « {title} ».',
+  'printIssue.emptyTitle': 'Titre vide.',
+  'printIssue.emptyContent': 'Description vide.',
+  'printIssue.emptyExpected': 'Résultat attendu vide.',
+  'printIssue.notExecuted': 'Étape non exécutée.',
+  'printIssue.missingAnomaly': 'Étape KO sans référence d\'anomalie.',
+  'printIssue.sqlCapture': 'La requête SQL est imprimée sans capture de son exécution.',
+  'printIssue.conclusionText': 'La conclusion est KO sans synthèse pour l\'expliquer.',
+  'printIssue.conclusionConsistency': 'Conclusion OK alors que des étapes sont KO ou bloquées.',
+
+  // Rapport des contrôles avant impression
+  'printCheck.rulesTitle': 'Règles de contrôle',
+  'printCheck.title': 'Contrôles avant impression',
+  'printCheck.backToReport': 'Retour au rapport',
+  'printCheck.rules': 'Règles',
+  'printCheck.rulesHint': 'Règles appliquées selon le type du cahier, pour toute l\'équipe. Les erreurs bloquent l\'impression et les exports.',
+  'printCheck.rule': 'Règle',
+  'printCheck.error': 'ERREUR',
+  'printCheck.warning': 'AVERTISSEMENT',
+  'printCheck.save': 'Enregistrer',
+  'printCheck.noIssue': 'Aucun problème détecté pour un cahier {type}.',
+  'printCheck.cahier': 'Cahier',
+  'printCheck.step': 'Étape {number} : {title}',
+  'printCheck.untitled': 'sans titre',
+  'printCheck.jump': 'Aller au champ concerné',
+  'printCheck.errors': '{count} erreur(s) à corriger.',
+  'printCheck.errorsBeforeAction': '{count} erreur(s) à corriger avant de continuer.',
+  'printCheck.warnings': '{count} avertissement(s).',
+  'printCheck.proceedAnyway': '{action} malgré les avertissements',
+
+  // Signature
+  'signature.name': 'Nom',
+  'signature.namePlaceholder': 'Prénom Nom',
+  'signature.comment': 'Commentaire',
+  'signature.optionalComment': 'Commentaire (facultatif)',
+  'signature.signature': 'Signature',
+  'signature.missing': 'À renseigner : {fields}.',
+  'signature.missingName': 'le nom',
+  'signature.missingSignature': 'la signature',
+  'signature.missingComment': 'le commentaire',
+  'signature.cancel': 'Annuler',
+  'signature.clear': 'Effacer',
+
+  // Modèles de requêtes SQL
+  'sqlTemplate.title': 'Modèles de requêtes SQL',
+  'sqlTemplate.new': 'Nouveau modèle',
+  'sqlTemplate.copy': '{name} (copie)',
+  'sqlTemplate.deleteConfirm': 'Supprimer le modèle « {name} » ? Les cahiers qui l\'utilisent ne l\'afficheront plus.',
+  'sqlTemplate.name': 'Nom',
+  'sqlTemplate.query': 'Requête',
+  'sqlTemplate.placeholders': 'Marqueurs disponibles',
+  'sqlTemplate.placeholder.jiraDigits': 'Chiffres du numéro JIRA (ex: 1234)',
+  'sqlTemplate.placeholder.jiraNumber': 'Numéro JIRA complet (ex: ERP-1234)',
+  'sqlTemplate.placeholder.jiraName': 'Nom de la JIRA',
+  'sqlTemplate.placeholder.environment': 'Environnement de test',
+  'sqlTemplate.placeholder.date': 'Date du test (AAAA-MM-JJ)',
+  'sqlTemplate.preview': 'Aperçu pour le cahier en cours',
+  'sqlTemplate.duplicate': 'Dupliquer pour modifier',
+  'sqlTemplate.delete': 'Supprimer',
+  'sqlTemplate.save': 'Enregistrer',
+
+  // Espace de travail
+  'workspace.title': 'Mes cahiers',
+  'workspace.new': 'Nouveau',
+  'workspace.copyPrompt': 'Numéro JIRA de la copie :',
+  'workspace.copySuffix': '{jira}-copie',
+  'workspace.deleteConfirm': 'Supprimer définitivement le cahier {jira} ?',
+  'workspace.search': 'Rechercher (titre, contenu des étapes…)',
+  'workspace.allTypes': 'TMD et TMA',
+  'workspace.allConclusions': 'OK et KO',
+  'workspace.from': 'Date de début',
+  'workspace.to': 'Date de fin',
+  'workspace.showArchived': 'Afficher les cahiers archivés',
+  'workspace.loading': 'Chargement…',
+  'workspace.empty': 'Aucun cahier trouvé',
+  'workspace.untitled': 'Sans titre',
+  'workspace.duplicate': 'Dupliquer',
+  'workspace.unarchive': 'Désarchiver',
+  'workspace.archive': 'Archiver',
+  'workspace.delete': 'Supprimer',
+
+  // Bibliothèque
+  'library.title': 'Bibliothèque',
+  'library.snippets': 'Étapes',
+  'library.cahierTemplates': 'Modèles de cahier',
+  'library.copy': '{name} (copie)',
+  'library.newTemplate': 'Nouveau modèle',
+  'library.deleteSnippetConfirm': 'Supprimer l\'étape « {title} » de la bibliothèque ?',
+  'library.deleteTemplateConfirm': 'Supprimer le modèle de cahier « {name} » ?',
+  'library.duplicate': 'Dupliquer pour modifier',
+  'library.delete': 'Supprimer',
+  'library.save': 'Enregistrer',
+  'library.search': 'Rechercher…',
+  'library.allCategories': 'Toutes les catégories',
+  'library.addSnippetHint': 'Pour ajouter une étape, utilisez « Enregistrer dans la bibliothèque » sur une étape du cahier.',
+  'library.saveCurrent': 'Enregistrer le cahier en cours',
+  'library.noResult': 'Aucun résultat',
+  'library.stepTitle': 'Titre',
+  'library.category': 'Catégorie',
+  'library.content': 'Contenu',
+  'library.expectedResult': 'Résultat attendu',
+  'library.locked': 'Le cahier en cours est validé',
+  'library.insert': 'Insérer dans le cahier',
+  'library.name': 'Nom',
+  'library.type': 'Type',
+  'library.queries': 'Requêtes SQL',
+  'library.noQuery': 'Aucune',
+  'library.description': 'Description',
+  'library.steps': 'Étapes',
+  'library.step': 'Étape {number} : {title}',
+  'library.newCahier': 'Nouveau cahier',
+  'library.insertSteps': 'Insérer les étapes',
+
+  // Campagnes de recette
+  'campaign.title': 'Campagnes de recette',
+  'campaign.new': 'Nouvelle campagne',
+  'campaign.empty': 'Aucune campagne',
+  'campaign.name': 'Nom',
+  'campaign.namePlaceholder': 'Livraison de novembre',
+  'campaign.version': 'Version',
+  'campaign.versionPlaceholder': 'Version de la page de garde',
+  'campaign.from': 'Du',
+  'campaign.to': 'Au',
+  'campaign.delete': 'Supprimer',
+  'campaign.save': 'Enregistrer',
+  'campaign.deleteConfirm': 'Supprimer la campagne « {name} » ? Les cahiers ne sont pas supprimés.',
+  'campaign.loadError': 'Chargement des campagnes impossible : {error}',
+  'campaign.cahiersLoadError': 'Chargement des cahiers de la campagne impossible : {error}',
+  'campaign.reportError': 'Erreur lors de la génération du rapport : {error}',
+  'campaign.loadingCahiers': 'Chargement des cahiers…',
+  'campaign.cahierCount': 'cahier(s) dans la campagne',
+  'campaign.generating': 'Génération…',
+  'campaign.pdfReport': 'Rapport PDF',
+  'campaign.type': 'Type',
+  'campaign.environment': 'Environnement',
+  'campaign.conclusion': 'Conclusion',
+  'campaign.validation': 'Validation',
+  'campaign.jira': 'JIRA',
+  'campaign.env': 'Env.',
+  'campaign.date': 'Date',
+  'campaign.koItems': 'Points KO',
+  'campaign.koItemsCount': 'Points KO ({count})',
+  'campaign.conclusionKo': 'Conclusion KO',
+  'campaign.cahierConclusionKo': '{name} — conclusion KO',
+  'campaign.open': 'Ouvrir le cahier',
+  'campaign.noMatch': 'Aucun cahier ne correspond aux critères de la campagne.',
+  'campaign.statusCounts': 'OK / KO / Bloqué / Non exéc.',
+  'campaign.reportTitle': 'Rapport de recette — {name}',
+  'campaign.reportMeta': '{criteria} — {count} cahier(s), édité le {date}',
+  'campaign.period': 'du {from} au {to}',
+  'campaign.since': 'depuis le {date}',
+  'campaign.until': 'jusqu\'au {date}',
+  'campaign.release': 'Version {release}',
+  'campaign.csv.name': 'Nom',
+  'campaign.csv.environment': 'Environnement',
+  'campaign.csv.version': 'Version',
+  'campaign.csv.workflow': 'Statut de validation',
+  'campaign.csv.anomalies': 'Anomalies',
+  'campaign.pdf.footer': 'Campagne {name}',
+  'campaign.pdf.count': '{count} cahier(s)',
+  'campaign.pdf.subject': 'Campagne de recette {name}',
+
+  // Contrôle des champs d'un cahier (import et serveur)
+  'validation.missing': 'est manquant',
+  'validation.object': 'doit être un objet',
+  'validation.list': 'doit être une liste',
+  'validation.oneOf': 'doit valoir {values}',
+  'validation.string': 'doit être une chaîne de caractères',
+  'validation.id': 'doit être un identifiant non vide',
+  'validation.date': 'doit être une date au format AAAA-MM-JJ',
+  'validation.boolean': 'doit être true ou false',
+  'validation.queryIds': 'doit être une liste d\'identifiants de modèles',
+  'validation.coverInfo': 'doit contenir les textes {fields}',
+  'validation.signOffStatus': 'doit avoir un statut parmi {values}',
+  'validation.signature': '{role} doit être null ou une signature (name, signedAt, comment, image)',
+  'validation.image': 'doit être une image encodée (data:image/…)',
+  'validation.duplicateRun': 'a déjà une exécution',
+  'validation.duplicateId': 'est en double',
+  'validation.annotation': 'doit être une annotation ({types})',
+  'validation.color': 'doit être une couleur',
+  'validation.number': 'doit être un nombre',
+
+  // Contrôle des données envoyées au serveur
+  'check.type': 'Le type doit valoir TMD ou TMA.',
+  'check.template.name': 'Le nom du modèle est obligatoire.',
+  'check.documentTemplate.texts': 'Le logo, le libellé de couverture et le pied de page doivent être des textes.',
+  'check.documentTemplate.colors': 'Les couleurs doivent être au format #RRGGBB.',
+  'check.documentTemplate.coverFields': 'Champs de page de garde inconnus.',
+  'check.documentTemplate.sections': 'Chaque partie du document doit apparaître une fois, avec un titre.',
+  'check.library.category': 'La catégorie est obligatoire.',
+  'check.snippet.title': 'Le titre de l\'étape est obligatoire.',
+  'check.snippet.texts': 'Le contenu et le résultat attendu doivent être des textes.',
+  'check.cahierTemplate.description': 'La description doit être un texte.',
+  'check.cahierTemplate.queries': 'Les requêtes doivent être une liste d\'identifiants de modèles.',
+  'check.cahierTemplate.steps': 'Les étapes doivent être une liste.',
+  'check.cahierTemplate.invalidStep': 'Étape invalide : {path}.',
+  'check.environments.empty': 'La liste doit contenir au moins un environnement.',
+  'check.environments.name': '« {name} » n\'est pas un nom d\'environnement valide (lettres, chiffres, _ et -).',
+  'check.environments.description': 'La description doit être un texte.',
+  'check.environments.duplicate': 'L\'environnement {name} est en double.',
+  'check.printRules.object': 'Les réglages doivent être un objet.',
+  'check.printRules.unknown': 'Règle inconnue : {rule}.',
+  'check.printRules.scope': 'Portée invalide pour la règle {rule}.',
+  'check.campaign.name': 'Le nom de la campagne est obligatoire.',
+  'check.campaign.criteria': 'Les critères doivent être des textes.',
+  'check.campaign.dates': 'Les dates doivent être au format AAAA-MM-JJ.',
+  'check.campaign.empty': 'Renseignez une version ou une période.',
+  'check.campaign.order': 'La date de début est postérieure à la date de fin.',
+  'check.assistant.stepsTexts': 'Le nom JIRA et la description doivent être des textes.',
+  'check.assistant.stepsEmpty': 'Renseignez le nom JIRA ou une description du besoin.',
+  'check.assistant.stepsTooLong': 'La description est trop longue.',
+  'check.assistant.title': 'Le titre doit être un texte.',
+  'check.assistant.blocks': 'Le contenu doit être une liste de blocs de texte.',
+  'check.assistant.rewriteEmpty': 'L\'étape ne contient aucun texte à reformuler.',
+  'check.assistant.rewriteTooLong': 'L\'étape est trop longue.',
+  'check.assistant.jiraTexts': 'Le numéro et le nom JIRA doivent être des textes.',
+  'check.assistant.conclusion': 'La conclusion doit valoir OK ou KO.',
+  'check.assistant.noStep': 'Le cahier ne contient aucune étape.',
+  'check.assistant.steps': 'Les étapes transmises sont invalides.',
+
+  // Erreurs du serveur et des images
+  'error.server': 'Erreur serveur ({status})',
+  'error.invalidCahier': 'Cahier invalide.',
+  'error.invalidRequest': 'Requête invalide.',
+  'error.cahierExists': 'Le cahier {jira} existe déjà.',
+  'error.cahierLocked': 'Le cahier {jira} est validé : ses étapes ne peuvent plus être modifiées sans le déverrouiller.',
+  'error.cahierNotFound': 'Cahier introuvable.',
+  'error.queryTemplate': 'Modèle invalide : le nom et la requête sont obligatoires.',
+  'error.builtInTemplate': 'Les modèles intégrés ne peuvent pas être modifiés.',
+  'error.templateNotFound': 'Modèle introuvable.',
+  'error.builtInSnippet': 'Les étapes intégrées ne peuvent pas être modifiées.',
+  'error.snippetNotFound': 'Étape introuvable.',
+  'error.campaignNotFound': 'Campagne introuvable.',
+  'error.jiraDisabled': 'L\'intégration Jira n\'est pas configurée sur le serveur.',
+  'error.jiraKey': '« {key} » n\'est pas une clé de ticket Jira (ex : ERP-1234).',
+  'error.emptyComment': 'Le commentaire est vide.',
+  'error.missingFile': 'Fichier ou nom de fichier manquant.',
+  'error.jiraUnreachable': 'Jira est injoignable : {detail}',
+  'error.jiraNotFound': 'Le ticket {key} est introuvable dans Jira.',
+  'error.jiraForbidden': 'Accès refusé par Jira : vérifiez le jeton et les droits du compte.',
+  'error.jiraStatus': 'Erreur Jira ({status}) : {detail}',
+  'error.assistantDisabled': 'L\'assistant de rédaction n\'est pas configuré sur le serveur.',
+  'error.geminiUnavailable': 'Gemini est indisponible : {detail}',
+  'error.geminiEmpty': 'Gemini n\'a renvoyé aucune réponse.',
+  'error.geminiUnusable': 'La réponse de Gemini est inexploitable, réessayez.',
+  'error.imageUnreachable': 'Image inaccessible : {src}',
+  'error.imageFormat': 'Format non pris en charge : {type}'
+};
+
+export type Messages = Record<keyof typeof fr, string>;
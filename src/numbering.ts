@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { TestStep } from './types';
+
+// Numérotation hiérarchique : les sections et les étapes hors section sont numérotées 1, 2, 3…
+// et les étapes d'une section reprennent le numéro de celle-ci (2.1, 2.2…).
+export function numberSteps(steps: TestStep[]): Map<string, string> {
+  const numbers = new Map<string, string>();
+  let top = 0;
+  let child = 0;
+  let inSection = false;
+
+  for (const step of steps) {
+    if (step.kind === 'section') {
+      top++;
+      child = 0;
+      inSection = true;
+      numbers.set(step.id, String(top));
+    } else if (inSection) {
+      numbers.set(step.id, `${top}.${++child}`);
+    } else {
+      numbers.set(step.id, String(++top));
+    }
+  }
+  return numbers;
+}
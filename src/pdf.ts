@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import html2pdf from 'html2pdf.js';
+import type { AppData, Campaign, DocumentTemplate, Locale } from './types';
+import { loadSettings } from './settings';
+import { translator } from './i18n';
+import { exportFileName } from './documentModel';
+import { campaignFileName } from './campaigns';
+
+// Marges haute et basse en mm ; la basse accueille le pied de page ajouté par jsPDF
+const PAGE_MARGIN = 12;
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+
+// Les types fournis avec html2pdf.js n'exportent pas ses options et ignorent `pagebreak` et `pdf`
+// (document jsPDF existant, auquel les pages sont ajoutées)
+type PdfOptions = Parameters<InstanceType<typeof html2pdf.Worker>['set']>[0] & {
+  pagebreak?: { mode?: string | string[]; before?: string[]; after?: string[]; avoid?: string[] };
+  pdf?: unknown;
+};
+
+// Lien à reporter dans le PDF, positionné en mm sur sa page
+interface PdfLink {
+  page: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  url?: string;
+  target?: { page: number; top: number };
+}
+
+// Situe un rectangle du conteneur html2pdf dans le PDF : page (à partir de 1) et position en mm.
+// Le conteneur a la largeur utile de la page, l'échelle px → mm s'en déduit.
+function locate(rect: DOMRect, origin: DOMRect, inner: { width: number; height: number }) {
+  const scale = inner.width / origin.width;
+  const top = (rect.top - origin.top) * scale;
+  return {
+    page: Math.floor(top / inner.height) + 1,
+    top: PAGE_MARGIN + top % inner.height,
+    left: (rect.left - origin.left) * scale,
+    width: rect.width * scale,
+    height: rect.height * scale
+  };
+}
+
+// Relève les liens du document mis en page. Les ancres internes (#id) pointent vers la page de leur cible,
+// dont le numéro est aussi inscrit dans l'élément `.toc-page` du lien (sommaire).
+// `offset` : nombre de pages du PDF qui précèdent ce document.
+function collectLinks(container: HTMLElement, inner: { width: number; height: number }, offset: number): PdfLink[] {
+  const origin = container.getBoundingClientRect();
+  return [...container.querySelectorAll<HTMLAnchorElement>('a[href]')].flatMap(anchor => {
+    const href = anchor.getAttribute('href')!;
+    let link: Pick<PdfLink, 'url' | 'target'> = { url: anchor.href };
+    if (href.startsWith('#')) {
+      const target = container.querySelector(`[id="${CSS.escape(href.slice(1))}"]`);
+      if (!target) return [];
+      const { page, top } = locate(target.getBoundingClientRect(), origin, inner);
+      const pageLabel = anchor.querySelector('.toc-page');
+      if (pageLabel) pageLabel.textContent = String(page + offset);
+      link = { target: { page: page + offset, top } };
+    }
+    return [...anchor.getClientRects()].map(rect => {
+      const position = locate(rect, origin, inner);
+      return { ...position, page: position.page + offset, ...link };
+    });
+  });
+}
+
+// Pied de page et propriétés du fichier
+interface PdfMeta {
+  footerLeft: string;
+  footerCenter: string;
+  title: string;
+  subject: string;
+  keywords: string[];
+}
+
+const cahierMeta = (data: AppData, template: DocumentTemplate): PdfMeta => ({
+  footerLeft: `${data.jiraNumber} / ${data.jiraName}`,
+  footerCenter: template.footerText,
+  title: `${data.jiraNumber} - ${data.jiraName}`,
+  subject: translator(data.documentLanguage)('doc.subject', { type: data.type, environment: data.environment }),
+  keywords: [data.jiraNumber, data.type, data.environment]
+});
+
+// Génère un PDF A4 à partir d'un ou plusieurs gabarits d'impression, chacun commençant sur une nouvelle page.
+// Les sauts de page suivent les règles CSS `page-break-*` du gabarit, quel que soit le navigateur.
+// Chaque gabarit a son propre canevas html2canvas : un seul canevas pour tout un rapport de campagne
+// dépasserait la taille maximale admise par le navigateur.
+async function renderPdf(parts: HTMLElement[], meta: PdfMeta) {
+  const options: PdfOptions = {
+    margin: [PAGE_MARGIN, 0, PAGE_MARGIN, 0],
+    image: { type: 'jpeg', quality: 0.95 },
+    // Liens gérés par collectLinks, le module d'html2pdf ne sachant pas cibler une page du document
+    enableLinks: false,
+    html2canvas: { scale: 2, useCORS: true },
+    jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' },
+    pagebreak: { mode: ['css', 'legacy'], avoid: ['figure', '.sql-block', '.step-results tr', '.pdf-signatures'] }
+  };
+
+  const links: PdfLink[] = [];
+  // html2pdf dessine la première page du gabarit sur la dernière page du jsPDF reçu, puis ajoute les suivantes
+  const addPart = async (part: HTMLElement, pdf: unknown, offset: number) => {
+    const partOptions: PdfOptions = { ...options, pdf };
+    const worker = html2pdf().set(partOptions).from(part).toContainer();
+    const container: HTMLElement = await worker.get('container');
+    const pageSize = await worker.get('pageSize');
+    links.push(...collectLinks(container, pageSize.inner, offset));
+    return worker.toPdf().get('pdf');
+  };
+
+  let pdf = await addPart(parts[0], null, 0);
+  for (const part of parts.slice(1)) {
+    const offset = pdf.internal.getNumberOfPages();
+    pdf.addPage();
+    pdf = await addPart(part, pdf, offset);
+  }
+
+  for (const link of links) {
+    pdf.setPage(link.page);
+    pdf.link(link.left, link.top, link.width, link.height, link.target
+      ? { pageNumber: link.target.page, top: link.target.top }
+      : { url: link.url });
+  }
+
+  const total = pdf.internal.getNumberOfPages();
+  const footerY = PAGE_HEIGHT - PAGE_MARGIN / 2;
+  for (let page = 1; page <= total; page++) {
+    pdf.setPage(page);
+    pdf.setDrawColor(204);
+    pdf.line(15, PAGE_HEIGHT - PAGE_MARGIN + 1, PAGE_WIDTH - 15, PAGE_HEIGHT - PAGE_MARGIN + 1);
+    pdf.setFontSize(9);
+    pdf.setTextColor(102);
+    pdf.text(meta.footerLeft, 15, footerY);
+    pdf.text(meta.footerCenter, PAGE_WIDTH / 2, footerY, { align: 'center' });
+    pdf.text(`page ${page} / ${total}`, PAGE_WIDTH - 15, footerY, { align: 'right' });
+  }
+
+  pdf.setProperties({
+    title: meta.title,
+    subject: meta.subject,
+    author: loadSettings().author,
+    keywords: meta.keywords.join(', '),
+    creator: 'Cahier de Tests ERP'
+  });
+
+  return pdf;
+}
+
+export async function downloadPdf(element: HTMLElement, data: AppData, template: DocumentTemplate) {
+  (await renderPdf([element], cahierMeta(data, template))).save(exportFileName(data, 'pdf'));
+}
+
+// PDF en mémoire, pour le joindre au ticket Jira
+export async function generatePdf(element: HTMLElement, data: AppData, template: DocumentTemplate): Promise<Blob> {
+  return (await renderPdf([element], cahierMeta(data, template))).output('blob');
+}
+
+// Rapport de campagne : synthèse puis cahiers, chacun des enfants de `element` étant rendu séparément
+export async function downloadCampaignPdf(element: HTMLElement, campaign: Campaign, cahierCount: number, locale: Locale) {
+  const t = translator(locale);
+  const pdf = await renderPdf([...element.children] as HTMLElement[], {
+    footerLeft: t('campaign.pdf.footer', { name: campaign.name }),
+    footerCenter: t('campaign.pdf.count', { count: cahierCount }),
+    title: t('campaign.reportTitle', { name: campaign.name }),
+    subject: t('campaign.pdf.subject', { name: campaign.name }),
+    keywords: [campaign.name, campaign.release].filter(Boolean)
+  });
+  pdf.save(campaignFileName(campaign, 'pdf'));
+}
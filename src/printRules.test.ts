@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { AppData } from './types';
+import { checkPrintRules } from './printRules';
+import { translator } from './i18n';
+import { newRun } from './runs';
+import { makeCahier } from './testFixtures';
+
+const t = translator('fr');
+
+const complete = (overrides: Partial<AppData> = {}): AppData => {
+  const cahier = makeCahier(overrides);
+  return {
+    ...cahier,
+    steps: cahier.steps.map(step => ({ ...step, title: 'Connexion', content: '<p>Se connecter</p>', expectedResult: 'Accueil', status: 'OK' })),
+    ...overrides
+  };
+};
+
+describe('checkPrintRules', () => {
+  it('ne signale rien pour un cahier complet', () => {
+    expect(checkPrintRules(complete(), {}, t)).toEqual([]);
+  });
+
+  it('contrôle aussi les exécutions des autres environnements', () => {
+    const cahier = complete();
+    const [step] = cahier.steps;
+    const data: AppData = {
+      ...cahier,
+      runs: [
+        newRun('FPOST'),
+        { ...newRun('PROD'), results: { [step.id]: { status: 'KO', actualResult: '', anomalyRef: '' } } }
+      ]
+    };
+    expect(checkPrintRules(data, {}, t)).toEqual([
+      expect.objectContaining({ ruleId: 'step-executed', stepId: step.id, environment: 'FPOST' }),
+      expect.objectContaining({ ruleId: 'step-anomaly', stepId: step.id, environment: 'PROD' }),
+      expect.objectContaining({ ruleId: 'conclusion-consistency', environment: 'PROD' })
+    ]);
+  });
+
+  it('n\'applique que les règles actives pour le type du cahier', () => {
+    const data = complete({ runs: [newRun('FPOST')] });
+    expect(checkPrintRules(data, { 'step-executed': { TMD: false, TMA: true } }, t)).toEqual([]);
+  });
+});
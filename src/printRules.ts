@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AppData, PrintIssue, PrintRuleScope, PrintRuleSettings, TestStep } from './types';
+import { parseRichText } from './richText';
+import { LOCALES, message, translator, type Message, type MessageKey, type Translate } from './i18n';
+import { viewRun } from './runs';
+
+export interface PrintRule {
+  id: string;
+  label: MessageKey;
+  // Une erreur bloque l'impression et les exports ; un avertissement est seulement signalé
+  severity: PrintIssue['severity'];
+  // Règle portant sur l'exécution (date, statuts, captures, conclusion) : appliquée à chaque environnement
+  perRun?: boolean;
+  check: (data: AppData, t: Translate) => Omit<PrintIssue, 'ruleId' | 'severity'>[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Titre donné aux nouvelles étapes, dans l'une ou l'autre langue (« Étape 3 », « Step 3 »)
+const DEFAULT_TITLE = new RegExp(`^(${LOCALES
+  .map(locale => translator(locale)('steps.defaultTitle').split('{number}').map(escapeRegExp).join('\\d+'))
+  .join('|')})$`);
+
+const executionSteps = (data: AppData) => data.steps.filter(step => step.kind === 'step');
+
+// Contenu sans texte ni image (éditeur laissé vide)
+const isEmptyContent = (html: string) => parseRichText(html)
+  .every(block => block.inlines.every(inline => inline.type === 'break' || (inline.type === 'text' && !inline.text.trim())));
+
+const stepIssue = (step: TestStep, field: keyof TestStep, message: string) => ({ stepId: step.id, field, message });
+
+export const PRINT_RULES: PrintRule[] = [
+  {
+    id: 'jira',
+    label: 'printRule.jira',
+    severity: 'error',
+    check: (data, t) => [
+      ...(data.jiraNumber.trim() ? [] : [{ field: 'jiraNumber', message: t('printIssue.jiraNumber') }]),
+      ...(data.jiraName.trim() ? [] : [{ field: 'jiraName', message: t('printIssue.jiraName') }])
+    ]
+  },
+  {
+    id: 'date',
+    label: 'printRule.date',
+    severity: 'error',
+    perRun: true,
+    check: (data, t) => (/^\d{4}-\d{2}-\d{2}$/.test(data.date) && !isNaN(Date.parse(data.date))
+      ? []
+      : [{ field: 'date', message: t('printIssue.date') }])
+  },
+  {
+    id: 'steps',
+    label: 'printRule.steps',
+    severity: 'error',
+    check: (data, t) => (executionSteps(data).length > 0 ? [] : [{ field: 'steps', message: t('printIssue.steps') }])
+  },
+  {
+    id: 'step-title',
+    label: 'printRule.stepTitle',
+    severity: 'warning',
+    check: (data, t) => executionSteps(data)
+      .filter(step => !step.title.trim() || DEFAULT_TITLE.test(step.title.trim()))
+      .map(step => stepIssue(step, 'title', step.title.trim() ? t('printIssue.defaultTitle', { title: step.title.trim() }) : t('printIssue.emptyTitle')))
+  },
+  {
+    id: 'step-content',
+    label: 'printRule.stepContent',
+    severity: 'warning',
+    check: (data, t) => executionSteps(data)
+      .filter(step => isEmptyContent(step.content))
+      .map(step => stepIssue(step, 'content', t('printIssue.emptyContent')))
+  },
+  {
+    id: 'step-expected',
+    label: 'printRule.stepExpected',
+    severity: 'warning',
+    check: (data, t) => executionSteps(data)
+      .filter(step => !step.expectedResult.trim())
+      .map(step => stepIssue(step, 'expectedResult', t('printIssue.emptyExpected')))
+  },
+  {
+    id: 'step-executed',
+    label: 'printRule.stepExecuted',
+    severity: 'warning',
+    perRun: true,
+    check: (data, t) => executionSteps(data)
+      .filter(step => step.status === 'NON_EXECUTE')
+      .map(step => stepIssue(step, 'status', t('printIssue.notExecuted')))
+  },
+  {
+    id: 'step-anomaly',
+    label: 'printRule.stepAnomaly',
+    severity: 'warning',
+    perRun: true,
+    check: (data, t) => executionSteps(data)
+      .filter(step => step.status === 'KO' && !step.anomalyRef.trim())
+      .map(step => stepIssue(step, 'anomalyRef', t('printIssue.missingAnomaly')))
+  },
+  {
+    id: 'sql-capture',
+    label: 'printRule.sqlCapture',
+    severity: 'error',
+    perRun: true,
+    check: (data, t) => (data.showSqlQuery && data.captures.length === 0
+      ? [{ field: 'captures', message: t('printIssue.sqlCapture') }]
+      : [])
+  },
+  {
+    id: 'conclusion-text',
+    label: 'printRule.conclusionText',
+    severity: 'error',
+    check: (data, t) => (data.conclusion === 'KO' && !data.conclusionText.trim()
+      ? [{ field: 'conclusionText', message: t('printIssue.conclusionText') }]
+      : [])
+  },
+  {
+    id: 'conclusion-consistency',
+    label: 'printRule.conclusionConsistency',
+    severity: 'warning',
+    perRun: true,
+    check: (data, t) => (data.conclusion === 'OK' && executionSteps(data).some(step => step.status === 'KO' || step.status === 'BLOQUE')
+      ? [{ field: 'conclusion', message: t('printIssue.conclusionConsistency') }]
+      : [])
+  }
+];
+
+const ALL_TYPES: PrintRuleScope = { TMD: true, TMA: true };
+
+// Les règles absentes des réglages s'appliquent aux deux types
+export const ruleScope = (settings: PrintRuleSettings, ruleId: string): PrintRuleScope => settings[ruleId] ?? ALL_TYPES;
+
+// Contrôle le cahier enregistré puis, pour les règles d'exécution, chacun des autres environnements
+// (`environment` renseigné). Messages dans la langue de `t` (celle de l'interface).
+export function checkPrintRules(data: AppData, settings: PrintRuleSettings, t: Translate): PrintIssue[] {
+  const rules = PRINT_RULES.filter(rule => ruleScope(settings, rule.id)[data.type]);
+  const check = (view: AppData, rules: PrintRule[], environment?: string) => rules.flatMap(rule => rule.check(view, t)
+    .map(issue => ({ ruleId: rule.id, severity: rule.severity, ...issue, ...(environment && { environment }) })));
+  return [
+    ...check(data, rules),
+    ...data.runs.flatMap(run => check(viewRun(data, run.environment), rules.filter(rule => rule.perRun), run.environment))
+  ];
+}
+
+// Identifiant de l'élément du formulaire à atteindre depuis le rapport
+export const issueTargetId = (issue: PrintIssue) =>
+  issue.stepId ? `step-${issue.stepId}-${issue.field}` : `field-${issue.field}`;
+
+// Contrôle les réglages reçus par le serveur ; renvoie le message d'erreur ou null.
+export function checkPrintRuleSettings(value: unknown): Message | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return message('check.printRules.object');
+  for (const [ruleId, scope] of Object.entries(value)) {
+    if (!PRINT_RULES.some(rule => rule.id === ruleId)) return message('check.printRules.unknown', { rule: ruleId });
+    if (typeof scope?.TMD !== 'boolean' || typeof scope?.TMA !== 'boolean') return message('check.printRules.scope', { rule: ruleId });
+  }
+  return null;
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Lecture du HTML produit par Quill en une suite de blocs neutres, partagée par les exports DOCX et Markdown.
+
+export interface TextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  // Couleurs au format #rrggbb
+  color?: string;
+  background?: string;
+  link?: string;
+}
+
+export type Inline =
+  | ({ type: 'text'; text: string } & TextStyle)
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'break' };
+
+export interface Block {
+  type: 'paragraph' | 'heading' | 'quote' | 'code' | 'list-item';
+  // Niveau du titre (1, 2…) ou retrait de l'élément de liste (0, 1…)
+  level?: number;
+  ordered?: boolean;
+  inlines: Inline[];
+}
+
+// Quill écrit les couleurs en rgb(r, g, b)
+function toHex(color: string): string | undefined {
+  if (/^#[0-9a-f]{6}$/i.test(color)) return color.toLowerCase();
+  const rgb = color.match(/^rgb\((\d+),\s*(\d+),\s*(\d+)\)$/);
+  if (!rgb) return undefined;
+  return `#${rgb.slice(1).map(n => Number(n).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function readInlines(node: Node, style: TextStyle, out: Inline[]) {
+  if (node.nodeType === Node.TEXT_NODE) {
+    if (node.textContent) out.push({ type: 'text', text: node.textContent, ...style });
+    return;
+  }
+  if (!(node instanceof HTMLElement)) return;
+
+  const tag = node.tagName.toLowerCase();
+  if (tag === 'br') {
+    out.push({ type: 'break' });
+    return;
+  }
+  if (tag === 'img') {
+    out.push({ type: 'image', src: node.getAttribute('src') || '', alt: node.getAttribute('alt') || '' });
+    return;
+  }
+  // Interface de Quill (curseur, puces générées…)
+  if (node.classList.contains('ql-ui')) return;
+
+  const next: TextStyle = { ...style };
+  if (tag === 'strong' || tag === 'b') next.bold = true;
+  if (tag === 'em' || tag === 'i') next.italic = true;
+  if (tag === 'u') next.underline = true;
+  if (tag === 's' || tag === 'strike') next.strike = true;
+  if (tag === 'code') next.code = true;
+  if (tag === 'a') next.link = node.getAttribute('href') || undefined;
+  const color = node.style.color && toHex(node.style.color);
+  if (color) next.color = color;
+  const background = node.style.backgroundColor && toHex(node.style.backgroundColor);
+  if (background) next.background = background;
+
+  node.childNodes.forEach(child => readInlines(child, next, out));
+}
+
+const inlinesOf = (element: Element) => {
+  const inlines: Inline[] = [];
+  element.childNodes.forEach(child => readInlines(child, {}, inlines));
+  // Un paragraphe vide de Quill contient un unique <br>
+  return inlines.length === 1 && inlines[0].type === 'break' ? [] : inlines;
+};
+
+const indentOf = (element: Element) => Number(element.className.match(/ql-indent-(\d+)/)?.[1] ?? 0);
+
+export function parseRichText(html: string): Block[] {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const blocks: Block[] = [];
+
+  for (const element of body.children) {
+    const tag = element.tagName.toLowerCase();
+    if (/^h[1-6]$/.test(tag)) {
+      blocks.push({ type: 'heading', level: Number(tag[1]), inlines: inlinesOf(element) });
+    } else if (tag === 'blockquote') {
+      blocks.push({ type: 'quote', inlines: inlinesOf(element) });
+    } else if (tag === 'ol' || tag === 'ul') {
+      for (const item of element.children) {
+        // Quill 2 range toutes les listes dans <ol>, le type est porté par data-list
+        const kind = item.getAttribute('data-list');
+        blocks.push({
+          type: 'list-item',
+          level: indentOf(item),
+          ordered: kind ? kind === 'ordered' : tag === 'ol',
+          inlines: inlinesOf(item)
+        });
+      }
+    } else if (element.classList.contains('ql-code-block-container')) {
+      for (const line of element.children) {
+        blocks.push({ type: 'code', inlines: [{ type: 'text', text: line.textContent || '' }] });
+      }
+    } else if (tag === 'pre') {
+      for (const line of (element.textContent || '').replace(/\n$/, '').split('\n')) {
+        blocks.push({ type: 'code', inlines: [{ type: 'text', text: line }] });
+      }
+    } else {
+      blocks.push({ type: 'paragraph', level: indentOf(element), inlines: inlinesOf(element) });
+    }
+  }
+  return blocks;
+}
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { promoteRun, rekeyRuns, storeRun, viewRun } from './runs';
+import { createStep } from './steps';
+import { makeCahier } from './testFixtures';
+import type { ExecutionRun } from './types';
+
+const run = (results: ExecutionRun['results']): ExecutionRun =>
+  ({ environment: 'UAT', date: '2026-03-01', captures: [], results, conclusion: 'KO' });
+
+describe('viewRun / storeRun', () => {
+  const step = { ...createStep('step', 'Étape 1'), id: 's1', status: 'OK' as const };
+  const cahier = makeCahier({
+    environment: 'REC',
+    date: '2026-03-04',
+    conclusion: 'OK',
+    steps: [step],
+    runs: [run({ s1: { status: 'KO', actualResult: 'Écart', anomalyRef: 'ERP-9' } })]
+  });
+
+  it('affiche l\'exécution demandée sans toucher au cahier', () => {
+    const view = viewRun(cahier, 'UAT');
+    expect(view).toMatchObject({ environment: 'UAT', date: '2026-03-01', conclusion: 'KO' });
+    expect(view.steps[0].status).toBe('KO');
+    expect(viewRun(cahier, null)).toBe(cahier);
+    expect(viewRun(cahier, 'PROD')).toBe(cahier);
+  });
+
+  it('range les modifications dans l\'exécution affichée et garde l\'exécution principale', () => {
+    const view = viewRun(cahier, 'UAT');
+    const edited = { ...view, date: '2026-03-09', jiraName: 'Renommé', steps: [{ ...view.steps[0], status: 'OK' as const }] };
+    const stored = storeRun(edited, cahier);
+    expect(stored).toMatchObject({ environment: 'REC', date: '2026-03-04', conclusion: 'OK', jiraName: 'Renommé' });
+    expect(stored.steps[0].status).toBe('OK');
+    expect(stored.runs).toEqual([{ ...run({ s1: { status: 'OK', actualResult: 'Écart', anomalyRef: 'ERP-9' } }), date: '2026-03-09' }]);
+  });
+
+  it('ne modifie rien quand la vue est relue telle quelle', () => {
+    expect(storeRun(viewRun(cahier, 'UAT'), cahier)).toEqual(cahier);
+  });
+});
+
+describe('promoteRun', () => {
+  it('échange l\'exécution principale avec celle de l\'environnement choisi', () => {
+    const step = { ...createStep('step', 'Étape 1'), id: 's1' };
+    const cahier = makeCahier({
+      environment: 'REC', date: '2026-03-04', conclusion: 'OK', steps: [step],
+      runs: [run({ s1: { status: 'KO', actualResult: 'Écart', anomalyRef: 'ERP-9' } })]
+    });
+    const promoted = promoteRun(cahier, 'UAT');
+    expect(promoted).toMatchObject({ environment: 'UAT', date: '2026-03-01', conclusion: 'KO' });
+    expect(promoted.runs.map(candidate => candidate.environment)).toEqual(['REC']);
+    expect(promoteRun(promoted, 'REC')).toEqual(cahier);
+  });
+});
+
+describe('rekeyRuns', () => {
+  it('reporte les résultats sur les nouveaux identifiants d\'étape', () => {
+    const ko = { status: 'KO' as const, actualResult: 'Écart', anomalyRef: 'ERP-9' };
+    const ids = new Map([['a', 'a2'], ['b', 'b2']]);
+    expect(rekeyRuns([run({ a: ko, orphan: ko })], ids)).toEqual([run({ a2: ko })]);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AppData, ExecutionRun, StepResult } from './types';
+
+// Résultat d'une étape absente d'une exécution (ajoutée après le passage sur cet environnement)
+export const NOT_RUN: StepResult = { status: 'NON_EXECUTE', actualResult: '', anomalyRef: '' };
+
+export const newRun = (environment: string): ExecutionRun => ({
+  environment,
+  date: new Date().toISOString().split('T')[0],
+  captures: [],
+  results: {},
+  conclusion: 'OK'
+});
+
+// Exécution principale, portée par les champs du cahier (environnement, date, captures, statuts, conclusion)
+export const currentRun = (data: AppData): ExecutionRun => ({
+  environment: data.environment,
+  date: data.date,
+  captures: data.captures,
+  results: Object.fromEntries(data.steps
+    .filter(step => step.kind === 'step')
+    .map(({ id, status, actualResult, anomalyRef }) => [id, { status, actualResult, anomalyRef }])),
+  conclusion: data.conclusion
+});
+
+// Toutes les exécutions du cahier, dans l'ordre chronologique
+export const allRuns = (data: AppData): ExecutionRun[] => [...data.runs, currentRun(data)]
+  .sort((a, b) => a.date.localeCompare(b.date) || a.environment.localeCompare(b.environment));
+
+export const resultOf = (run: ExecutionRun, stepId: string): StepResult => run.results[stepId] ?? NOT_RUN;
+
+// Reporte les champs d'exécution de `run` sur le cahier ; le reste du cahier est inchangé
+const withRun = (data: AppData, run: ExecutionRun, runs: ExecutionRun[]): AppData => ({
+  ...data,
+  environment: run.environment,
+  date: run.date,
+  captures: run.captures,
+  conclusion: run.conclusion,
+  steps: data.steps.map(step => (step.kind === 'step' ? { ...step, ...resultOf(run, step.id) } : step)),
+  runs
+});
+
+// Vue du cahier sur l'exécution d'un autre environnement, pour l'éditeur. Le cahier enregistré garde
+// son exécution principale dans ses champs : la date, l'environnement et la conclusion servant aux
+// recherches et aux campagnes ne dépendent pas de l'exécution consultée.
+export function viewRun(data: AppData, environment: string | null): AppData {
+  const run = data.runs.find(candidate => candidate.environment === environment);
+  if (!run) return data;
+  return withRun(data, run, data.runs.map(candidate => (candidate === run ? currentRun(data) : candidate)));
+}
+
+// Inverse de `viewRun` : range l'exécution modifiée dans la vue et rétablit l'exécution principale de `stored`
+export function storeRun(view: AppData, stored: AppData): AppData {
+  if (view.environment === stored.environment) return view;
+  const primary = currentRun(stored);
+  return withRun(view, primary, view.runs.map(run => (run.environment === primary.environment ? currentRun(view) : run)));
+}
+
+// Fait de l'exécution de `environment` l'exécution principale du cahier ; l'ancienne rejoint les autres
+export const promoteRun = (data: AppData, environment: string): AppData => viewRun(data, environment);
+
+// Reporte les résultats des exécutions sur les nouveaux identifiants d'étape (copie d'un cahier)
+export const rekeyRuns = (runs: ExecutionRun[], ids: Map<string, string>): ExecutionRun[] => runs.map(run => ({
+  ...run,
+  results: Object.fromEntries(Object.entries(run.results)
+    .filter(([id]) => ids.has(id))
+    .map(([id, result]) => [ids.get(id)!, result]))
+}));
+
+export const removeRun = (data: AppData, environment: string): AppData =>
+  ({ ...data, runs: data.runs.filter(run => run.environment !== environment) });
@@ -0,0 +1,104 @@
+// @vitest-environment jsdom
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { sanitizeCahier, sanitizeHtml } from './sanitize';
+import { createStep } from './steps';
+import { makeCahier } from './testFixtures';
+
+// Charges connues : aucune ne doit laisser de script, de gestionnaire d'événement ni d'URL dangereuse
+const PAYLOADS: { name: string; html: string }[] = [
+  { name: 'balise script', html: '<p>avant</p><script>alert(1)</script><p>après</p>' },
+  { name: 'script imbriqué', html: '<div><scr<script>ipt>alert(1)</script></div>' },
+  { name: 'onerror sur une image', html: '<img src="x" onerror="alert(1)">' },
+  { name: 'onload et onclick', html: '<p onclick="alert(1)">x</p><img src="data:image/png;base64,AAAA" onload="alert(1)">' },
+  { name: 'lien javascript:', html: '<a href="javascript:alert(1)">clic</a>' },
+  { name: 'lien javascript: encodé', html: '<a href="jav&#x61;script:alert(1)">clic</a>' },
+  { name: 'lien javascript: avec espaces', html: '<a href=" javascript:alert(1)">clic</a>' },
+  { name: 'iframe srcdoc', html: '<iframe srcdoc="<script>alert(1)</script>"></iframe>' },
+  { name: 'srcdoc sur une balise autorisée', html: '<div srcdoc="<script>alert(1)</script>">x</div>' },
+  { name: 'style url()', html: '<p style="background:url(javascript:alert(1))">x</p>' },
+  { name: 'style background-image url()', html: '<span style="background-image: url(https://evil.test/x.png)">x</span>' },
+  { name: 'style expression()', html: '<p style="width: expression(alert(1))">x</p>' },
+  { name: 'svg onload', html: '<svg onload="alert(1)"><circle r="1"/></svg>' },
+  { name: 'svg mutation', html: '<svg></p><style><a id="</style><img src=1 onerror=alert(1)>">' },
+  { name: 'math mutation', html: '<math><mtext><table><mglyph><style><!--</style><img title="--&gt;&lt;img src=1 onerror=alert(1)&gt;">' },
+  { name: 'noscript mutation', html: '<noscript><p title="</noscript><img src=x onerror=alert(1)>">' },
+  { name: 'form et input', html: '<form action="javascript:alert(1)"><input autofocus onfocus="alert(1)"></form>' },
+  { name: 'object et embed', html: '<object data="javascript:alert(1)"></object><embed src="javascript:alert(1)">' },
+  { name: 'meta refresh', html: '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">' }
+];
+
+// Le résultat est relu par le navigateur : on contrôle le DOM obtenu, pas seulement la chaîne
+function assertSafe(html: string) {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  expect(container.querySelector('script, iframe, svg, math, style, form, input, object, embed, meta, noscript')).toBeNull();
+  for (const element of container.querySelectorAll('*')) {
+    for (const { name, value } of element.attributes) {
+      expect(name).not.toMatch(/^on/i);
+      expect(name).not.toBe('srcdoc');
+      expect(value).not.toMatch(/javascript:/i);
+      if (name === 'style') expect(value).not.toMatch(/url|expression/i);
+    }
+  }
+}
+
+const cahierWith = (contents: string[]) =>
+  makeCahier({ steps: contents.map(content => ({ ...createStep('step', 'Étape'), content })) });
+
+describe('sanitizeHtml', () => {
+  it.each(PAYLOADS)('neutralise : $name', ({ html }) => {
+    assertSafe(sanitizeHtml(html));
+  });
+
+  it('conserve le contenu produit par Quill', () => {
+    const html = '<h1>Titre</h1><p><strong>gras</strong> <span style="color: rgb(255, 0, 0)">rouge</span></p>'
+      + '<ol><li data-list="bullet">point</li><li data-list="ordered">suite</li></ol>';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it('conserve les liens http, mailto et relatifs', () => {
+    for (const href of ['https://example.com/a?b=1', 'mailto:qa@example.com', '/cahiers/ERP-1', '#etape-2']) {
+      expect(sanitizeHtml(`<a href="${href}">lien</a>`)).toContain(`href="${href}"`);
+    }
+  });
+
+  it('refuse les autres protocoles', () => {
+    for (const href of ['vbscript:msgbox(1)', 'data:text/html,<script>alert(1)</script>', 'file:///etc/passwd']) {
+      expect(sanitizeHtml(`<a href="${href}">lien</a>`)).toBe('<a>lien</a>');
+    }
+  });
+
+  it('conserve les images en data URL et leur lien vers l\'annotation', () => {
+    const html = '<p><img src="data:image/png;base64,AAAA" data-annotation="a1" width="120"></p>';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it('ouvre les liens dans un nouvel onglet', () => {
+    expect(sanitizeHtml('<a href="https://example.com">lien</a>'))
+      .toBe('<a href="https://example.com" target="_blank" rel="noopener noreferrer">lien</a>');
+  });
+
+  it('retire les classes étrangères à Quill', () => {
+    expect(sanitizeHtml('<p class="ql-align-center evil">x</p>')).toBe('<p class="ql-align-center">x</p>');
+  });
+});
+
+describe('sanitizeCahier', () => {
+  it('nettoie le contenu de chaque étape', () => {
+    const cahier = sanitizeCahier(cahierWith(PAYLOADS.map(payload => payload.html)));
+    expect(cahier.steps).toHaveLength(PAYLOADS.length);
+    cahier.steps.forEach(step => assertSafe(step.content));
+  });
+
+  it('laisse le reste du cahier inchangé', () => {
+    const cahier = cahierWith(['<p>texte</p>']);
+    const sanitized = sanitizeCahier(cahier);
+    expect(sanitized).toEqual(cahier);
+    expect(sanitized.steps[0].title).toBe('Étape');
+  });
+});
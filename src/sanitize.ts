@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import DOMPurify, { type DOMPurify as Purifier } from 'dompurify';
+import type { AppData } from './types';
+import { ANNOTATION_ATTRIBUTE } from './annotations';
+
+// Nettoyage du HTML des étapes : seul ce que l'éditeur Quill produit est conservé (mise en forme, listes, liens, images).
+// Appliqué à l'import d'un fichier, au chargement dans l'éditeur et au rendu (aperçu, impression, exports).
+
+const ALLOWED_TAGS = [
+  'p', 'br', 'h1', 'h2', 'h3', 'blockquote', 'pre', 'code', 'div', 'span',
+  'strong', 'b', 'em', 'i', 'u', 's', 'a', 'img', 'ol', 'ul', 'li'
+];
+
+const ALLOWED_ATTR = [
+  'href', 'target', 'rel', 'src', 'alt', 'width', 'height', 'style', 'class', 'data-list', 'data-language', 'spellcheck',
+  ANNOTATION_ATTRIBUTE
+];
+
+// Propriétés posées par Quill (couleurs) et par le redimensionnement des images
+const ALLOWED_STYLES = ['color', 'background-color', 'width', 'height', 'float', 'display', 'margin', 'margin-left', 'margin-right', 'text-align'];
+
+const SAFE_STYLE_VALUE = /^[#\w\s.,%()-]+$/;
+
+// DOMPurify applique ce motif à toutes les valeurs d'attribut, pas seulement aux URL : les valeurs sans protocole
+// (largeur, data-list…) restent admises, seuls http(s) et mailto sont autorisés comme protocoles
+const ALLOWED_URI = /^(?:(?:https?|mailto):|[^a-z]|[a-z+.-]+(?:[^a-z+.\-:]|$))/i;
+
+const cleanStyle = (style: string) => style
+  .split(';')
+  .map(declaration => declaration.split(':').map(part => part.trim()))
+  .filter(([property, value, ...rest]) => rest.length === 0 && value
+    && ALLOWED_STYLES.includes(property.toLowerCase())
+    && SAFE_STYLE_VALUE.test(value) && !/url|expression/i.test(value))
+  .map(([property, value]) => `${property}: ${value}`)
+  .join('; ');
+
+// Instance dédiée : les règles ne s'appliquent pas aux autres usages de DOMPurify (génération PDF)
+let purifier: Purifier | null = null;
+
+function getPurifier(): Purifier {
+  if (purifier) return purifier;
+  purifier = DOMPurify(window);
+  purifier.addHook('uponSanitizeAttribute', (_node, data) => {
+    if (data.attrName === 'style') {
+      data.attrValue = cleanStyle(data.attrValue);
+    } else if (data.attrName === 'class') {
+      data.attrValue = data.attrValue.split(/\s+/).filter(name => /^ql-[\w-]+$/.test(name)).join(' ');
+    } else {
+      return;
+    }
+    if (!data.attrValue) data.keepAttr = false;
+  });
+  // Les liens s'ouvrent dans un nouvel onglet, sans accès à la page du cahier
+  purifier.addHook('afterSanitizeAttributes', node => {
+    if (node.tagName === 'A' && node.hasAttribute('href')) {
+      node.setAttribute('target', '_blank');
+      node.setAttribute('rel', 'noopener noreferrer');
+    }
+  });
+  return purifier;
+}
+
+export function sanitizeHtml(html: string): string {
+  if (!html) return html;
+  return getPurifier().sanitize(html, {
+    ALLOWED_TAGS,
+    ALLOWED_ATTR,
+    ALLOW_DATA_ATTR: false,
+    ALLOWED_URI_REGEXP: ALLOWED_URI
+  });
+}
+
+export const sanitizeCahier = (data: AppData): AppData =>
+  ({ ...data, steps: data.steps.map(step => ({ ...step, content: sanitizeHtml(step.content) })) });
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { CahierImportError, parseCahierFile, toCahierFile } from './schema';
+import { makeCahier } from './testFixtures';
+
+const withVersion = (schemaVersion: unknown) =>
+  JSON.stringify({ ...toCahierFile(makeCahier()), schemaVersion });
+
+describe('parseCahierFile', () => {
+  it('relit un fichier au format courant', () => {
+    const cahier = makeCahier();
+    expect(parseCahierFile(JSON.stringify(toCahierFile(cahier)))).toEqual(cahier);
+  });
+
+  it.each([-1, 2.5, '3', null, true])('refuse le numéro de format %j', version => {
+    expect(() => parseCahierFile(withVersion(version))).toThrow(CahierImportError);
+  });
+
+  it('décrit les champs invalides par des messages à traduire', () => {
+    const file = { ...toCahierFile(makeCahier()), cahier: { ...makeCahier(), date: '04/03/2026', jiraName: undefined } };
+    expect(() => parseCahierFile(JSON.stringify(file))).toThrow(expect.objectContaining({
+      detail: { key: 'import.invalidFields' },
+      issues: [
+        { path: 'cahier.jiraName', message: { key: 'validation.missing' } },
+        { path: 'cahier.date', message: { key: 'validation.date' } }
+      ]
+    }));
+  });
+
+  it('refuse un format plus récent que l\'application', () => {
+    expect(() => parseCahierFile(withVersion(999))).toThrow(expect.objectContaining({ detail: { key: 'import.newerVersion', params: { version: 999 } } }));
+  });
+});
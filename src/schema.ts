@@ -0,0 +1,390 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Annotation, AppData, Capture, CoverInfo, StepResult, TestStep } from './types';
+import { EMPTY_COVER_INFO } from './documentTemplates';
+import { DRAFT_SIGN_OFF, WORKFLOW_LABELS } from './signOff';
+import { message, MessageError, type Message } from './i18n';
+
+// Format des fichiers JSON exportés. Incrémenter la version à chaque changement
+// incompatible de AppData et ajouter la migration correspondante ci-dessous.
+export const SCHEMA_VERSION = 11;
+
+export interface CahierFile {
+  schemaVersion: number;
+  exportedAt: string;
+  cahier: AppData;
+}
+
+export interface ValidationIssue {
+  path: string;
+  message: Message;
+}
+
+export class CahierImportError extends MessageError {
+  constructor(detail: Message, public issues: ValidationIssue[] = []) {
+    super(detail);
+    this.name = 'CahierImportError';
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Applique `update` à chaque étape d'un fichier au format enveloppé (v1 et suivants)
+function mapSteps(file: JsonObject, update: (step: JsonObject) => JsonObject): JsonObject {
+  if (!isObject(file.cahier) || !Array.isArray(file.cahier.steps)) return file;
+  const steps = file.cahier.steps.map(step => (isObject(step) ? update(step) : step));
+  return { ...file, cahier: { ...file.cahier, steps } };
+}
+
+// MIGRATIONS[n] transforme un fichier en version n en fichier en version n + 1.
+const MIGRATIONS: Array<(file: JsonObject) => JsonObject> = [
+  // v0 : AppData brut à la racine, sans enveloppe ni numéro de version.
+  // Les plus anciens fichiers n'ont pas encore les options de requête SQL.
+  (legacy) => {
+    const cahier: JsonObject = { showSqlQuery: true, sqlQueryType: 'data', localImage: null, ...legacy };
+    if (Array.isArray(cahier.steps)) {
+      cahier.steps = cahier.steps.map(step =>
+        isObject(step) && step.id === undefined ? { ...step, id: crypto.randomUUID() } : step
+      );
+    }
+    return { schemaVersion: 1, exportedAt: new Date().toISOString(), cahier };
+  },
+  // v1 → v2 : apparition des sections, toutes les entrées existantes sont des étapes.
+  (file) => ({ ...mapSteps(file, step => ({ kind: 'step', ...step })), schemaVersion: 2 }),
+  // v2 → v3 : résultat attendu / obtenu, statut et anomalie par étape.
+  (file) => ({
+    ...mapSteps(file, step => ({ expectedResult: '', actualResult: '', status: 'NON_EXECUTE', anomalyRef: '', ...step })),
+    schemaVersion: 3
+  }),
+  // v3 → v4 : `sqlQueryType` ('data' | 'app') devient une liste de modèles de requêtes.
+  (file) => {
+    if (!isObject(file.cahier)) return { ...file, schemaVersion: 4 };
+    const { sqlQueryType, ...cahier } = file.cahier;
+    const sqlQueries = Array.isArray(cahier.sqlQueries) ? cahier.sqlQueries : [sqlQueryType ?? 'data'];
+    return { ...file, schemaVersion: 4, cahier: { ...cahier, sqlQueries } };
+  },
+  // v4 → v5 : l'image unique `localImage` devient une galerie de captures légendées.
+  (file) => {
+    if (!isObject(file.cahier)) return { ...file, schemaVersion: 5 };
+    const { localImage, ...cahier } = file.cahier;
+    const captures = Array.isArray(cahier.captures)
+      ? cahier.captures
+      : localImage ? [{ id: crypto.randomUUID(), image: localImage, caption: '' }] : [];
+    return { ...file, schemaVersion: 5, cahier: { ...cahier, captures } };
+  },
+  // v5 → v6 : modèle de document et informations de page de garde.
+  (file) => ({
+    ...file,
+    schemaVersion: 6,
+    cahier: isObject(file.cahier)
+      ? { documentTemplateId: 'default', coverInfo: EMPTY_COVER_INFO, ...file.cahier }
+      : file.cahier
+  }),
+  // v6 → v7 : circuit de validation, les cahiers existants repartent en brouillon.
+  (file) => ({
+    ...file,
+    schemaVersion: 7,
+    cahier: isObject(file.cahier) ? { signOff: DRAFT_SIGN_OFF, ...file.cahier } : file.cahier
+  }),
+  // v7 → v8 : synthèse de conclusion.
+  (file) => ({
+    ...file,
+    schemaVersion: 8,
+    cahier: isObject(file.cahier) ? { conclusionText: '', ...file.cahier } : file.cahier
+  }),
+  // v8 → v9 : exécutions sur plusieurs environnements, celle du fichier reste l'exécution en cours.
+  (file) => ({
+    ...file,
+    schemaVersion: 9,
+    cahier: isObject(file.cahier) ? { runs: [], ...file.cahier } : file.cahier
+  }),
+  // v9 → v10 : originaux et annotations des images annotées.
+  (file) => ({
+    ...file,
+    schemaVersion: 10,
+    cahier: isObject(file.cahier) ? { annotations: {}, ...file.cahier } : file.cahier
+  }),
+  // v10 → v11 : langue du document, les cahiers existants restent en français.
+  (file) => ({
+    ...file,
+    schemaVersion: 11,
+    cahier: isObject(file.cahier) ? { documentLanguage: 'fr', ...file.cahier } : file.cahier
+  })
+];
+
+type Rule = (value: unknown) => Message | null;
+
+const MISSING = message('validation.missing');
+const NOT_OBJECT = message('validation.object');
+const NOT_LIST = message('validation.list');
+
+const oneOf = (values: readonly string[]): Rule => (value) =>
+  typeof value === 'string' && values.includes(value) ? null : message('validation.oneOf', { values: values.join(', ') });
+
+const isString: Rule = (value) => (typeof value === 'string' ? null : message('validation.string'));
+
+const isId: Rule = (value) => (typeof value === 'string' && value !== '' ? null : message('validation.id'));
+
+const isDate: Rule = (value) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))
+    ? null
+    : message('validation.date');
+
+const FIELD_RULES: Record<keyof Omit<AppData, 'steps' | 'captures' | 'runs' | 'annotations'>, Rule> = {
+  jiraNumber: isString,
+  jiraName: isString,
+  type: oneOf(['TMD', 'TMA']),
+  date: isDate,
+  environment: isId,
+  conclusion: oneOf(['OK', 'KO']),
+  conclusionText: isString,
+  showSqlQuery: (value) => (typeof value === 'boolean' ? null : message('validation.boolean')),
+  sqlQueries: (value) =>
+    Array.isArray(value) && value.every(id => typeof id === 'string')
+      ? null
+      : message('validation.queryIds'),
+  documentTemplateId: isId,
+  documentLanguage: oneOf(['fr', 'en']),
+  coverInfo: (value) =>
+    isObject(value) && (Object.keys(EMPTY_COVER_INFO) as (keyof CoverInfo)[]).every(key => typeof value[key] === 'string')
+      ? null
+      : message('validation.coverInfo', { fields: Object.keys(EMPTY_COVER_INFO).join(', ') }),
+  signOff: (value) => {
+    if (!isObject(value)) return NOT_OBJECT;
+    if (oneOf(Object.keys(WORKFLOW_LABELS))(value.status)) {
+      return message('validation.signOffStatus', { values: Object.keys(WORKFLOW_LABELS).join(', ') });
+    }
+    for (const role of ['tester', 'validator']) {
+      const signature = value[role];
+      if (signature === null) continue;
+      if (!isObject(signature) || !['name', 'signedAt', 'comment', 'image'].every(key => typeof signature[key] === 'string')) {
+        return message('validation.signature', { role });
+      }
+    }
+    return null;
+  }
+};
+
+const STEP_RULES: Record<keyof TestStep, Rule> = {
+  id: isId,
+  kind: oneOf(['step', 'section']),
+  title: isString,
+  content: isString,
+  expectedResult: isString,
+  actualResult: isString,
+  status: oneOf(['OK', 'KO', 'BLOQUE', 'NON_EXECUTE']),
+  anomalyRef: isString
+};
+
+const CAPTURE_RULES: Record<keyof Capture, Rule> = {
+  id: STEP_RULES.id,
+  image: (value) =>
+    typeof value === 'string' && value.startsWith('data:image/') ? null : message('validation.image'),
+  caption: isString
+};
+
+const RESULT_RULES: Record<keyof StepResult, Rule> = {
+  status: STEP_RULES.status,
+  actualResult: isString,
+  anomalyRef: isString
+};
+
+// Liste précisément les champs invalides d'un cahier (vide si le cahier est valide).
+export function validateAppData(value: unknown, prefix = ''): ValidationIssue[] {
+  if (!isObject(value)) return [{ path: prefix || '$', message: NOT_OBJECT }];
+
+  const issues: ValidationIssue[] = [];
+  const at = (key: string) => (prefix ? `${prefix}.${key}` : key);
+
+  for (const [key, rule] of Object.entries(FIELD_RULES)) {
+    const problem = rule(value[key]);
+    if (problem) issues.push({ path: at(key), message: value[key] === undefined ? MISSING : problem });
+  }
+
+  if (!Array.isArray(value.steps)) {
+    issues.push({ path: at('steps'), message: value.steps === undefined ? MISSING : NOT_LIST });
+    return issues;
+  }
+
+  issues.push(...validateCaptures(value.captures, at('captures')));
+  issues.push(...validateSteps(value.steps, at('steps')));
+  issues.push(...validateRuns(value.runs, at('runs'), value.environment));
+  issues.push(...validateAnnotations(value.annotations, at('annotations')));
+  return issues;
+}
+
+function validateCaptures(captures: unknown, path: string): ValidationIssue[] {
+  if (!Array.isArray(captures)) return [{ path, message: captures === undefined ? MISSING : NOT_LIST }];
+  const issues: ValidationIssue[] = [];
+  captures.forEach((capture, index) => {
+    const capturePath = `${path}[${index}]`;
+    if (!isObject(capture)) {
+      issues.push({ path: capturePath, message: NOT_OBJECT });
+      return;
+    }
+    for (const [key, rule] of Object.entries(CAPTURE_RULES)) {
+      const problem = rule(capture[key]);
+      if (problem) issues.push({ path: `${capturePath}.${key}`, message: capture[key] === undefined ? MISSING : problem });
+    }
+  });
+  return issues;
+}
+
+// Exécutions des autres environnements : une par environnement, distinct de celui de l'exécution en cours
+function validateRuns(runs: unknown, path: string, environment: unknown): ValidationIssue[] {
+  if (!Array.isArray(runs)) return [{ path, message: runs === undefined ? MISSING : NOT_LIST }];
+  const issues: ValidationIssue[] = [];
+  const seen = new Set([environment]);
+  runs.forEach((run, index) => {
+    const runPath = `${path}[${index}]`;
+    if (!isObject(run)) {
+      issues.push({ path: runPath, message: NOT_OBJECT });
+      return;
+    }
+    const rules = { environment: isId, date: isDate, conclusion: FIELD_RULES.conclusion };
+    for (const [key, rule] of Object.entries(rules)) {
+      const problem = rule(run[key]);
+      if (problem) issues.push({ path: `${runPath}.${key}`, message: run[key] === undefined ? MISSING : problem });
+    }
+    if (seen.has(run.environment)) issues.push({ path: `${runPath}.environment`, message: message('validation.duplicateRun') });
+    seen.add(run.environment);
+    issues.push(...validateCaptures(run.captures, `${runPath}.captures`));
+    if (!isObject(run.results)) {
+      issues.push({ path: `${runPath}.results`, message: run.results === undefined ? MISSING : NOT_OBJECT });
+      return;
+    }
+    for (const [stepId, result] of Object.entries(run.results)) {
+      const resultPath = `${runPath}.results.${stepId}`;
+      if (!isObject(result)) {
+        issues.push({ path: resultPath, message: NOT_OBJECT });
+        continue;
+      }
+      for (const [key, rule] of Object.entries(RESULT_RULES)) {
+        const problem = rule(result[key]);
+        if (problem) issues.push({ path: `${resultPath}.${key}`, message: result[key] === undefined ? MISSING : problem });
+      }
+    }
+  });
+  return issues;
+}
+
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+// Champs numériques attendus pour chaque type d'annotation
+const ANNOTATION_FIELDS: Record<Annotation['type'], string[]> = {
+  arrow: ['x1', 'y1', 'x2', 'y2'],
+  rect: ['x', 'y', 'width', 'height'],
+  highlight: ['x', 'y', 'width', 'height'],
+  blur: ['x', 'y', 'width', 'height'],
+  pixelate: ['x', 'y', 'width', 'height'],
+  callout: ['x', 'y', 'number'],
+  text: ['x', 'y']
+};
+
+function validateAnnotations(annotations: unknown, path: string): ValidationIssue[] {
+  if (!isObject(annotations)) return [{ path, message: annotations === undefined ? MISSING : NOT_OBJECT }];
+  const issues: ValidationIssue[] = [];
+  for (const [id, entry] of Object.entries(annotations)) {
+    const entryPath = `${path}.${id}`;
+    if (!isObject(entry)) {
+      issues.push({ path: entryPath, message: NOT_OBJECT });
+      continue;
+    }
+    const original = CAPTURE_RULES.image(entry.original);
+    if (original) issues.push({ path: `${entryPath}.original`, message: original });
+    if (!Array.isArray(entry.annotations)) {
+      issues.push({ path: `${entryPath}.annotations`, message: NOT_LIST });
+      continue;
+    }
+    entry.annotations.forEach((annotation, index) => {
+      const annotationPath = `${entryPath}.annotations[${index}]`;
+      const fields = isObject(annotation) && typeof annotation.type === 'string'
+        ? ANNOTATION_FIELDS[annotation.type as Annotation['type']]
+        : undefined;
+      if (!fields) {
+        issues.push({ path: annotationPath, message: message('validation.annotation', { types: Object.keys(ANNOTATION_FIELDS).join(', ') }) });
+        return;
+      }
+      if (typeof annotation.color !== 'string') issues.push({ path: `${annotationPath}.color`, message: message('validation.color') });
+      if (annotation.type === 'text' && typeof annotation.text !== 'string') {
+        issues.push({ path: `${annotationPath}.text`, message: message('validation.string') });
+      }
+      fields
+        .filter(field => !isNumber(annotation[field]))
+        .forEach(field => issues.push({ path: `${annotationPath}.${field}`, message: message('validation.number') }));
+    });
+  }
+  return issues;
+}
+
+// Contrôle une liste d'étapes (celles d'un cahier ou d'un modèle de cahier).
+export function validateSteps(steps: unknown[], path = 'steps'): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seenIds = new Set<string>();
+  steps.forEach((step, index) => {
+    const stepPath = `${path}[${index}]`;
+    if (!isObject(step)) {
+      issues.push({ path: stepPath, message: NOT_OBJECT });
+      return;
+    }
+    for (const [key, rule] of Object.entries(STEP_RULES)) {
+      const problem = rule(step[key]);
+      if (problem) issues.push({ path: `${stepPath}.${key}`, message: step[key] === undefined ? MISSING : problem });
+    }
+    if (typeof step.id === 'string') {
+      if (seenIds.has(step.id)) issues.push({ path: `${stepPath}.id`, message: message('validation.duplicateId') });
+      seenIds.add(step.id);
+    }
+  });
+  return issues;
+}
+
+export function toCahierFile(data: AppData): CahierFile {
+  return { schemaVersion: SCHEMA_VERSION, exportedAt: new Date().toISOString(), cahier: data };
+}
+
+// Lit un fichier exporté, quelle que soit sa version, et renvoie un cahier valide.
+// Complète un cahier conservé sans numéro de format (brouillons et instantanés locaux) avec les champs
+// apparus depuis : les migrations ne font qu'ajouter les valeurs par défaut manquantes.
+export function upgradeCahier(cahier: AppData): AppData {
+  let file: JsonObject = { schemaVersion: 1, cahier };
+  for (let version = 1; version < SCHEMA_VERSION; version++) {
+    file = MIGRATIONS[version](file);
+  }
+  return file.cahier as AppData;
+}
+
+export function parseCahierFile(text: string): AppData {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new CahierImportError(message('import.invalidJson'));
+  }
+  if (!isObject(json)) throw new CahierImportError(message('import.notCahier'));
+
+  let file = json;
+  const declared = file.schemaVersion === undefined ? 0 : file.schemaVersion;
+  if (typeof declared !== 'number' || !Number.isInteger(declared) || declared < 0) {
+    throw new CahierImportError(message('import.invalidVersion', { version: JSON.stringify(file.schemaVersion) }));
+  }
+  let version = declared;
+  if (version > SCHEMA_VERSION) {
+    throw new CahierImportError(message('import.newerVersion', { version }));
+  }
+  for (; version < SCHEMA_VERSION; version++) {
+    file = MIGRATIONS[version](file);
+  }
+
+  const issues = validateAppData(file.cahier, 'cahier');
+  if (issues.length > 0) {
+    throw new CahierImportError(message('import.invalidFields'), issues);
+  }
+  return file.cahier as AppData;
+}
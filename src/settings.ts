@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Locale } from './types';
+
+// Préférences propres au poste de l'utilisateur, conservées dans localStorage.
+const STORAGE_KEY = 'cahier-recette:settings';
+
+export interface ImageSettings {
+  // Taille maximale acceptée pour un fichier image, en Mo
+  maxFileSizeMb: number;
+  // Plus grand côté, en pixels, au-delà duquel l'image est réduite
+  maxDimension: number;
+  // Qualité JPEG de ré-encodage, entre 0 et 1
+  quality: number;
+  // Taille, en Ko, au-delà de laquelle une image est ré-encodée même sans être réduite
+  reencodeAboveKb: number;
+}
+
+export interface AppSettings {
+  // Langue de l'interface ; celle du document se choisit par cahier
+  language: Locale;
+  // Nom reporté comme auteur dans les métadonnées des PDF générés
+  author: string;
+  image: ImageSettings;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  language: 'fr',
+  author: '',
+  image: {
+    maxFileSizeMb: 10,
+    maxDimension: 1600,
+    quality: 0.85,
+    reencodeAboveKb: 300
+  }
+};
+
+export function loadSettings(): AppSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return {
+      ...DEFAULT_SETTINGS,
+      ...stored,
+      image: { ...DEFAULT_SETTINGS.image, ...stored.image }
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: AppSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,42 @@
+// @vitest-environment jsdom
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { matchShortcut } from './shortcuts';
+
+const press = (init: KeyboardEventInit, target: Element = document.body) => {
+  const event = new KeyboardEvent('keydown', init);
+  Object.defineProperty(event, 'target', { value: target });
+  return matchShortcut(event)?.id;
+};
+
+describe('matchShortcut', () => {
+  it('reconnaît Ctrl/Cmd sur le caractère, quelle que soit la disposition', () => {
+    // AZERTY : la touche Z est à l'emplacement physique du W en QWERTY
+    expect(press({ key: 'z', code: 'KeyW', ctrlKey: true })).toBe('undo');
+    expect(press({ key: 'w', code: 'KeyZ', ctrlKey: true })).toBeUndefined();
+    expect(press({ key: 'Z', code: 'KeyW', metaKey: true, shiftKey: true })).toBe('redo');
+    expect(press({ key: 'k', code: 'KeyK', metaKey: true })).toBe('palette');
+  });
+
+  it('accepte Maj pour produire « / »', () => {
+    expect(press({ key: '/', code: 'Period', ctrlKey: true, shiftKey: true })).toBe('help');
+    expect(press({ key: '/', code: 'Slash', ctrlKey: true })).toBe('help');
+  });
+
+  it('reconnaît Alt sur la touche physique', () => {
+    // macOS : Alt+N produit « ~ »
+    expect(press({ key: '~', code: 'KeyN', altKey: true })).toBe('newStep');
+    expect(press({ key: 'ArrowDown', code: 'ArrowDown', altKey: true })).toBe('nextStep');
+  });
+
+  it('laisse à l\'éditeur les combinaisons qu\'il utilise', () => {
+    const editor = document.createElement('div');
+    editor.className = 'ql-editor';
+    expect(press({ key: 'k', code: 'KeyK', ctrlKey: true }, editor)).toBeUndefined();
+    expect(press({ key: 's', code: 'KeyS', ctrlKey: true }, editor)).toBe('save');
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type ShortcutId =
+  | 'palette' | 'help' | 'save' | 'print' | 'preview' | 'newStep'
+  | 'nextStep' | 'previousStep' | 'toggleConclusion' | 'undo' | 'redo';
+
+export interface Shortcut {
+  // Libellé : clé `shortcut.<id>` des traductions
+  id: ShortcutId;
+  keys: string;
+  // Caractère produit (KeyboardEvent.key) pour Ctrl/Cmd : Ctrl+Z reste sur la touche Z en AZERTY
+  key?: string;
+  // Touche physique (KeyboardEvent.code) pour Alt : Alt+lettre produit un autre caractère sous macOS
+  code?: string;
+  mod?: boolean;
+  alt?: boolean;
+  shift?: boolean;
+  // Actif dans l'éditeur de texte riche ; désactivé quand Quill utilise déjà la combinaison
+  // (Ctrl+K pour les liens, historique propre, Alt+flèches et Alt+lettre pour la saisie)
+  inEditor?: boolean;
+  // Actif dans les champs de saisie (titres, résultats…)
+  inFields?: boolean;
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { id: 'palette', keys: 'Ctrl+K', key: 'k', mod: true, inFields: true },
+  { id: 'help', keys: 'Ctrl+/', key: '/', mod: true, inEditor: true, inFields: true },
+  { id: 'save', keys: 'Ctrl+S', key: 's', mod: true, inEditor: true, inFields: true },
+  { id: 'print', keys: 'Ctrl+P', key: 'p', mod: true, inEditor: true, inFields: true },
+  { id: 'preview', keys: 'Alt+P', code: 'KeyP', alt: true, inFields: true },
+  { id: 'newStep', keys: 'Alt+N', code: 'KeyN', alt: true, inFields: true },
+  { id: 'nextStep', keys: 'Alt+↓', code: 'ArrowDown', alt: true, inFields: true },
+  { id: 'previousStep', keys: 'Alt+↑', code: 'ArrowUp', alt: true, inFields: true },
+  { id: 'toggleConclusion', keys: 'Alt+O', code: 'KeyO', alt: true, inFields: true },
+  { id: 'undo', keys: 'Ctrl+Z', key: 'z', mod: true, inFields: true },
+  { id: 'redo', keys: 'Ctrl+Shift+Z', key: 'z', mod: true, shift: true, inFields: true },
+  { id: 'redo', keys: 'Ctrl+Y', key: 'y', mod: true, inFields: true }
+];
+
+// Raccourcis affichés à côté des commandes (le premier quand une action en a plusieurs)
+export const SHORTCUT_KEYS = Object.fromEntries(
+  [...SHORTCUTS].reverse().map(shortcut => [shortcut.id, shortcut.keys])
+) as Record<ShortcutId, string>;
+
+export const isRichTextTarget = (target: EventTarget | null) =>
+  !!(target as HTMLElement | null)?.closest?.('.ql-editor');
+
+const isFieldTarget = (target: EventTarget | null) =>
+  !!(target as HTMLElement | null)?.closest?.('input, textarea, select, [contenteditable="true"]');
+
+// Raccourci correspondant à la frappe, compte tenu de l'endroit où elle a lieu
+export function matchShortcut(e: KeyboardEvent): Shortcut | undefined {
+  const shortcut = SHORTCUTS.find(candidate =>
+    (candidate.key ? candidate.key === e.key?.toLowerCase() : candidate.code === e.code)
+    && !!candidate.mod === (e.ctrlKey || e.metaKey)
+    && !!candidate.alt === e.altKey
+    // Un signe comme « / » demande Maj sur certaines dispositions : Maj ne compte que pour les lettres
+    && (!!candidate.shift === e.shiftKey || (!!candidate.key && !/^[a-z]$/.test(candidate.key))));
+  if (!shortcut) return undefined;
+  if (isRichTextTarget(e.target)) return shortcut.inEditor ? shortcut : undefined;
+  if (isFieldTarget(e.target)) return shortcut.inFields ? shortcut : undefined;
+  return shortcut;
+}
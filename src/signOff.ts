@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Signature, SignOff, WorkflowStatus } from './types';
+
+export const WORKFLOW_LABELS: Record<WorkflowStatus, string> = {
+  BROUILLON: 'Brouillon',
+  EN_REVUE: 'En revue',
+  VALIDE: 'Validé',
+  REFUSE: 'Refusé'
+};
+
+export const WORKFLOW_CLASSES: Record<WorkflowStatus, string> = {
+  BROUILLON: 'bg-slate-100 text-slate-600',
+  EN_REVUE: 'bg-amber-100 text-amber-700',
+  VALIDE: 'bg-emerald-100 text-emerald-700',
+  REFUSE: 'bg-red-100 text-red-700'
+};
+
+// État initial, et retour en brouillon (reprise après refus, retrait de la revue, déverrouillage) : signatures effacées
+export const DRAFT_SIGN_OFF: SignOff = { status: 'BROUILLON', tester: null, validator: null };
+
+// Les étapes ne sont plus modifiables une fois le cahier validé
+export const isLocked = (signOff: SignOff) => signOff.status === 'VALIDE';
+
+// La conclusion est figée dès la soumission : c'est elle que le valideur examine
+export const isConclusionLocked = (signOff: SignOff) => signOff.status !== 'BROUILLON';
+
+export const submitForReview = (tester: Signature): SignOff => ({ status: 'EN_REVUE', tester, validator: null });
+
+export const decide = (signOff: SignOff, status: 'VALIDE' | 'REFUSE', validator: Signature): SignOff =>
+  ({ ...signOff, status, validator });
+
+// Cartouche de signatures du document imprimé ; les cases vides restent à signer à la main.
+// `role` désigne le libellé de la case (clé `signature.*` des traductions).
+export const signatureBlocks = (signOff: SignOff) => [
+  { role: 'executedBy' as const, signature: signOff.tester },
+  { role: signOff.status === 'REFUSE' ? 'refusedBy' as const : 'validatedBy' as const, signature: signOff.validator }
+];
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { renderSqlQuery } from './sqlTemplates';
+import { makeCahier } from './testFixtures';
+
+const render = (sql: string) => renderSqlQuery({ id: 'q', name: 'Requête', sql }, makeCahier());
+
+describe('renderSqlQuery', () => {
+  it('remplace les marqueurs par les valeurs du cahier', () => {
+    expect(render("select * from t where a like '%{jiraDigits}J%' and env = '{environment}';"))
+      .toBe("select * from t where a like '%1234J%' and env = 'REC';");
+  });
+
+  it('double les apostrophes des valeurs', () => {
+    expect(render("where name = '{jiraName}'")).toBe("where name = 'Contrôle de l''export'");
+  });
+
+  it('laisse tels quels les marqueurs inconnus, hérités d\'Object compris', () => {
+    expect(render('{inconnu} {constructor} {toString} {__proto__}')).toBe('{inconnu} {constructor} {toString} {__proto__}');
+  });
+});
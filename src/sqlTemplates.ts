@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AppData, QueryTemplate } from './types';
+
+// Modèles fournis avec l'application, non modifiables. Les identifiants `data` et `app`
+// correspondent aux deux requêtes historiques (ancien champ `sqlQueryType`).
+export const BUILT_IN_TEMPLATES: QueryTemplate[] = [
+  {
+    id: 'data',
+    name: 'Modif. Données (scripts)',
+    sql: "select * from ps_s1_scripts_tbl where s1_script_name like '%{jiraDigits}J%';",
+    builtIn: true
+  },
+  {
+    id: 'app',
+    name: 'Modif. Applicative (projet)',
+    sql: "select * from psprojectdefn where projectname like '%{jiraDigits}J%';",
+    builtIn: true
+  },
+  {
+    id: 'peoplecode',
+    name: 'PeopleCode du projet',
+    sql: "select * from pspcmprog where (objectvalue1, objectvalue2) in (select objectvalue1, objectvalue2 from psprojectitem where projectname like '%{jiraDigits}J%');",
+    builtIn: true
+  },
+  {
+    id: 'app-engine',
+    name: 'App Engine du projet',
+    sql: "select * from psaeappldefn where ae_applid in (select objectvalue1 from psprojectitem where projectname like '%{jiraDigits}J%' and objecttype = 33);",
+    builtIn: true
+  },
+  {
+    id: 'records',
+    name: 'Définitions d\'enregistrements',
+    sql: "select * from psrecdefn where recname in (select objectvalue1 from psprojectitem where projectname like '%{jiraDigits}J%' and objecttype = 0);",
+    builtIn: true
+  }
+];
+
+// Marqueurs utilisables dans les requêtes ; description : clé `sqlTemplate.placeholder.<nom>` des traductions
+export const PLACEHOLDERS = ['jiraDigits', 'jiraNumber', 'jiraName', 'environment', 'date'] as const;
+
+export function getPlaceholderValues(data: AppData): Record<string, string> {
+  return {
+    jiraDigits: data.jiraNumber.replace(/\D/g, '') || 'XXXX',
+    jiraNumber: data.jiraNumber || 'JIRA-XXX',
+    jiraName: data.jiraName,
+    environment: data.environment,
+    date: data.date
+  };
+}
+
+// Seul point de rendu des requêtes : l'écran et le document imprimé passent tous deux par ici.
+// Les marqueurs s'emploient entre apostrophes : celles des valeurs (nom JIRA…) sont doublées à la mode SQL.
+// Un marqueur inconnu, y compris un nom hérité d'Object (`{constructor}`), reste tel quel.
+export function renderSqlQuery(template: QueryTemplate, data: AppData): string {
+  const values = getPlaceholderValues(data);
+  return template.sql.replace(/\{(\w+)\}/g, (match, name: string) =>
+    (Object.hasOwn(values, name) ? values[name].replace(/'/g, "''") : match));
+}
+
+// Requêtes du cahier dans l'ordre choisi, les modèles supprimés depuis étant ignorés.
+// `index` est la position dans `data.sqlQueries`.
+export function resolveQueries(data: AppData, templates: QueryTemplate[]) {
+  return data.sqlQueries.flatMap((id, index) => {
+    const template = templates.find(t => t.id === id);
+    return template ? [{ index, template, sql: renderSqlQuery(template, data) }] : [];
+  });
+}
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { StepStatus, TestStep } from './types';
+
+export const STEP_STATUS_LABELS: Record<StepStatus, string> = {
+  OK: 'OK',
+  KO: 'KO',
+  BLOQUE: 'Bloqué',
+  NON_EXECUTE: 'Non exécuté'
+};
+
+export const STEP_STATUS_CLASSES: Record<StepStatus, string> = {
+  OK: 'bg-emerald-100 text-emerald-700 border-emerald-300',
+  KO: 'bg-red-100 text-red-700 border-red-300',
+  BLOQUE: 'bg-amber-100 text-amber-700 border-amber-300',
+  NON_EXECUTE: 'bg-slate-100 text-slate-500 border-slate-300'
+};
+
+export function createStep(kind: TestStep['kind'], title: string): TestStep {
+  return {
+    id: crypto.randomUUID(),
+    kind,
+    title,
+    content: '',
+    expectedResult: '',
+    actualResult: '',
+    status: 'NON_EXECUTE',
+    anomalyRef: ''
+  };
+}
+
+// Nombre d'étapes par statut (les sections ne sont pas comptées).
+export function countStatuses(steps: TestStep[]): Record<StepStatus, number> {
+  const counts: Record<StepStatus, number> = { OK: 0, KO: 0, BLOQUE: 0, NON_EXECUTE: 0 };
+  steps.forEach(step => {
+    if (step.kind !== 'section') counts[step.status]++;
+  });
+  return counts;
+}
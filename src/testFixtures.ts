@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AppData } from './types';
+import { EMPTY_COVER_INFO } from './documentTemplates';
+import { DRAFT_SIGN_OFF } from './signOff';
+import { createStep } from './steps';
+
+// Cahier complet pour les tests ; `overrides` remplace les champs voulus
+export const makeCahier = (overrides: Partial<AppData> = {}): AppData => ({
+  jiraNumber: 'ERP-1234',
+  jiraName: 'Contrôle de l\'export',
+  type: 'TMD',
+  date: '2026-03-04',
+  environment: 'REC',
+  conclusion: 'OK',
+  conclusionText: '',
+  captures: [],
+  steps: [createStep('step', 'Étape 1')],
+  showSqlQuery: false,
+  sqlQueries: [],
+  documentTemplateId: 'default',
+  documentLanguage: 'fr',
+  coverInfo: EMPTY_COVER_INFO,
+  signOff: DRAFT_SIGN_OFF,
+  runs: [],
+  annotations: {},
+  ...overrides
+});
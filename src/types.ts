@@ -0,0 +1,268 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Types partagés entre l'application et le serveur local.
+
+export interface Capture {
+  id: string;
+  // Image encodée en data URL
+  image: string;
+  caption: string;
+}
+
+// Annotation d'une image, en pixels de l'image originale
+export type Annotation =
+  | { type: 'arrow'; color: string; x1: number; y1: number; x2: number; y2: number }
+  | { type: 'rect' | 'highlight' | 'blur' | 'pixelate'; color: string; x: number; y: number; width: number; height: number }
+  | { type: 'callout'; color: string; x: number; y: number; number: number }
+  | { type: 'text'; color: string; x: number; y: number; text: string };
+
+// Image annotée : l'original est conservé pour reprendre les annotations, le cahier affiche la version aplatie
+export interface ImageAnnotation {
+  original: string;
+  annotations: Annotation[];
+}
+
+export type StepStatus = 'OK' | 'KO' | 'BLOQUE' | 'NON_EXECUTE';
+
+// Une section regroupe les étapes qui la suivent, jusqu'à la section suivante.
+// Les champs de résultat ne sont pas utilisés pour les sections.
+export interface TestStep {
+  id: string;
+  kind: 'step' | 'section';
+  title: string;
+  content: string;
+  expectedResult: string;
+  actualResult: string;
+  status: StepStatus;
+  anomalyRef: string;
+}
+
+// Informations de page de garde ; le modèle de document choisit celles qui sont imprimées.
+export interface CoverInfo {
+  project: string;
+  lot: string;
+  version: string;
+  tester: string;
+  validator: string;
+}
+
+// Cycle de validation : Brouillon → En revue → Validé ou Refusé
+export type WorkflowStatus = 'BROUILLON' | 'EN_REVUE' | 'VALIDE' | 'REFUSE';
+
+export interface Signature {
+  name: string;
+  // Date ISO de la signature
+  signedAt: string;
+  comment: string;
+  // Signature manuscrite en data URL PNG, vide si non dessinée
+  image: string;
+}
+
+export interface SignOff {
+  status: WorkflowStatus;
+  // Personne ayant exécuté les tests, signe au passage en revue
+  tester: Signature | null;
+  // Personne ayant validé ou refusé le cahier
+  validator: Signature | null;
+}
+
+// Environnement PeopleSoft proposé pour les exécutions ; liste gérée sur le serveur
+export interface TestEnvironment {
+  name: string;
+  description: string;
+}
+
+export type StepResult = Pick<TestStep, 'status' | 'actualResult' | 'anomalyRef'>;
+
+// Passage des étapes sur un environnement
+export interface ExecutionRun {
+  environment: string;
+  date: string;
+  captures: Capture[];
+  // Résultats par identifiant d'étape ; une étape absente n'a pas été exécutée sur cet environnement
+  results: Record<string, StepResult>;
+  conclusion: 'OK' | 'KO';
+}
+
+// Langues de l'interface et des documents
+export type Locale = 'fr' | 'en';
+
+export interface AppData {
+  jiraNumber: string;
+  jiraName: string;
+  type: 'TMD' | 'TMA';
+  // Environnement, date, captures, statuts des étapes et conclusion : exécution principale
+  // (les recherches et les campagnes s'appuient sur elle)
+  date: string;
+  environment: string;
+  conclusion: 'OK' | 'KO';
+  // Synthèse rédigée sous la conclusion (vide si non renseignée)
+  conclusionText: string;
+  // Captures d'exécution des requêtes, dans l'ordre d'affichage
+  captures: Capture[];
+  steps: TestStep[];
+  showSqlQuery: boolean;
+  // Identifiants des modèles de requêtes SQL de vérification, dans l'ordre d'affichage
+  sqlQueries: string[];
+  // Modèle de document utilisé pour l'impression et le PDF
+  documentTemplateId: string;
+  // Langue du document imprimé et des exports, indépendante de celle de l'interface
+  documentLanguage: Locale;
+  coverInfo: CoverInfo;
+  signOff: SignOff;
+  // Exécutions sur les autres environnements (une par environnement)
+  runs: ExecutionRun[];
+  // Images annotées, par identifiant de capture ou par attribut data-annotation des images d'étape
+  annotations: Record<string, ImageAnnotation>;
+}
+
+// Étape réutilisable de la bibliothèque (connexion, navigation, contrôle SQL…)
+export interface StepSnippet {
+  id: string;
+  // Module ERP ou thème, pour le classement et la recherche
+  category: string;
+  title: string;
+  content: string;
+  expectedResult: string;
+  builtIn?: boolean;
+}
+
+// Point de départ d'un nouveau cahier pour un type de modification
+export interface CahierTemplate {
+  id: string;
+  name: string;
+  category: string;
+  description: string;
+  type: AppData['type'];
+  sqlQueries: string[];
+  steps: TestStep[];
+  builtIn?: boolean;
+}
+
+// Modèle de requête SQL. Les marqueurs {jiraDigits}, {jiraNumber}… sont remplacés au rendu.
+export interface QueryTemplate {
+  id: string;
+  name: string;
+  sql: string;
+  builtIn?: boolean;
+}
+
+export type DocumentSection = 'details' | 'steps' | 'conclusion';
+
+// Présentation du document imprimé : logo, couleurs, page de garde, pied de page et parties.
+export interface DocumentTemplate {
+  id: string;
+  name: string;
+  // URL ou data URL du logo de la page de garde
+  logo: string;
+  coverLabel: string;
+  footerText: string;
+  colors: {
+    // Bandeau d'en-tête : case du numéro JIRA, puis case du nom
+    headerLeft: string;
+    headerRight: string;
+    // Titres des parties et des sections, puis titres des étapes
+    heading: string;
+    stepTitle: string;
+  };
+  coverFields: (keyof CoverInfo)[];
+  // Parties du document, dans l'ordre d'impression
+  // `titleEn` : titre dans les documents en anglais, libellé par défaut de la partie si vide
+  sections: { id: DocumentSection; title: string; titleEn?: string }[];
+  builtIn?: boolean;
+}
+
+// Résumé d'un cahier tel que renvoyé par la liste du serveur.
+export interface CahierSummary {
+  jiraNumber: string;
+  jiraName: string;
+  type: AppData['type'];
+  date: string;
+  environment: AppData['environment'];
+  conclusion: AppData['conclusion'];
+  workflowStatus: WorkflowStatus;
+  archived: boolean;
+  updatedAt: string;
+}
+
+// Ticket Jira, réduit aux champs utilisés pour préremplir un cahier
+export interface JiraIssue {
+  key: string;
+  summary: string;
+  // Type Jira d'origine, et type de cahier qui lui correspond
+  issueType: string;
+  type: AppData['type'];
+  project: string;
+  assignee: string | null;
+  fixVersions: string[];
+  url: string;
+}
+
+// Critères de recherche dans la liste des cahiers.
+export interface CahierFilters {
+  q?: string;
+  type?: AppData['type'];
+  conclusion?: AppData['conclusion'];
+  from?: string;
+  to?: string;
+  archived?: boolean;
+}
+
+// Campagne de recette : regroupe les cahiers d'une version livrée (Version de la page de garde)
+// et/ou d'une période (date du cahier). Les critères vides sont ignorés.
+export interface Campaign {
+  id: string;
+  name: string;
+  release: string;
+  from: string;
+  to: string;
+}
+
+// Texte échangé avec l'assistant de rédaction : blocs simples, convertis en HTML Quill côté navigateur
+export interface AssistantBlock {
+  type: 'paragraph' | 'bullet' | 'ordered';
+  text: string;
+}
+
+export interface ProposedStep {
+  title: string;
+  blocks: AssistantBlock[];
+  expectedResult: string;
+}
+
+export interface StepsRequest {
+  jiraName: string;
+  description: string;
+  type: AppData['type'];
+}
+
+export interface RewriteRequest {
+  title: string;
+  blocks: AssistantBlock[];
+}
+
+export interface ConclusionRequest {
+  jiraNumber: string;
+  jiraName: string;
+  conclusion: AppData['conclusion'];
+  steps: Pick<TestStep, 'title' | 'status' | 'expectedResult' | 'actualResult' | 'anomalyRef'>[];
+}
+
+// Contrôles avant impression : portée d'une règle selon le type de cahier, réglée pour toute l'équipe
+export type PrintRuleScope = Record<AppData['type'], boolean>;
+
+export type PrintRuleSettings = Record<string, PrintRuleScope>;
+
+export interface PrintIssue {
+  ruleId: string;
+  severity: 'error' | 'warning';
+  message: string;
+  // Champ du cahier concerné, ou de l'étape quand `stepId` est renseigné
+  field: string;
+  stepId?: string;
+  // Exécution concernée quand ce n'est pas l'exécution principale
+  environment?: string;
+}
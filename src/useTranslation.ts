@@ -0,0 +1,17 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createContext, useContext, useMemo } from 'react';
+import type { Locale } from './types';
+import { translator } from './i18n';
+
+// Langue de l'interface, fournie par App aux composants
+export const LocaleContext = createContext<Locale>('fr');
+
+export function useTranslation() {
+  const locale = useContext(LocaleContext);
+  const t = useMemo(() => translator(locale), [locale]);
+  return { locale, t };
+}
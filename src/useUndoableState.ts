@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useState, type SetStateAction } from 'react';
+
+const MAX_HISTORY = 100;
+// Les modifications successives d'un même champ dans ce délai forment une seule entrée d'historique
+const COALESCE_DELAY = 1000;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null;
+  lastAt: number;
+}
+
+export interface UpdateOptions {
+  coalesceKey?: string;
+}
+
+// État React avec historique d'annulation / rétablissement.
+export function useUndoableState<T>(initial: T | (() => T)) {
+  const [history, setHistory] = useState<History<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: [],
+    lastKey: null,
+    lastAt: 0
+  }));
+
+  const setState = useCallback((action: SetStateAction<T>, options: UpdateOptions = {}) => {
+    setHistory(h => {
+      const next = typeof action === 'function' ? (action as (prev: T) => T)(h.present) : action;
+      if (Object.is(next, h.present)) return h;
+
+      const now = Date.now();
+      const key = options.coalesceKey ?? null;
+      if (key && key === h.lastKey && now - h.lastAt < COALESCE_DELAY) {
+        return { ...h, present: next, future: [], lastAt: now };
+      }
+      return {
+        past: [...h.past, h.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+        lastKey: key,
+        lastAt: now
+      };
+    });
+  }, []);
+
+  // Remplace l'état sans possibilité d'annuler (ouverture d'un autre document…)
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [], lastKey: null, lastAt: 0 });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+        lastKey: null,
+        lastAt: 0
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return {
+        past: [...h.past, h.present],
+        present: h.future[0],
+        future: h.future.slice(1),
+        lastKey: null,
+        lastAt: 0
+      };
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    setState,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+}